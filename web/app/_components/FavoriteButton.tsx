@@ -0,0 +1,35 @@
+"use client";
+import React, { useState, useTransition } from "react";
+import { addFavoriteAction, removeFavoriteAction } from "../me/words/actions";
+import styles from "./FavoriteButton.module.css";
+
+/**
+ * 加入 / 移出個人單字本的切換按鈕（先更新畫面，失敗時還原）。
+ */
+export default function FavoriteButton({ vocabEntryId, initialFavorited }: { vocabEntryId: string; initialFavorited: boolean }) {
+  const [favorited, setFavorited] = useState(initialFavorited);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  function toggle() {
+    const next = !favorited;
+    setFavorited(next);
+    setError(null);
+    startTransition(async () => {
+      const res = next ? await addFavoriteAction(vocabEntryId) : await removeFavoriteAction(vocabEntryId);
+      if (!res.ok) {
+        setFavorited(!next);
+        setError(res.error);
+      }
+    });
+  }
+
+  return (
+    <span className={styles.wrapper}>
+      <button type="button" onClick={toggle} disabled={pending} aria-pressed={favorited} className={favorited ? styles.on : styles.off}>
+        {favorited ? "★ Saved｜已收藏" : "☆ Save｜加入單字本"}
+      </button>
+      {error && <span className={styles.error}>{error}</span>}
+    </span>
+  );
+}
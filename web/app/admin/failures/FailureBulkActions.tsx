@@ -0,0 +1,61 @@
+"use client";
+import React, { useState, useTransition } from "react";
+import { retryFailureGroupsAction, updateFailureStatusAction } from "./actions";
+import type { FailedJobStatus } from "../../../lib/admin/failures";
+import styles from "../admin.module.css";
+
+/**
+ * 失敗分組的批次操作列：與表格中的 checkbox（name="fingerprint"）搭配，
+ * 讀取同一個 form 內的勾選項目後執行批次變更或重試。
+ */
+export default function FailureBulkActions({ formId }: { formId: string }) {
+  const [message, setMessage] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  function selected(): string[] {
+    const form = document.getElementById(formId) as HTMLFormElement | null;
+    if (!form) return [];
+    return new FormData(form).getAll("fingerprint").map(String);
+  }
+
+  function run(kind: "retry" | FailedJobStatus) {
+    const fingerprints = selected();
+    if (fingerprints.length === 0) {
+      setMessage("Select at least one group.");
+      return;
+    }
+    setMessage(null);
+    startTransition(async () => {
+      const res =
+        kind === "retry"
+          ? await retryFailureGroupsAction(fingerprints)
+          : await updateFailureStatusAction(fingerprints, kind);
+      if (!res.ok) {
+        setMessage(res.error);
+        return;
+      }
+      setMessage(kind === "retry" ? `Re-queued ${res.count} job(s)` : `Updated ${res.count} failure(s)`);
+    });
+  }
+
+  return (
+    <span className={styles.actions}>
+      <button type="button" disabled={pending} onClick={() => run("retry")}>
+        Retry jobs
+      </button>
+      <button type="button" disabled={pending} onClick={() => run("acknowledged")}>
+        Acknowledge
+      </button>
+      <button type="button" disabled={pending} onClick={() => run("resolved")}>
+        Resolve
+      </button>
+      <button type="button" disabled={pending} onClick={() => run("ignored")}>
+        Ignore
+      </button>
+      <button type="button" disabled={pending} onClick={() => run("open")}>
+        Reopen
+      </button>
+      {message && <span className={styles.muted}>{message}</span>}
+    </span>
+  );
+}
@@ -0,0 +1,91 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { listGroupFailures } from "../../../../lib/admin/failures";
+import FailureBulkActions from "../FailureBulkActions";
+import styles from "../../admin.module.css";
+
+/**
+ * /admin/failures/[fingerprint] 單一失敗分組（僅 admin，由 proxy.ts 檢查）
+ *
+ * 列出同一指紋的所有失敗與對應 job 的目前狀態，並提供整組的重試與狀態變更。
+ */
+
+export const metadata: Metadata = {
+  title: "Failure group｜失敗分組",
+};
+
+const FORM_ID = "failure-group";
+
+export default async function AdminFailureGroupPage({ params }: { params: Promise<{ fingerprint: string }> }) {
+  const { fingerprint } = await params;
+  if (!/^[0-9a-z]{1,64}$/.test(fingerprint)) notFound();
+  const failures = await listGroupFailures(fingerprint);
+  if (failures.length === 0) notFound();
+  const latest = failures[0];
+
+  return (
+    <main className={styles.page}>
+      <h1>Failure group {fingerprint}</h1>
+      <p>
+        <Link href="/admin/failures">← All failures</Link>
+      </p>
+
+      <dl className={styles.fields}>
+        <dt>Stage</dt>
+        <dd>{latest.stage ?? "—"}</dd>
+        <dt>Error code</dt>
+        <dd>{latest.errorCode ?? "—"}</dd>
+        <dt>Failures</dt>
+        <dd>{failures.length}</dd>
+      </dl>
+
+      <section>
+        <h2>Latest error</h2>
+        <pre className={`${styles.code} ${styles.message}`}>{latest.errorMessage}</pre>
+      </section>
+
+      <form id={FORM_ID}>
+        <input type="hidden" name="fingerprint" value={fingerprint} />
+      </form>
+      <FailureBulkActions formId={FORM_ID} />
+
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>Created</th>
+            <th>Job</th>
+            <th>Attempt</th>
+            <th>Status</th>
+            <th>Resolved by</th>
+          </tr>
+        </thead>
+        <tbody>
+          {failures.map((failure) => (
+            <tr key={failure.id}>
+              <td>{new Date(failure.createdAt).toLocaleString()}</td>
+              <td>
+                {failure.generationJobId ? (
+                  <Link href={`/admin/jobs/${failure.generationJobId}`}>{failure.jobStatus ?? "job"}</Link>
+                ) : (
+                  "—"
+                )}
+              </td>
+              <td>{failure.attempt}</td>
+              <td>
+                <span className={styles.status} data-status={failure.status}>
+                  {failure.status}
+                </span>
+              </td>
+              <td>
+                {failure.resolvedBy
+                  ? `${failure.resolvedBy} · ${failure.resolvedAt ? new Date(failure.resolvedAt).toLocaleString() : ""}`
+                  : "—"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </main>
+  );
+}
@@ -0,0 +1,81 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import {
+  FAILED_JOB_STATUSES,
+  retryFailureGroups,
+  updateFailureStatus,
+  type FailedJobStatus,
+} from "../../../lib/admin/failures";
+import type { RetryResetResult } from "../../../lib/admin/jobs";
+import { getCurrentAdmin } from "../../../lib/auth/currentUser";
+import { enqueueGenerationJobs } from "../../../lib/generation/storyScriptJobs";
+import { withTransaction } from "../../../lib/utils/pgPool";
+
+/**
+ * /admin/failures Server Actions（批次變更狀態、批次重試）。
+ */
+
+export type AdminFailureActionResult = { ok: true; count: number } | { ok: false; error: string };
+
+const fingerprintsSchema = z.array(z.string().min(1).max(64)).min(1).max(200);
+const statusSchema = z.enum(FAILED_JOB_STATUSES);
+
+function revalidateFailures(fingerprints: string[]) {
+  revalidatePath("/admin/failures");
+  for (const fingerprint of fingerprints) revalidatePath(`/admin/failures/${fingerprint}`);
+}
+
+/**
+ * 將選取分組的失敗改為指定狀態。
+ * @param fingerprints 選取的分組
+ * @param status 目標狀態
+ */
+export async function updateFailureStatusAction(
+  fingerprints: string[],
+  status: FailedJobStatus,
+): Promise<AdminFailureActionResult> {
+  const admin = await getCurrentAdmin();
+  if (!admin) return { ok: false, error: "forbidden" };
+  const parsedFingerprints = fingerprintsSchema.safeParse(fingerprints);
+  const parsedStatus = statusSchema.safeParse(status);
+  if (!parsedFingerprints.success || !parsedStatus.success) return { ok: false, error: "invalid selection" };
+
+  let count: number;
+  try {
+    count = await withTransaction((client) =>
+      updateFailureStatus(client, parsedFingerprints.data, parsedStatus.data, admin.id),
+    );
+  } catch (err) {
+    console.error("[admin] failure status update failed", { fingerprints, status, error: err });
+    return { ok: false, error: "failed to update failures" };
+  }
+
+  revalidateFailures(parsedFingerprints.data);
+  return { ok: true, count };
+}
+
+/**
+ * 重試選取分組中仍失敗的 job，提交後推回佇列。
+ * @param fingerprints 選取的分組
+ */
+export async function retryFailureGroupsAction(fingerprints: string[]): Promise<AdminFailureActionResult> {
+  const admin = await getCurrentAdmin();
+  if (!admin) return { ok: false, error: "forbidden" };
+  const parsed = fingerprintsSchema.safeParse(fingerprints);
+  if (!parsed.success) return { ok: false, error: "invalid selection" };
+
+  let result: RetryResetResult;
+  try {
+    result = await withTransaction((client) => retryFailureGroups(client, parsed.data, admin.id));
+  } catch (err) {
+    console.error("[admin] failure retry failed", { fingerprints, error: err });
+    return { ok: false, error: "failed to retry jobs" };
+  }
+
+  await enqueueGenerationJobs(result.runnableJobIds);
+  revalidateFailures(parsed.data);
+  revalidatePath("/admin/jobs");
+  return { ok: true, count: result.resetJobIds.length };
+}
@@ -0,0 +1,108 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import {
+  ACTIVE_FAILURE_STATUSES,
+  FAILED_JOB_STATUSES,
+  listFailureGroups,
+  type FailedJobStatus,
+} from "../../../lib/admin/failures";
+import FailureBulkActions from "./FailureBulkActions";
+import styles from "../admin.module.css";
+
+/**
+ * /admin/failures 失敗分組（僅 admin，由 proxy.ts 檢查）
+ *
+ * 依錯誤指紋將 failed_jobs 分組；勾選分組後可批次重試或變更處理狀態。
+ */
+
+export const metadata: Metadata = {
+  title: "Failures｜失敗處理",
+};
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+const FORM_ID = "failure-groups";
+
+function parseStatusFilter(value: string | string[] | undefined): { key: string; statuses: FailedJobStatus[] } {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (raw === "all") return { key: "all", statuses: [...FAILED_JOB_STATUSES] };
+  const status = FAILED_JOB_STATUSES.find((s) => s === raw);
+  return status ? { key: status, statuses: [status] } : { key: "active", statuses: ACTIVE_FAILURE_STATUSES };
+}
+
+export default async function AdminFailuresPage({ searchParams }: { searchParams: SearchParams }) {
+  const filter = parseStatusFilter((await searchParams).status);
+  const groups = await listFailureGroups(filter.statuses);
+
+  return (
+    <main className={styles.page}>
+      <h1>Failures｜失敗處理</h1>
+      <p>
+        <Link href="/admin/jobs">← Generation jobs</Link>
+      </p>
+
+      <form method="get" className={styles.filters}>
+        <label>
+          Status
+          <select name="status" defaultValue={filter.key}>
+            <option value="active">open + acknowledged</option>
+            {FAILED_JOB_STATUSES.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+            <option value="all">All</option>
+          </select>
+        </label>
+        <button type="submit">Filter</button>
+      </form>
+
+      <FailureBulkActions formId={FORM_ID} />
+
+      <form id={FORM_ID}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th />
+              <th>Last seen</th>
+              <th>Stage</th>
+              <th>Code</th>
+              <th>Failures</th>
+              <th>Jobs</th>
+              <th>Message</th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map((group) => (
+              <tr key={group.fingerprint}>
+                <td>
+                  <input
+                    type="checkbox"
+                    name="fingerprint"
+                    value={group.fingerprint}
+                    aria-label={`Select ${group.fingerprint}`}
+                  />
+                </td>
+                <td>
+                  <Link href={`/admin/failures/${group.fingerprint}`}>{new Date(group.lastSeen).toLocaleString()}</Link>
+                </td>
+                <td>{group.stage ?? "—"}</td>
+                <td>{group.errorCode ?? "—"}</td>
+                <td>{group.count}</td>
+                <td>{group.jobCount}</td>
+                <td className={styles.truncate}>{group.sampleMessage}</td>
+              </tr>
+            ))}
+            {groups.length === 0 && (
+              <tr>
+                <td colSpan={7} className={styles.muted}>
+                  No failures with this status.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </form>
+    </main>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+import React, { useState, useTransition } from "react";
+import { cancelJobAction, retryJobAction } from "./actions";
+import styles from "../admin.module.css";
+
+const RETRYABLE = new Set(["failed", "cancelled"]);
+const CANCELLABLE = new Set(["blocked", "pending", "failed"]);
+
+/**
+ * job 的重試 / 取消按鈕（依目前狀態顯示）。
+ */
+export default function JobActions({ jobId, status }: { jobId: string; status: string }) {
+  const [message, setMessage] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  function run(kind: "retry" | "cancel") {
+    if (kind === "cancel" && !window.confirm("Cancel this job and any jobs waiting on it?")) return;
+    setMessage(null);
+    startTransition(async () => {
+      const res = kind === "retry" ? await retryJobAction(jobId) : await cancelJobAction(jobId);
+      setMessage(res.ok ? (kind === "retry" ? "Re-queued" : `Cancelled ${res.jobIds.length} job(s)`) : res.error);
+    });
+  }
+
+  return (
+    <span className={styles.actions}>
+      {RETRYABLE.has(status) && (
+        <button type="button" disabled={pending} onClick={() => run("retry")}>
+          Retry
+        </button>
+      )}
+      {CANCELLABLE.has(status) && (
+        <button type="button" disabled={pending} onClick={() => run("cancel")} className={styles.danger}>
+          Cancel
+        </button>
+      )}
+      {message && <span className={styles.muted}>{message}</span>}
+    </span>
+  );
+}
@@ -0,0 +1,106 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { z } from "zod";
+import { getJobDetail } from "../../../../lib/admin/jobs";
+import JobActions from "../JobActions";
+import styles from "../../admin.module.css";
+
+/**
+ * /admin/jobs/[id] 任務詳細：payload、失敗原因、failed_jobs 紀錄與前置工作。
+ */
+
+export const metadata: Metadata = {
+  title: "Job detail｜任務詳細",
+};
+
+export default async function AdminJobDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!z.uuid().safeParse(id).success) notFound();
+  const job = await getJobDetail(id);
+  if (!job) notFound();
+
+  return (
+    <main className={styles.page}>
+      <Link href="/admin/jobs" className={styles.muted}>
+        ← All jobs
+      </Link>
+      <h1>
+        {job.jobType} · <span className={styles.status} data-status={job.status}>{job.status}</span>
+      </h1>
+      <JobActions jobId={job.id} status={job.status} />
+
+      <dl className={styles.fields}>
+        <dt>Job ID</dt>
+        <dd>{job.id}</dd>
+        <dt>Story</dt>
+        <dd>
+          <Link href={`/admin/jobs?storyId=${job.storyId}`}>{job.storyTitle ?? job.storyId}</Link>
+        </dd>
+        <dt>Retries</dt>
+        <dd>{job.retryCount}</dd>
+        <dt>Next attempt</dt>
+        <dd>{job.nextAttemptAt ? new Date(job.nextAttemptAt).toLocaleString() : "—"}</dd>
+        <dt>Created / updated</dt>
+        <dd>
+          {new Date(job.createdAt).toLocaleString()} / {new Date(job.updatedAt).toLocaleString()}
+        </dd>
+        <dt>Result</dt>
+        <dd>{job.resultUri ?? "—"}</dd>
+        <dt>Failure reason</dt>
+        <dd>{job.failureReason ?? "—"}</dd>
+      </dl>
+
+      {job.dependsOn.length > 0 && (
+        <section>
+          <h2>Depends on</h2>
+          <ul className={styles.list}>
+            {job.dependsOn.map((d) => (
+              <li key={d.id}>
+                <Link href={`/admin/jobs/${d.id}`}>{d.jobType}</Link>{" "}
+                <span className={styles.status} data-status={d.status}>
+                  {d.status}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section>
+        <h2>Payload</h2>
+        <pre className={styles.code}>{JSON.stringify(job.payload, null, 2)}</pre>
+      </section>
+
+      <section>
+        <h2>Failures ({job.failures.length})</h2>
+        {job.failures.length === 0 ? (
+          <p className={styles.muted}>No failed_jobs records.</p>
+        ) : (
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>Code</th>
+                <th>Attempt</th>
+                <th>Message</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {job.failures.map((f) => (
+                <tr key={f.id}>
+                  <td>{new Date(f.createdAt).toLocaleString()}</td>
+                  <td>{f.errorCode ?? "—"}</td>
+                  <td>{f.attempt}</td>
+                  <td className={styles.message}>{f.errorMessage}</td>
+                  <td>{f.status}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,62 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { cancelJob, retryJob, type JobActionResult } from "../../../lib/admin/jobs";
+import { getCurrentAdmin } from "../../../lib/auth/currentUser";
+import { enqueueGenerationJobs } from "../../../lib/generation/storyScriptJobs";
+import { withTransaction } from "../../../lib/utils/pgPool";
+
+/**
+ * /admin/jobs Server Actions（重試、取消）。
+ */
+
+export type AdminJobActionResult = { ok: true; jobIds: string[] } | { ok: false; error: string };
+
+/**
+ * 執行管理操作的共用流程：檢查權限與 id、在交易中變更狀態並寫入 audit_logs。
+ */
+async function runJobAction(
+  jobId: string,
+  action: (client: Parameters<typeof retryJob>[0], userId: string) => Promise<JobActionResult>,
+): Promise<AdminJobActionResult> {
+  const admin = await getCurrentAdmin();
+  if (!admin) return { ok: false, error: "forbidden" };
+  if (!z.uuid().safeParse(jobId).success) return { ok: false, error: "invalid job id" };
+
+  let result: JobActionResult;
+  try {
+    result = await withTransaction((client) => action(client, admin.id));
+  } catch (err) {
+    console.error("[admin] job action failed", { jobId, error: err });
+    return { ok: false, error: "failed to update job" };
+  }
+  if (!result.changed) return { ok: false, error: "job not found or not in a state that allows this action" };
+
+  revalidatePath("/admin/jobs");
+  revalidatePath(`/admin/jobs/${jobId}`);
+  return { ok: true, jobIds: result.jobIds };
+}
+
+/**
+ * 重試 job：依相依關係重設，可立即執行時推回佇列（否則等待前置工作完成）。
+ * @param jobId generation_jobs.id
+ */
+export async function retryJobAction(jobId: string): Promise<AdminJobActionResult> {
+  let runnableJobIds: string[] = [];
+  const result = await runJobAction(jobId, async (client, userId) => {
+    const retried = await retryJob(client, jobId, userId);
+    runnableJobIds = retried.runnableJobIds;
+    return retried;
+  });
+  if (result.ok) await enqueueGenerationJobs(runnableJobIds);
+  return result;
+}
+
+/**
+ * 取消 job（連同等待它的 blocked 後續工作）。
+ * @param jobId generation_jobs.id
+ */
+export async function cancelJobAction(jobId: string): Promise<AdminJobActionResult> {
+  return runJobAction(jobId, (client, userId) => cancelJob(client, jobId, userId));
+}
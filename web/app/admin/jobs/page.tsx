@@ -0,0 +1,123 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { JOB_STATUSES, JOB_TYPES, jobListQuerySchema, listJobs } from "../../../lib/admin/jobs";
+import JobActions from "./JobActions";
+import styles from "../admin.module.css";
+
+/**
+ * /admin/jobs 生成任務列表（僅 admin，由 proxy.ts 檢查）
+ *
+ * 以 GET 表單依狀態、類型與故事篩選；每列可直接重試或取消。
+ */
+
+export const metadata: Metadata = {
+  title: "Generation jobs｜任務管理",
+};
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+export default async function AdminJobsPage({ searchParams }: { searchParams: SearchParams }) {
+  const raw = Object.fromEntries(Object.entries(await searchParams).map(([k, v]) => [k, Array.isArray(v) ? v[0] : v]));
+  const parsed = jobListQuerySchema.safeParse(raw);
+  const query = parsed.success ? parsed.data : jobListQuerySchema.parse({});
+  const { items, hasNext } = await listJobs(query);
+
+  const pageHref = (page: number) => {
+    const params = new URLSearchParams();
+    if (query.status) params.set("status", query.status);
+    if (query.jobType) params.set("jobType", query.jobType);
+    if (query.storyId) params.set("storyId", query.storyId);
+    params.set("page", String(page));
+    return `/admin/jobs?${params.toString()}`;
+  };
+
+  return (
+    <main className={styles.page}>
+      <h1>Generation jobs｜任務管理</h1>
+      <p>
+        <Link href="/admin/stories">Stories awaiting review →</Link> ·{" "}
+        <Link href="/admin/failures">Failures grouped by cause →</Link>
+      </p>
+      {!parsed.success && <p className={styles.error}>Invalid filters were ignored.｜篩選條件無效，已忽略。</p>}
+
+      <form method="get" className={styles.filters}>
+        <label>
+          Status
+          <select name="status" defaultValue={query.status ?? ""}>
+            <option value="">All</option>
+            {JOB_STATUSES.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Type
+          <select name="jobType" defaultValue={query.jobType ?? ""}>
+            <option value="">All</option>
+            {JOB_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Story ID
+          <input name="storyId" defaultValue={query.storyId ?? ""} placeholder="uuid" />
+        </label>
+        <button type="submit">Filter</button>
+      </form>
+
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>Created</th>
+            <th>Story</th>
+            <th>Type</th>
+            <th>Status</th>
+            <th>Retries</th>
+            <th>Failure</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((job) => (
+            <tr key={job.id}>
+              <td>
+                <Link href={`/admin/jobs/${job.id}`}>{new Date(job.createdAt).toLocaleString()}</Link>
+              </td>
+              <td>
+                <Link href={`/admin/jobs?storyId=${job.storyId}`}>{job.storyTitle ?? job.storyId}</Link>
+              </td>
+              <td>{job.jobType}</td>
+              <td>
+                <span className={styles.status} data-status={job.status}>
+                  {job.status}
+                </span>
+              </td>
+              <td>{job.retryCount}</td>
+              <td className={styles.truncate}>{job.failureReason}</td>
+              <td>
+                <JobActions jobId={job.id} status={job.status} />
+              </td>
+            </tr>
+          ))}
+          {items.length === 0 && (
+            <tr>
+              <td colSpan={7} className={styles.muted}>
+                No jobs match these filters.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <nav className={styles.pager}>
+        {query.page > 1 && <Link href={pageHref(query.page - 1)}>← Newer</Link>}
+        {hasNext && <Link href={pageHref(query.page + 1)}>Older →</Link>}
+      </nav>
+    </main>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+import React, { useState, useTransition } from "react";
+import { updateStoryPageAction } from "./actions";
+import styles from "../admin.module.css";
+
+/**
+ * 審核中單頁的英文 / 中文文字編輯。
+ */
+export default function PageTextEditor({
+  storyId,
+  pageNumber,
+  textEn,
+  textZh,
+}: {
+  storyId: string;
+  pageNumber: number;
+  textEn: string;
+  textZh: string;
+}) {
+  const [en, setEn] = useState(textEn);
+  const [zh, setZh] = useState(textZh);
+  const [message, setMessage] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+  const dirty = en !== textEn || zh !== textZh;
+
+  function save() {
+    setMessage(null);
+    startTransition(async () => {
+      const res = await updateStoryPageAction(storyId, pageNumber, en, zh);
+      setMessage(res.ok ? "Saved" : res.error);
+    });
+  }
+
+  return (
+    <div className={styles.review}>
+      <label>
+        English
+        <textarea value={en} onChange={(e) => setEn(e.target.value)} rows={4} />
+      </label>
+      <label>
+        中文
+        <textarea value={zh} onChange={(e) => setZh(e.target.value)} rows={3} />
+      </label>
+      <span className={styles.actions}>
+        <button type="button" disabled={pending || !dirty} onClick={save}>
+          Save page {pageNumber}
+        </button>
+        {message && <span className={styles.muted}>{message}</span>}
+      </span>
+    </div>
+  );
+}
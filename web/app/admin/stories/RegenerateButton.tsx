@@ -0,0 +1,39 @@
+"use client";
+import React, { useState, useTransition } from "react";
+import { regenerateStoryAction } from "./actions";
+import type { RegenerationScope } from "../../../lib/openai/types";
+import styles from "../admin.module.css";
+
+/**
+ * 重新生成故事的單頁、翻譯或精選單字（其餘內容保留，完成後故事重新送審）。
+ */
+export default function RegenerateButton({
+  storyId,
+  scope,
+  label,
+}: {
+  storyId: string;
+  scope: RegenerationScope;
+  label: string;
+}) {
+  const [message, setMessage] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  function regenerate() {
+    if (!window.confirm(`${label}? The story goes back to review once the new content and media are ready.`)) return;
+    setMessage(null);
+    startTransition(async () => {
+      const res = await regenerateStoryAction(storyId, scope);
+      setMessage(res.ok ? "Regeneration queued" : res.error);
+    });
+  }
+
+  return (
+    <span className={styles.actions}>
+      <button type="button" disabled={pending} onClick={regenerate}>
+        {label}
+      </button>
+      {message && <span className={styles.muted}>{message}</span>}
+    </span>
+  );
+}
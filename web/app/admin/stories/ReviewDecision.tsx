@@ -0,0 +1,48 @@
+"use client";
+import React, { useState, useTransition } from "react";
+import { approveStoryAction, rejectStoryAction } from "./actions";
+import styles from "../admin.module.css";
+
+/**
+ * 審核決定：核准發布，或填寫理由後退回。
+ */
+export default function ReviewDecision({ storyId }: { storyId: string }) {
+  const [reason, setReason] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  function approve() {
+    if (!window.confirm("Publish this story to readers?")) return;
+    setMessage(null);
+    startTransition(async () => {
+      const res = await approveStoryAction(storyId);
+      setMessage(res.ok ? "Approved and published" : res.error);
+    });
+  }
+
+  function reject() {
+    setMessage(null);
+    startTransition(async () => {
+      const res = await rejectStoryAction(storyId, reason);
+      setMessage(res.ok ? "Rejected" : res.error);
+    });
+  }
+
+  return (
+    <div className={styles.review}>
+      <button type="button" disabled={pending} onClick={approve}>
+        Approve &amp; publish
+      </button>
+      <label>
+        Reject reason
+        <textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={2} maxLength={500} />
+      </label>
+      <span className={styles.actions}>
+        <button type="button" disabled={pending || reason.trim().length === 0} onClick={reject} className={styles.danger}>
+          Reject
+        </button>
+        {message && <span className={styles.muted}>{message}</span>}
+      </span>
+    </div>
+  );
+}
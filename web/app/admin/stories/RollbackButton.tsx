@@ -0,0 +1,32 @@
+"use client";
+import React, { useState, useTransition } from "react";
+import { rollbackStoryAction } from "./actions";
+import styles from "../admin.module.css";
+
+/**
+ * 將故事回復到指定版本（目前內容先保存為新版本，回復後需再次核准才會公開）。
+ */
+export default function RollbackButton({ storyId, versionNumber }: { storyId: string; versionNumber: number }) {
+  const [message, setMessage] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  function rollback() {
+    if (!window.confirm(`Roll back to version ${versionNumber}? The current content is saved as a new version and the story goes back to review.`)) {
+      return;
+    }
+    setMessage(null);
+    startTransition(async () => {
+      const res = await rollbackStoryAction(storyId, versionNumber);
+      setMessage(res.ok ? "Rolled back" : res.error);
+    });
+  }
+
+  return (
+    <span className={styles.actions}>
+      <button type="button" className={styles.danger} disabled={pending} onClick={rollback}>
+        Roll back
+      </button>
+      {message && <span className={styles.muted}>{message}</span>}
+    </span>
+  );
+}
@@ -0,0 +1,123 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { z } from "zod";
+import { getStoryDetail } from "../../../../lib/stories/detail";
+import PageTextEditor from "../PageTextEditor";
+import RegenerateButton from "../RegenerateButton";
+import ReviewDecision from "../ReviewDecision";
+import styles from "../../admin.module.css";
+
+/**
+ * /admin/stories/[id] 故事審核畫面（僅 admin，由 proxy.ts 檢查）
+ *
+ * 逐頁顯示英文、中文與插圖，並列出單字；pending_review 時可修改單頁文字、核准或退回。
+ * 管線未執行中（非 scheduled / processing）時可重新生成單頁、翻譯或精選單字。
+ * 版本歷史、差異與回復見 /admin/stories/[id]/versions。
+ */
+
+export const metadata: Metadata = {
+  title: "Review story｜審核故事",
+};
+
+export default async function AdminStoryReviewPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!z.uuid().safeParse(id).success) notFound();
+  const story = await getStoryDetail(id, { publishedOnly: false });
+  if (!story) notFound();
+  const reviewable = story.status === "pending_review";
+  const regenerable = story.status !== "scheduled" && story.status !== "processing" && story.pages.length > 0;
+
+  return (
+    <main className={styles.page}>
+      <h1>
+        {story.titleEn}｜{story.titleZh}
+      </h1>
+      <p>
+        <Link href="/admin/stories">← Review queue</Link> · <Link href={`/admin/jobs?storyId=${story.id}`}>Jobs</Link> ·{" "}
+        <Link href={`/admin/stories/${story.id}/versions`}>Versions</Link>
+      </p>
+
+      <dl className={styles.fields}>
+        <dt>Status</dt>
+        <dd>
+          <span className={styles.status} data-status={story.status}>
+            {story.status}
+          </span>
+        </dd>
+        <dt>Theme</dt>
+        <dd>{story.theme}</dd>
+        <dt>Age range</dt>
+        <dd>{story.ageRange}</dd>
+        {story.synopsisEn && (
+          <>
+            <dt>Synopsis</dt>
+            <dd>
+              {story.synopsisEn}
+              {story.synopsisZh && <div className={styles.muted}>{story.synopsisZh}</div>}
+            </dd>
+          </>
+        )}
+      </dl>
+
+      {reviewable ? (
+        <ReviewDecision storyId={story.id} />
+      ) : (
+        <p className={styles.muted}>This story is not awaiting review; pages are read-only.</p>
+      )}
+
+      <section>
+        <h2>Pages</h2>
+        {regenerable && (
+          <RegenerateButton storyId={story.id} scope={{ stage: "translation" }} label="Regenerate translation" />
+        )}
+        <ol className={styles.pages}>
+          {story.pages.map((page) => (
+            <li key={page.pageNumber} className={styles.storyPage}>
+              {page.image ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={page.image.uri} alt={`Page ${page.pageNumber}`} />
+              ) : (
+                <div className={styles.muted}>No image</div>
+              )}
+              <div>
+                <h3>Page {page.pageNumber}</h3>
+                {reviewable ? (
+                  <PageTextEditor storyId={story.id} pageNumber={page.pageNumber} textEn={page.textEn} textZh={page.textZh} />
+                ) : (
+                  <>
+                    <p>{page.textEn}</p>
+                    <p className={styles.muted}>{page.textZh}</p>
+                  </>
+                )}
+                {page.audio && <audio controls src={page.audio.uri} preload="none" />}
+                {regenerable && (
+                  <RegenerateButton
+                    storyId={story.id}
+                    scope={{ stage: "page", pageNumber: page.pageNumber }}
+                    label={`Regenerate page ${page.pageNumber}`}
+                  />
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      </section>
+
+      <section>
+        <h2>Vocabulary</h2>
+        {regenerable && <RegenerateButton storyId={story.id} scope={{ stage: "vocabulary" }} label="Regenerate vocabulary" />}
+        <ul className={styles.list}>
+          {story.vocabulary.map((entry) => (
+            <li key={entry.id}>
+              <strong>{entry.word}</strong> ({entry.partOfSpeech}
+              {entry.cefrLevel ? `, ${entry.cefrLevel}` : ""}) — {entry.definitionEn}｜{entry.definitionZh}
+              {entry.exampleSentence && <div className={styles.muted}>{entry.exampleSentence}</div>}
+            </li>
+          ))}
+          {story.vocabulary.length === 0 && <li className={styles.muted}>No vocabulary.</li>}
+        </ul>
+      </section>
+    </main>
+  );
+}
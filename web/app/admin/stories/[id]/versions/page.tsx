@@ -0,0 +1,197 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import React from "react";
+import { notFound } from "next/navigation";
+import { z } from "zod";
+import {
+  captureStorySnapshot,
+  diffStorySnapshots,
+  getStoryVersion,
+  listStoryVersions,
+  type StorySnapshot,
+} from "../../../../../lib/stories/versions";
+import { getPgPool } from "../../../../../lib/utils/pgPool";
+import RollbackButton from "../../RollbackButton";
+import styles from "../../../admin.module.css";
+
+/**
+ * /admin/stories/[id]/versions 故事版本歷史（僅 admin，由 proxy.ts 檢查）
+ *
+ * 列出所有版本（發布、重新生成前、回復前），以 ?from=&to= 比較兩個版本（to=current 為目前內容），
+ * 並可回復到任一版本（管線執行中時由 rollbackStoryToVersion 拒絕）。
+ */
+
+export const metadata: Metadata = {
+  title: "Story versions｜故事版本",
+};
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+const compareSchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.union([z.literal("current"), z.coerce.number().int().min(1)]).default("current"),
+});
+
+export default async function AdminStoryVersionsPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: SearchParams;
+}) {
+  const { id } = await params;
+  if (!z.uuid().safeParse(id).success) notFound();
+  const current = await captureStorySnapshot(getPgPool(), id);
+  if (!current) notFound();
+  const versions = await listStoryVersions(id);
+
+  const raw = Object.fromEntries(Object.entries(await searchParams).map(([k, v]) => [k, Array.isArray(v) ? v[0] : v]));
+  const compare = raw.from ? compareSchema.safeParse(raw) : null;
+  let diff: ReturnType<typeof diffStorySnapshots> | null = null;
+  let compareError: string | null = compare && !compare.success ? "Invalid comparison.｜比較條件無效。" : null;
+  if (compare?.success) {
+    const load = async (which: number | "current"): Promise<StorySnapshot | null> =>
+      which === "current" ? current : ((await getStoryVersion(id, which))?.snapshot ?? null);
+    const [from, to] = await Promise.all([load(compare.data.from), load(compare.data.to)]);
+    if (from && to) diff = diffStorySnapshots(from, to);
+    else compareError = "Version not found.｜找不到版本。";
+  }
+  const label = (which: number | "current") => (which === "current" ? "current" : `v${which}`);
+
+  return (
+    <main className={styles.page}>
+      <h1>Versions｜{current.titleEn}</h1>
+      <p>
+        <Link href={`/admin/stories/${id}`}>← Story</Link>
+      </p>
+
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>Version</th>
+            <th>Reason</th>
+            <th>By</th>
+            <th>Created</th>
+            <th>Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {versions.map((v) => (
+            <tr key={v.id}>
+              <td>
+                v{v.versionNumber}{" "}
+                {v.published && (
+                  <span className={styles.status} data-status="published">
+                    published
+                  </span>
+                )}
+              </td>
+              <td>{v.reason}</td>
+              <td>{v.createdBy ?? "worker"}</td>
+              <td>{new Date(v.createdAt).toLocaleString()}</td>
+              <td className={styles.actions}>
+                <Link href={`/admin/stories/${id}/versions?from=${v.versionNumber}&to=current`}>Compare with current</Link>
+                <RollbackButton storyId={id} versionNumber={v.versionNumber} />
+              </td>
+            </tr>
+          ))}
+          {versions.length === 0 && (
+            <tr>
+              <td colSpan={5} className={styles.muted}>
+                No versions yet; a version is saved when the story is published, regenerated or rolled back.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      {versions.length > 1 && (
+        <form method="get" className={styles.filters}>
+          <label>
+            From
+            <select name="from" defaultValue={compare?.success ? String(compare.data.from) : ""}>
+              {versions.map((v) => (
+                <option key={v.id} value={v.versionNumber}>
+                  v{v.versionNumber}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            To
+            <select name="to" defaultValue={compare?.success ? String(compare.data.to) : "current"}>
+              <option value="current">current</option>
+              {versions.map((v) => (
+                <option key={v.id} value={v.versionNumber}>
+                  v{v.versionNumber}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button type="submit">Compare</button>
+        </form>
+      )}
+
+      {compareError && <p className={styles.error}>{compareError}</p>}
+      {diff && compare?.success && (
+        <section>
+          <h2>
+            {label(compare.data.from)} → {label(compare.data.to)}
+          </h2>
+          <dl className={styles.fields}>
+            {diff.fields.map((f) => (
+              <React.Fragment key={f.field}>
+                <dt>{f.field}</dt>
+                <dd>
+                  <div className={styles.diffRemoved}>{f.from ?? "—"}</div>
+                  <div className={styles.diffAdded}>{f.to ?? "—"}</div>
+                </dd>
+              </React.Fragment>
+            ))}
+            <dt>Video</dt>
+            <dd>{diff.videoChanged ? "changed" : "unchanged"}</dd>
+            <dt>Vocabulary</dt>
+            <dd>
+              {diff.vocabulary.added.length > 0 && <div className={styles.diffAdded}>+ {diff.vocabulary.added.join(", ")}</div>}
+              {diff.vocabulary.removed.length > 0 && (
+                <div className={styles.diffRemoved}>− {diff.vocabulary.removed.join(", ")}</div>
+              )}
+              {diff.vocabulary.changed.length > 0 && <div>~ {diff.vocabulary.changed.join(", ")}</div>}
+              {diff.vocabulary.added.length + diff.vocabulary.removed.length + diff.vocabulary.changed.length === 0 && "unchanged"}
+            </dd>
+          </dl>
+
+          <ol className={styles.pages}>
+            {diff.pages
+              .filter((p) => p.change !== "unchanged")
+              .map((p) => (
+                <li key={p.pageNumber}>
+                  <h3>
+                    Page {p.pageNumber} — {p.change}
+                    {p.mediaChanged && p.change === "changed" && <span className={styles.muted}> (media changed)</span>}
+                  </h3>
+                  {p.textChanged && (
+                    <>
+                      {p.from && (
+                        <div className={styles.diffRemoved}>
+                          <p>{p.from.textEn}</p>
+                          <p>{p.from.textZh}</p>
+                        </div>
+                      )}
+                      {p.to && (
+                        <div className={styles.diffAdded}>
+                          <p>{p.to.textEn}</p>
+                          <p>{p.to.textZh}</p>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </li>
+              ))}
+            {diff.pages.every((p) => p.change === "unchanged") && <li className={styles.muted}>No page changes.</li>}
+          </ol>
+        </section>
+      )}
+    </main>
+  );
+}
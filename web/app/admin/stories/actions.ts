@@ -0,0 +1,157 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import {
+  approveStory,
+  rejectReasonSchema,
+  rejectStory,
+  rollbackStoryToVersion,
+  storyPageEditSchema,
+  type StoryRollbackResult,
+  updateStoryPage,
+} from "../../../lib/admin/storyReview";
+import { getCurrentAdmin } from "../../../lib/auth/currentUser";
+import { regenerationScopeSchema, requestStoryRegeneration, type RegenerationRequestResult } from "../../../lib/generation/storyRegeneration";
+import { enqueueGenerationJobs } from "../../../lib/generation/storyScriptJobs";
+import { withTransaction } from "../../../lib/utils/pgPool";
+
+/**
+ * /admin/stories Server Actions（核准、退回、修改單頁文字、單頁 / 單一階段重新生成、回復版本）。
+ */
+
+export type StoryReviewActionResult = { ok: true } | { ok: false; error: string };
+
+type Client = Parameters<typeof approveStory>[0];
+
+/**
+ * 審核操作的共用流程：檢查權限與 id、在交易中變更並寫入 audit_logs。
+ */
+async function runReviewAction(
+  storyId: string,
+  action: (client: Client, userId: string) => Promise<boolean>,
+): Promise<StoryReviewActionResult> {
+  const admin = await getCurrentAdmin();
+  if (!admin) return { ok: false, error: "forbidden" };
+  if (!z.uuid().safeParse(storyId).success) return { ok: false, error: "invalid story id" };
+
+  let changed: boolean;
+  try {
+    changed = await withTransaction((client) => action(client, admin.id));
+  } catch (err) {
+    console.error("[admin] story review action failed", { storyId, error: err });
+    return { ok: false, error: "failed to update story" };
+  }
+  if (!changed) return { ok: false, error: "story not found or not awaiting review" };
+
+  revalidatePath("/admin/stories");
+  revalidatePath(`/admin/stories/${storyId}`);
+  return { ok: true };
+}
+
+/**
+ * 核准並發布故事。
+ * @param storyId stories.id
+ */
+export async function approveStoryAction(storyId: string): Promise<StoryReviewActionResult> {
+  const result = await runReviewAction(storyId, (client, userId) => approveStory(client, storyId, userId));
+  if (result.ok) {
+    revalidatePath("/stories");
+    revalidatePath(`/stories/${storyId}`);
+  }
+  return result;
+}
+
+/**
+ * 退回故事（需填寫理由）。
+ * @param storyId stories.id
+ * @param reason 退回理由
+ */
+export async function rejectStoryAction(storyId: string, reason: string): Promise<StoryReviewActionResult> {
+  const parsed = rejectReasonSchema.safeParse(reason);
+  if (!parsed.success) return { ok: false, error: parsed.error.issues[0]?.message ?? "invalid reason" };
+  return runReviewAction(storyId, (client, userId) => rejectStory(client, storyId, userId, parsed.data));
+}
+
+/**
+ * 修改審核中故事的單頁文字（該頁配音重新產生，建立的 job 推送佇列）。
+ * @param storyId stories.id
+ * @param pageNumber 頁碼
+ * @param textEn 英文文字
+ * @param textZh 中文文字
+ */
+export async function updateStoryPageAction(
+  storyId: string,
+  pageNumber: number,
+  textEn: string,
+  textZh: string,
+): Promise<StoryReviewActionResult> {
+  const parsed = storyPageEditSchema.safeParse({ textEn, textZh });
+  if (!parsed.success) return { ok: false, error: "page text must not be empty" };
+  if (!Number.isInteger(pageNumber) || pageNumber < 1) return { ok: false, error: "invalid page number" };
+  let jobIds: string[] = [];
+  const result = await runReviewAction(storyId, async (client, userId) => {
+    const updated = await updateStoryPage(client, storyId, pageNumber, parsed.data, userId);
+    jobIds = updated.jobIds;
+    return updated.changed;
+  });
+  if (result.ok) {
+    await enqueueGenerationJobs(jobIds);
+    revalidatePath("/admin/jobs");
+  }
+  return result;
+}
+
+/**
+ * 重新生成故事的單頁、翻譯或精選單字（建立 generation job，提交後推送佇列）。
+ * @param storyId stories.id
+ * @param scope 重新生成範圍（{ stage: "page", pageNumber } / { stage: "translation" } / { stage: "vocabulary" }）
+ */
+export async function regenerateStoryAction(storyId: string, scope: unknown): Promise<StoryReviewActionResult> {
+  const admin = await getCurrentAdmin();
+  if (!admin) return { ok: false, error: "forbidden" };
+  if (!z.uuid().safeParse(storyId).success) return { ok: false, error: "invalid story id" };
+  const parsed = regenerationScopeSchema.safeParse(scope);
+  if (!parsed.success) return { ok: false, error: "invalid regeneration scope" };
+
+  let result: RegenerationRequestResult;
+  try {
+    result = await withTransaction((client) => requestStoryRegeneration(client, storyId, parsed.data, admin.id));
+  } catch (err) {
+    console.error("[admin] story regeneration request failed", { storyId, scope: parsed.data, error: err });
+    return { ok: false, error: "failed to request regeneration" };
+  }
+  if (!result.ok) return result;
+
+  await enqueueGenerationJobs([result.jobId]);
+  revalidatePath(`/admin/stories/${storyId}`);
+  revalidatePath("/admin/jobs");
+  return { ok: true };
+}
+
+/**
+ * 將故事回復到指定版本（回到審核；影片不同時建立 video job 並推送佇列）。
+ * @param storyId stories.id
+ * @param versionNumber 版本序號
+ */
+export async function rollbackStoryAction(storyId: string, versionNumber: number): Promise<StoryReviewActionResult> {
+  const admin = await getCurrentAdmin();
+  if (!admin) return { ok: false, error: "forbidden" };
+  if (!z.uuid().safeParse(storyId).success) return { ok: false, error: "invalid story id" };
+  if (!Number.isInteger(versionNumber) || versionNumber < 1) return { ok: false, error: "invalid version number" };
+
+  let result: StoryRollbackResult;
+  try {
+    result = await withTransaction((client) => rollbackStoryToVersion(client, storyId, versionNumber, admin.id));
+  } catch (err) {
+    console.error("[admin] story rollback failed", { storyId, versionNumber, error: err });
+    return { ok: false, error: "failed to roll back story" };
+  }
+  if (!result.ok) return result;
+
+  if (result.videoJobId) await enqueueGenerationJobs([result.videoJobId]);
+  revalidatePath("/admin/stories");
+  revalidatePath(`/admin/stories/${storyId}`);
+  revalidatePath(`/admin/stories/${storyId}/versions`);
+  return { ok: true };
+}
@@ -0,0 +1,61 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { listStoriesForReview } from "../../../lib/admin/storyReview";
+import styles from "../admin.module.css";
+
+/**
+ * /admin/stories 待審核故事（僅 admin，由 proxy.ts 檢查）
+ *
+ * 生成完成的故事停在 pending_review，點入後逐頁檢視並核准或退回。
+ */
+
+export const metadata: Metadata = {
+  title: "Story review｜故事審核",
+};
+
+export default async function AdminStoriesPage() {
+  const stories = await listStoriesForReview();
+
+  return (
+    <main className={styles.page}>
+      <h1>Story review｜故事審核</h1>
+      <p>
+        <Link href="/admin/jobs">← Generation jobs</Link>
+      </p>
+
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>Submitted</th>
+            <th>Title</th>
+            <th>Theme</th>
+            <th>Age</th>
+            <th>Pages</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stories.map((story) => (
+            <tr key={story.id}>
+              <td>{new Date(story.submittedAt).toLocaleString()}</td>
+              <td>
+                <Link href={`/admin/stories/${story.id}`}>
+                  {story.titleEn}｜{story.titleZh}
+                </Link>
+              </td>
+              <td className={styles.truncate}>{story.theme}</td>
+              <td>{story.ageRange}</td>
+              <td>{story.pageCount}</td>
+            </tr>
+          ))}
+          {stories.length === 0 && (
+            <tr>
+              <td colSpan={5} className={styles.muted}>
+                No stories are waiting for review.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </main>
+  );
+}
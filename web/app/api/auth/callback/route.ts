@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { consumeMagicLink, safeRedirectPath } from "../../../../lib/auth/magicLink";
+import { SESSION_COOKIE, sessionCookieOptions } from "../../../../lib/auth/session";
+
+/**
+ * GET /api/auth/callback?token=...&next=/path
+ *
+ * 使用登入連結：token 有效時建立 session cookie 並導向 next（僅限站內路徑），
+ * 無效或過期時導回 /login?error=invalid_link。
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const token = url.searchParams.get("token");
+  const next = safeRedirectPath(url.searchParams.get("next"));
+
+  const invalid = () => {
+    const login = new URL("/login", url);
+    login.searchParams.set("error", "invalid_link");
+    login.searchParams.set("next", next);
+    return NextResponse.redirect(login);
+  };
+  if (!token) return invalid();
+
+  try {
+    const result = await consumeMagicLink(token);
+    if (!result) return invalid();
+
+    const response = NextResponse.redirect(new URL(next, url));
+    response.cookies.set(SESSION_COOKIE, result.sessionToken, sessionCookieOptions(result.expiresAt));
+    console.info("[route] user signed in", { userId: result.user.id });
+    return response;
+  } catch (err: unknown) {
+    console.error("[route] magic link callback failed", { error: err });
+    return NextResponse.json({ ok: false, error: "sign-in failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { SESSION_COOKIE, deleteSession } from "../../../../lib/auth/session";
+
+/**
+ * POST /api/auth/logout
+ *
+ * 刪除目前 session 並清除 cookie，導回首頁。
+ */
+export async function POST(request: Request) {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (token) {
+    try {
+      await deleteSession(token);
+    } catch (err) {
+      console.error("[route] logout failed", { error: err });
+    }
+  }
+  const response = NextResponse.redirect(new URL("/", request.url), { status: 303 });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { dispatchDueSchedules } from "../../../../lib/generation/weeklySchedule";
+import { env } from "../../../../lib/utils/env";
+
+/**
+ * GET /api/cron/weekly
+ *
+ * Vercel Cron 觸發（見 vercel.json，週三與週五各一次）：將到期的 weekly_schedule 列轉為 stories 與 story_script jobs。
+ *
+ * 驗證：需帶 `Authorization: Bearer <CRON_SECRET>`（Vercel Cron 會自動附上）。
+ * 未設定 CRON_SECRET 時拒絕所有請求（503；僅 NODE_ENV=development 允許不帶驗證以便本機測試），避免任何人觸發付費的故事生成。
+ *
+ * 回傳：{ ok: true, dispatched: [{ scheduleId, scheduledDate, stories: [{ storyId, jobId }] }] }
+ * 重複呼叫是安全的：已 dispatched 的排程列不會再建立故事。
+ */
+export async function GET(request: Request) {
+  if (!env.CRON_SECRET) {
+    if (process.env.NODE_ENV !== "development") {
+      console.error("[route] cron/weekly rejected: CRON_SECRET is not configured");
+      return NextResponse.json({ ok: false, error: "cron secret not configured" }, { status: 503 });
+    }
+  } else if (request.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`) {
+    return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const dispatched = await dispatchDueSchedules();
+    console.info("[route] cron/weekly dispatched schedules", {
+      count: dispatched.length,
+      stories: dispatched.reduce((n, d) => n + d.stories.length, 0),
+    });
+    return NextResponse.json({ ok: true, dispatched }, { status: 200 });
+  } catch (err: unknown) {
+    console.error("[route] cron/weekly failed", { error: err });
+    return NextResponse.json({ ok: false, error: "dispatch failed" }, { status: 500 });
+  }
+}
@@ -1,6 +1,10 @@
 import { NextResponse } from "next/server";
-import { db } from "../../../../db/client";
-import { generationJobs } from "../../../../db/schema";
+import { getSessionUser } from "../../../../lib/auth/session";
+import { createStoryScriptJob } from "../../../../lib/generation/storyScriptJobs";
+import { pickThemes } from "../../../../lib/generation/themes";
+import { AGE_BANDS, requestedAgeBandSchema } from "../../../../lib/openai/AgeBandProfiles";
+import { StoryIdeaGenerator } from "../../../../lib/openai/StoryIdeaGenerator";
+import { getPgPool } from "../../../../lib/utils/pgPool";
  
 /**
  * POST /api/generation/story-script
@@ -10,15 +14,17 @@ import { generationJobs } from "../../../../db/schema";
  * Body JSON 範例：
  * {
  *   "storyId": "optional-existing-id",
- *   "theme": "A friendly dragon",
+ *   "theme": "A friendly dragon",          // 可省略，省略時由 Story Idea 階段產生
  *   "tone": "warm",
- *   "ageRange": "0-6",
- *   "scheduledAt": "2025-11-13T09:00:00.000Z",
- *   "initiatedBy": "cron" // or "admin"
+ *   "ageRange": "5-6",                     // 0-2 / 3-4 / 5-6（AgeBandProfiles），省略或舊值 0-6 時為 5-6
+ *   "scheduledAt": "2025-11-13T09:00:00.000Z"
  * }
  *
+ * 權限：僅 admin（由 proxy.ts 檢查）；觸發者寫入 stories.created_by 與 audit_logs.user_id，
+ * initiatedBy 一律取自登入者角色，不接受 body 指定。
+ *
  * 行為：
- * - 建立一個或多個 generation_jobs（此 endpoint 以建立 story_script job 為主）
+ * - 建立 stories 列（status = scheduled）與 story_script generation_job，並推送至佇列
  * - 回傳 { ok: true, storyId, jobIds: ["..."] }
  *
  * 註：實際的消費者會由 worker（web/worker/）非同步取出 job 並執行故事生成流程。
@@ -26,92 +32,48 @@ import { generationJobs } from "../../../../db/schema";
  
 export async function POST(request: Request) {
   try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+    }
     const body = await request.json().catch(() => ({}));
  
-    if (!body.theme) {
-      return NextResponse.json({ ok: false, error: "missing theme" }, { status: 400 });
+    const initiatedBy = user.role;
+    const parsedAgeRange = requestedAgeBandSchema.safeParse(body.ageRange);
+    if (!parsedAgeRange.success) {
+      return NextResponse.json({ ok: false, error: `ageRange must be one of ${AGE_BANDS.join(", ")}` }, { status: 400 });
     }
- 
-    // 建立或使用傳入的 storyId
-    const storyId = typeof body.storyId === "string" && body.storyId.length > 0 ? body.storyId : crypto.randomUUID();
-    const theme = String(body.theme);
-    const tone = body.tone ?? "warm";
-    const ageRange = body.ageRange ?? "0-6";
-    const scheduledAt = body.scheduledAt ?? new Date().toISOString();
-    const initiatedBy = body.initiatedBy ?? "manual";
- 
-    // Job payload contract (請參考 spec.md)
-    const jobPayload = {
-      type: "story_script",
-      storyId,
-      theme,
-      tone,
-      ageRange,
-      scheduledAt,
-      initiatedBy,
-    };
- 
-    // 嘗試使用 Drizzle insert（開發/測試環境可能 mock 此行）
+    const ageRange = parsedAgeRange.data;
+
+    // 未提供主題時由 Story Idea 階段產生（與過往主題去重）
+    let theme = typeof body.theme === "string" ? body.theme.trim() : "";
+    let tone: string | undefined = body.tone;
+    if (!theme) {
+      const [choice] = await pickThemes(getPgPool(), 1, { ageRange, ideas: new StoryIdeaGenerator() });
+      theme = choice.theme;
+      tone = tone ?? choice.tone;
+    }
+
+    // 建立 stories 列與 story_script job（與 weekly cron 共用，見 lib/generation/storyScriptJobs.ts）
+    let storyId: string;
     let createdJobIds: string[] = [];
     try {
-      const insertRes = await db.insert(generationJobs).values({
-        storyId: storyId,
-        jobType: "story_script",
-        status: "pending",
-        retryCount: 0,
-        // Drizzle 的 jsonb 欄位接受物件，直接傳 jobPayload (非字串化)
-        payload: jobPayload,
-      }).returning();
-      createdJobIds = Array.isArray(insertRes)
-        ? insertRes.map((r) => String((r as { id: unknown }).id))
-        : [];
-      console.info("[route] created generation_jobs via drizzle", { storyId, createdJobIds, initiatedBy });
-    } catch (drizzleErr) {
-      // 若 Drizzle insert 因環境（fetch/WS）問題失敗，嘗試使用 pg pool fallback
-      console.warn("[route] drizzle insert failed, attempting pg fallback", { error: drizzleErr });
-      try {
-        // 建立或取用全域單例 pg Pool（動態 import 以避免在未安裝 pg 時造成錯誤）
-        const getPgPool = async () => {
-          const g = globalThis as any;
-          if (g.__pgPool && typeof g.__pgPool.connect === "function") return g.__pgPool;
-          const { Pool } = await import("pg");
-          const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-          g.__pgPool = pool;
-          return pool;
-        };
- 
-        const pool = await getPgPool();
-        const client = await pool.connect();
-        try {
-          await client.query("BEGIN");
-          const res = await client.query(
-            `INSERT INTO generation_jobs (story_id, job_type, status, retry_count, payload)
-             VALUES ($1,$2,$3,$4,$5) RETURNING id`,
-            [storyId, "story_script", "pending", 0, JSON.stringify(jobPayload)],
-          );
-          await client.query("COMMIT");
-          createdJobIds = res.rows ? res.rows.map((r: any) => String(r.id)) : [];
-          console.info("[route] created generation_jobs via pg fallback", { storyId, createdJobIds, initiatedBy });
-        } catch (pgErr) {
-          try {
-            await client.query("ROLLBACK");
-          } catch {
-            // ignore rollback error
-          }
-          console.error("[route] pg fallback insert failed", pgErr);
-          throw pgErr;
-        } finally {
-          try {
-            client.release();
-          } catch {
-            // ignore
-          }
-        }
-      } catch (fallbackErr) {
-        console.error("[route] both drizzle and pg fallback failed", { drizzleErr, fallbackErr });
-        // 回傳錯誤給呼叫端（勿回傳敏感資訊）
-        return NextResponse.json({ ok: false, error: "database insert failed" }, { status: 500 });
-      }
+      const created = await createStoryScriptJob({
+        storyId: typeof body.storyId === "string" ? body.storyId : undefined,
+        theme,
+        tone,
+        ageRange,
+        scheduledAt: body.scheduledAt,
+        initiatedBy,
+        createdBy: user.id,
+      });
+      storyId = created.storyId;
+      createdJobIds = [created.jobId];
+      console.info("[route] created story_script job", { storyId, createdJobIds, initiatedBy });
+    } catch (dbErr) {
+      console.error("[route] story_script job insert failed", { error: dbErr });
+      // 回傳錯誤給呼叫端（勿回傳敏感資訊）
+      return NextResponse.json({ ok: false, error: "database insert failed" }, { status: 500 });
     }
  
     return NextResponse.json({ ok: true, storyId, jobIds: createdJobIds }, { status: 200 });
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getStoryDetail } from "../../../../lib/stories/detail";
+
+/**
+ * GET /api/stories/{id}
+ *
+ * 取得已發布故事的完整內容：依 pageNumber 排序的雙語頁面、每頁插圖與旁白、
+ * 故事影片與精選單字。
+ *
+ * 回傳：{ ok: true, story: StoryDetail }；id 格式錯誤回 400，不存在或未發布回 404。
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!z.uuid().safeParse(id).success) {
+    return NextResponse.json({ ok: false, error: "invalid story id" }, { status: 400 });
+  }
+
+  try {
+    const story = await getStoryDetail(id);
+    if (!story) {
+      return NextResponse.json({ ok: false, error: "story not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, story }, { status: 200 });
+  } catch (err: unknown) {
+    console.error("[route] story detail failed", { storyId: id, error: err });
+    return NextResponse.json({ ok: false, error: "failed to load story" }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { InvalidCursorError, listPublishedStories, storyListQuerySchema } from "../../../lib/stories/catalog";
+
+/**
+ * GET /api/stories
+ *
+ * 公開故事目錄（只含 published），供 reader UI 列表使用。
+ *
+ * Query 參數：
+ *  - theme：主題關鍵字（部分比對）
+ *  - ageRange：年齡區間（0-2 / 3-4 / 5-6）
+ *  - publishedFrom / publishedTo：發布日期區間（ISO 日期）
+ *  - sort：recent（預設）| title
+ *  - limit：每頁筆數（1~50，預設 20）
+ *  - cursor：上一頁回傳的 nextCursor
+ *
+ * 回傳：{ ok: true, items: StorySummary[], nextCursor: string | null }
+ */
+export async function GET(request: Request) {
+  const params = Object.fromEntries(new URL(request.url).searchParams);
+  const parsed = storyListQuerySchema.safeParse(params);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { ok: false, error: "invalid query", issues: parsed.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })) },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const page = await listPublishedStories(parsed.data);
+    return NextResponse.json({ ok: true, ...page }, { status: 200 });
+  } catch (err: unknown) {
+    if (err instanceof InvalidCursorError) {
+      return NextResponse.json({ ok: false, error: "invalid cursor" }, { status: 400 });
+    }
+    console.error("[route] stories list failed", { error: err });
+    return NextResponse.json({ ok: false, error: "failed to load stories" }, { status: 500 });
+  }
+}
@@ -45,7 +45,7 @@ const MOCK_RESPONSE = {
 export default function DevTestPage() {
   const [theme, setTheme] = useState("A friendly dragon");
   const [tone, setTone] = useState("warm");
-  const [ageRange, setAgeRange] = useState("0-6");
+  const [ageRange, setAgeRange] = useState("5-6");
   const [useMock, setUseMock] = useState(true);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
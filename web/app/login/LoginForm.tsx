@@ -0,0 +1,32 @@
+"use client";
+import React, { useActionState } from "react";
+import { requestMagicLinkAction, type LoginState } from "./actions";
+import styles from "./login.module.css";
+
+/**
+ * 登入表單：輸入 email 後寄出登入連結。
+ */
+export default function LoginForm({ next, expired }: { next: string; expired: boolean }) {
+  const [state, formAction, pending] = useActionState<LoginState, FormData>(requestMagicLinkAction, { status: "idle" });
+
+  if (state.status === "sent") {
+    return (
+      <p className={styles.notice}>
+        Check {state.email} for a sign-in link.｜登入連結已寄到 {state.email}，請在 15 分鐘內開啟。
+      </p>
+    );
+  }
+
+  return (
+    <form action={formAction} className={styles.form}>
+      {expired && <p className={styles.error}>That sign-in link is invalid or expired.｜登入連結無效或已過期，請重新申請。</p>}
+      <label htmlFor="email">Email</label>
+      <input id="email" name="email" type="email" autoComplete="email" required />
+      <input type="hidden" name="next" value={next} />
+      <button type="submit" disabled={pending}>
+        {pending ? "Sending…｜寄送中…" : "Email me a sign-in link｜寄送登入連結"}
+      </button>
+      {state.status === "error" && <p className={styles.error}>{state.error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,28 @@
+"use server";
+
+import { emailSchema, requestMagicLink } from "../../lib/auth/magicLink";
+
+/**
+ * 登入 Server Action。
+ */
+
+export type LoginState = { status: "idle" } | { status: "sent"; email: string } | { status: "error"; error: string };
+
+/**
+ * 寄送登入連結（useActionState 使用）。
+ * @param _prev 前一次狀態
+ * @param formData 表單（email、next）
+ */
+export async function requestMagicLinkAction(_prev: LoginState, formData: FormData): Promise<LoginState> {
+  const parsed = emailSchema.safeParse(String(formData.get("email") ?? "").trim());
+  if (!parsed.success) return { status: "error", error: "Please enter a valid email.｜請輸入正確的 email。" };
+
+  const next = formData.get("next");
+  try {
+    await requestMagicLink(parsed.data, typeof next === "string" ? next : null);
+  } catch (err) {
+    console.error("[auth] failed to send magic link", { error: err });
+    return { status: "error", error: "Could not send the sign-in email. Please try again.｜登入信寄送失敗，請稍後再試。" };
+  }
+  return { status: "sent", email: parsed.data };
+}
@@ -0,0 +1,27 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { safeRedirectPath } from "../../lib/auth/magicLink";
+import { getSessionUser } from "../../lib/auth/session";
+import LoginForm from "./LoginForm";
+import styles from "./login.module.css";
+
+/**
+ * /login 以 email 登入連結登入。
+ */
+
+export const metadata: Metadata = {
+  title: "Sign in｜登入",
+};
+
+export default async function LoginPage({ searchParams }: { searchParams: Promise<{ next?: string; error?: string }> }) {
+  const { next, error } = await searchParams;
+  const target = safeRedirectPath(next);
+  if (await getSessionUser()) redirect(target);
+
+  return (
+    <main className={styles.page}>
+      <h1>Sign in｜登入</h1>
+      <LoginForm next={target} expired={error === "invalid_link"} />
+    </main>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+import React, { useState, useTransition } from "react";
+import Link from "next/link";
+import type { ReviewCard } from "../../../lib/vocab/review";
+import { recordReviewAction } from "./actions";
+import styles from "./review.module.css";
+
+/**
+ * 複習流程（client component）
+ *
+ * 每張卡片先顯示單字（可播放單字所在頁的旁白、顯示插圖），翻面後看解釋與例句，
+ * 再選「記得 / 不記得」寫回排程並進入下一張。
+ */
+export default function ReviewSession({ cards }: { cards: ReviewCard[] }) {
+  const [index, setIndex] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const [showImage, setShowImage] = useState(false);
+  const [knewCount, setKnewCount] = useState(0);
+  const [lastDue, setLastDue] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  const card = cards[index];
+
+  if (!card) {
+    return (
+      <section className={styles.card}>
+        <h2>All done!｜複習完成！</h2>
+        <p>
+          Remembered {knewCount} of {cards.length}.｜記得 {knewCount} / {cards.length} 個單字。
+        </p>
+        <Link href="/me/words">My Words｜我的單字本 →</Link>
+      </section>
+    );
+  }
+
+  function answer(knew: boolean) {
+    setError(null);
+    startTransition(async () => {
+      const res = await recordReviewAction(card.vocabEntryId, knew);
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      if (knew) setKnewCount((n) => n + 1);
+      setLastDue(res.dueAt);
+      setRevealed(false);
+      setShowImage(false);
+      setIndex((i) => i + 1);
+    });
+  }
+
+  return (
+    <section className={styles.card}>
+      <p className={styles.muted}>
+        {index + 1} / {cards.length} · {card.storyTitleEn}
+        {card.cefrLevel && ` · ${card.cefrLevel}`}
+      </p>
+      <h2 className={styles.word}>{card.word}</h2>
+
+      <div className={styles.hints}>
+        {card.audioUri && <audio controls src={card.audioUri} preload="none" />}
+        {card.imageUri && (
+          <button type="button" onClick={() => setShowImage(!showImage)}>
+            {showImage ? "Hide picture｜隱藏圖片" : "Show picture｜顯示圖片"}
+          </button>
+        )}
+      </div>
+      {showImage && card.imageUri && (
+        // 媒體來自外部儲存（任意網域），不經 next/image 最佳化
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={card.imageUri} alt={card.word} className={styles.image} />
+      )}
+
+      {revealed ? (
+        <div className={styles.answer}>
+          {card.partOfSpeech && <p className={styles.muted}>{card.partOfSpeech}</p>}
+          <p lang="en">{card.definitionEn}</p>
+          <p lang="zh-Hant">{card.definitionZh}</p>
+          {card.exampleSentence && (
+            <blockquote className={styles.example}>
+              <p lang="en">{card.exampleSentence}</p>
+              {card.exampleTranslation && <p lang="zh-Hant">{card.exampleTranslation}</p>}
+            </blockquote>
+          )}
+          <div className={styles.actions}>
+            <button type="button" disabled={pending} onClick={() => answer(false)}>
+              ✗ Didn&apos;t｜不記得
+            </button>
+            <button type="button" disabled={pending} onClick={() => answer(true)} className={styles.primary}>
+              ✓ Knew it｜記得
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className={styles.actions}>
+          <button type="button" onClick={() => setRevealed(true)} className={styles.primary}>
+            Show answer｜看答案
+          </button>
+        </div>
+      )}
+
+      {error && <p className={styles.error}>{error}</p>}
+      {lastDue && (
+        <p className={styles.muted}>Previous word due again on {new Date(lastDue).toLocaleDateString()}.｜上一個單字的下次複習日。</p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,33 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { getCurrentUserId } from "../../../lib/auth/currentUser";
+import { recordReview } from "../../../lib/vocab/review";
+
+/**
+ * 單字複習 Server Action。
+ */
+
+export type ReviewActionResult = { ok: true; dueAt: string; intervalDays: number } | { ok: false; error: string };
+
+/**
+ * 記錄「記得 / 不記得」並回傳下次複習時間。
+ * @param vocabEntryId vocab_entries.id
+ * @param knew 是否記得
+ */
+export async function recordReviewAction(vocabEntryId: string, knew: boolean): Promise<ReviewActionResult> {
+  const userId = await getCurrentUserId();
+  if (!userId) return { ok: false, error: "unauthorized" };
+  if (!z.uuid().safeParse(vocabEntryId).success) return { ok: false, error: "invalid vocab entry id" };
+
+  try {
+    const outcome = await recordReview(userId, vocabEntryId, knew === true);
+    if (!outcome) return { ok: false, error: "word is not in your word book" };
+    revalidatePath("/me/review");
+    return { ok: true, dueAt: outcome.dueAt.toISOString(), intervalDays: outcome.intervalDays };
+  } catch (err) {
+    console.error("[review] record failed", { userId, vocabEntryId, error: err });
+    return { ok: false, error: "failed to record review" };
+  }
+}
@@ -0,0 +1,43 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { getCurrentUserId } from "../../../lib/auth/currentUser";
+import { listDueCards } from "../../../lib/vocab/review";
+import ReviewSession from "./ReviewSession";
+import styles from "./review.module.css";
+
+/**
+ * /me/review 單字複習
+ *
+ * 依 SM-2 排程取出今天到期的收藏單字，逐張複習。
+ */
+
+export const metadata: Metadata = {
+  title: "Review｜單字複習",
+};
+
+export default async function ReviewPage() {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return (
+      <main className={styles.page}>
+        <h1>Review｜單字複習</h1>
+        <p className={styles.muted}>Please sign in to review your saved words.｜請先登入以複習單字。</p>
+      </main>
+    );
+  }
+
+  const cards = await listDueCards(userId);
+
+  return (
+    <main className={styles.page}>
+      <h1>Review｜單字複習</h1>
+      {cards.length === 0 ? (
+        <p className={styles.muted}>
+          Nothing to review right now.｜目前沒有需要複習的單字。 <Link href="/me/words">My Words｜我的單字本 →</Link>
+        </p>
+      ) : (
+        <ReviewSession cards={cards} />
+      )}
+    </main>
+  );
+}
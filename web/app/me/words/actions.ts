@@ -0,0 +1,53 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { getCurrentUserId } from "../../../lib/auth/currentUser";
+import { addFavorite, removeFavorite } from "../../../lib/vocab/favorites";
+
+/**
+ * 個人單字本 Server Actions（閱讀頁單字卡與 /me/words 共用）。
+ */
+
+export type FavoriteActionResult = { ok: true } | { ok: false; error: string };
+
+const vocabEntryIdSchema = z.uuid();
+
+/**
+ * 將精選單字加入目前使用者的單字本。
+ * @param vocabEntryId vocab_entries.id
+ */
+export async function addFavoriteAction(vocabEntryId: string): Promise<FavoriteActionResult> {
+  const userId = await getCurrentUserId();
+  if (!userId) return { ok: false, error: "unauthorized" };
+  if (!vocabEntryIdSchema.safeParse(vocabEntryId).success) return { ok: false, error: "invalid vocab entry id" };
+
+  try {
+    const added = await addFavorite(userId, vocabEntryId);
+    if (!added) return { ok: false, error: "vocab entry not found" };
+  } catch (err) {
+    console.error("[favorites] add failed", { userId, vocabEntryId, error: err });
+    return { ok: false, error: "failed to save word" };
+  }
+  revalidatePath("/me/words");
+  return { ok: true };
+}
+
+/**
+ * 將精選單字從目前使用者的單字本移除。
+ * @param vocabEntryId vocab_entries.id
+ */
+export async function removeFavoriteAction(vocabEntryId: string): Promise<FavoriteActionResult> {
+  const userId = await getCurrentUserId();
+  if (!userId) return { ok: false, error: "unauthorized" };
+  if (!vocabEntryIdSchema.safeParse(vocabEntryId).success) return { ok: false, error: "invalid vocab entry id" };
+
+  try {
+    await removeFavorite(userId, vocabEntryId);
+  } catch (err) {
+    console.error("[favorites] remove failed", { userId, vocabEntryId, error: err });
+    return { ok: false, error: "failed to remove word" };
+  }
+  revalidatePath("/me/words");
+  return { ok: true };
+}
@@ -0,0 +1,74 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { getCurrentUserId } from "../../../lib/auth/currentUser";
+import { vocabHref } from "../../../lib/stories/vocabHighlight";
+import { listFavoritesByStory } from "../../../lib/vocab/favorites";
+import FavoriteButton from "../../_components/FavoriteButton";
+import styles from "./words.module.css";
+
+/**
+ * /me/words 個人單字本
+ *
+ * 列出目前使用者收藏的精選單字，依故事分組；單字連回故事中首次出現的頁面，並可直接移出單字本。
+ */
+
+export const metadata: Metadata = {
+  title: "My Words｜我的單字本",
+};
+
+export default async function MyWordsPage() {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return (
+      <main className={styles.page}>
+        <h1>My Words｜我的單字本</h1>
+        <p className={styles.empty}>Please sign in to see your saved words.｜請先登入以查看單字本。</p>
+      </main>
+    );
+  }
+
+  const groups = await listFavoritesByStory(userId);
+
+  return (
+    <main className={styles.page}>
+      <h1>My Words｜我的單字本</h1>
+      {groups.length > 0 && (
+        <Link href="/me/review" className={styles.pageLink}>
+          Review due words｜複習到期單字 →
+        </Link>
+      )}
+      {groups.length === 0 && (
+        <p className={styles.empty}>No saved words yet. Tap a highlighted word while reading to save it.｜還沒有收藏的單字。</p>
+      )}
+      {groups.map((group) => (
+        <section key={group.storyId} className={styles.group}>
+          <h2>
+            <Link href={`/stories/${group.storyId}`}>
+              {group.titleEn}｜{group.titleZh}
+            </Link>
+          </h2>
+          <ul className={styles.words}>
+            {group.words.map((w) => (
+              <li key={w.vocabEntryId} className={styles.word}>
+                <div>
+                  <Link href={vocabHref(group.storyId, w.word)} className={styles.term}>
+                    {w.word}
+                  </Link>
+                  {w.partOfSpeech && <span className={styles.partOfSpeech}>{w.partOfSpeech}</span>}
+                  <p>{w.definitionEn}</p>
+                  <p className={styles.zh}>{w.definitionZh}</p>
+                  {w.pageNumber !== null && (
+                    <Link href={`/stories/${group.storyId}?page=${w.pageNumber}`} className={styles.pageLink}>
+                      Page {w.pageNumber}｜第 {w.pageNumber} 頁 →
+                    </Link>
+                  )}
+                </div>
+                <FavoriteButton vocabEntryId={w.vocabEntryId} initialFavorited />
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </main>
+  );
+}
@@ -0,0 +1,21 @@
+import { notFound } from "next/navigation";
+import { findVocabEntry, loadFavoriteIds, loadStory } from "../../../data";
+import VocabCard from "../../../VocabCard";
+import VocabModal from "../../../VocabModal";
+
+/**
+ * 攔截 /stories/[id]/vocab/[word]：從閱讀頁點選單字時以 modal 顯示。
+ */
+export default async function InterceptedVocabPage({ params }: { params: Promise<{ id: string; word: string }> }) {
+  const { id, word } = await params;
+  const story = await loadStory(id);
+  const entry = story ? findVocabEntry(story, word) : null;
+  if (!entry) notFound();
+  const favoriteIds = await loadFavoriteIds(id);
+
+  return (
+    <VocabModal>
+      <VocabCard entry={entry} favorited={favoriteIds ? favoriteIds.has(entry.id) : null} />
+    </VocabModal>
+  );
+}
@@ -0,0 +1,6 @@
+/**
+ * 未攔截到單字路由時 modal slot 不顯示任何內容。
+ */
+export default function Default() {
+  return null;
+}
@@ -0,0 +1,177 @@
+"use client";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import type { StoryDetail } from "../../../lib/stories/detail";
+import { highlightVocab, vocabHref } from "../../../lib/stories/vocabHighlight";
+import styles from "./reader.module.css";
+
+/**
+ * 左右滑動超過此距離（px）才視為翻頁。
+ */
+const SWIPE_THRESHOLD = 50;
+
+/**
+ * 繪本閱讀器（client component）
+ *
+ * - 一次顯示一頁：插圖與英文 / 中文文字並排，兩種語言可分別切換顯示（至少保留一種）
+ * - 上一頁 / 下一頁按鈕、鍵盤左右鍵與觸控滑動翻頁
+ * - 播放該頁旁白；旁白播畢自動翻到下一頁並繼續播放，直到最後一頁
+ * - 英文文字中標示精選單字，點選後以攔截路由開啟單字 modal
+ */
+export default function StoryReader({ story, initialIndex = 0 }: { story: StoryDetail; initialIndex?: number }) {
+  const [pageIndex, setPageIndex] = useState(initialIndex);
+  const [showEn, setShowEn] = useState(true);
+  const [showZh, setShowZh] = useState(true);
+  const [playing, setPlaying] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const touchStartX = useRef<number | null>(null);
+
+  const pageCount = story.pages.length;
+  const page = story.pages[pageIndex];
+  const narrating = playing && !!page?.audio;
+  const vocabWords = useMemo(() => story.vocabulary.map((v) => v.word), [story.vocabulary]);
+
+  const goTo = useCallback(
+    (index: number) => {
+      setPageIndex(Math.min(Math.max(index, 0), Math.max(pageCount - 1, 0)));
+    },
+    [pageCount],
+  );
+
+  // 翻頁時：旁白模式中有音檔就接著播放，否則停止
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (playing && page?.audio) {
+      audio.play().catch(() => setPlaying(false));
+    } else {
+      audio.pause();
+    }
+  }, [pageIndex, playing, page?.audio]);
+
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if (e.key === "ArrowRight") goTo(pageIndex + 1);
+      if (e.key === "ArrowLeft") goTo(pageIndex - 1);
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [goTo, pageIndex]);
+
+  function handleEnded() {
+    const next = story.pages[pageIndex + 1];
+    if (next) goTo(pageIndex + 1);
+    // 最後一頁或下一頁沒有旁白時結束旁白模式
+    if (!next?.audio) setPlaying(false);
+  }
+
+  function handleTouchEnd(e: React.TouchEvent) {
+    const start = touchStartX.current;
+    touchStartX.current = null;
+    if (start === null) return;
+    const dx = e.changedTouches[0].clientX - start;
+    if (dx <= -SWIPE_THRESHOLD) goTo(pageIndex + 1);
+    if (dx >= SWIPE_THRESHOLD) goTo(pageIndex - 1);
+  }
+
+  if (!page) {
+    return (
+      <main className={styles.reader}>
+        <h1 className={styles.title}>{story.titleEn}</h1>
+        <p className={styles.empty}>This story has no pages yet.｜這個故事還沒有內容。</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className={styles.reader}>
+      <header className={styles.header}>
+        <h1 className={styles.title}>
+          {story.titleEn}
+          <span className={styles.titleZh}>{story.titleZh}</span>
+        </h1>
+        <div className={styles.toggles}>
+          <button
+            type="button"
+            aria-pressed={showEn}
+            className={showEn ? styles.toggleOn : styles.toggle}
+            onClick={() => setShowEn(!showEn || !showZh)}
+          >
+            English
+          </button>
+          <button
+            type="button"
+            aria-pressed={showZh}
+            className={showZh ? styles.toggleOn : styles.toggle}
+            onClick={() => setShowZh(!showZh || !showEn)}
+          >
+            中文
+          </button>
+        </div>
+      </header>
+
+      <section
+        className={styles.spread}
+        onTouchStart={(e) => (touchStartX.current = e.touches[0].clientX)}
+        onTouchEnd={handleTouchEnd}
+      >
+        <div className={styles.illustration}>
+          {page.image ? (
+            // 媒體來自外部儲存（任意網域），不經 next/image 最佳化
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={page.image.uri} alt={`Page ${page.pageNumber}`} />
+          ) : (
+            <div className={styles.placeholder}>Illustration coming soon</div>
+          )}
+        </div>
+        <div className={styles.text}>
+          {showEn && (
+            <p lang="en" className={styles.textEn}>
+              {highlightVocab(page.textEn, vocabWords).map((segment, i) =>
+                segment.word ? (
+                  <Link key={i} href={vocabHref(story.id, segment.word)} scroll={false} className={styles.vocab}>
+                    {segment.text}
+                  </Link>
+                ) : (
+                  <React.Fragment key={i}>{segment.text}</React.Fragment>
+                ),
+              )}
+            </p>
+          )}
+          {showZh && (
+            <p lang="zh-Hant" className={styles.textZh}>
+              {page.textZh}
+            </p>
+          )}
+        </div>
+      </section>
+
+      <nav className={styles.controls}>
+        <button type="button" onClick={() => goTo(pageIndex - 1)} disabled={pageIndex === 0}>
+          ← Prev
+        </button>
+        <button
+          type="button"
+          onClick={() => setPlaying(!narrating)}
+          disabled={!page.audio}
+          aria-label={narrating ? "Pause narration" : "Play narration"}
+        >
+          {narrating ? "❚❚ Pause" : "▶ Play"}
+        </button>
+        <span className={styles.pageNumber}>
+          {pageIndex + 1} / {pageCount}
+        </span>
+        <button type="button" onClick={() => goTo(pageIndex + 1)} disabled={pageIndex === pageCount - 1}>
+          Next →
+        </button>
+      </nav>
+
+      <audio
+        ref={audioRef}
+        src={page.audio?.uri}
+        preload="auto"
+        onEnded={handleEnded}
+      />
+    </main>
+  );
+}
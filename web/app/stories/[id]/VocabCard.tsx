@@ -0,0 +1,33 @@
+import type { StoryVocabEntry } from "../../../lib/stories/detail";
+import FavoriteButton from "../../_components/FavoriteButton";
+import styles from "./reader.module.css";
+
+/**
+ * 精選單字卡：單字、詞性、英文 / 中文解釋、例句與翻譯（modal 與完整頁面共用）。
+ * favorited 為 null 時（未登入）不顯示收藏按鈕。
+ */
+export default function VocabCard({ entry, favorited }: { entry: StoryVocabEntry; favorited: boolean | null }) {
+  return (
+    <article className={styles.vocabCard}>
+      <h2 className={styles.vocabWord}>
+        {entry.word}
+        {entry.partOfSpeech && <span className={styles.partOfSpeech}>{entry.partOfSpeech}</span>}
+      </h2>
+      <p lang="en">{entry.definitionEn}</p>
+      <p lang="zh-Hant" className={styles.textZhSmall}>
+        {entry.definitionZh}
+      </p>
+      {entry.exampleSentence && (
+        <blockquote className={styles.example}>
+          <p lang="en">{entry.exampleSentence}</p>
+          {entry.exampleTranslation && (
+            <p lang="zh-Hant" className={styles.textZhSmall}>
+              {entry.exampleTranslation}
+            </p>
+          )}
+        </blockquote>
+      )}
+      {favorited !== null && <FavoriteButton vocabEntryId={entry.id} initialFavorited={favorited} />}
+    </article>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+import React, { useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import styles from "./reader.module.css";
+
+/**
+ * 單字 modal 外框（攔截路由使用）：關閉時返回上一頁，回到閱讀頁原本的狀態。
+ */
+export default function VocabModal({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const dialogRef = useRef<HTMLDialogElement | null>(null);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (dialog && !dialog.open) dialog.showModal();
+  }, []);
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className={styles.modal}
+      onClose={() => router.back()}
+      onClick={(e) => {
+        // 點擊背景（dialog 本身）時關閉
+        if (e.target === e.currentTarget) e.currentTarget.close();
+      }}
+    >
+      <div className={styles.modalBody}>
+        {children}
+        <form method="dialog">
+          <button type="submit" className={styles.modalClose}>
+            Close｜關閉
+          </button>
+        </form>
+      </div>
+    </dialog>
+  );
+}
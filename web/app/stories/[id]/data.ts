@@ -0,0 +1,43 @@
+import { cache } from "react";
+import { z } from "zod";
+import { getCurrentUserId } from "../../../lib/auth/currentUser";
+import { getStoryDetail, type StoryDetail, type StoryVocabEntry } from "../../../lib/stories/detail";
+import { listFavoriteIdsForStory } from "../../../lib/vocab/favorites";
+
+/**
+ * /stories/[id] 底下各頁（閱讀頁、單字 modal / 單字頁）共用的資料載入。
+ */
+
+/**
+ * 載入已發布故事；同一次 request 中的 generateMetadata 與各 page 共用查詢結果。
+ * id 格式錯誤時回傳 null。
+ */
+export const loadStory = cache(async (id: string): Promise<StoryDetail | null> => {
+  if (!z.uuid().safeParse(id).success) return null;
+  return getStoryDetail(id);
+});
+
+/**
+ * 目前使用者在此故事中已收藏的 vocab_entries.id；未登入時回傳 null（不顯示收藏按鈕）。
+ */
+export const loadFavoriteIds = cache(async (storyId: string): Promise<Set<string> | null> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return null;
+  return new Set(await listFavoriteIdsForStory(userId, storyId));
+});
+
+/**
+ * 依路由參數找出故事中的精選單字（不分大小寫）。
+ * @param story 故事全文
+ * @param rawWord 路由中的 [word] 參數（可能仍為 URL 編碼）
+ */
+export function findVocabEntry(story: StoryDetail, rawWord: string): StoryVocabEntry | null {
+  let word = rawWord;
+  try {
+    word = decodeURIComponent(rawWord);
+  } catch {
+    // 保留原值
+  }
+  const target = word.trim().toLowerCase();
+  return story.vocabulary.find((v) => v.word.toLowerCase() === target) ?? null;
+}
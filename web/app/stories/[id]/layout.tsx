@@ -0,0 +1,20 @@
+/**
+ * /stories/[id] 版面
+ *
+ * modal slot（@modal）承接攔截路由 (.)vocab/[word]：從閱讀頁點選單字時以 modal 顯示，
+ * 閱讀頁（children）維持原本的頁碼與播放狀態；直接開啟網址時則由 vocab/[word]/page.tsx 顯示完整頁面。
+ */
+export default function StoryLayout({
+  children,
+  modal,
+}: Readonly<{
+  children: React.ReactNode;
+  modal: React.ReactNode;
+}>) {
+  return (
+    <>
+      {children}
+      {modal}
+    </>
+  );
+}
@@ -0,0 +1,37 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { loadStory } from "./data";
+import StoryReader from "./StoryReader";
+
+/**
+ * /stories/[id] 繪本閱讀頁
+ *
+ * 伺服器端以 getStoryDetail 載入故事全文後交給 client 端的 StoryReader 翻頁與播放旁白。
+ * 不存在、id 格式錯誤或未發布的故事回傳 404。
+ * `?page=N` 可直接開啟第 N 頁（個人單字本連回單字所在頁面時使用）。
+ */
+
+type Params = { params: Promise<{ id: string }> };
+type PageProps = Params & { searchParams: Promise<{ page?: string | string[] }> };
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const { id } = await params;
+  const story = await loadStory(id);
+  if (!story) return {};
+  return {
+    title: `${story.titleEn}｜${story.titleZh}`,
+    description: story.synopsisEn ?? undefined,
+  };
+}
+
+export default async function StoryPage({ params, searchParams }: PageProps) {
+  const { id } = await params;
+  const story = await loadStory(id);
+  if (!story) notFound();
+
+  const { page } = await searchParams;
+  const pageNumber = Number(Array.isArray(page) ? page[0] : page);
+  const initialIndex = Math.max(story.pages.findIndex((p) => p.pageNumber === pageNumber), 0);
+
+  return <StoryReader story={story} initialIndex={initialIndex} />;
+}
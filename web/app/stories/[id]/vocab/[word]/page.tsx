@@ -0,0 +1,40 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { findVocabEntry, loadFavoriteIds, loadStory } from "../../data";
+import VocabCard from "../../VocabCard";
+import styles from "../../reader.module.css";
+
+/**
+ * /stories/[id]/vocab/[word] 完整頁面（直接開啟網址或重新整理時顯示）。
+ */
+
+type Params = { params: Promise<{ id: string; word: string }> };
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const { id, word } = await params;
+  const story = await loadStory(id);
+  const entry = story ? findVocabEntry(story, word) : null;
+  if (!story || !entry) return {};
+  return {
+    title: `${entry.word}｜${story.titleEn}`,
+    description: entry.definitionEn,
+  };
+}
+
+export default async function VocabPage({ params }: Params) {
+  const { id, word } = await params;
+  const story = await loadStory(id);
+  const entry = story ? findVocabEntry(story, word) : null;
+  if (!story || !entry) notFound();
+  const favoriteIds = await loadFavoriteIds(story.id);
+
+  return (
+    <main className={styles.reader}>
+      <Link href={`/stories/${story.id}`} className={styles.backLink}>
+        ← {story.titleEn}｜{story.titleZh}
+      </Link>
+      <VocabCard entry={entry} favorited={favoriteIds ? favoriteIds.has(entry.id) : null} />
+    </main>
+  );
+}
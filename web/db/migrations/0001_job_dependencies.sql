@@ -0,0 +1,11 @@
+ALTER TYPE "public"."generation_job_status" ADD VALUE 'blocked' BEFORE 'pending';--> statement-breakpoint
+CREATE TABLE "generation_job_dependencies" (
+	"job_id" uuid NOT NULL,
+	"depends_on_job_id" uuid NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "generation_job_dependencies_job_id_depends_on_job_id_pk" PRIMARY KEY("job_id","depends_on_job_id")
+);
+--> statement-breakpoint
+ALTER TABLE "generation_job_dependencies" ADD CONSTRAINT "generation_job_dependencies_job_id_generation_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."generation_jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generation_job_dependencies" ADD CONSTRAINT "generation_job_dependencies_depends_on_job_id_generation_jobs_id_fk" FOREIGN KEY ("depends_on_job_id") REFERENCES "public"."generation_jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "generation_job_dependencies_depends_on_idx" ON "generation_job_dependencies" USING btree ("depends_on_job_id");
\ No newline at end of file
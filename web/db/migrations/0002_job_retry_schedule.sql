@@ -0,0 +1,2 @@
+ALTER TABLE "generation_jobs" ADD COLUMN "next_attempt_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "generation_jobs_next_attempt_at_idx" ON "generation_jobs" USING btree ("next_attempt_at");
\ No newline at end of file
@@ -0,0 +1,11 @@
+-- Postgres queue driver (QUEUE_DRIVER=postgres): wake LISTENing workers whenever a job becomes pending.
+CREATE OR REPLACE FUNCTION notify_generation_job_pending() RETURNS trigger AS $$
+BEGIN
+  PERFORM pg_notify('generation_jobs', NEW.id::text);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "generation_jobs_notify_pending"
+  AFTER INSERT OR UPDATE OF "status" ON "generation_jobs"
+  FOR EACH ROW WHEN (NEW."status" = 'pending')
+  EXECUTE FUNCTION notify_generation_job_pending();
@@ -0,0 +1,10 @@
+CREATE TABLE "user_vocab_favorites" (
+	"user_id" uuid NOT NULL,
+	"vocab_entry_id" uuid NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "user_vocab_favorites_user_id_vocab_entry_id_pk" PRIMARY KEY("user_id","vocab_entry_id")
+);
+--> statement-breakpoint
+ALTER TABLE "user_vocab_favorites" ADD CONSTRAINT "user_vocab_favorites_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_vocab_favorites" ADD CONSTRAINT "user_vocab_favorites_vocab_entry_id_vocab_entries_id_fk" FOREIGN KEY ("vocab_entry_id") REFERENCES "public"."vocab_entries"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "user_vocab_favorites_vocab_entry_idx" ON "user_vocab_favorites" USING btree ("vocab_entry_id");
\ No newline at end of file
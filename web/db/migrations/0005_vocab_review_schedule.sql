@@ -0,0 +1,7 @@
+ALTER TABLE "vocab_entries" ADD COLUMN "cefr_level" varchar(4);--> statement-breakpoint
+ALTER TABLE "user_vocab_favorites" ADD COLUMN "ease_factor" real DEFAULT 2.5 NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_vocab_favorites" ADD COLUMN "interval_days" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_vocab_favorites" ADD COLUMN "repetitions" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_vocab_favorites" ADD COLUMN "due_at" timestamp with time zone DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_vocab_favorites" ADD COLUMN "last_reviewed_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "user_vocab_favorites_user_due_idx" ON "user_vocab_favorites" USING btree ("user_id","due_at");
\ No newline at end of file
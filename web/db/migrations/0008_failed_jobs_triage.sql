@@ -0,0 +1,22 @@
+CREATE TYPE "public"."failed_job_status" AS ENUM('open', 'acknowledged', 'resolved', 'ignored');--> statement-breakpoint
+ALTER TABLE "failed_jobs" ADD COLUMN "stage" varchar(60);--> statement-breakpoint
+ALTER TABLE "failed_jobs" ADD COLUMN "attempt" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "failed_jobs" ADD COLUMN "fingerprint" varchar(64);--> statement-breakpoint
+ALTER TABLE "failed_jobs" ADD COLUMN "status" "failed_job_status" DEFAULT 'open' NOT NULL;--> statement-breakpoint
+ALTER TABLE "failed_jobs" ADD COLUMN "resolved_by" uuid;--> statement-breakpoint
+ALTER TABLE "failed_jobs" ADD COLUMN "resolved_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "failed_jobs" ADD CONSTRAINT "failed_jobs_resolved_by_users_id_fk" FOREIGN KEY ("resolved_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "failed_jobs_fingerprint_idx" ON "failed_jobs" USING btree ("fingerprint");--> statement-breakpoint
+CREATE INDEX "failed_jobs_status_idx" ON "failed_jobs" USING btree ("status");--> statement-breakpoint
+-- Backfill: split the legacy "stage=... attempt=... message=..." string and carry over the old text flag.
+-- Legacy rows get an md5-based fingerprint of stage + first message line (new rows use ErrorHandler's fingerprint).
+UPDATE "failed_jobs"
+SET "stage" = substring("error_message" from '^stage=(\S+)'),
+    "attempt" = coalesce(substring("error_message" from '^stage=\S+ attempt=(\d+)')::int, 0),
+    "error_message" = coalesce(substring("error_message" from '^stage=\S+ attempt=\d+ message=(.*)$'), "error_message"),
+    "status" = CASE WHEN "resolved" = 'true' THEN 'resolved'::"failed_job_status" ELSE 'open'::"failed_job_status" END,
+    "resolved_at" = CASE WHEN "resolved" = 'true' THEN "updated_at" END;--> statement-breakpoint
+UPDATE "failed_jobs"
+SET "fingerprint" = left(md5(coalesce("stage", 'unknown') || ':' || split_part("error_message", E'\n', 1)), 16)
+WHERE "fingerprint" IS NULL;--> statement-breakpoint
+ALTER TABLE "failed_jobs" DROP COLUMN "resolved";
\ No newline at end of file
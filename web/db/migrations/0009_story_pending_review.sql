@@ -0,0 +1 @@
+ALTER TYPE "public"."story_status" ADD VALUE 'pending_review' BEFORE 'published';
\ No newline at end of file
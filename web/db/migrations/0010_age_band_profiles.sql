@@ -0,0 +1 @@
+ALTER TABLE "stories" ALTER COLUMN "age_range" SET DEFAULT '5-6';
\ No newline at end of file
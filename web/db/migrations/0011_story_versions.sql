@@ -0,0 +1,47 @@
+CREATE TABLE "story_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"story_id" uuid NOT NULL,
+	"version_number" integer NOT NULL,
+	"reason" varchar(40) NOT NULL,
+	"snapshot" jsonb NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "stories" ADD COLUMN "published_version_id" uuid;--> statement-breakpoint
+ALTER TABLE "story_versions" ADD CONSTRAINT "story_versions_story_id_stories_id_fk" FOREIGN KEY ("story_id") REFERENCES "public"."stories"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "story_versions" ADD CONSTRAINT "story_versions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "story_versions_story_version_idx" ON "story_versions" USING btree ("story_id","version_number");--> statement-breakpoint
+ALTER TABLE "stories" ADD CONSTRAINT "stories_published_version_id_story_versions_id_fk" FOREIGN KEY ("published_version_id") REFERENCES "public"."story_versions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "story_versions" ("story_id", "version_number", "reason", "snapshot")
+SELECT s."id", 1, 'published', jsonb_build_object(
+	'titleEn', s."title_en",
+	'titleZh', s."title_zh",
+	'synopsisEn', s."metadata"->>'synopsisEn',
+	'synopsisZh', s."metadata"->>'synopsisZh',
+	'videoAssetId', (
+		SELECT ma."id" FROM "media_assets" ma
+		WHERE ma."story_id" = s."id" AND ma."type" = 'video' AND ma."page_id" IS NULL
+		ORDER BY ma."created_at" DESC LIMIT 1
+	),
+	'pages', coalesce((
+		SELECT jsonb_agg(jsonb_build_object(
+			'pageNumber', p."page_number", 'textEn', p."text_en", 'textZh', p."text_zh", 'wordCount', p."word_count",
+			'imageAssetId', p."media_asset_id", 'audioAssetId', p."audio_asset_id"
+		) ORDER BY p."page_number")
+		FROM "story_pages" p WHERE p."story_id" = s."id"
+	), '[]'::jsonb),
+	'vocabulary', coalesce((
+		SELECT jsonb_agg(jsonb_build_object(
+			'id', v."id", 'word', v."word", 'partOfSpeech', v."part_of_speech",
+			'definitionEn', v."definition_en", 'definitionZh', v."definition_zh",
+			'exampleSentence', v."example_sentence", 'exampleTranslation', v."example_translation", 'cefrLevel', v."cefr_level"
+		) ORDER BY lower(v."word"))
+		FROM "vocab_entries" v WHERE v."story_id" = s."id"
+	), '[]'::jsonb)
+)
+FROM "stories" s
+WHERE s."status" = 'published';--> statement-breakpoint
+UPDATE "stories" s SET "published_version_id" = sv."id"
+FROM "story_versions" sv
+WHERE sv."story_id" = s."id" AND sv."reason" = 'published';
@@ -0,0 +1 @@
+ALTER TABLE "vocab_entries" ADD COLUMN "retired_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,18 @@
+-- Story_script reruns may have written the same page twice: keep the earliest row per page, move media links onto it, then drop the rest.
+WITH ranked AS (
+	SELECT id, first_value(id) OVER (PARTITION BY story_id, page_number ORDER BY created_at, id) AS keep_id FROM story_pages
+)
+UPDATE "media_assets" m SET page_id = r.keep_id FROM ranked r WHERE m.page_id = r.id AND r.id <> r.keep_id;--> statement-breakpoint
+WITH ranked AS (
+	SELECT id, first_value(id) OVER (PARTITION BY story_id, page_number ORDER BY created_at, id) AS keep_id FROM story_pages
+)
+UPDATE "story_pages" sp
+SET media_asset_id = COALESCE(sp.media_asset_id, d.media_asset_id),
+    audio_asset_id = COALESCE(sp.audio_asset_id, d.audio_asset_id)
+FROM ranked r JOIN story_pages d ON d.id = r.id
+WHERE r.id <> r.keep_id AND sp.id = r.keep_id;--> statement-breakpoint
+WITH ranked AS (
+	SELECT id, first_value(id) OVER (PARTITION BY story_id, page_number ORDER BY created_at, id) AS keep_id FROM story_pages
+)
+DELETE FROM "story_pages" sp USING ranked r WHERE sp.id = r.id AND r.id <> r.keep_id;--> statement-breakpoint
+CREATE UNIQUE INDEX "story_pages_story_page_idx" ON "story_pages" USING btree ("story_id","page_number");
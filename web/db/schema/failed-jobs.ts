@@ -1,20 +1,54 @@
-import { pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { index, integer, pgEnum, pgTable, text, timestamp, uuid, varchar } from "drizzle-orm/pg-core";
 import { generationJobs } from "./generation-jobs";
+import { users } from "./users";
+
+/**
+ * 失敗紀錄處理狀態列舉。
+ * open：待處理；acknowledged：已知悉處理中；resolved：已修正；ignored：不需處理。
+ */
+export const failedJobStatusEnum = pgEnum("failed_job_status", ["open", "acknowledged", "resolved", "ignored"]);
 
 /**
  * 失敗任務追蹤資料表定義。
  */
 export const failedJobs = pgTable("failed_jobs", {
   id: uuid("id").defaultRandom().primaryKey(),
-  // Allow null generationJobId because some failures are at the story/orchestration level
-  // (e.g. persistence for a story) and may not have a corresponding generation_jobs row.
-  // In Drizzle the column is nullable by default if not marked with .notNull().
   generationJobId: uuid("generation_job_id")
+    .notNull()
     .references(() => generationJobs.id, { onDelete: "cascade" }),
   // errorCode can be absent; leave as nullable by omitting .notNull().
   errorCode: text("error_code"),
   errorMessage: text("error_message").notNull(),
-  resolved: text("resolved").notNull().default("false"),
+  /**
+   * 失敗的階段（story、translation、image ...）
+   */
+  stage: varchar("stage", { length: 60 }),
+  attempt: integer("attempt").default(0).notNull(),
+  /**
+   * 錯誤指紋（階段 + 錯誤類型 + 正規化訊息 + 堆疊前幾層），同一根因的失敗有相同指紋，供後台分組
+   */
+  fingerprint: varchar("fingerprint", { length: 64 }),
+  status: failedJobStatusEnum("status").default("open").notNull(),
+  resolvedBy: uuid("resolved_by").references(() => users.id, { onDelete: "set null" }),
+  resolvedAt: timestamp("resolved_at", { withTimezone: true }),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
-});
\ No newline at end of file
+}, (table) => [
+  index("failed_jobs_fingerprint_idx").on(table.fingerprint),
+  index("failed_jobs_status_idx").on(table.status),
+]);
+
+/**
+ * 失敗任務關聯設定。
+ */
+export const failedJobsRelations = relations(failedJobs, ({ one }) => ({
+  generationJob: one(generationJobs, {
+    fields: [failedJobs.generationJobId],
+    references: [generationJobs.id],
+  }),
+  resolver: one(users, {
+    fields: [failedJobs.resolvedBy],
+    references: [users.id],
+  }),
+}));
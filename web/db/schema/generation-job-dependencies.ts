@@ -0,0 +1,40 @@
+import { relations } from "drizzle-orm";
+import { pgTable, primaryKey, timestamp, uuid, index } from "drizzle-orm/pg-core";
+import { generationJobs } from "./generation-jobs";
+
+/**
+ * 媒體生成工作相依關係資料表定義（DAG 邊）。
+ * jobId 需等待 dependsOnJobId 完成後才會由 blocked 轉為 pending。
+ */
+export const generationJobDependencies = pgTable(
+  "generation_job_dependencies",
+  {
+    jobId: uuid("job_id")
+      .references(() => generationJobs.id, { onDelete: "cascade" })
+      .notNull(),
+    dependsOnJobId: uuid("depends_on_job_id")
+      .references(() => generationJobs.id, { onDelete: "cascade" })
+      .notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.jobId, table.dependsOnJobId] }),
+    index("generation_job_dependencies_depends_on_idx").on(table.dependsOnJobId),
+  ],
+);
+
+/**
+ * 媒體生成工作相依關係關聯設定。
+ */
+export const generationJobDependenciesRelations = relations(generationJobDependencies, ({ one }) => ({
+  job: one(generationJobs, {
+    fields: [generationJobDependencies.jobId],
+    references: [generationJobs.id],
+    relationName: "dependencies",
+  }),
+  dependsOn: one(generationJobs, {
+    fields: [generationJobDependencies.dependsOnJobId],
+    references: [generationJobs.id],
+    relationName: "dependents",
+  }),
+}));
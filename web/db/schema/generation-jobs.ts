@@ -1,16 +1,21 @@
 import { relations } from "drizzle-orm";
-import { integer, jsonb, pgEnum, pgTable, timestamp, uuid, varchar } from "drizzle-orm/pg-core";
+import { index, integer, jsonb, pgEnum, pgTable, timestamp, uuid, varchar } from "drizzle-orm/pg-core";
 import { stories } from "./stories";
 import { mediaAssets } from "./media-assets";
+import { generationJobDependencies } from "./generation-job-dependencies";
 
 /**
  * 媒體生成工作狀態列舉。
+ * blocked：仍有前置工作（generation_job_dependencies）未完成。
+ * cancelled：由管理者取消（連同仍在等待它的 blocked 後續工作）。
  */
 export const generationJobStatusEnum = pgEnum("generation_job_status", [
+  "blocked",
   "pending",
   "processing",
   "completed",
   "failed",
+  "cancelled",
 ]);
 
 /**
@@ -39,9 +44,15 @@ export const generationJobs = pgTable("generation_jobs", {
   payload: jsonb("payload").$type<Record<string, unknown>>().default({}).notNull(),
   resultUri: varchar("result_uri", { length: 512 }),
   failureReason: varchar("failure_reason", { length: 512 }),
+  /**
+   * 排定重試的時間；非 null 時 job 在此之前不可被 claim，到期後由 RetryScheduler 推回佇列。
+   */
+  nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
-});
+}, (table) => [
+  index("generation_jobs_next_attempt_at_idx").on(table.nextAttemptAt),
+]);
 
 /**
  * 媒體生成工作關聯設定。
@@ -52,4 +63,6 @@ export const generationJobsRelations = relations(generationJobs, ({ one, many })
     references: [stories.id],
   }),
   mediaAssets: many(mediaAssets),
+  dependencies: many(generationJobDependencies, { relationName: "dependencies" }),
+  dependents: many(generationJobDependencies, { relationName: "dependents" }),
 }));
\ No newline at end of file
@@ -4,10 +4,15 @@
  */
 export * from "./stories";
 export * from "./story-pages";
+export * from "./story-versions";
 export * from "./media-assets";
 export * from "./vocab-entries";
 export * from "./generation-jobs";
+export * from "./generation-job-dependencies";
 export * from "./weekly-schedule";
 export * from "./failed-jobs";
 export * from "./audit-logs";
-export * from "./users";
\ No newline at end of file
+export * from "./users";
+export * from "./user-vocab-favorites";
+export * from "./user-sessions";
+export * from "./magic-link-tokens";
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { index, pgTable, timestamp, uuid, varchar } from "drizzle-orm/pg-core";
+
+/**
+ * 登入連結（magic link）資料表定義。
+ * 只保存 token 的 SHA-256 雜湊；使用後寫入 consumed_at，不可重複使用。
+ */
+export const magicLinkTokens = pgTable(
+  "magic_link_tokens",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    email: varchar("email", { length: 255 }).notNull(),
+    tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    consumedAt: timestamp("consumed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [index("magic_link_tokens_email_idx").on(table.email)],
+);
@@ -1,5 +1,6 @@
 import { relations } from "drizzle-orm";
 import {
+  type AnyPgColumn,
   jsonb,
   pgEnum,
   pgTable,
@@ -12,14 +13,17 @@ import { storyPages } from "./story-pages";
 import { mediaAssets } from "./media-assets";
 import { vocabEntries } from "./vocab-entries";
 import { generationJobs } from "./generation-jobs";
+import { storyVersions } from "./story-versions";
 
 /**
  * 故事狀態列舉。
+ * 生成管線完成後進入 pending_review，經管理者審核通過才轉為 published（退回則回到 draft）。
  */
 export const storyStatusEnum = pgEnum("story_status", [
   "draft",
   "scheduled",
   "processing",
+  "pending_review",
   "published",
   "failed",
 ]);
@@ -35,9 +39,16 @@ export const stories = pgTable("stories", {
   status: storyStatusEnum("status").notNull().default("draft"),
   scheduledAt: timestamp("scheduled_at", { withTimezone: true }),
   publishedAt: timestamp("published_at", { withTimezone: true }),
-  ageRange: varchar("age_range", { length: 20 }).default("0-6").notNull(),
+  /**
+   * 年齡區間（lib/openai/AgeBandProfiles 的 AGE_BANDS）
+   */
+  ageRange: varchar("age_range", { length: 20 }).default("5-6").notNull(),
   createdBy: uuid("created_by")
     .references(() => users.id, { onDelete: "set null" }),
+  /**
+   * 讀者看到的已發布版本；重新生成或退回期間仍指向上一個核准的版本
+   */
+  publishedVersionId: uuid("published_version_id").references((): AnyPgColumn => storyVersions.id, { onDelete: "set null" }),
   metadata: jsonb("metadata").$type<Record<string, unknown>>().default({}).notNull(),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
@@ -55,4 +66,10 @@ export const storiesRelations = relations(stories, ({ one, many }) => ({
   mediaAssets: many(mediaAssets),
   vocabEntries: many(vocabEntries),
   generationJobs: many(generationJobs),
+  versions: many(storyVersions, { relationName: "versions" }),
+  publishedVersion: one(storyVersions, {
+    fields: [stories.publishedVersionId],
+    references: [storyVersions.id],
+    relationName: "publishedVersion",
+  }),
 }));
\ No newline at end of file
@@ -5,6 +5,7 @@ import {
   smallint,
   text,
   timestamp,
+  uniqueIndex,
   uuid,
 } from "drizzle-orm/pg-core";
 import { stories } from "./stories";
@@ -30,7 +31,10 @@ export const storyPages = pgTable("story_pages", {
   audioAssetId: uuid("audio_asset_id").references(() => mediaAssets.id),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
-}) as unknown as ReturnType<typeof pgTable>;
+}, (table) => [
+  // 每個故事的頁碼唯一：story_script job 重跑時不會重複寫入頁面
+  uniqueIndex("story_pages_story_page_idx").on(table.storyId, table.pageNumber),
+]) as unknown as ReturnType<typeof pgTable>;
 
 /**
  * 故事分頁關聯設定。
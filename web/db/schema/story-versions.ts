@@ -0,0 +1,43 @@
+import { relations } from "drizzle-orm";
+import { integer, jsonb, pgTable, timestamp, uniqueIndex, uuid, varchar } from "drizzle-orm/pg-core";
+import { stories } from "./stories";
+import { users } from "./users";
+
+/**
+ * 故事版本資料表定義。
+ * 每個版本保存當時的標題、摘要、各頁中英文、媒體連結（media_assets.id）與精選單字（lib/stories/versions 的 StorySnapshot）。
+ */
+export const storyVersions = pgTable("story_versions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  storyId: uuid("story_id")
+    .references(() => stories.id, { onDelete: "cascade" })
+    .notNull(),
+  /**
+   * 故事內的版本序號（由 1 開始遞增）
+   */
+  versionNumber: integer("version_number").notNull(),
+  /**
+   * 建立原因（published、regeneration、rollback）
+   */
+  reason: varchar("reason", { length: 40 }).notNull(),
+  snapshot: jsonb("snapshot").$type<Record<string, unknown>>().notNull(),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("story_versions_story_version_idx").on(table.storyId, table.versionNumber),
+]);
+
+/**
+ * 故事版本關聯設定。
+ */
+export const storyVersionsRelations = relations(storyVersions, ({ one }) => ({
+  story: one(stories, {
+    fields: [storyVersions.storyId],
+    references: [stories.id],
+    relationName: "versions",
+  }),
+  author: one(users, {
+    fields: [storyVersions.createdBy],
+    references: [users.id],
+  }),
+}));
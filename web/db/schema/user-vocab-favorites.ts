@@ -0,0 +1,45 @@
+import { relations } from "drizzle-orm";
+import { index, integer, pgTable, primaryKey, real, timestamp, uuid } from "drizzle-orm/pg-core";
+import { users } from "./users";
+import { vocabEntries } from "./vocab-entries";
+
+/**
+ * 個人單字本資料表定義（使用者收藏的精選單字）。
+ * 同時保存每位使用者對該單字的 SM-2 複習排程（ease、間隔天數、下次複習時間）。
+ */
+export const userVocabFavorites = pgTable(
+  "user_vocab_favorites",
+  {
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    vocabEntryId: uuid("vocab_entry_id")
+      .references(() => vocabEntries.id, { onDelete: "cascade" })
+      .notNull(),
+    easeFactor: real("ease_factor").default(2.5).notNull(),
+    intervalDays: integer("interval_days").default(0).notNull(),
+    repetitions: integer("repetitions").default(0).notNull(),
+    dueAt: timestamp("due_at", { withTimezone: true }).defaultNow().notNull(),
+    lastReviewedAt: timestamp("last_reviewed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.userId, table.vocabEntryId] }),
+    index("user_vocab_favorites_vocab_entry_idx").on(table.vocabEntryId),
+    index("user_vocab_favorites_user_due_idx").on(table.userId, table.dueAt),
+  ],
+);
+
+/**
+ * 個人單字本關聯設定。
+ */
+export const userVocabFavoritesRelations = relations(userVocabFavorites, ({ one }) => ({
+  user: one(users, {
+    fields: [userVocabFavorites.userId],
+    references: [users.id],
+  }),
+  vocabEntry: one(vocabEntries, {
+    fields: [userVocabFavorites.vocabEntryId],
+    references: [vocabEntries.id],
+  }),
+}));
@@ -2,6 +2,8 @@ import { relations } from "drizzle-orm";
 import { pgEnum, pgTable, timestamp, uuid, varchar } from "drizzle-orm/pg-core";
 import { stories } from "./stories";
 import { auditLogs } from "./audit-logs";
+import { userVocabFavorites } from "./user-vocab-favorites";
+import { userSessions } from "./user-sessions";
 
 /**
  * 使用者角色列舉。
@@ -24,4 +26,6 @@ export const users = pgTable("users", {
 export const usersRelations = relations(users, ({ many }) => ({
   stories: many(stories),
   auditLogs: many(auditLogs),
+  vocabFavorites: many(userVocabFavorites),
+  sessions: many(userSessions),
 }));
\ No newline at end of file
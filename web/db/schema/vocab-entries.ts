@@ -1,6 +1,7 @@
 import { relations } from "drizzle-orm";
 import { pgTable, text, timestamp, uuid, varchar } from "drizzle-orm/pg-core";
 import { stories } from "./stories";
+import { userVocabFavorites } from "./user-vocab-favorites";
 
 /**
  * 精選單字資料表定義。
@@ -16,6 +17,11 @@ export const vocabEntries = pgTable("vocab_entries", {
   definitionZh: text("definition_zh").notNull(),
   exampleSentence: text("example_sentence"),
   exampleTranslation: text("example_translation"),
+  cefrLevel: varchar("cefr_level", { length: 4 }),
+  /**
+   * 重新生成或回復後不再是故事目前的精選單字時的時間；保留列讓收藏、複習進度與版本內容仍可參照
+   */
+  retiredAt: timestamp("retired_at", { withTimezone: true }),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
 });
@@ -23,9 +29,10 @@ export const vocabEntries = pgTable("vocab_entries", {
 /**
  * 精選單字資料表關聯設定。
  */
-export const vocabEntriesRelations = relations(vocabEntries, ({ one }) => ({
+export const vocabEntriesRelations = relations(vocabEntries, ({ one, many }) => ({
   story: one(stories, {
     fields: [vocabEntries.storyId],
     references: [stories.id],
   }),
+  favorites: many(userVocabFavorites),
 }));
\ No newline at end of file
@@ -0,0 +1,202 @@
+import { getPgPool } from "../utils/pgPool";
+import type { Queryable } from "../generation/storyScriptJobs";
+import { recordAuditLog } from "../audit/auditLog";
+import { resetJobsForRetry, type RetryResetResult } from "./jobs";
+
+/**
+ * 管理後台：failed_jobs 分類處理（/admin/failures）
+ *
+ * - 依 fingerprint 分組（同一根因的失敗），顯示次數、影響的 job 數與最近一次訊息
+ * - 批次變更處理狀態：open / acknowledged / resolved / ignored；resolved 與 ignored 記錄處理者與時間
+ * - 批次重試：將分組中仍為 failed / cancelled 的 generation_jobs 依相依關係重設（resetJobsForRetry，與 /admin/jobs 共用；
+ *   可執行者轉為 pending，提交後由呼叫端推回佇列），
+ *   並將這些失敗標記為 acknowledged（重試再失敗時會產生新的 open 紀錄）
+ * - 每個操作都寫入 audit_logs
+ */
+
+export const FAILED_JOB_STATUSES = ["open", "acknowledged", "resolved", "ignored"] as const;
+export type FailedJobStatus = (typeof FAILED_JOB_STATUSES)[number];
+
+/**
+ * 仍需處理的狀態（列表預設顯示）。
+ */
+export const ACTIVE_FAILURE_STATUSES: FailedJobStatus[] = ["open", "acknowledged"];
+
+/**
+ * 一個失敗分組。
+ */
+export interface FailureGroup {
+  fingerprint: string;
+  stage: string | null;
+  errorCode: string | null;
+  sampleMessage: string;
+  count: number;
+  jobCount: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+/**
+ * 分組中的一筆失敗。
+ */
+export interface FailureRecord {
+  id: string;
+  generationJobId: string | null;
+  jobStatus: string | null;
+  stage: string | null;
+  attempt: number;
+  errorCode: string | null;
+  errorMessage: string;
+  status: FailedJobStatus;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+function toIso(value: unknown): string | null {
+  return value == null ? null : new Date(String(value)).toISOString();
+}
+
+/**
+ * 依 fingerprint 分組列出指定狀態的失敗（最近發生的在前）。
+ * @param statuses 要納入的處理狀態
+ * @param client pg client（預設使用全域 Pool）
+ */
+export async function listFailureGroups(
+  statuses: FailedJobStatus[] = ACTIVE_FAILURE_STATUSES,
+  client: Queryable = getPgPool(),
+): Promise<FailureGroup[]> {
+  const res = await client.query(
+    `SELECT coalesce(f.fingerprint, 'unknown') AS fingerprint,
+            (array_agg(f.stage ORDER BY f.created_at DESC))[1] AS stage,
+            (array_agg(f.error_code ORDER BY f.created_at DESC))[1] AS error_code,
+            (array_agg(split_part(f.error_message, E'\\n', 1) ORDER BY f.created_at DESC))[1] AS sample_message,
+            count(*) AS count,
+            count(DISTINCT f.generation_job_id) AS job_count,
+            min(f.created_at) AS first_seen,
+            max(f.created_at) AS last_seen
+     FROM failed_jobs f
+     WHERE f.status = ANY($1::failed_job_status[])
+     GROUP BY coalesce(f.fingerprint, 'unknown')
+     ORDER BY max(f.created_at) DESC
+     LIMIT 200`,
+    [statuses],
+  );
+  return res.rows.map((row) => ({
+    fingerprint: String(row.fingerprint),
+    stage: row.stage == null ? null : String(row.stage),
+    errorCode: row.error_code == null ? null : String(row.error_code),
+    sampleMessage: String(row.sample_message ?? ""),
+    count: Number(row.count),
+    jobCount: Number(row.job_count),
+    firstSeen: toIso(row.first_seen) ?? "",
+    lastSeen: toIso(row.last_seen) ?? "",
+  }));
+}
+
+/**
+ * 列出同一分組的失敗紀錄（含所有處理狀態）。
+ * @param fingerprint 錯誤指紋（舊資料無指紋時為 "unknown"）
+ * @param client pg client（預設使用全域 Pool）
+ */
+export async function listGroupFailures(fingerprint: string, client: Queryable = getPgPool()): Promise<FailureRecord[]> {
+  const res = await client.query(
+    `SELECT f.id, f.generation_job_id, j.status AS job_status, f.stage, f.attempt, f.error_code, f.error_message,
+            f.status, u.email AS resolved_by, f.resolved_at, f.created_at
+     FROM failed_jobs f
+     LEFT JOIN generation_jobs j ON j.id = f.generation_job_id
+     LEFT JOIN users u ON u.id = f.resolved_by
+     WHERE coalesce(f.fingerprint, 'unknown') = $1
+     ORDER BY f.created_at DESC
+     LIMIT 200`,
+    [fingerprint],
+  );
+  return res.rows.map((row) => ({
+    id: String(row.id),
+    generationJobId: row.generation_job_id == null ? null : String(row.generation_job_id),
+    jobStatus: row.job_status == null ? null : String(row.job_status),
+    stage: row.stage == null ? null : String(row.stage),
+    attempt: Number(row.attempt ?? 0),
+    errorCode: row.error_code == null ? null : String(row.error_code),
+    errorMessage: String(row.error_message),
+    status: String(row.status) as FailedJobStatus,
+    resolvedBy: row.resolved_by == null ? null : String(row.resolved_by),
+    resolvedAt: toIso(row.resolved_at),
+    createdAt: toIso(row.created_at) ?? "",
+  }));
+}
+
+/**
+ * 批次變更分組中失敗的處理狀態（在呼叫端的交易中執行）。
+ *
+ * 只變更目前狀態與目標不同的紀錄；轉為 resolved / ignored 時記錄處理者與時間，其他狀態則清除。
+ *
+ * @param client 交易中的 pg client
+ * @param fingerprints 要處理的分組
+ * @param status 目標狀態
+ * @param userId 操作的管理者 users.id
+ * @returns 變更的筆數
+ */
+export async function updateFailureStatus(
+  client: Queryable,
+  fingerprints: string[],
+  status: FailedJobStatus,
+  userId: string,
+): Promise<number> {
+  if (fingerprints.length === 0) return 0;
+  const closing = status === "resolved" || status === "ignored";
+  const res = await client.query(
+    `UPDATE failed_jobs
+     SET status = $2::failed_job_status,
+         resolved_by = CASE WHEN $3::boolean THEN $4::uuid END,
+         resolved_at = CASE WHEN $3::boolean THEN now() END,
+         updated_at = now()
+     WHERE coalesce(fingerprint, 'unknown') = ANY($1::text[]) AND status <> $2::failed_job_status
+     RETURNING id`,
+    [fingerprints, status, closing, userId],
+  );
+  await recordAuditLog(client, {
+    userId,
+    action: "admin.failures.update_status",
+    context: { fingerprints, status, updated: res.rows.length },
+  });
+  return res.rows.length;
+}
+
+/**
+ * 批次重試分組中仍失敗的 generation_jobs（在呼叫端的交易中執行；提交後需推回佇列）。
+ *
+ * @param client 交易中的 pg client
+ * @param fingerprints 要重試的分組
+ * @param userId 操作的管理者 users.id
+ * @returns 重設的 job id 與其中可立即執行者
+ */
+export async function retryFailureGroups(client: Queryable, fingerprints: string[], userId: string): Promise<RetryResetResult> {
+  if (fingerprints.length === 0) return { resetJobIds: [], runnableJobIds: [], restoredJobIds: [] };
+  const candidates = await client.query(
+    `SELECT DISTINCT generation_job_id FROM failed_jobs
+     WHERE coalesce(fingerprint, 'unknown') = ANY($1::text[])
+       AND status IN ('open', 'acknowledged')
+       AND generation_job_id IS NOT NULL`,
+    [fingerprints],
+  );
+  const result = await resetJobsForRetry(
+    client,
+    candidates.rows.map((r) => String(r.generation_job_id)),
+  );
+  const jobIds = result.resetJobIds;
+  if (jobIds.length > 0) {
+    await client.query(
+      `UPDATE failed_jobs
+       SET status = 'acknowledged', resolved_by = NULL, resolved_at = NULL, updated_at = now()
+       WHERE coalesce(fingerprint, 'unknown') = ANY($1::text[]) AND status = 'open' AND generation_job_id = ANY($2::uuid[])`,
+      [fingerprints, jobIds],
+    );
+  }
+  await recordAuditLog(client, {
+    userId,
+    action: "admin.failures.retry",
+    context: { fingerprints, jobIds, runnableJobIds: result.runnableJobIds },
+  });
+  return result;
+}
@@ -0,0 +1,308 @@
+import { z } from "zod";
+import { getPgPool } from "../utils/pgPool";
+import type { Queryable } from "../generation/storyScriptJobs";
+import { recordAuditLog } from "../audit/auditLog";
+
+/**
+ * 管理後台：generation_jobs 查詢與人工操作（/admin/jobs）
+ *
+ * - 列表可依 status、job_type、story 篩選，依 created_at 由新到舊分頁
+ * - 重試：failed / cancelled 的 job 重設（retry_count 歸零、清除重試排程）；前置工作尚未全部完成時回到 blocked，
+ *   否則轉為 pending 並由呼叫端於提交後推回佇列；取消時連帶取消的後續工作恢復為 blocked
+ *   （/admin/failures 的批次重試共用 resetJobsForRetry）
+ * - 取消：blocked / pending / failed 的 job 轉為 cancelled，並連帶取消仍在等待它的 blocked 後續工作
+ *   （failure_reason 記為 CASCADE_CANCEL_REASON，以便重試時恢復）
+ * - 每個操作都寫入 audit_logs（與狀態變更在同一交易中）
+ */
+
+export const JOB_STATUSES = ["blocked", "pending", "processing", "completed", "failed", "cancelled"] as const;
+export const JOB_TYPES = ["story_script", "translation", "vocabulary", "image", "audio", "video"] as const;
+
+export const ADMIN_JOBS_PAGE_SIZE = 50;
+
+/**
+ * 因前置工作被取消而連帶取消的 job 的 failure_reason（重試前置工作時據此恢復）
+ */
+export const CASCADE_CANCEL_REASON = "cancelled with upstream job";
+
+/**
+ * 列表查詢參數 schema（空字串視為未篩選）。
+ */
+export const jobListQuerySchema = z.object({
+  status: z.preprocess((v) => (v === "" ? undefined : v), z.enum(JOB_STATUSES).optional()),
+  jobType: z.preprocess((v) => (v === "" ? undefined : v), z.enum(JOB_TYPES).optional()),
+  storyId: z.preprocess((v) => (v === "" ? undefined : v), z.uuid().optional()),
+  page: z.coerce.number().int().min(1).default(1),
+});
+
+export type JobListQuery = z.infer<typeof jobListQuerySchema>;
+
+/**
+ * 列表中的一筆 job。
+ */
+export interface JobSummary {
+  id: string;
+  storyId: string;
+  storyTitle: string | null;
+  jobType: string;
+  status: string;
+  retryCount: number;
+  failureReason: string | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * job 詳細資料。
+ */
+export interface JobDetail extends JobSummary {
+  payload: Record<string, unknown>;
+  resultUri: string | null;
+  failures: Array<{ id: string; errorCode: string | null; errorMessage: string; attempt: number; status: string; createdAt: string }>;
+  dependsOn: Array<{ id: string; jobType: string; status: string }>;
+}
+
+/**
+ * 管理操作的結果：changed 為 false 表示 job 不存在或目前狀態不允許此操作。
+ */
+export interface JobActionResult {
+  changed: boolean;
+  /**
+   * 被變更的 job id（取消時包含連帶取消的後續工作，重試時包含恢復的後續工作）
+   */
+  jobIds: string[];
+  /**
+   * 提交後需推回佇列的 job id（重試後可立即執行者）
+   */
+  runnableJobIds: string[];
+}
+
+/**
+ * 重設 job 供重試的結果。
+ */
+export interface RetryResetResult {
+  /**
+   * 重設的 job id（failed / cancelled → pending 或 blocked）
+   */
+  resetJobIds: string[];
+  /**
+   * 其中可立即執行（已轉為 pending）的 job id
+   */
+  runnableJobIds: string[];
+  /**
+   * 恢復為 blocked 的連帶取消後續工作
+   */
+  restoredJobIds: string[];
+}
+
+function toIso(value: unknown): string | null {
+  return value == null ? null : new Date(String(value)).toISOString();
+}
+
+function toJobSummary(row: Record<string, unknown>): JobSummary {
+  return {
+    id: String(row.id),
+    storyId: String(row.story_id),
+    storyTitle: row.story_title == null ? null : String(row.story_title),
+    jobType: String(row.job_type),
+    status: String(row.status),
+    retryCount: Number(row.retry_count ?? 0),
+    failureReason: row.failure_reason == null ? null : String(row.failure_reason),
+    nextAttemptAt: toIso(row.next_attempt_at),
+    createdAt: toIso(row.created_at) ?? "",
+    updatedAt: toIso(row.updated_at) ?? "",
+  };
+}
+
+/**
+ * 查詢 job 列表。
+ * @param query 已驗證的查詢參數
+ * @param client pg client（預設使用全域 Pool）
+ * @returns 該頁 job 與是否有下一頁
+ */
+export async function listJobs(
+  query: JobListQuery,
+  client: Queryable = getPgPool(),
+): Promise<{ items: JobSummary[]; hasNext: boolean }> {
+  const where: string[] = [];
+  const values: unknown[] = [];
+  const param = (value: unknown) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+  if (query.status) where.push(`j.status = ${param(query.status)}`);
+  if (query.jobType) where.push(`j.job_type = ${param(query.jobType)}`);
+  if (query.storyId) where.push(`j.story_id = ${param(query.storyId)}`);
+
+  const res = await client.query(
+    `SELECT j.id, j.story_id, s.title_en AS story_title, j.job_type, j.status, j.retry_count,
+            j.failure_reason, j.next_attempt_at, j.created_at, j.updated_at
+     FROM generation_jobs j
+     LEFT JOIN stories s ON s.id = j.story_id
+     ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+     ORDER BY j.created_at DESC, j.id DESC
+     LIMIT ${param(ADMIN_JOBS_PAGE_SIZE + 1)} OFFSET ${param((query.page - 1) * ADMIN_JOBS_PAGE_SIZE)}`,
+    values,
+  );
+  return {
+    items: res.rows.slice(0, ADMIN_JOBS_PAGE_SIZE).map(toJobSummary),
+    hasNext: res.rows.length > ADMIN_JOBS_PAGE_SIZE,
+  };
+}
+
+/**
+ * 取得 job 詳細資料（payload、失敗原因、failed_jobs 與前置工作）；不存在時回傳 null。
+ * @param jobId generation_jobs.id
+ * @param client pg client（預設使用全域 Pool）
+ */
+export async function getJobDetail(jobId: string, client: Queryable = getPgPool()): Promise<JobDetail | null> {
+  const res = await client.query(
+    `SELECT j.*, s.title_en AS story_title
+     FROM generation_jobs j
+     LEFT JOIN stories s ON s.id = j.story_id
+     WHERE j.id = $1`,
+    [jobId],
+  );
+  const row = res.rows[0];
+  if (!row) return null;
+
+  const [failures, deps] = await Promise.all([
+    client.query(
+      `SELECT id, error_code, error_message, attempt, status, created_at
+       FROM failed_jobs WHERE generation_job_id = $1
+       ORDER BY created_at DESC`,
+      [jobId],
+    ),
+    client.query(
+      `SELECT j.id, j.job_type, j.status
+       FROM generation_job_dependencies d
+       JOIN generation_jobs j ON j.id = d.depends_on_job_id
+       WHERE d.job_id = $1
+       ORDER BY j.created_at`,
+      [jobId],
+    ),
+  ]);
+
+  return {
+    ...toJobSummary(row),
+    payload: (row.payload as Record<string, unknown>) ?? {},
+    resultUri: row.result_uri == null ? null : String(row.result_uri),
+    failures: failures.rows.map((f) => ({
+      id: String(f.id),
+      errorCode: f.error_code == null ? null : String(f.error_code),
+      errorMessage: String(f.error_message),
+      attempt: Number(f.attempt ?? 0),
+      status: String(f.status),
+      createdAt: toIso(f.created_at) ?? "",
+    })),
+    dependsOn: deps.rows.map((d) => ({ id: String(d.id), jobType: String(d.job_type), status: String(d.status) })),
+  };
+}
+
+/**
+ * 依相依關係重設 failed / cancelled 的 jobs 供重試（在呼叫端的交易中執行；提交後需推送 runnableJobIds）：
+ * - 前置工作全部完成者轉為 pending，否則回到 blocked（待前置工作完成後由 releaseDependentJobs 釋放）
+ * - 取消時連帶取消（CASCADE_CANCEL_REASON）的後續工作恢復為 blocked；被重新生成取代的 job 不恢復
+ * @param client 交易中的 pg client
+ * @param jobIds 要重試的 generation_jobs.id（其他狀態的 job 會略過）
+ */
+export async function resetJobsForRetry(client: Queryable, jobIds: string[]): Promise<RetryResetResult> {
+  if (jobIds.length === 0) return { resetJobIds: [], runnableJobIds: [], restoredJobIds: [] };
+  const reset = await client.query(
+    `UPDATE generation_jobs gj
+     SET status = CASE
+           WHEN EXISTS (
+             SELECT 1
+             FROM generation_job_dependencies d
+             JOIN generation_jobs prereq ON prereq.id = d.depends_on_job_id
+             WHERE d.job_id = gj.id AND prereq.status <> 'completed'
+           ) THEN 'blocked'::generation_job_status
+           ELSE 'pending'::generation_job_status
+         END,
+         retry_count = 0, next_attempt_at = NULL,
+         failure_reason = CASE WHEN gj.failure_reason = $2 THEN NULL ELSE gj.failure_reason END,
+         updated_at = now()
+     WHERE gj.id = ANY($1::uuid[]) AND gj.status IN ('failed', 'cancelled')
+     RETURNING gj.id, gj.status`,
+    [jobIds, CASCADE_CANCEL_REASON],
+  );
+  const resetJobIds = reset.rows.map((r) => String(r.id));
+  if (resetJobIds.length === 0) return { resetJobIds, runnableJobIds: [], restoredJobIds: [] };
+
+  const restored = await client.query(
+    `WITH RECURSIVE downstream(id) AS (
+       SELECT d.job_id FROM generation_job_dependencies d WHERE d.depends_on_job_id = ANY($1::uuid[])
+       UNION
+       SELECT d.job_id FROM generation_job_dependencies d JOIN downstream ds ON d.depends_on_job_id = ds.id
+     )
+     UPDATE generation_jobs j
+     SET status = 'blocked', failure_reason = NULL, retry_count = 0, next_attempt_at = NULL, updated_at = now()
+     FROM downstream
+     WHERE j.id = downstream.id AND j.status = 'cancelled' AND j.failure_reason = $2
+     RETURNING j.id`,
+    [resetJobIds, CASCADE_CANCEL_REASON],
+  );
+  return {
+    resetJobIds,
+    runnableJobIds: reset.rows.filter((r) => r.status === "pending").map((r) => String(r.id)),
+    restoredJobIds: restored.rows.map((r) => String(r.id)),
+  };
+}
+
+/**
+ * 重試 failed / cancelled 的 job（在呼叫端的交易中執行；提交後需推送 runnableJobIds）。
+ * @param client 交易中的 pg client
+ * @param jobId generation_jobs.id
+ * @param userId 操作的管理者 users.id
+ */
+export async function retryJob(client: Queryable, jobId: string, userId: string): Promise<JobActionResult> {
+  const { resetJobIds, runnableJobIds, restoredJobIds } = await resetJobsForRetry(client, [jobId]);
+  const changed = resetJobIds.length > 0;
+  await recordAuditLog(client, {
+    userId,
+    action: "admin.job.retry",
+    context: { jobId, changed, runnable: runnableJobIds.length > 0, restoredJobIds },
+  });
+  return { changed, jobIds: [...resetJobIds, ...restoredJobIds], runnableJobIds };
+}
+
+/**
+ * 取消 job，並連帶取消（遞迴）仍在等待它的 blocked 後續工作（在呼叫端的交易中執行）。
+ * @param client 交易中的 pg client
+ * @param jobId generation_jobs.id
+ * @param userId 操作的管理者 users.id
+ */
+export async function cancelJob(client: Queryable, jobId: string, userId: string): Promise<JobActionResult> {
+  const res = await client.query(
+    `UPDATE generation_jobs
+     SET status = 'cancelled', next_attempt_at = NULL, updated_at = now()
+     WHERE id = $1 AND status IN ('blocked', 'pending', 'failed')
+     RETURNING id`,
+    [jobId],
+  );
+  const changed = res.rows.length > 0;
+  let jobIds: string[] = [];
+  if (changed) {
+    const dependents = await client.query(
+      `WITH RECURSIVE downstream(id) AS (
+         SELECT d.job_id FROM generation_job_dependencies d WHERE d.depends_on_job_id = $1
+         UNION
+         SELECT d.job_id FROM generation_job_dependencies d JOIN downstream ds ON d.depends_on_job_id = ds.id
+       )
+       UPDATE generation_jobs j
+       SET status = 'cancelled', failure_reason = $2, updated_at = now()
+       FROM downstream
+       WHERE j.id = downstream.id AND j.status = 'blocked'
+       RETURNING j.id`,
+      [jobId, CASCADE_CANCEL_REASON],
+    );
+    jobIds = [jobId, ...dependents.rows.map((r) => String(r.id))];
+  }
+  await recordAuditLog(client, {
+    userId,
+    action: "admin.job.cancel",
+    context: { jobId, changed, cancelledJobIds: jobIds },
+  });
+  return { changed, jobIds, runnableJobIds: [] };
+}
@@ -0,0 +1,343 @@
+import { z } from "zod";
+import { getPgPool } from "../utils/pgPool";
+import type { Queryable } from "../generation/storyScriptJobs";
+import { recordAuditLog } from "../audit/auditLog";
+import { getAgeBandProfile } from "../openai/AgeBandProfiles";
+import { cancelStaleMediaJobs, insertMediaJobs, replaceVocabEntries } from "../generation/storyRegeneration";
+import { createStoryVersion, getStoryVersion } from "../stories/versions";
+
+/**
+ * 管理後台：故事發布前審核（/admin/stories）
+ *
+ * - 生成管線完成的故事為 pending_review，需管理者審核才會公開
+ * - 核准：pending_review → published（首次發布寫入 published_at），並建立發布版本（story_versions），
+ *   stories.published_version_id 指向它；讀者只看發布版本，之後的重新生成 / 回復需再次核准才會公開
+ * - 退回：pending_review → draft，理由寫入 stories.metadata.review
+ * - 審核中可修改單頁英文 / 中文文字（重新計算 word_count）；該頁配音失效並重新產生配音與影片，
+ *   故事轉回 processing，新媒體完成後重新送審
+ * - 回復：將故事內容回復到指定版本（先保存目前內容為 rollback 版本），回到 pending_review 等待核准
+ * - 每個決定都寫入 audit_logs（與狀態變更在同一交易中）
+ */
+
+export const REJECT_REASON_MAX_LENGTH = 500;
+
+/**
+ * 退回理由 schema。
+ */
+export const rejectReasonSchema = z.string().trim().min(1, "reason is required").max(REJECT_REASON_MAX_LENGTH);
+
+/**
+ * 單頁文字修改 schema。
+ */
+export const storyPageEditSchema = z.object({
+  textEn: z.string().trim().min(1).max(4000),
+  textZh: z.string().trim().min(1).max(4000),
+});
+
+export type StoryPageEdit = z.infer<typeof storyPageEditSchema>;
+
+/**
+ * 修改單頁文字的結果；jobIds 為提交後需推送佇列的配音 job。
+ */
+export type StoryPageUpdateResult = { changed: boolean; jobIds: string[] };
+
+/**
+ * 回復版本的結果；影片與目前不同時 videoJobId 為需推送佇列的 video job。
+ */
+export type StoryRollbackResult = { ok: true; videoJobId: string | null } | { ok: false; error: string };
+
+/**
+ * 待審核列表中的一筆故事。
+ */
+export interface ReviewQueueItem {
+  id: string;
+  titleEn: string;
+  titleZh: string;
+  theme: string;
+  ageRange: string;
+  pageCount: number;
+  submittedAt: string;
+}
+
+/**
+ * 列出等待審核的故事（最早送審的在前）。
+ * @param client pg client（預設使用全域 Pool）
+ */
+export async function listStoriesForReview(client: Queryable = getPgPool()): Promise<ReviewQueueItem[]> {
+  const res = await client.query(
+    `SELECT s.id, s.title_en, s.title_zh, s.theme, s.age_range, s.updated_at,
+            (SELECT count(*) FROM story_pages p WHERE p.story_id = s.id) AS page_count
+     FROM stories s
+     WHERE s.status = 'pending_review'
+     ORDER BY s.updated_at ASC
+     LIMIT 100`,
+  );
+  return res.rows.map((row) => ({
+    id: String(row.id),
+    titleEn: String(row.title_en),
+    titleZh: String(row.title_zh),
+    theme: String(row.theme),
+    ageRange: String(row.age_range),
+    pageCount: Number(row.page_count),
+    submittedAt: new Date(String(row.updated_at)).toISOString(),
+  }));
+}
+
+/**
+ * 核准故事並發布（在呼叫端的交易中執行）；發布的內容保存為新版本。
+ * @param client 交易中的 pg client
+ * @param storyId stories.id
+ * @param userId 審核的管理者 users.id
+ * @returns 故事是否由 pending_review 轉為 published
+ */
+export async function approveStory(client: Queryable, storyId: string, userId: string): Promise<boolean> {
+  const res = await client.query(
+    `UPDATE stories
+     SET status = 'published', published_at = coalesce(published_at, now()), updated_at = now(),
+         metadata = metadata || jsonb_build_object(
+           'review', jsonb_build_object('decision', 'approved', 'reviewedBy', $2::text, 'reviewedAt', now())
+         )
+     WHERE id = $1 AND status = 'pending_review'
+     RETURNING id`,
+    [storyId, userId],
+  );
+  const changed = res.rows.length > 0;
+  const version = changed ? await createStoryVersion(client, storyId, "published", userId) : null;
+  if (version) {
+    await client.query(`UPDATE stories SET published_version_id = $2 WHERE id = $1`, [storyId, version.id]);
+  }
+  await recordAuditLog(client, {
+    userId,
+    action: "admin.story.approve",
+    context: version ? { storyId, changed, versionNumber: version.versionNumber } : { storyId, changed },
+  });
+  return changed;
+}
+
+/**
+ * 退回故事（回到 draft，不公開；在呼叫端的交易中執行）。
+ * @param client 交易中的 pg client
+ * @param storyId stories.id
+ * @param userId 審核的管理者 users.id
+ * @param reason 退回理由
+ * @returns 故事是否由 pending_review 轉為 draft
+ */
+export async function rejectStory(client: Queryable, storyId: string, userId: string, reason: string): Promise<boolean> {
+  const res = await client.query(
+    `UPDATE stories
+     SET status = 'draft', updated_at = now(),
+         metadata = metadata || jsonb_build_object(
+           'review', jsonb_build_object('decision', 'rejected', 'reason', $3::text, 'reviewedBy', $2::text, 'reviewedAt', now())
+         )
+     WHERE id = $1 AND status = 'pending_review'
+     RETURNING id`,
+    [storyId, userId, reason],
+  );
+  const changed = res.rows.length > 0;
+  await recordAuditLog(client, {
+    userId,
+    action: "admin.story.reject",
+    context: { storyId, changed, reason },
+  });
+  return changed;
+}
+
+/**
+ * 修改審核中故事的單頁文字（在呼叫端的交易中執行；提交後需推送 jobIds）：
+ * 清除該頁配音並建立新的配音 job 與故事 video job，故事轉回 processing；audit_logs 保留修改前後內容。
+ * @param client 交易中的 pg client
+ * @param storyId stories.id
+ * @param pageNumber 頁碼
+ * @param edit 新的英文 / 中文文字
+ * @param userId 審核的管理者 users.id
+ * @returns changed 為是否有更新（故事不在 pending_review 或頁面不存在時為 false）
+ */
+export async function updateStoryPage(
+  client: Queryable,
+  storyId: string,
+  pageNumber: number,
+  edit: StoryPageEdit,
+  userId: string,
+): Promise<StoryPageUpdateResult> {
+  const wordCount = edit.textEn.split(/\s+/).filter(Boolean).length;
+  const res = await client.query(
+    `WITH previous AS (
+       SELECT p.id, p.text_en, p.text_zh, s.age_range
+       FROM story_pages p
+       JOIN stories s ON s.id = p.story_id
+       WHERE p.story_id = $1 AND p.page_number = $2 AND s.status = 'pending_review'
+       FOR UPDATE OF p, s
+     )
+     UPDATE story_pages p
+     SET text_en = $3, text_zh = $4, word_count = $5, audio_asset_id = NULL, updated_at = now()
+     FROM previous
+     WHERE p.id = previous.id
+     RETURNING previous.text_en AS previous_en, previous.text_zh AS previous_zh, previous.age_range`,
+    [storyId, pageNumber, edit.textEn, edit.textZh, wordCount],
+  );
+  const previous = res.rows[0];
+  if (!previous) return { changed: false, jobIds: [] };
+
+  await cancelStaleMediaJobs(client, storyId, ["audio"], [pageNumber]);
+  const jobIds = await insertMediaJobs(
+    client,
+    storyId,
+    [
+      {
+        jobType: "audio",
+        payload: {
+          pageNumber,
+          textEn: edit.textEn,
+          textZh: edit.textZh,
+          narrationSpeed: getAgeBandProfile(String(previous.age_range)).narrationSpeed,
+        },
+      },
+    ],
+    null,
+  );
+  await client.query(`UPDATE stories SET status = 'processing', updated_at = now() WHERE id = $1`, [storyId]);
+
+  await recordAuditLog(client, {
+    userId,
+    action: "admin.story.edit_page",
+    context: {
+      storyId,
+      pageNumber,
+      before: { textEn: previous.previous_en, textZh: previous.previous_zh },
+      after: edit,
+      audioJobIds: jobIds,
+    },
+  });
+  return { changed: true, jobIds };
+}
+
+/**
+ * 將故事內容回復到指定版本（在呼叫端的交易中執行；有 videoJobId 時提交後需推送佇列）：
+ * 1) 保存目前內容為 rollback 版本
+ * 2) 回復標題、摘要、各頁文字與媒體連結、精選單字
+ * 3) 版本的影片與目前最新影片不同時建立 video job 重新合成（故事轉為 processing，完成後送審），
+ *    否則直接回到 pending_review
+ * 故事有進行中的 job 時拒絕；回復後需再次核准才會公開。
+ * @param client 交易中的 pg client
+ * @param storyId stories.id
+ * @param versionNumber 要回復的版本序號
+ * @param userId 操作的管理者 users.id
+ */
+export async function rollbackStoryToVersion(
+  client: Queryable,
+  storyId: string,
+  versionNumber: number,
+  userId: string,
+): Promise<StoryRollbackResult> {
+  const res = await client.query(
+    `SELECT s.id,
+            EXISTS (
+              SELECT 1 FROM generation_jobs j
+              WHERE j.story_id = s.id AND j.status IN ('blocked', 'pending', 'processing')
+            ) AS busy
+     FROM stories s
+     WHERE s.id = $1
+     FOR UPDATE OF s`,
+    [storyId],
+  );
+  const row = res.rows[0];
+  if (!row) return { ok: false, error: "story not found" };
+  if (row.busy) return { ok: false, error: "story has generation jobs in progress" };
+
+  const target = await getStoryVersion(storyId, versionNumber, client);
+  if (!target) return { ok: false, error: `version ${versionNumber} not found` };
+  const { snapshot } = target;
+
+  const backup = await createStoryVersion(client, storyId, "rollback", userId);
+
+  const pageNumbers = snapshot.pages.map((p) => p.pageNumber);
+  // 多出的頁面：先解除媒體與頁面的關聯（保留 media_assets 供其他版本使用）再刪除
+  await client.query(
+    `UPDATE media_assets SET page_id = NULL
+     WHERE page_id IN (SELECT id FROM story_pages WHERE story_id = $1 AND NOT (page_number = ANY($2::int[])))`,
+    [storyId, pageNumbers],
+  );
+  await client.query(`DELETE FROM story_pages WHERE story_id = $1 AND NOT (page_number = ANY($2::int[]))`, [
+    storyId,
+    pageNumbers,
+  ]);
+  for (const page of snapshot.pages) {
+    // 媒體列已不存在時不連結（避免外鍵錯誤）
+    const values = [storyId, page.pageNumber, page.textEn, page.textZh, page.wordCount, page.imageAssetId, page.audioAssetId];
+    const updated = await client.query(
+      `UPDATE story_pages
+       SET text_en = $3, text_zh = $4, word_count = $5,
+           media_asset_id = (SELECT id FROM media_assets WHERE id = $6::uuid),
+           audio_asset_id = (SELECT id FROM media_assets WHERE id = $7::uuid),
+           updated_at = now()
+       WHERE story_id = $1 AND page_number = $2
+       RETURNING id`,
+      values,
+    );
+    if (updated.rows.length === 0) {
+      await client.query(
+        `INSERT INTO story_pages (story_id, page_number, text_en, text_zh, word_count, media_asset_id, audio_asset_id)
+         VALUES ($1,$2,$3,$4,$5,(SELECT id FROM media_assets WHERE id = $6::uuid),(SELECT id FROM media_assets WHERE id = $7::uuid))`,
+        values,
+      );
+    }
+  }
+
+  await replaceVocabEntries(
+    client,
+    storyId,
+    snapshot.vocabulary.map((v) => ({
+      word: v.word,
+      partOfSpeech: v.partOfSpeech ?? "",
+      definitionEn: v.definitionEn,
+      definitionZh: v.definitionZh,
+      exampleSentence: v.exampleSentence ?? "",
+      exampleTranslation: v.exampleTranslation ?? "",
+      cefrLevel: v.cefrLevel ?? undefined,
+    })),
+  );
+
+  const videoRes = await client.query(
+    `SELECT id FROM media_assets
+     WHERE story_id = $1 AND type = 'video' AND page_id IS NULL
+     ORDER BY created_at DESC LIMIT 1`,
+    [storyId],
+  );
+  const currentVideoId = videoRes.rows[0] ? String(videoRes.rows[0].id) : null;
+  let videoJobId: string | null = null;
+  if (snapshot.videoAssetId !== currentVideoId) {
+    const jobRes = await client.query(
+      `INSERT INTO generation_jobs (story_id, job_type, status, retry_count, payload)
+       VALUES ($1,'video','pending',0,$2) RETURNING id`,
+      [storyId, JSON.stringify({ type: "video", storyId })],
+    );
+    videoJobId = String(jobRes.rows[0].id);
+  }
+
+  const synopsis = Object.fromEntries(
+    Object.entries({ synopsisEn: snapshot.synopsisEn, synopsisZh: snapshot.synopsisZh }).filter(([, v]) => v != null),
+  );
+  await client.query(
+    `UPDATE stories
+     SET title_en = $2, title_zh = $3, status = $4, updated_at = now(),
+         metadata = (metadata - 'synopsisEn' - 'synopsisZh') || $5::jsonb
+     WHERE id = $1`,
+    [
+      storyId,
+      snapshot.titleEn,
+      snapshot.titleZh,
+      videoJobId ? "processing" : "pending_review",
+      JSON.stringify({
+        ...synopsis,
+        lastRollback: { versionNumber, backupVersionNumber: backup?.versionNumber ?? null, at: new Date().toISOString() },
+      }),
+    ],
+  );
+
+  await recordAuditLog(client, {
+    userId,
+    action: "admin.story.rollback",
+    context: { storyId, versionNumber, backupVersionNumber: backup?.versionNumber ?? null, videoJobId },
+  });
+  return { ok: true, videoJobId };
+}
@@ -0,0 +1,30 @@
+import type { Queryable } from "../generation/storyScriptJobs";
+
+/**
+ * 操作紀錄（audit_logs）
+ */
+
+/**
+ * 一筆操作紀錄。
+ */
+export interface AuditEntry {
+  /**
+   * 操作者 users.id；系統（cron、worker）觸發時為 null
+   */
+  userId: string | null;
+  action: string;
+  context?: Record<string, unknown>;
+}
+
+/**
+ * 寫入操作紀錄（可在呼叫端的交易中執行）。
+ * @param client pg client
+ * @param entry 操作紀錄
+ */
+export async function recordAuditLog(client: Queryable, entry: AuditEntry): Promise<void> {
+  await client.query(`INSERT INTO audit_logs (user_id, action, context) VALUES ($1, $2, $3)`, [
+    entry.userId,
+    entry.action,
+    JSON.stringify(entry.context ?? {}),
+  ]);
+}
@@ -0,0 +1,43 @@
+import type { UserRole } from "./session";
+
+/**
+ * 路由權限規則（proxy 使用）
+ *
+ * - /api/generation/*、/admin/*、/api/admin/*：admin
+ * - /me/*：任何已登入使用者（parent 或 admin）
+ * - 其他路由（含 /api/cron/*，由 route 以 CRON_SECRET 驗證；未設定時 route 拒絕請求）：不需登入
+ */
+
+/**
+ * 路由要求的權限：null 表示公開，"user" 表示任何已登入使用者。
+ */
+export type AccessRequirement = null | "user" | UserRole;
+
+const RULES: Array<{ prefix: string; requirement: Exclude<AccessRequirement, null> }> = [
+  { prefix: "/api/generation", requirement: "admin" },
+  { prefix: "/api/admin", requirement: "admin" },
+  { prefix: "/admin", requirement: "admin" },
+  { prefix: "/me", requirement: "user" },
+];
+
+/**
+ * 取得路徑要求的權限。
+ * @param pathname request 路徑
+ */
+export function requiredAccess(pathname: string): AccessRequirement {
+  const rule = RULES.find((r) => pathname === r.prefix || pathname.startsWith(`${r.prefix}/`));
+  return rule?.requirement ?? null;
+}
+
+/**
+ * 判斷角色是否符合權限要求。
+ * @param role 使用者角色（未登入為 null）
+ * @param requirement 路由要求
+ * @returns "ok" | "unauthenticated"（需登入）| "forbidden"（角色不足）
+ */
+export function checkAccess(role: UserRole | null, requirement: AccessRequirement): "ok" | "unauthenticated" | "forbidden" {
+  if (requirement === null) return "ok";
+  if (role === null) return "unauthenticated";
+  if (requirement === "user" || role === "admin" || role === requirement) return "ok";
+  return "forbidden";
+}
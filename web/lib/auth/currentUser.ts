@@ -0,0 +1,20 @@
+import { getSessionUser, type SessionUser } from "./session";
+
+/**
+ * 目前使用者（依登入 session 判斷）。
+ */
+
+/**
+ * 取得目前使用者的 users.id；未登入時回傳 null。
+ */
+export async function getCurrentUserId(): Promise<string | null> {
+  return (await getSessionUser())?.id ?? null;
+}
+
+/**
+ * 取得目前登入的管理者；未登入或非 admin 時回傳 null（管理用 Server Actions 使用）。
+ */
+export async function getCurrentAdmin(): Promise<SessionUser | null> {
+  const user = await getSessionUser();
+  return user?.role === "admin" ? user : null;
+}
@@ -0,0 +1,128 @@
+import { z } from "zod";
+import { env } from "../utils/env";
+import { getPgPool } from "../utils/pgPool";
+import type { Queryable } from "../generation/storyScriptJobs";
+import { recordAuditLog } from "../audit/auditLog";
+import { sendMail as defaultSendMail, type SendMail } from "./mailer";
+import { createSession, generateToken, hashToken, type SessionUser } from "./session";
+
+/**
+ * Email 登入連結（magic link）
+ *
+ * 1) requestMagicLink：建立一次性 token（15 分鐘有效），寄出 /api/auth/callback?token=... 連結
+ * 2) consumeMagicLink：原子性地將 token 標記為已使用；第一次登入的 email 會建立 users（預設 parent，
+ *    列於 ADMIN_EMAILS 者為 admin），並建立 session
+ */
+
+export const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+
+export const emailSchema = z.email().max(255);
+
+/**
+ * 寄送登入連結的相依項目。
+ */
+export interface MagicLinkDeps {
+  client?: Queryable;
+  sendMail?: SendMail;
+  /**
+   * 連結的網址前綴（預設 APP_BASE_URL）
+   */
+  baseUrl?: string;
+  now?: Date;
+}
+
+/**
+ * 正規化 email（去空白、小寫）。
+ * @param email 使用者輸入的 email
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * 是否為 ADMIN_EMAILS（逗號分隔）中的 email。
+ * @param email 已正規化的 email
+ * @param adminEmails ADMIN_EMAILS 設定
+ */
+export function isAdminEmail(email: string, adminEmails: string | undefined = env.ADMIN_EMAILS): boolean {
+  if (!adminEmails) return false;
+  return adminEmails
+    .split(",")
+    .map((e) => normalizeEmail(e))
+    .includes(email);
+}
+
+/**
+ * 只允許站內相對路徑作為登入後導向目標，避免 open redirect。
+ * @param next 導向目標
+ */
+export function safeRedirectPath(next: string | null | undefined): string {
+  if (!next || !next.startsWith("/") || next.startsWith("//") || next.startsWith("/\\")) return "/";
+  return next;
+}
+
+/**
+ * 建立登入 token 並寄出登入連結。
+ * @param rawEmail 使用者輸入的 email
+ * @param next 登入後導向的站內路徑
+ * @param deps 相依項目
+ */
+export async function requestMagicLink(rawEmail: string, next: string | null, deps: MagicLinkDeps = {}): Promise<void> {
+  const email = normalizeEmail(rawEmail);
+  const client = deps.client ?? getPgPool();
+  const now = deps.now ?? new Date();
+  const token = generateToken();
+
+  await client.query(`INSERT INTO magic_link_tokens (email, token_hash, expires_at) VALUES ($1, $2, $3)`, [
+    email,
+    hashToken(token),
+    new Date(now.getTime() + MAGIC_LINK_TTL_MS).toISOString(),
+  ]);
+
+  const url = new URL("/api/auth/callback", deps.baseUrl ?? env.APP_BASE_URL ?? "http://localhost:3000");
+  url.searchParams.set("token", token);
+  url.searchParams.set("next", safeRedirectPath(next));
+
+  await (deps.sendMail ?? defaultSendMail)({
+    to: email,
+    subject: "Sign in to Happy Learner｜登入連結",
+    text: `Open this link within 15 minutes to sign in:\n請在 15 分鐘內開啟以下連結登入：\n\n${url.toString()}\n`,
+  });
+  console.info("[auth] magic link sent", { email });
+}
+
+/**
+ * 使用登入 token：成功時回傳使用者與新的 session token；token 無效、已使用或過期時回傳 null。
+ * @param token 連結中的 token
+ * @param client pg client（預設使用全域 Pool）
+ */
+export async function consumeMagicLink(
+  token: string,
+  client: Queryable = getPgPool(),
+): Promise<{ user: SessionUser; sessionToken: string; expiresAt: Date } | null> {
+  // 以單一 UPDATE 條件式標記，確保同一 token 只能使用一次
+  const consumed = await client.query(
+    `UPDATE magic_link_tokens
+     SET consumed_at = now()
+     WHERE token_hash = $1 AND consumed_at IS NULL AND expires_at > now()
+     RETURNING email`,
+    [hashToken(token)],
+  );
+  const email = consumed.rows[0]?.email;
+  if (typeof email !== "string") return null;
+
+  // 既有使用者之後被加入 ADMIN_EMAILS 時於下次登入升級為 admin；移出名單不會自動降級
+  const upserted = await client.query(
+    `INSERT INTO users (email, role) VALUES ($1, $2)
+     ON CONFLICT (email) DO UPDATE
+     SET role = CASE WHEN EXCLUDED.role = 'admin' THEN EXCLUDED.role ELSE users.role END
+     RETURNING id, email, role`,
+    [email, isAdminEmail(email) ? "admin" : "parent"],
+  );
+  const row = upserted.rows[0];
+  const user: SessionUser = { id: String(row.id), email: String(row.email), role: row.role === "admin" ? "admin" : "parent" };
+
+  const session = await createSession(client, user.id);
+  await recordAuditLog(client, { userId: user.id, action: "auth.sign_in", context: { method: "magic_link" } });
+  return { user, sessionToken: session.token, expiresAt: session.expiresAt };
+}
@@ -0,0 +1,42 @@
+import nodemailer from "nodemailer";
+import { env } from "../utils/env";
+
+/**
+ * 寄信（登入連結）
+ *
+ * 透過 SMTP 寄送；開發環境預設連到本機的 SMTP 替身（例如 Mailpit / MailHog 的 localhost:1025），
+ * 不需帳密與 TLS，寄出的信可在其 Web UI 查看。
+ */
+
+/**
+ * 一封信。
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * 寄信函式（可於測試中替換）。
+ */
+export type SendMail = (message: MailMessage) => Promise<void>;
+
+let transporter: nodemailer.Transporter | null = null;
+
+/**
+ * 以 SMTP_HOST / SMTP_PORT（預設 localhost:1025）寄信。
+ * @param message 信件內容
+ */
+export const sendMail: SendMail = async (message) => {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: env.SMTP_HOST ?? "localhost",
+      port: env.SMTP_PORT ?? 1025,
+      secure: false,
+      ignoreTLS: !env.SMTP_HOST,
+    });
+  }
+  await transporter.sendMail({ from: env.MAIL_FROM ?? "Happy Learner <no-reply@happylearner.local>", ...message });
+};
@@ -0,0 +1,119 @@
+import { createHash, randomBytes } from "crypto";
+import { cookies } from "next/headers";
+import { getPgPool } from "../utils/pgPool";
+import type { Queryable } from "../generation/storyScriptJobs";
+
+/**
+ * 登入 session
+ *
+ * - session token 為隨機 32 bytes（base64url），只存在 httpOnly cookie；資料庫保存其 SHA-256 雜湊
+ * - 有效期限 30 天，登出時刪除
+ */
+
+export const SESSION_COOKIE = "hl_session";
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * 使用者角色（對應 users.role）。
+ */
+export type UserRole = "parent" | "admin";
+
+/**
+ * 已登入的使用者。
+ */
+export interface SessionUser {
+  id: string;
+  email: string;
+  role: UserRole;
+}
+
+/**
+ * 產生隨機 token。
+ */
+export function generateToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * 計算 token 的 SHA-256 雜湊（hex）。
+ * @param token 原始 token
+ */
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * 為使用者建立 session，回傳要寫入 cookie 的 token。
+ * @param client pg client
+ * @param userId users.id
+ * @param now 目前時間
+ */
+export async function createSession(
+  client: Queryable,
+  userId: string,
+  now: Date = new Date(),
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = generateToken();
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_MS);
+  await client.query(`INSERT INTO user_sessions (user_id, token_hash, expires_at) VALUES ($1, $2, $3)`, [
+    userId,
+    hashToken(token),
+    expiresAt.toISOString(),
+  ]);
+  return { token, expiresAt };
+}
+
+/**
+ * 依 session token 取得使用者；token 不存在或已過期時回傳 null。
+ * @param token cookie 中的 session token
+ * @param client pg client（預設使用全域 Pool）
+ */
+export async function findSessionUser(token: string, client: Queryable = getPgPool()): Promise<SessionUser | null> {
+  const res = await client.query(
+    `SELECT u.id, u.email, u.role
+     FROM user_sessions s
+     JOIN users u ON u.id = s.user_id
+     WHERE s.token_hash = $1 AND s.expires_at > now()`,
+    [hashToken(token)],
+  );
+  const row = res.rows[0];
+  if (!row) return null;
+  return { id: String(row.id), email: String(row.email), role: row.role === "admin" ? "admin" : "parent" };
+}
+
+/**
+ * 刪除 session（登出）。
+ * @param token cookie 中的 session token
+ * @param client pg client（預設使用全域 Pool）
+ */
+export async function deleteSession(token: string, client: Queryable = getPgPool()): Promise<void> {
+  await client.query(`DELETE FROM user_sessions WHERE token_hash = $1`, [hashToken(token)]);
+}
+
+/**
+ * 取得目前 request 的登入使用者（Server Component、Server Action、Route Handler 使用）。
+ */
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+  try {
+    return await findSessionUser(token);
+  } catch (err) {
+    console.error("[auth] session lookup failed", { error: err });
+    return null;
+  }
+}
+
+/**
+ * session cookie 設定。
+ * @param expiresAt 到期時間
+ */
+export function sessionCookieOptions(expiresAt: Date) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    expires: expiresAt,
+  };
+}
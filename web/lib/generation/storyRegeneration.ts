@@ -0,0 +1,374 @@
+import { z } from "zod";
+import { getPgPool, withTransaction } from "../utils/pgPool";
+import { recordAuditLog } from "../audit/auditLog";
+import { getAgeBandProfile } from "../openai/AgeBandProfiles";
+import type { RegenerationResult } from "../openai/StoryGenerationOrchestrator";
+import type { RegenerationScope, StoryScriptResult, TranslationResult, VocabularyEntry } from "../openai/types";
+import { createStoryVersion } from "../stories/versions";
+import type { Queryable } from "./storyScriptJobs";
+
+/**
+ * 已儲存故事的單頁 / 單一階段重新生成（/admin/stories/[id]）
+ *
+ * 1) 管理者提出請求：建立 generation job（page -> story_script、translation -> translation、vocabulary -> vocabulary），
+ *    payload 帶 regenerate = true 與 scope；故事已有進行中的 job 時拒絕
+ * 2) worker 讀取目前內容，由 StoryGenerationOrchestrator.regenerate 只重新生成該範圍
+ * 3) 在同一交易中先將目前內容存為版本（story_versions，reason = regeneration），
+ *    再只更新受影響的 story_pages / vocab_entries，並讓該範圍的媒體失效：
+ *    - 清除受影響頁面的 media_asset_id / audio_asset_id
+ *    - 尚未完成的舊媒體 job 與故事 video job 轉為 cancelled
+ *    - 建立新的 image / audio job（相依於本次 job）與新的故事 video job
+ *    故事轉回 processing，新媒體完成後重新送審（pending_review）；已發布的故事在核准前讀者仍看到已發布版本
+ */
+
+/**
+ * 重新生成範圍 schema（與 lib/openai/types 的 RegenerationScope 對應）。
+ */
+export const regenerationScopeSchema = z.discriminatedUnion("stage", [
+  z.object({ stage: z.literal("page"), pageNumber: z.number().int().min(1) }),
+  z.object({ stage: z.literal("translation") }),
+  z.object({ stage: z.literal("vocabulary") }),
+]);
+
+/**
+ * 各範圍使用的 generation_jobs.job_type。
+ */
+export const REGENERATION_JOB_TYPES: Record<RegenerationScope["stage"], string> = {
+  page: "story_script",
+  translation: "translation",
+  vocabulary: "vocabulary",
+};
+
+/**
+ * 重新生成所需的已儲存故事內容。
+ */
+export interface StoredStory {
+  storyId: string;
+  theme: string;
+  tone: string;
+  ageRange: string;
+  story: StoryScriptResult;
+  translation: TranslationResult;
+}
+
+/**
+ * 提出重新生成請求的結果。
+ */
+export type RegenerationRequestResult = { ok: true; jobId: string } | { ok: false; error: string };
+
+/**
+ * 讀取故事目前的腳本與翻譯；故事不存在或尚無頁面時回傳 null。
+ * 語氣取自最初的 story_script job payload（未記錄時為 warm）。
+ * @param storyId stories.id
+ * @param client pg client（預設使用全域 Pool）
+ */
+export async function loadStoredStory(storyId: string, client: Queryable = getPgPool()): Promise<StoredStory | null> {
+  const storyRes = await client.query(
+    `SELECT s.id, s.title_en, s.title_zh, s.theme, s.age_range, s.metadata,
+            (SELECT j.payload->>'tone' FROM generation_jobs j
+             WHERE j.story_id = s.id AND j.job_type = 'story_script'
+             ORDER BY j.created_at LIMIT 1) AS tone
+     FROM stories s
+     WHERE s.id = $1`,
+    [storyId],
+  );
+  const row = storyRes.rows[0];
+  if (!row) return null;
+
+  const pagesRes = await client.query(
+    `SELECT page_number, text_en, text_zh FROM story_pages WHERE story_id = $1 ORDER BY page_number`,
+    [storyId],
+  );
+  if (pagesRes.rows.length === 0) return null;
+
+  const metadata = (row.metadata as Record<string, unknown> | null) ?? {};
+  const optionalText = (value: unknown) => (typeof value === "string" && value.length > 0 ? value : undefined);
+  return {
+    storyId: String(row.id),
+    theme: String(row.theme),
+    tone: row.tone == null ? "warm" : String(row.tone),
+    ageRange: String(row.age_range),
+    story: {
+      titleEn: String(row.title_en),
+      synopsisEn: optionalText(metadata.synopsisEn),
+      pages: pagesRes.rows.map((p) => ({ pageNumber: Number(p.page_number), textEn: String(p.text_en) })),
+    },
+    translation: {
+      titleZh: String(row.title_zh),
+      synopsisZh: optionalText(metadata.synopsisZh),
+      pages: pagesRes.rows.map((p) => ({ pageNumber: Number(p.page_number), textZh: String(p.text_zh) })),
+    },
+  };
+}
+
+/**
+ * 建立重新生成 job（在呼叫端的交易中執行；提交後需推送佇列）。
+ * @param client 交易中的 pg client
+ * @param storyId stories.id
+ * @param scope 重新生成範圍
+ * @param userId 操作的管理者 users.id
+ */
+export async function requestStoryRegeneration(
+  client: Queryable,
+  storyId: string,
+  scope: RegenerationScope,
+  userId: string,
+): Promise<RegenerationRequestResult> {
+  const res = await client.query(
+    `SELECT s.id, s.theme, s.age_range,
+            EXISTS (
+              SELECT 1 FROM story_pages p
+              WHERE p.story_id = s.id AND ($2::int IS NULL OR p.page_number = $2::int)
+            ) AS has_pages,
+            EXISTS (
+              SELECT 1 FROM generation_jobs j
+              WHERE j.story_id = s.id AND j.status IN ('blocked', 'pending', 'processing')
+            ) AS busy
+     FROM stories s
+     WHERE s.id = $1
+     FOR UPDATE OF s`,
+    [storyId, scope.stage === "page" ? scope.pageNumber : null],
+  );
+  const row = res.rows[0];
+  if (!row) return { ok: false, error: "story not found" };
+  if (!row.has_pages) {
+    return { ok: false, error: scope.stage === "page" ? `page ${scope.pageNumber} not found` : "story has no pages yet" };
+  }
+  if (row.busy) return { ok: false, error: "story has generation jobs in progress" };
+
+  const jobType = REGENERATION_JOB_TYPES[scope.stage];
+  const jobRes = await client.query(
+    `INSERT INTO generation_jobs (story_id, job_type, status, retry_count, payload)
+     VALUES ($1,$2,'pending',0,$3) RETURNING id`,
+    [
+      storyId,
+      jobType,
+      JSON.stringify({
+        type: jobType,
+        storyId,
+        theme: row.theme,
+        ageRange: row.age_range,
+        regenerate: true,
+        scope,
+        initiatedBy: "admin",
+      }),
+    ],
+  );
+  const jobId = String(jobRes.rows[0].id);
+
+  await recordAuditLog(client, {
+    userId,
+    action: "admin.story.regenerate",
+    context: { storyId, jobId, scope },
+  });
+  return { ok: true, jobId };
+}
+
+/**
+ * 將過期的媒體 job 轉為 cancelled（尚未完成者），已完成者保留為歷史紀錄（審核中修改頁面文字也使用）。
+ * @param client 交易中的 pg client
+ * @param storyId stories.id
+ * @param jobTypes 要失效的頁面媒體類型
+ * @param pageNumbers 受影響的頁碼
+ */
+export async function cancelStaleMediaJobs(client: Queryable, storyId: string, jobTypes: string[], pageNumbers: number[]) {
+  const res = await client.query(
+    `UPDATE generation_jobs
+     SET status = 'cancelled', next_attempt_at = NULL, updated_at = now()
+     WHERE story_id = $1
+       AND status IN ('blocked', 'pending', 'failed')
+       AND (
+         (job_type::text = ANY($2::text[]) AND (payload->>'pageNumber')::int = ANY($3::int[]))
+         OR job_type = 'video'
+       )
+     RETURNING id`,
+    [storyId, jobTypes, pageNumbers],
+  );
+  return res.rows.map((r) => String(r.id));
+}
+
+/**
+ * 建立媒體 jobs 與新的故事 video job（相依於所有媒體 jobs）。
+ * 有 parentJobId 時媒體 jobs 以 blocked 建立並相依於它；沒有時直接建立為 pending（提交後需推送佇列）。
+ * @param client 交易中的 pg client
+ * @param storyId stories.id
+ * @param jobs 要建立的媒體 job 類型與 payload
+ * @param parentJobId 本次重新生成的 job id（審核中修改頁面文字時為 null）
+ * @returns 建立的媒體 job ids（不含 video）
+ */
+export async function insertMediaJobs(
+  client: Queryable,
+  storyId: string,
+  jobs: Array<{ jobType: "image" | "audio"; payload: Record<string, unknown> }>,
+  parentJobId: string | null,
+): Promise<string[]> {
+  const ids: string[] = [];
+  for (const job of jobs) {
+    const res = await client.query(
+      `INSERT INTO generation_jobs (story_id, job_type, status, retry_count, payload)
+       VALUES ($1,$2,$3,0,$4) RETURNING id`,
+      [storyId, job.jobType, parentJobId ? "blocked" : "pending", JSON.stringify(job.payload)],
+    );
+    ids.push(String(res.rows[0].id));
+  }
+  if (ids.length === 0) return ids;
+
+  if (parentJobId) {
+    await client.query(
+      `INSERT INTO generation_job_dependencies (job_id, depends_on_job_id)
+       SELECT unnest($1::uuid[]), $2`,
+      [ids, parentJobId],
+    );
+  }
+  const videoRes = await client.query(
+    `INSERT INTO generation_jobs (story_id, job_type, status, retry_count, payload)
+     VALUES ($1,'video','blocked',0,$2) RETURNING id`,
+    [storyId, JSON.stringify({ type: "video", storyId })],
+  );
+  await client.query(
+    `INSERT INTO generation_job_dependencies (job_id, depends_on_job_id)
+     SELECT $1, unnest($2::uuid[])`,
+    [String(videoRes.rows[0].id), ids],
+  );
+  return ids;
+}
+
+/**
+ * 以新的精選單字取代故事的單字（在呼叫端的交易中執行；版本回復也使用）：
+ * 仍被選中的單字更新原本的列（依單字不分大小寫比對，已退役的列恢復使用），其餘標記 retired_at 而不刪除，
+ * 讓使用者收藏、複習進度與發布版本記錄的 vocab_entries.id 在核准前後都仍有效。
+ * @param client 交易中的 pg client
+ * @param storyId stories.id
+ * @param entries 新的精選單字
+ */
+export async function replaceVocabEntries(client: Queryable, storyId: string, entries: VocabularyEntry[]) {
+  await client.query(
+    `UPDATE vocab_entries SET retired_at = now(), updated_at = now()
+     WHERE story_id = $1 AND retired_at IS NULL AND NOT (lower(word) = ANY($2::text[]))`,
+    [storyId, entries.map((e) => e.word.toLowerCase())],
+  );
+  for (const entry of entries) {
+    const values = [
+      storyId,
+      entry.word,
+      entry.partOfSpeech ?? "",
+      entry.definitionEn,
+      entry.definitionZh,
+      entry.exampleSentence ?? "",
+      entry.exampleTranslation ?? "",
+      entry.cefrLevel ? entry.cefrLevel.toUpperCase().slice(0, 4) : null,
+    ];
+    const updated = await client.query(
+      `UPDATE vocab_entries
+       SET word = $2, part_of_speech = $3, definition_en = $4, definition_zh = $5,
+           example_sentence = $6, example_translation = $7, cefr_level = $8, retired_at = NULL, updated_at = now()
+       WHERE story_id = $1 AND lower(word) = lower($2)
+       RETURNING id`,
+      values,
+    );
+    if (updated.rows.length === 0) {
+      await client.query(
+        `INSERT INTO vocab_entries (story_id, word, part_of_speech, definition_en, definition_zh, example_sentence, example_translation, cefr_level)
+         VALUES ($1,$2,$3,$4,$5,$6,$7,$8)`,
+        values,
+      );
+    }
+  }
+}
+
+/**
+ * 寫入重新生成結果（在呼叫端的交易中執行）：只更新受影響的列並讓該範圍的媒體失效。
+ * @param client 交易中的 pg client
+ * @param storyId stories.id
+ * @param scope 重新生成範圍
+ * @param result StoryGenerationOrchestrator.regenerate 的結果
+ * @param options.parentJobId 本次重新生成的 job id（新媒體 jobs 相依於它）
+ * @param options.ageRange 年齡區間（決定旁白語速）
+ * @returns 建立的媒體 job ids
+ */
+export async function applyRegenerationResult(
+  client: Queryable,
+  storyId: string,
+  scope: RegenerationScope,
+  result: RegenerationResult,
+  options: { parentJobId: string; ageRange?: string },
+): Promise<string[]> {
+  const profile = getAgeBandProfile(options.ageRange);
+  const textZhOf = (pageNumber: number) => result.translation.pages.find((t) => t.pageNumber === pageNumber)?.textZh ?? "";
+  const audioPayload = (pageNumber: number, textEn: string) => ({
+    pageNumber,
+    textEn,
+    textZh: textZhOf(pageNumber),
+    narrationSpeed: profile.narrationSpeed,
+  });
+  let mediaJobIds: string[] = [];
+  await createStoryVersion(client, storyId, "regeneration", null);
+  const metadata: Record<string, unknown> = {
+    lastRegeneration: { scope, jobId: options.parentJobId, at: new Date().toISOString() },
+  };
+
+  if (scope.stage === "page") {
+    const page = result.story.pages.find((p) => p.pageNumber === scope.pageNumber);
+    if (!page) throw new Error(`regenerated page ${scope.pageNumber} missing from result`);
+    await client.query(
+      `UPDATE story_pages
+       SET text_en = $3, text_zh = $4, word_count = $5, media_asset_id = NULL, audio_asset_id = NULL, updated_at = now()
+       WHERE story_id = $1 AND page_number = $2`,
+      [storyId, page.pageNumber, page.textEn, textZhOf(page.pageNumber), page.textEn.split(/\s+/).filter(Boolean).length],
+    );
+    await cancelStaleMediaJobs(client, storyId, ["image", "audio"], [page.pageNumber]);
+    mediaJobIds = await insertMediaJobs(
+      client,
+      storyId,
+      [
+        { jobType: "image", payload: { pageNumber: page.pageNumber, textEn: page.textEn } },
+        { jobType: "audio", payload: audioPayload(page.pageNumber, page.textEn) },
+      ],
+      options.parentJobId,
+    );
+    if (result.readability) metadata.readability = result.readability;
+  } else if (scope.stage === "translation") {
+    for (const page of result.translation.pages) {
+      await client.query(
+        `UPDATE story_pages SET text_zh = $3, audio_asset_id = NULL, updated_at = now()
+         WHERE story_id = $1 AND page_number = $2`,
+        [storyId, page.pageNumber, page.textZh],
+      );
+    }
+    await client.query(`UPDATE stories SET title_zh = $2 WHERE id = $1`, [storyId, result.translation.titleZh]);
+    if (result.translation.synopsisZh) metadata.synopsisZh = result.translation.synopsisZh;
+    const pageNumbers = result.story.pages.map((p) => p.pageNumber);
+    await cancelStaleMediaJobs(client, storyId, ["audio"], pageNumbers);
+    mediaJobIds = await insertMediaJobs(
+      client,
+      storyId,
+      result.story.pages.map((p) => ({ jobType: "audio" as const, payload: audioPayload(p.pageNumber, p.textEn) })),
+      options.parentJobId,
+    );
+  } else {
+    await replaceVocabEntries(client, storyId, result.vocabulary?.entries ?? []);
+  }
+
+  await client.query(
+    `UPDATE stories SET status = 'processing', metadata = metadata || $2::jsonb, updated_at = now() WHERE id = $1`,
+    [storyId, JSON.stringify(metadata)],
+  );
+  return mediaJobIds;
+}
+
+/**
+ * 以獨立交易寫入重新生成結果（worker 使用）。新媒體 jobs 以 blocked 建立，待本次 job 完成後由 worker 釋放推送。
+ * @param storyId stories.id
+ * @param scope 重新生成範圍
+ * @param result StoryGenerationOrchestrator.regenerate 的結果
+ * @param options.parentJobId 本次重新生成的 job id
+ * @param options.ageRange 年齡區間
+ */
+export async function persistRegenerationResult(
+  storyId: string,
+  scope: RegenerationScope,
+  result: RegenerationResult,
+  options: { parentJobId: string; ageRange?: string },
+): Promise<string[]> {
+  return withTransaction((client) => applyRegenerationResult(client, storyId, scope, result, options));
+}
@@ -0,0 +1,129 @@
+import { randomUUID } from "crypto";
+import { env } from "../utils/env";
+import { withTransaction } from "../utils/pgPool";
+import { pushJobsToUpstash } from "../openai/OrchestrationPersistence";
+import { recordAuditLog } from "../audit/auditLog";
+import { DEFAULT_AGE_BAND } from "../openai/AgeBandProfiles";
+
+/**
+ * story_script job 建立流程（POST /api/generation/story-script 與 weekly cron 共用）
+ *
+ * 1) 建立 stories 列（status = scheduled，標題暫以主題代替，腳本完成後由 persistGenerationResult 覆寫）
+ * 2) 建立 story_script generation_job（payload 契約參考 spec.md §8.1）
+ * 3) 寫入 audit_logs（操作者為登入的使用者；cron 觸發時為 null）
+ * 4) 交易提交後推送至佇列（Upstash；Postgres driver 由 trigger 通知 worker）
+ */
+
+/**
+ * 建立 story_script job 的參數。
+ */
+export interface StoryScriptJobRequest {
+  storyId?: string;
+  theme: string;
+  tone?: string;
+  ageRange?: string;
+  scheduledAt?: string;
+  initiatedBy?: string;
+  /**
+   * 觸發的使用者 users.id（寫入 stories.created_by 與 audit_logs.user_id）
+   */
+  createdBy?: string | null;
+  /**
+   * 額外寫入 stories.metadata（例如 weeklyScheduleId）
+   */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * 建立結果。
+ */
+export interface StoryScriptJobResult {
+  storyId: string;
+  jobId: string;
+}
+
+/**
+ * 可執行查詢的 pg client（PoolClient 或測試替身）。
+ */
+export type Queryable = {
+  query(text: string, values?: unknown[]): Promise<{ rows: Record<string, unknown>[] }>;
+};
+
+/**
+ * 在呼叫端的交易中建立 story 與 story_script job（不推送佇列）。
+ *
+ * story 已存在時保留原資料（ON CONFLICT DO NOTHING），讓既有 storyId 可重新產生腳本。
+ *
+ * @param client 交易中的 pg client
+ * @param req 建立參數
+ */
+export async function insertStoryScriptJob(client: Queryable, req: StoryScriptJobRequest): Promise<StoryScriptJobResult> {
+  const storyId = req.storyId && req.storyId.length > 0 ? req.storyId : randomUUID();
+  const tone = req.tone ?? "warm";
+  const ageRange = req.ageRange ?? DEFAULT_AGE_BAND;
+  const scheduledAt = req.scheduledAt ?? new Date().toISOString();
+  const initiatedBy = req.initiatedBy ?? "manual";
+  const theme = req.theme.slice(0, 120);
+
+  await client.query(
+    `INSERT INTO stories (id, title_en, title_zh, theme, status, scheduled_at, age_range, metadata, created_by)
+     VALUES ($1,$2,$3,$4,'scheduled',$5,$6,$7,$8)
+     ON CONFLICT (id) DO NOTHING`,
+    [storyId, theme, theme, theme, scheduledAt, ageRange, JSON.stringify({ initiatedBy, ...req.metadata }), req.createdBy ?? null],
+  );
+
+  const jobPayload = {
+    type: "story_script",
+    storyId,
+    theme,
+    tone,
+    ageRange,
+    scheduledAt,
+    initiatedBy,
+  };
+  const res = await client.query(
+    `INSERT INTO generation_jobs (story_id, job_type, status, retry_count, payload)
+     VALUES ($1,'story_script','pending',0,$2) RETURNING id`,
+    [storyId, JSON.stringify(jobPayload)],
+  );
+
+  const jobId = String(res.rows[0].id);
+
+  await recordAuditLog(client, {
+    userId: req.createdBy ?? null,
+    action: "generation.story_script.requested",
+    context: { storyId, jobId, theme, initiatedBy },
+  });
+
+  return { storyId, jobId };
+}
+
+/**
+ * 將已提交的 job 推送至佇列；未設定 Upstash 或使用 Postgres driver 時略過。
+ * 推送失敗只記錄 log（job 已在 DB 中，可由後台重新推送）。
+ *
+ * @param jobIds generation_jobs.id 列表
+ */
+export async function enqueueGenerationJobs(jobIds: string[]): Promise<void> {
+  if (jobIds.length === 0) return;
+  if (env.QUEUE_DRIVER === "postgres") return;
+  if (!env.UPSTASH_REDIS_URL && !(env.UPSTASH_REST_URL && env.UPSTASH_REST_TOKEN)) {
+    console.info("[storyScriptJobs] UPSTASH not configured, jobs left pending in DB", { jobIds });
+    return;
+  }
+  try {
+    await pushJobsToUpstash(jobIds);
+  } catch (err) {
+    console.error("[storyScriptJobs] failed to push jobs", { jobIds, error: err });
+  }
+}
+
+/**
+ * 以獨立交易建立 story 與 story_script job，提交後推送佇列。
+ * @param req 建立參數
+ */
+export async function createStoryScriptJob(req: StoryScriptJobRequest): Promise<StoryScriptJobResult> {
+  const result = await withTransaction((client) => insertStoryScriptJob(client, req));
+  await enqueueGenerationJobs([result.jobId]);
+  return result;
+}
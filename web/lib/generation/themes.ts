@@ -0,0 +1,91 @@
+import type { Queryable } from "./storyScriptJobs";
+import { DEFAULT_AGE_BAND } from "../openai/AgeBandProfiles";
+import { isNearDuplicateTheme, type StoryIdeaGenerator } from "../openai/StoryIdeaGenerator";
+
+/**
+ * 預設故事主題池（weekly cron 自動排程使用）。
+ */
+export const THEME_POOL: readonly string[] = [
+  "A brave bunny learns to share",
+  "The little cloud who wanted to rain",
+  "A dragon who is afraid of the dark",
+  "Counting stars with grandma",
+  "The lost mitten in the snow",
+  "A puppy's first day at school",
+  "The turtle who wanted to fly",
+  "Making friends at the park",
+  "A rainy day picnic indoors",
+  "The moon's bedtime story",
+  "Helping the busy bees",
+  "A kitten learns to say sorry",
+  "The colorful garden surprise",
+  "Sailing a paper boat",
+  "The shy little owl",
+  "Baking cookies with dad",
+  "A penguin visits the beach",
+  "The train that could not stop singing",
+  "Brushing teeth with a crocodile",
+  "Sharing umbrellas in the rain",
+];
+
+/**
+ * 挑選出的主題與語氣。
+ */
+export interface ThemeChoice {
+  theme: string;
+  tone?: string;
+}
+
+/**
+ * Story Idea 來源（StoryIdeaGenerator 或測試替身）。
+ */
+export type StoryIdeaSource = Pick<StoryIdeaGenerator, "generate">;
+
+/**
+ * 挑選主題的選項。
+ */
+export interface PickThemesOptions {
+  ageRange?: string;
+  /**
+   * 提供時先以 Story Idea 階段產生候選；失敗或數量不足時以 THEME_POOL 補足
+   */
+  ideas?: StoryIdeaSource | null;
+}
+
+/**
+ * 挑選 count 個主題：
+ * 1) 以 Story Idea 階段產生與過往 stories.theme 不相近的候選（若提供 ideas）
+ * 2) 不足時從 THEME_POOL 補上未用過且不相近的主題
+ * 3) 主題池仍不足時再從最久未用的主題重複
+ *
+ * @param client pg client（可在交易中）
+ * @param count 需要的主題數
+ * @param opts 年齡區間與 Story Idea 來源
+ */
+export async function pickThemes(client: Queryable, count: number, opts: PickThemesOptions = {}): Promise<ThemeChoice[]> {
+  const res = await client.query(`SELECT theme, max(created_at) AS last_used FROM stories GROUP BY theme ORDER BY last_used DESC`);
+  const pastThemes = res.rows.map((r) => String(r.theme));
+  const lastUsed = new Map(res.rows.map((r) => [String(r.theme), new Date(String(r.last_used)).getTime()]));
+
+  const picked: ThemeChoice[] = [];
+  if (opts.ideas && count > 0) {
+    try {
+      const ideas = await opts.ideas.generate({ ageRange: opts.ageRange ?? DEFAULT_AGE_BAND, count, pastThemes });
+      picked.push(...ideas.map((idea) => ({ theme: idea.theme, tone: idea.tone })));
+    } catch (err) {
+      console.warn("[themes] story idea generation failed, falling back to theme pool", err);
+    }
+  }
+
+  for (const theme of THEME_POOL) {
+    if (picked.length >= count) break;
+    if (isNearDuplicateTheme(theme, [...pastThemes, ...picked.map((p) => p.theme)])) continue;
+    picked.push({ theme });
+  }
+
+  const leastRecent = [...THEME_POOL].sort((a, b) => (lastUsed.get(a) ?? 0) - (lastUsed.get(b) ?? 0));
+  for (let i = 0; picked.length < count; i++) {
+    picked.push({ theme: leastRecent[i % leastRecent.length] });
+  }
+  return picked.slice(0, count);
+}
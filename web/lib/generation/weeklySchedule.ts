@@ -0,0 +1,115 @@
+import { getPgPool, withTransaction } from "../utils/pgPool";
+import { enqueueGenerationJobs, insertStoryScriptJob, type StoryScriptJobResult } from "./storyScriptJobs";
+import { pickThemes, type StoryIdeaSource } from "./themes";
+import { StoryIdeaGenerator } from "../openai/StoryIdeaGenerator";
+
+/**
+ * weekly_schedule 派發（Vercel Cron：GET /api/cron/weekly）
+ *
+ * 1) claim：以單一 UPDATE（FOR UPDATE SKIP LOCKED）將 scheduled_date 已到且 status = pending 的排程列轉為 dispatching，
+ *    並以當下的 updated_at 作為 claim key；不持有交易與連線
+ * 2) 在交易外依 story_count 挑選主題（Story Idea 階段呼叫 LLM，失敗時以主題池補足）
+ * 3) 每列一個交易：以 claim key 將排程列標記為 dispatched（期間被其他派發接手則放棄），建立 stories 與 story_script jobs
+ *
+ * 冪等性：重複或同時觸發的 cron 只會 claim 仍為 pending 的列，不會重複建立故事。
+ * 單列派發失敗時該列回到 pending（其餘列照常派發，最後拋出錯誤）；process 當機而停在 dispatching 超過 DISPATCH_LEASE_MINUTES 的列會再次被 claim。
+ */
+
+/**
+ * dispatching 排程列的 lease（分鐘），超過後視為派發中斷
+ */
+export const DISPATCH_LEASE_MINUTES = 15;
+
+/**
+ * 單一排程列的派發結果。
+ */
+export interface DispatchedSchedule {
+  scheduleId: string;
+  scheduledDate: string;
+  stories: StoryScriptJobResult[];
+}
+
+/**
+ * dispatchDueSchedules 可注入的相依。
+ */
+export interface DispatchDeps {
+  /**
+   * Story Idea 來源；傳入 null 時只使用主題池
+   */
+  ideas?: StoryIdeaSource | null;
+}
+
+/**
+ * 派發所有到期的 pending 排程。
+ * @param now 判斷到期的基準時間（便於測試）
+ * @param deps 可注入的 Story Idea 來源
+ * @returns 本次派發的排程列與建立的故事
+ */
+export async function dispatchDueSchedules(now: Date = new Date(), deps: DispatchDeps = {}): Promise<DispatchedSchedule[]> {
+  const ideas = deps.ideas === undefined ? new StoryIdeaGenerator() : deps.ideas;
+  const pool = getPgPool();
+  const claimed = await pool.query(
+    `UPDATE weekly_schedule
+     SET status = 'dispatching', updated_at = now()
+     WHERE id IN (
+       SELECT id FROM weekly_schedule
+       WHERE scheduled_date <= $1
+         AND (status = 'pending' OR (status = 'dispatching' AND updated_at < now() - make_interval(mins => $2)))
+       ORDER BY scheduled_date
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, scheduled_date, story_count, updated_at::text AS claim_key`,
+    [now.toISOString(), DISPATCH_LEASE_MINUTES],
+  );
+
+  const dispatched: DispatchedSchedule[] = [];
+  const errors: unknown[] = [];
+  const rows = [...claimed.rows].sort(
+    (a, b) => new Date(String(a.scheduled_date)).getTime() - new Date(String(b.scheduled_date)).getTime(),
+  );
+  for (const row of rows) {
+    const scheduleId = String(row.id);
+    const scheduledDate = new Date(String(row.scheduled_date)).toISOString();
+    try {
+      const themes = await pickThemes(pool, Number(row.story_count), { ideas });
+      const created = await withTransaction(async (client) => {
+        const marked = await client.query(
+          `UPDATE weekly_schedule SET status = 'dispatched', updated_at = now()
+           WHERE id = $1 AND status = 'dispatching' AND updated_at = $2::timestamptz
+           RETURNING id`,
+          [scheduleId, row.claim_key],
+        );
+        // 已被其他派發接手（lease 過期後重新 claim）
+        if (marked.rows.length === 0) return null;
+
+        const stories: StoryScriptJobResult[] = [];
+        for (const { theme, tone } of themes) {
+          stories.push(
+            await insertStoryScriptJob(client, {
+              theme,
+              tone,
+              scheduledAt: scheduledDate,
+              initiatedBy: "cron",
+              metadata: { weeklyScheduleId: scheduleId },
+            }),
+          );
+        }
+        return stories;
+      });
+      if (created) dispatched.push({ scheduleId, scheduledDate, stories: created });
+    } catch (err) {
+      await pool.query(
+        `UPDATE weekly_schedule SET status = 'pending', updated_at = now()
+         WHERE id = $1 AND status = 'dispatching' AND updated_at = $2::timestamptz`,
+        [scheduleId, row.claim_key],
+      );
+      console.error("[weeklySchedule] dispatch failed, schedule returned to pending", { scheduleId, error: err });
+      errors.push(err);
+    }
+  }
+
+  await enqueueGenerationJobs(dispatched.flatMap((d) => d.stories.map((s) => s.jobId)));
+  // 其他排程列已派發並推送佇列後才回報失敗
+  if (errors.length > 0) throw errors[0];
+  return dispatched;
+}
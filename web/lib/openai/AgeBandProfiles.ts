@@ -0,0 +1,122 @@
+import { z } from "zod";
+
+/**
+ * AgeBandProfiles
+ *
+ * 依年齡區間（stories.age_range / StoryGenerationPayload.ageRange）決定生成規則：
+ * 頁數、每頁字數上限、句子複雜度、可讀性上限、單字 CEFR 目標、單字數量與旁白語速。
+ * PromptToolkit 寫入 prompt、ResultAssembler 與 Readability 依此驗證、OrchestrationPersistence 寫入 age_range 與旁白語速。
+ */
+
+export const AGE_BANDS = ["0-2", "3-4", "5-6"] as const;
+export type AgeBand = (typeof AGE_BANDS)[number];
+
+/**
+ * 未指定或無法辨識的年齡區間使用的預設值（與先前固定的 10 頁、每頁 50 字規則相同）。
+ */
+export const DEFAULT_AGE_BAND: AgeBand = "5-6";
+
+/**
+ * 年齡區間導入前的舊值（stories.age_range 舊預設）；既有故事保留此值，生成規則以 DEFAULT_AGE_BAND 處理。
+ */
+export const LEGACY_AGE_RANGE = "0-6";
+
+/**
+ * 年齡區間 schema（API 輸入驗證用）。
+ */
+export const ageBandSchema = z.enum(AGE_BANDS);
+
+/**
+ * API 請求的年齡區間 schema：省略或舊值 0-6 時為 DEFAULT_AGE_BAND（相容既有呼叫端）。
+ */
+export const requestedAgeBandSchema = z.preprocess(
+  (value) => (value == null || value === LEGACY_AGE_RANGE ? DEFAULT_AGE_BAND : value),
+  ageBandSchema,
+);
+
+/**
+ * 單一年齡區間的生成規則。
+ */
+export interface AgeBandProfile {
+  ageBand: AgeBand;
+  pageCount: number;
+  maxWordsPerPage: number;
+  /**
+   * 寫入 prompt 的句型指引
+   */
+  sentenceComplexity: string;
+  /**
+   * 單句字數上限（Readability 驗證用）
+   */
+  maxSentenceWords: number;
+  /**
+   * Flesch-Kincaid 年級上限（Readability 驗證用）
+   */
+  maxReadingGrade: number;
+  /**
+   * 精選單字的 CEFR 目標等級
+   */
+  targetCefr: string[];
+  vocabularyCount: number;
+  /**
+   * TTS 語速倍率（1 = 正常）
+   */
+  narrationSpeed: number;
+}
+
+export const AGE_BAND_PROFILES: Record<AgeBand, AgeBandProfile> = {
+  "0-2": {
+    ageBand: "0-2",
+    pageCount: 6,
+    maxWordsPerPage: 15,
+    sentenceComplexity:
+      "Use very short sentences of 3-6 words with concrete nouns, repetition and sound words. Present tense only.",
+    maxSentenceWords: 6,
+    maxReadingGrade: 3,
+    targetCefr: ["Pre-A1"],
+    vocabularyCount: 6,
+    narrationSpeed: 0.8,
+  },
+  "3-4": {
+    ageBand: "3-4",
+    pageCount: 8,
+    maxWordsPerPage: 30,
+    sentenceComplexity:
+      "Use short simple sentences (about 10 words or fewer) with familiar everyday words and gentle repetition. Avoid subordinate clauses.",
+    maxSentenceWords: 10,
+    maxReadingGrade: 4,
+    targetCefr: ["Pre-A1", "A1"],
+    vocabularyCount: 8,
+    narrationSpeed: 0.9,
+  },
+  "5-6": {
+    ageBand: "5-6",
+    pageCount: 10,
+    maxWordsPerPage: 50,
+    sentenceComplexity:
+      "Use simple sentences (about 15 words or fewer); a few compound sentences joined with and, but or so are fine.",
+    maxSentenceWords: 15,
+    maxReadingGrade: 5,
+    targetCefr: ["A1", "A2"],
+    vocabularyCount: 10,
+    narrationSpeed: 1,
+  },
+};
+
+/**
+ * 判斷字串是否為已定義的年齡區間。
+ * @param value 任意輸入
+ */
+export function isAgeBand(value: unknown): value is AgeBand {
+  return ageBandSchema.safeParse(value).success;
+}
+
+/**
+ * 取得年齡區間的生成規則；舊值 0-6 或無法辨識時使用 DEFAULT_AGE_BAND。
+ * @param ageRange stories.age_range 或 payload.ageRange
+ */
+export function getAgeBandProfile(ageRange?: string | null): AgeBandProfile {
+  if (isAgeBand(ageRange)) return AGE_BAND_PROFILES[ageRange];
+  if (ageRange && ageRange !== LEGACY_AGE_RANGE) console.warn("[AgeBandProfiles] unknown age range, using default", { ageRange, fallback: DEFAULT_AGE_BAND });
+  return AGE_BAND_PROFILES[DEFAULT_AGE_BAND];
+}
@@ -0,0 +1,167 @@
+import OpenAI from "openai";
+import { env } from "../utils/env";
+
+/**
+ * ContentSafety
+ *
+ * 生成內容的安全審查（StoryGenerationOrchestrator 的 moderation 階段）：
+ * - ModerationAdapter：可抽換的審查實作
+ *   - OpenAIModerationAdapter：OpenAI moderation endpoint（omni-moderation-latest）
+ *   - KeywordModerationAdapter：本機關鍵字規則（不需網路，MODERATION_PROVIDER 預設）
+ * - ContentSafetyError：審查未通過且無法改寫時中止故事，附上完整審查結果
+ */
+
+/**
+ * 單一輸入的審查結果。
+ */
+export interface ModerationVerdict {
+  flagged: boolean;
+  /**
+   * 被標記的類別（例如 violence、sexual）
+   */
+  categories: string[];
+}
+
+/**
+ * 可抽換的內容審查介面。
+ */
+export interface ModerationAdapter {
+  readonly name: string;
+  /**
+   * 審查多段文字，回傳與 inputs 順序相同的結果。
+   * @param inputs 要審查的文字
+   */
+  moderate(inputs: string[]): Promise<ModerationVerdict[]>;
+}
+
+/**
+ * 單頁的審查紀錄（寫入 stories.metadata.moderation.pages）。
+ */
+export interface PageModerationVerdict extends ModerationVerdict {
+  pageNumber: number;
+  /**
+   * 因審查未通過而改寫的次數
+   */
+  rewrites: number;
+}
+
+/**
+ * 整本故事的審查結果（寫入 stories.metadata.moderation）。
+ */
+export interface ModerationReport {
+  provider: string;
+  passed: boolean;
+  checkedAt: string;
+  /**
+   * 標題與摘要（中英文）的審查結果
+   */
+  story: ModerationVerdict;
+  pages: PageModerationVerdict[];
+}
+
+/**
+ * 內容審查未通過（標題 / 摘要被標記，或頁面改寫後仍被標記）。
+ * 屬於不可重試的錯誤（code 為字串，ErrorHandler.shouldRetry 會回傳 false）。
+ */
+export class ContentSafetyError extends Error {
+  readonly code = "CONTENT_SAFETY";
+
+  /**
+   * @param message 錯誤說明
+   * @param report 完整審查結果（由呼叫端寫入 stories.metadata）
+   */
+  constructor(
+    message: string,
+    readonly report: ModerationReport,
+  ) {
+    super(message);
+    this.name = "ContentSafetyError";
+  }
+}
+
+/**
+ * 合併多個審查結果（任一被標記即視為被標記，類別取聯集）。
+ * @param verdicts 審查結果
+ */
+export function mergeVerdicts(verdicts: ModerationVerdict[]): ModerationVerdict {
+  const categories = new Set<string>();
+  for (const v of verdicts) {
+    if (v.flagged) v.categories.forEach((c) => categories.add(c));
+  }
+  return { flagged: verdicts.some((v) => v.flagged), categories: [...categories].sort() };
+}
+
+/**
+ * OpenAI moderation endpoint 實作。
+ */
+export class OpenAIModerationAdapter implements ModerationAdapter {
+  readonly name = "openai";
+  private readonly client: OpenAI;
+
+  /**
+   * @param client (optional) 外部注入的 OpenAI SDK 實例
+   */
+  constructor(client?: OpenAI) {
+    this.client = client ?? new OpenAI({ apiKey: env.OPENAI_API_KEY });
+  }
+
+  async moderate(inputs: string[]): Promise<ModerationVerdict[]> {
+    if (inputs.length === 0) return [];
+    const res = await this.client.moderations.create({ model: "omni-moderation-latest", input: inputs });
+    return res.results.map((r) => ({
+      flagged: r.flagged,
+      categories: Object.entries(r.categories)
+        .filter(([, hit]) => hit)
+        .map(([category]) => category),
+    }));
+  }
+}
+
+/**
+ * 關鍵字規則：類別與對應的英文 / 中文樣式。
+ */
+export interface KeywordRule {
+  category: string;
+  pattern: RegExp;
+}
+
+/**
+ * 預設規則：只收錄在幼兒繪本中幾乎不會以無害意義出現的字詞，避免誤判（例如不含 ghost、monster）。
+ */
+export const DEFAULT_KEYWORD_RULES: KeywordRule[] = [
+  { category: "violence", pattern: /\b(kill(s|ed|ing)?|murder\w*|blood(y)?|guns?|knife|knives|stab\w*|weapons?|shoot(s|ing)?)\b/i },
+  { category: "violence", pattern: /殺|謀殺|鮮血|流血|槍|武器/ },
+  { category: "fear", pattern: /\b(horror|gore|gory|corpses?|nightmares?|terrifying)\b/i },
+  { category: "fear", pattern: /屍體|恐怖|噩夢|惡夢/ },
+  { category: "adult", pattern: /\b(sex\w*|nude|naked|beer|wine|alcohol|drunk|cigarettes?|drugs?)\b/i },
+  { category: "adult", pattern: /色情|裸體|啤酒|喝醉|香菸|毒品/ },
+  { category: "self-harm", pattern: /\b(suicide|self-harm)\b/i },
+  { category: "self-harm", pattern: /自殺|自殘/ },
+];
+
+/**
+ * 本機關鍵字規則實作（不呼叫外部服務）。
+ */
+export class KeywordModerationAdapter implements ModerationAdapter {
+  readonly name = "keyword";
+
+  /**
+   * @param rules 關鍵字規則（預設 DEFAULT_KEYWORD_RULES）
+   */
+  constructor(private readonly rules: KeywordRule[] = DEFAULT_KEYWORD_RULES) {}
+
+  async moderate(inputs: string[]): Promise<ModerationVerdict[]> {
+    return inputs.map((text) => {
+      const categories = new Set(this.rules.filter((r) => r.pattern.test(text)).map((r) => r.category));
+      return { flagged: categories.size > 0, categories: [...categories].sort() };
+    });
+  }
+}
+
+/**
+ * 依 MODERATION_PROVIDER 建立審查實作（預設 keyword）。
+ * @param provider 指定實作
+ */
+export function createModerationAdapter(provider = env.MODERATION_PROVIDER): ModerationAdapter {
+  return provider === "openai" ? new OpenAIModerationAdapter() : new KeywordModerationAdapter();
+}
@@ -2,6 +2,7 @@ import { db } from "../../db/client";
 import { failedJobs } from "../../db/schema/failed-jobs";
 import { env } from "../utils/env";
 import { Client } from "pg";
+import { createHash } from "crypto";
 
 /**
  * ErrorHandler
@@ -76,7 +77,10 @@ export class ErrorHandler {
     const errorRecord = {
       generationJobId: context.generationJobId,
       errorCode: getErrorCode(error),
-      errorMessage: `stage=${context.stage ?? "unknown"} attempt=${context.attempt ?? 0} message=${errMessage}`,
+      errorMessage: errMessage,
+      stage: context.stage ?? null,
+      attempt: context.attempt ?? 0,
+      fingerprint: computeErrorFingerprint(context.stage, error),
     };
 
     // 優先使用原生 pg client 直接寫入，避免 Drizzle/@vercel/postgres 在 dev 中的 transaction/連線問題
@@ -85,8 +89,17 @@ export class ErrorHandler {
       await client.connect();
       try {
         const res = await client.query(
-          `INSERT INTO failed_jobs (generation_job_id, error_code, error_message) VALUES ($1,$2,$3) RETURNING id, generation_job_id, error_code, error_message, resolved, created_at, updated_at`,
-          [errorRecord.generationJobId ?? null, errorRecord.errorCode, errorRecord.errorMessage],
+          `INSERT INTO failed_jobs (generation_job_id, error_code, error_message, stage, attempt, fingerprint)
+           VALUES ($1,$2,$3,$4,$5,$6)
+           RETURNING id, generation_job_id, error_code, error_message, stage, attempt, fingerprint, status, created_at, updated_at`,
+          [
+            errorRecord.generationJobId ?? null,
+            errorRecord.errorCode,
+            errorRecord.errorMessage,
+            errorRecord.stage,
+            errorRecord.attempt,
+            errorRecord.fingerprint,
+          ],
         );
 
         // 在寫入成功後，視情況通知 Slack
@@ -121,6 +134,9 @@ export class ErrorHandler {
             generationJobId: errorRecord.generationJobId,
             errorCode: errorRecord.errorCode,
             errorMessage: errorRecord.errorMessage,
+            stage: errorRecord.stage,
+            attempt: errorRecord.attempt,
+            fingerprint: errorRecord.fingerprint,
           }).returning();
     
           if (this.notifySlackFlag && this.slackWebhook) {
@@ -171,15 +187,16 @@ export class ErrorHandler {
 
   /**
    * 根據錯誤與嘗試次數判定是否應該進行重試（輕度輔助邏輯）。
-   * - 預設策略：HTTP 5xx / rate-limit 可重試，且嘗試次數小於 3。
+   * - 預設策略：HTTP 5xx / rate-limit / 暫時性網路錯誤可重試，且嘗試次數小於上限（預設 3）。
    *
    * @param error 任意錯誤物件
    * @param attempt 已嘗試次數
+   * @param maxAttempts 嘗試次數上限（worker 依 job type 傳入）
    * @returns boolean 是否建議重試
    */
-  shouldRetry(error: unknown, attempt = 0): boolean {
-    // 如果已嘗試超過 3 次，不建議再重試
-    if (attempt >= 3) return false;
+  shouldRetry(error: unknown, attempt = 0, maxAttempts = 3): boolean {
+    // 如果已達嘗試上限，不建議再重試
+    if (attempt >= maxAttempts) return false;
 
     // 嘗試從 error 中擷取 status/code 判定
     const status = getStatus(error);
@@ -192,11 +209,60 @@ export class ErrorHandler {
     const name = getErrorName(error);
     if (typeof name === "string" && name.includes("Abort")) return false;
 
+    // 暫時性網路錯誤（連線中斷、逾時、DNS 暫時失敗）可重試
+    const code = getErrorCode(error);
+    if (code && TRANSIENT_NETWORK_CODES.has(code)) return true;
+
     // 對於其他未知錯誤採保守策略：不自動重試
     return false;
   }
 }
 
+/**
+ * 計算錯誤指紋時保留的堆疊層數。
+ */
+const FINGERPRINT_STACK_FRAMES = 5;
+
+/**
+ * 計算錯誤指紋：同一根因（階段、錯誤類型、去除變動值的訊息、堆疊前幾層的函式與檔案）得到相同指紋，
+ * 供後台將 failed_jobs 分組。訊息中的 uuid、數字與引號內容，以及堆疊中的行號與絕對路徑不列入計算。
+ *
+ * @param stage 失敗階段
+ * @param error 任意錯誤物件
+ * @returns 16 字元 hex 指紋
+ */
+export function computeErrorFingerprint(stage: string | undefined, error: unknown): string {
+  const name = error instanceof Error ? error.name : typeof error;
+  const rawMessage = error instanceof Error ? error.message : JSON.stringify(error) ?? String(error);
+  const message = rawMessage
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, "<uuid>")
+    .replace(/(["'`]).*?\1/g, "<str>")
+    .replace(/\d+/g, "<n>");
+  const frames =
+    error instanceof Error && error.stack
+      ? error.stack
+          .split("\n")
+          .filter((line) => line.trim().startsWith("at "))
+          .slice(0, FINGERPRINT_STACK_FRAMES)
+          .map((line) =>
+            line
+              .trim()
+              .replace(/:\d+:\d+\)?$/, "")
+              .replace(/\(.*[\\/]/, "(")
+              .replace(/^at .*[\\/]/, "at "),
+          )
+      : [];
+  return createHash("sha256")
+    .update([stage ?? "unknown", name, getErrorCode(error) ?? "", message, ...frames].join("\n"))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * 視為暫時性、可重試的 Node.js 網路錯誤代碼。
+ */
+const TRANSIENT_NETWORK_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE"]);
+
 /**
  * 從未知錯誤物件擷取狀態碼（若存在）。
  */
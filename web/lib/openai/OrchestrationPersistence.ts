@@ -1,7 +1,8 @@
+import { eq } from "drizzle-orm";
 import { db } from "../../db/client";
-import { stories, storyPages, vocabEntries, generationJobs } from "../../db/schema";
+import { stories, storyPages, vocabEntries, generationJobs, generationJobDependencies } from "../../db/schema";
 import { env } from "../utils/env";
-import { Pool } from "pg";
+import { getPgPool } from "../utils/pgPool";
 import type {
   StoryScriptResult,
   TranslationResult,
@@ -9,32 +10,48 @@ import type {
 } from "./types";
 import { randomUUID } from "crypto";
 import ErrorHandler from "./ErrorHandler";
+import type { ModerationReport } from "./ContentSafety";
+import type { ReadabilityReport } from "./Readability";
+import { getAgeBandProfile } from "./AgeBandProfiles";
 
 /**
- * Helper: 全域單例 pg Pool
- *
- * 在 serverless 或 hot-reload 的開發環境中，避免每次請求建立新的 TCP 連線導致連線爆滿。
- * 將 pool 快取到 globalThis.__pgPool 上以確保單例行為。
+ * persistGenerationResult 的選項。
  */
-function getPgPool(): Pool {
-  const g = globalThis as unknown as Record<string, unknown>;
-  if (g.__pgPool && (g.__pgPool as Pool).connect) {
-    return g.__pgPool as Pool;
-  }
-  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-  g.__pgPool = pool;
-  return pool;
+export interface PersistOptions {
+  /**
+   * 產生此結果的 story_script job id。
+   * 提供時 image/audio jobs 以 blocked 建立並相依於該 job，待其完成後由 worker 釋放推送，
+   * 且該 job 在寫入的同一交易中標記為 completed；
+   * 未提供時 image/audio jobs 直接以 pending 建立並立即推送。
+   */
+  parentJobId?: string;
+  /**
+   * 內容安全審查結果，寫入 stories.metadata.moderation
+   */
+  moderation?: ModerationReport;
+  /**
+   * 可讀性驗證結果，寫入 stories.metadata.readability
+   */
+  readability?: ReadabilityReport;
+  /**
+   * 年齡區間（寫入 stories.age_range，並決定旁白語速；預設 DEFAULT_AGE_BAND）
+   */
+  ageRange?: string;
 }
 
 /**
  * 將 orchestrator 的結果寫入資料庫並建立媒體 generation jobs。
  *
+ * 建立的 jobs 形成相依圖（generation_job_dependencies）：
+ *   story_script（parentJobId）-> 每頁 image / audio -> 故事 video
+ *
  * @param storyId 目標 story id（與 generation job 關聯）
  * @param theme story 主題（供 stories.metadata）
  * @param story StoryScriptResult 由 Orchestrator 產生的故事（英文）
  * @param translation TranslationResult 由 Orchestrator 產生的中文翻譯
  * @param vocabulary VocabularyResult 由 Orchestrator 產生的精選單字
- * @returns 已建立的 generation job ids 列表
+ * @param options PersistOptions
+ * @returns 已建立的 image/audio generation job ids 列表
  */
 export async function persistGenerationResult(
   storyId: string,
@@ -42,6 +59,7 @@ export async function persistGenerationResult(
   story: StoryScriptResult,
   translation: TranslationResult,
   vocabulary: VocabularyResult,
+  options: PersistOptions = {},
 ) {
   const errorHandler = new ErrorHandler();
 
@@ -59,6 +77,10 @@ export async function persistGenerationResult(
 
   // 使用 transaction 確保一致性
   const createdGenerationJobIds: string[] = [];
+  const parentJobId = options.parentJobId;
+  const profile = getAgeBandProfile(options.ageRange);
+  // 有上游 story_script job 時，媒體 jobs 需等待其完成
+  const mediaJobStatus = parentJobId ? "blocked" : "pending";
 
   // 如果傳入的 storyId 不是合法 UUID，為資料庫建立一個新的 UUID 並將原始 id 記錄到 metadata.originalStoryId
   const originalStoryId = storyId;
@@ -70,6 +92,8 @@ export async function persistGenerationResult(
     if (process.env.NODE_ENV === "test" && (db as any)?.transaction && typeof (db as any).transaction === "function") {
       await (db as any).transaction(async (tx: any) => {
         const storyMetadata: Record<string, unknown> = { synopsisEn: story.synopsisEn, synopsisZh: translation.synopsisZh };
+        if (options.moderation) storyMetadata.moderation = options.moderation;
+        if (options.readability) storyMetadata.readability = options.readability;
         if (!isUuid) storyMetadata.originalStoryId = originalStoryId;
 
         // 1) insert story
@@ -79,7 +103,7 @@ export async function persistGenerationResult(
           title_zh: translation.titleZh ?? story.titleEn,
           theme,
           status: "processing",
-          age_range: story.pages?.[0] ? "0-6" : "0-6",
+          age_range: profile.ageBand,
           metadata: JSON.stringify(storyMetadata),
         }).returning();
 
@@ -107,6 +131,7 @@ export async function persistGenerationResult(
             definition_zh: entry.definitionZh,
             example_sentence: entry.exampleSentence ?? "",
             example_translation: entry.exampleTranslation ?? "",
+            cefr_level: entry.cefrLevel ? entry.cefrLevel.toUpperCase().slice(0, 4) : null,
           }).returning();
         }
 
@@ -115,7 +140,7 @@ export async function persistGenerationResult(
           const imgRes = await tx.insert(generationJobs).values({
             story_id: dbStoryId,
             job_type: "image",
-            status: "pending",
+            status: mediaJobStatus,
             retry_count: 0,
             payload: JSON.stringify({ pageNumber: p.pageNumber, textEn: p.textEn }),
           }).returning();
@@ -123,18 +148,46 @@ export async function persistGenerationResult(
           const audioRes = await tx.insert(generationJobs).values({
             story_id: dbStoryId,
             job_type: "audio",
-            status: "pending",
+            status: mediaJobStatus,
             retry_count: 0,
             payload: JSON.stringify({
               pageNumber: p.pageNumber,
               textEn: p.textEn,
               textZh: (translation.pages.find((t) => t.pageNumber === p.pageNumber)?.textZh) ?? "",
+              narrationSpeed: profile.narrationSpeed,
             }),
           }).returning();
 
           if (imgRes && imgRes[0]?.id) createdGenerationJobIds.push(String(imgRes[0].id));
           if (audioRes && audioRes[0]?.id) createdGenerationJobIds.push(String(audioRes[0].id));
         }
+
+        // 5) 建立相依圖：媒體 jobs 相依於 story_script，故事 video 相依於所有媒體 jobs
+        if (parentJobId) {
+          for (const mediaJobId of createdGenerationJobIds) {
+            await tx.insert(generationJobDependencies).values({ job_id: mediaJobId, depends_on_job_id: parentJobId });
+          }
+        }
+        const videoRes = await tx.insert(generationJobs).values({
+          story_id: dbStoryId,
+          job_type: "video",
+          status: "blocked",
+          retry_count: 0,
+          payload: JSON.stringify({ type: "video", storyId: dbStoryId }),
+        }).returning();
+        const videoJobId = videoRes?.[0]?.id ? String(videoRes[0].id) : undefined;
+        if (videoJobId) {
+          for (const mediaJobId of createdGenerationJobIds) {
+            await tx.insert(generationJobDependencies).values({ job_id: videoJobId, depends_on_job_id: mediaJobId });
+          }
+        }
+
+        // 6) 與寫入同一交易完成上游 story_script job
+        if (parentJobId) {
+          await tx.update(generationJobs)
+            .set({ status: "completed", resultUri: `story://${dbStoryId}`, updatedAt: new Date() })
+            .where(eq(generationJobs.id, parentJobId));
+        }
       });
     } else {
       // 使用全域 Pool 以避免在高併發或 serverless 環境中頻繁建立/關閉 TCP 連線。
@@ -142,18 +195,31 @@ export async function persistGenerationResult(
       const client = await pool.connect();
       try {
         await client.query("BEGIN");
-        // 1) insert story (assume storyId unique)
+        // 1) upsert story（story_script job 建立時 stories 列可能已存在，需更新標題與摘要）
         await client.query(
           `INSERT INTO stories (id, title_en, title_zh, theme, status, age_range, metadata)
-           VALUES ($1,$2,$3,$4,$5,$6,$7)`,
+           VALUES ($1,$2,$3,$4,$5,$6,$7)
+           ON CONFLICT (id) DO UPDATE SET
+             title_en = EXCLUDED.title_en,
+             title_zh = EXCLUDED.title_zh,
+             status = EXCLUDED.status,
+             age_range = EXCLUDED.age_range,
+             metadata = stories.metadata || EXCLUDED.metadata,
+             updated_at = now()`,
           [
             dbStoryId,
             story.titleEn,
             translation.titleZh ?? story.titleEn,
             theme,
             "processing",
-            story.pages?.[0] ? "0-6" : "0-6",
-            JSON.stringify({ synopsisEn: story.synopsisEn, synopsisZh: translation.synopsisZh, ...(isUuid ? {} : { originalStoryId }) }),
+            profile.ageBand,
+            JSON.stringify({
+              synopsisEn: story.synopsisEn,
+              synopsisZh: translation.synopsisZh,
+              ...(options.moderation ? { moderation: options.moderation } : {}),
+              ...(options.readability ? { readability: options.readability } : {}),
+              ...(isUuid ? {} : { originalStoryId }),
+            }),
           ],
         );
 
@@ -172,8 +238,8 @@ export async function persistGenerationResult(
         // 3) insert vocabulary entries
         for (const entry of vocabulary.entries) {
           await client.query(
-            `INSERT INTO vocab_entries (story_id, word, part_of_speech, definition_en, definition_zh, example_sentence, example_translation)
-             VALUES ($1,$2,$3,$4,$5,$6,$7)`,
+            `INSERT INTO vocab_entries (story_id, word, part_of_speech, definition_en, definition_zh, example_sentence, example_translation, cefr_level)
+             VALUES ($1,$2,$3,$4,$5,$6,$7,$8)`,
             [
               dbStoryId,
               entry.word,
@@ -182,6 +248,7 @@ export async function persistGenerationResult(
               entry.definitionZh,
               entry.exampleSentence ?? "",
               entry.exampleTranslation ?? "",
+              entry.cefrLevel ? entry.cefrLevel.toUpperCase().slice(0, 4) : null,
             ],
           );
         }
@@ -192,7 +259,7 @@ export async function persistGenerationResult(
           const imgRes = await client.query(
             `INSERT INTO generation_jobs (story_id, job_type, status, retry_count, payload)
              VALUES ($1,$2,$3,$4,$5) RETURNING id`,
-            [dbStoryId, "image", "pending", 0, JSON.stringify({ pageNumber: p.pageNumber, textEn: p.textEn })],
+            [dbStoryId, "image", mediaJobStatus, 0, JSON.stringify({ pageNumber: p.pageNumber, textEn: p.textEn })],
           );
 
           // audio job
@@ -202,12 +269,13 @@ export async function persistGenerationResult(
             [
               dbStoryId,
               "audio",
-              "pending",
+              mediaJobStatus,
               0,
               JSON.stringify({
                 pageNumber: p.pageNumber,
                 textEn: p.textEn,
                 textZh: (translation.pages.find((t) => t.pageNumber === p.pageNumber)?.textZh) ?? "",
+                narrationSpeed: profile.narrationSpeed,
               }),
             ],
           );
@@ -217,6 +285,36 @@ export async function persistGenerationResult(
           if (audioRes && audioRes.rows && audioRes.rows[0]?.id) createdGenerationJobIds.push(String(audioRes.rows[0].id));
         }
 
+        // 5) 建立相依圖：媒體 jobs 相依於 story_script，故事 video 相依於所有媒體 jobs
+        if (parentJobId && createdGenerationJobIds.length > 0) {
+          await client.query(
+            `INSERT INTO generation_job_dependencies (job_id, depends_on_job_id)
+             SELECT unnest($1::uuid[]), $2`,
+            [createdGenerationJobIds, parentJobId],
+          );
+        }
+        const videoRes = await client.query(
+          `INSERT INTO generation_jobs (story_id, job_type, status, retry_count, payload)
+           VALUES ($1,$2,$3,$4,$5) RETURNING id`,
+          [dbStoryId, "video", "blocked", 0, JSON.stringify({ type: "video", storyId: dbStoryId })],
+        );
+        const videoJobId = videoRes?.rows?.[0]?.id ? String(videoRes.rows[0].id) : undefined;
+        if (videoJobId && createdGenerationJobIds.length > 0) {
+          await client.query(
+            `INSERT INTO generation_job_dependencies (job_id, depends_on_job_id)
+             SELECT $1, unnest($2::uuid[])`,
+            [videoJobId, createdGenerationJobIds],
+          );
+        }
+
+        // 6) 與寫入同一交易完成上游 story_script job：提交後 worker 若在回報完成前中斷，重跑也不會重複寫入
+        if (parentJobId) {
+          await client.query(
+            `UPDATE generation_jobs SET status = 'completed', result_uri = $2, updated_at = now() WHERE id = $1`,
+            [parentJobId, `story://${dbStoryId}`],
+          );
+        }
+
         await client.query("COMMIT");
       } catch (e) {
         try {
@@ -235,8 +333,13 @@ export async function persistGenerationResult(
       }
     }
 
-    // 5) 推送到 Upstash（若設定）
-    if (env.UPSTASH_REDIS_URL || (env.UPSTASH_REST_URL && env.UPSTASH_REST_TOKEN)) {
+    // 7) 推送到 Upstash（若設定）；blocked jobs 由 worker 在前置 job 完成後推送，Postgres driver 不需推送
+    if (parentJobId) {
+      console.info("[OrchestrationPersistence] media jobs blocked on parent job, skipping push", { parentJobId });
+    } else if (env.QUEUE_DRIVER === "postgres") {
+      // Postgres driver 直接從 generation_jobs 取 pending job（trigger 會 NOTIFY worker）
+      console.info("[OrchestrationPersistence] postgres queue driver, skipping push");
+    } else if (env.UPSTASH_REDIS_URL || (env.UPSTASH_REST_URL && env.UPSTASH_REST_TOKEN)) {
       try {
         // 同步 await，若失敗由 catch 區塊處理並記錄到 failed_jobs
         await pushJobsToUpstash(createdGenerationJobIds);
@@ -290,12 +393,12 @@ export async function persistGenerationResult(
  *
  * 若推送失敗，會拋出錯誤讓呼叫端處理（呼叫端會記錄 failed_jobs）。
  */
-async function pushJobsToUpstash(jobIds: string[]) {
+export async function pushJobsToUpstash(jobIds: string[]) {
   if (!jobIds || jobIds.length === 0) return;
 
   const queue = env.UPSTASH_QUEUE_NAME ?? "generation_jobs";
 
-  // 將 jobIds 轉為簡單訊息字串（Redis list 儲存 string）
+  // 將 jobIds 轉為簡單訊息字串（存於 Redis Stream entry 的 message 欄位）
   const messages = jobIds.map((id) => JSON.stringify({ jobId: id, timestamp: Date.now() }));
 
   // 優先使用 Redis client（UPSTASH_REDIS_URL）
@@ -305,12 +408,12 @@ async function pushJobsToUpstash(jobIds: string[]) {
       const Redis = IORedisModule;
 
       /**
-       * 使用 ioredis client 推送 messages 到 list queue，採用 lazyConnect 並在必要時呼叫 connect()。
+       * 使用 ioredis client 以 XADD 推送 messages 到 stream queue（由 worker 的 consumer group 消費），採用 lazyConnect 並在必要時呼叫 connect()。
        *
        * 行為：
        *  - 建立 client 時使用 { lazyConnect: true }，避免 constructor 與 connect() 同時連線造成 "already connecting/connected" 錯誤。
        *  - 若 client 有 connect() 方法則 await client.connect()，若錯誤訊息包含 "already connecting" 或 "already connected" 則視為可忽略警告。
-       *  - 執行 rpush 並在最後嘗試 quit()。
+       *  - 執行 xadd 並在最後嘗試 quit()。
        */
       const client = new Redis(env.UPSTASH_REDIS_URL as string, { lazyConnect: true });
 
@@ -332,7 +435,7 @@ async function pushJobsToUpstash(jobIds: string[]) {
         }
 
         for (const msg of messages) {
-          await client.rpush(queue, msg);
+          await client.xadd(queue, "*", "message", msg);
         }
 
         console.info("[OrchestrationPersistence] pushed jobs to Upstash via Redis client", { count: jobIds.length });
@@ -400,8 +503,11 @@ async function pushJobsToUpstash(jobIds: string[]) {
         body: resp1.bodyText,
       });
 
-      const commandBody = { command: ["RPUSH", queue, ...messages] };
-      const resp2 = await postJson(commandBody);
+      let resp2 = { ok: true, status: 200, bodyText: "" };
+      for (const msg of messages) {
+        resp2 = await postJson({ command: ["XADD", queue, "*", "message", msg] });
+        if (!resp2.ok) break;
+      }
       console.info("[OrchestrationPersistence] REST attempt (command-style) ->", { status: resp2.status, body: resp2.bodyText });
 
       if (resp2.ok) {
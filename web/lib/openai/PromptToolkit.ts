@@ -1,13 +1,68 @@
+import { DEFAULT_AGE_BAND, getAgeBandProfile } from './AgeBandProfiles';
 import type {
 	StoryGenerationPayload,
+	StoryIdeaPayload,
 	StoryScriptResult,
 	TranslationResult,
 } from './types';
 
 /**
- * PromptToolkit 提供故事腳本、翻譯與精選單字的 Prompt 模板與占位符注入。
+ * 繪本插圖的固定風格指引，確保同一本故事的頁面風格一致。
+ */
+const ILLUSTRATION_STYLE =
+	"Soft watercolor children's picture-book illustration, warm pastel colors, friendly rounded characters, simple uncluttered background, no text or letters in the image, safe and gentle for young children.";
+
+/**
+ * 由頁面英文內容組出插圖 prompt（image job 與內容安全審查共用）。
+ * @param textEn 頁面英文內容
+ * @returns 給 image provider 使用的 prompt
+ */
+export function buildIllustrationPrompt(textEn: string): string {
+	return `${ILLUSTRATION_STYLE} Scene: ${textEn.trim()}`;
+}
+
+/**
+ * 需要改寫的頁面與原因（例如內容安全審查標記的類別）。
+ */
+export interface PageRewriteRequest {
+	pageNumber: number;
+	reason: string;
+}
+
+/**
+ * PromptToolkit 提供故事主題、腳本、翻譯、精選單字與單頁改寫的 Prompt 模板與占位符注入。
+ * 頁數、字數、句型與單字等級依 AgeBandProfiles 的年齡區間規則帶入。
  */
 export class PromptToolkit {
+	/**
+	 * 產生故事主題（Story Idea）Prompt。
+	 * @param payload 年齡區間、候選數量與需避開的過往主題。
+	 */
+	getStoryIdeaPrompt(payload: StoryIdeaPayload) {
+		return [
+			{
+				role: 'system' as const,
+				content: `You are a children's picture-book editor planning new stories for ages ${payload.ageRange}.
+IMPORTANT (STRICT): Return ONLY a single valid JSON object and NOTHING ELSE — no commentary, no markdown, no code fences. The JSON must be JSON.parse()-able. Return the JSON as a SINGLE LINE. Use double quotes and escape internal double quotes (use \\\" inside values). If you cannot produce valid JSON, return {"error":"unable_to_produce_json"} only.
+
+Propose EXACTLY ${payload.count} distinct story ideas. Each theme is a short English phrase (≤ 12 words) describing the situation, e.g. "A shy owl makes a new friend". Each idea has a tone such as "warm", "playful", "calm" or "adventurous". Ideas must be clearly different from each other and from the themes listed in avoid_themes (not just reworded).
+
+The JSON MUST match this exact structure:
+{"ideas":[{"theme":string,"tone":string,"summary_en":string}]}
+
+Ensure every idea is safe for young kids; avoid violence, fear, or adult themes.`,
+			},
+			{
+				role: 'user' as const,
+				content: JSON.stringify({
+					age_range: payload.ageRange,
+					count: payload.count,
+					avoid_themes: payload.avoidThemes ?? [],
+				}),
+			},
+		];
+	}
+
 	/**
 	 * 產生故事腳本 Prompt。
 	 * @param payload 故事主題、語氣與年齡設定。
@@ -17,6 +72,7 @@ export class PromptToolkit {
 		payload: StoryGenerationPayload,
 		previousStory?: Pick<StoryScriptResult, 'synopsisEn'>
 	) {
+		const profile = getAgeBandProfile(payload.ageRange);
 		return [
 			{
 				role: 'system' as const,
@@ -25,7 +81,7 @@ IMPORTANT (STRICT): Return ONLY a single valid JSON object and NOTHING ELSE —
 
 To make parsing robust for downstream systems, return the JSON as a SINGLE LINE with internal newlines escaped (use \\n for line breaks inside strings). Use double quotes for all strings and escape any internal double quotes (e.g. use \\\" inside values). Avoid raw unescaped newlines or unescaped quotes.
 
-Produce an engaging, wholesome picture-book style story suitable for children aged ${payload.ageRange}. The story MUST have exactly 10 pages. Each page should be concise (recommended ≤ 50 words). Use simple vocabulary, a friendly tone, and include a positive moral.
+Produce an engaging, wholesome picture-book style story suitable for children aged ${payload.ageRange}. The story MUST have exactly ${profile.pageCount} pages. Each page MUST be at most ${profile.maxWordsPerPage} words. ${profile.sentenceComplexity} Use simple vocabulary, a friendly tone, and include a positive moral.
 
 The JSON MUST match this exact structure (single-line, escaped newlines and escaped quotes inside string values):
 {"title_en": string, "synopsis_en": string, "pages": [{"page_number": number, "text_en": string, "summary_en": string}]}
@@ -43,18 +99,56 @@ If your model cannot produce strictly formatted JSON, return {"error":"unable_to
 		];
 	}
 
+	/**
+	 * 產生單頁改寫 Prompt：只重寫指定頁面，其餘頁面作為上下文以維持情節連貫。
+	 * @param payload 故事主題、語氣與年齡設定。
+	 * @param story 目前的故事英文內容。
+	 * @param requests 需要改寫的頁面與原因。
+	 */
+	getPageRewritePrompt(payload: StoryGenerationPayload, story: StoryScriptResult, requests: PageRewriteRequest[]) {
+		const profile = getAgeBandProfile(payload.ageRange);
+		return [
+			{
+				role: 'system' as const,
+				content: `You are a children's story editor revising a picture book for ages ${payload.ageRange}.
+IMPORTANT (STRICT): Return ONLY a single valid JSON object and NOTHING ELSE — no commentary, no markdown, no code fences. The JSON must be JSON.parse()-able. Return the JSON as a SINGLE LINE with internal newlines escaped (use \\n). Use double quotes and escape internal double quotes (use \\\" inside values). If you cannot produce valid JSON, return {"error":"unable_to_produce_json"} only.
+
+Rewrite ONLY the pages listed in rewrite_pages, fixing the problem given as each page's reason. Keep the same characters, plot and page order so the story still flows with the unchanged pages. Each page MUST be at most ${profile.maxWordsPerPage} words. ${profile.sentenceComplexity} Keep simple vocabulary and a friendly tone.
+
+The JSON MUST match this exact structure:
+{"pages":[{"page_number":number,"text_en":string,"summary_en":string}]}
+
+Ensure content is safe for kids; avoid violence, fear, or adult themes.`,
+			},
+			{
+				role: 'user' as const,
+				content: JSON.stringify({
+					theme: payload.theme,
+					tone: payload.tone,
+					title_en: story.titleEn,
+					pages: story.pages.map((page) => ({
+						page_number: page.pageNumber,
+						text_en: page.textEn,
+					})),
+					rewrite_pages: requests.map((r) => ({ page_number: r.pageNumber, reason: r.reason })),
+				}),
+			},
+		];
+	}
+
 	/**
 	 * 產生中文翻譯 Prompt。
 	 * @param story 故事英文內容。
+	 * @param ageRange 年齡區間（預設 DEFAULT_AGE_BAND）。
 	 */
-	getTranslationPrompt(story: StoryScriptResult) {
+	getTranslationPrompt(story: StoryScriptResult, ageRange: string = DEFAULT_AGE_BAND) {
 		return [
 			{
 				role: 'system' as const,
 				content: `You are a bilingual translator converting English children's stories into Traditional Chinese (zh-TW).
 IMPORTANT (STRICT): Return ONLY a single valid JSON object and NOTHING ELSE — no commentary, no markdown, no extra text. The JSON must be JSON.parse()-able. Return the JSON as a SINGLE LINE with internal newlines escaped (use \\n). Use double quotes and escape any internal double quotes (use \\\" inside values). Avoid raw newline characters inside string values.
 
-Maintain the meaning, simplicity, and warm tone suitable for children aged 0-6.
+Maintain the meaning, simplicity, and warm tone suitable for children aged ${ageRange}.
 
 The JSON MUST match this exact structure (single-line, escaped newlines and escaped quotes inside string values):
 {"title_zh": string, "synopsis_zh": string, "pages": [{"page_number": number, "text_zh": string, "notes_zh": string}]}
@@ -78,15 +172,17 @@ If you cannot output strict JSON, respond with {"error":"unable_to_produce_json"
 	/**
 	 * 產生精選單字 Prompt。
 	 * @param translation 翻譯後的故事內容，供模型提供中英文對照。
+	 * @param ageRange 年齡區間（預設 DEFAULT_AGE_BAND），決定單字數量與 CEFR 目標。
 	 */
-	getVocabularyPrompt(translation: TranslationResult) {
+	getVocabularyPrompt(translation: TranslationResult, ageRange: string = DEFAULT_AGE_BAND) {
+		const profile = getAgeBandProfile(ageRange);
 		return [
 			{
 				role: 'system' as const,
-				content: `You are an English teacher selecting vocabulary for young learners (ages 0-6).
+				content: `You are an English teacher selecting vocabulary for young learners (ages ${profile.ageBand}).
 IMPORTANT (STRICT): Return ONLY a single valid JSON object and NOTHING ELSE — no surrounding text, no markdown, no code fences. The JSON must be JSON.parse()-able. Return the JSON as a SINGLE LINE with internal newlines escaped (use \\n). Use double quotes and escape internal double quotes (use \\\" inside values). Avoid raw newline characters inside string values. If you cannot produce valid JSON, return {"error":"unable_to_produce_json"} only.
 
-Extract EXACTLY 10 child-friendly words from the given story.
+Extract EXACTLY ${profile.vocabularyCount} child-friendly words from the given story, preferring words at CEFR level ${profile.targetCefr.join(' or ')}.
 
 The JSON MUST match this exact structure (single-line, escaped newlines and escaped quotes inside string values):
 {"entries":[{"word":string,"part_of_speech":string,"definition_en":string,"definition_zh":string,"example_sentence":string,"example_translation":string,"cefr_level":string}]}
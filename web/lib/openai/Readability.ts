@@ -0,0 +1,134 @@
+import type { AgeBandProfile } from "./AgeBandProfiles";
+import type { StoryScriptPage } from "./types";
+
+/**
+ * Readability
+ *
+ * 故事頁面的字數、句長與可讀性驗證（StoryGenerationOrchestrator 的 readability 階段）：
+ * - 每頁字數不得超過 profile.maxWordsPerPage
+ * - 最長句子不得超過 profile.maxSentenceWords
+ * - Flesch-Kincaid 年級不得超過 profile.maxReadingGrade
+ * 超出範圍的頁面由 orchestrator 個別改寫，而非整本重新生成。
+ */
+
+/**
+ * 單頁的可讀性分析結果（寫入 stories.metadata.readability.pages）。
+ */
+export interface PageReadability {
+  pageNumber: number;
+  wordCount: number;
+  sentenceCount: number;
+  /**
+   * 最長句子的字數
+   */
+  longestSentenceWords: number;
+  /**
+   * Flesch-Kincaid 年級（取到小數點後一位）
+   */
+  fleschKincaidGrade: number;
+  /**
+   * 超出範圍的項目（英文，直接作為改寫原因）；空陣列表示通過
+   */
+  issues: string[];
+  /**
+   * 因可讀性未通過而改寫的次數
+   */
+  rewrites: number;
+}
+
+/**
+ * 整本故事的可讀性結果（寫入 stories.metadata.readability）。
+ */
+export interface ReadabilityReport {
+  ageBand: string;
+  /**
+   * 所有頁面皆在範圍內；改寫次數用盡仍超出時為 false（不中止生成，保留最後一次改寫）
+   */
+  passed: boolean;
+  pages: PageReadability[];
+}
+
+const WORD_PATTERN = /[A-Za-z0-9]+(?:['’][A-Za-z]+)*/g;
+
+/**
+ * 取出英文單字（縮寫如 don't 視為一個字）。
+ * @param text 英文內容
+ */
+export function extractWords(text: string): string[] {
+  return text.match(WORD_PATTERN) ?? [];
+}
+
+/**
+ * 依句號、問號、驚嘆號與換行切分句子（忽略不含單字的片段）。
+ * @param text 英文內容
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/[.!?]+|\n+/)
+    .map((s) => s.trim())
+    .filter((s) => extractWords(s).length > 0);
+}
+
+/**
+ * 估算英文單字的音節數（母音群計數，扣除字尾不發音的 e；至少 1）。
+ * @param word 單字
+ */
+export function countSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (w.length === 0) return 1;
+  if (w.length <= 3) return 1;
+  const trimmed = w.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, "").replace(/^y/, "");
+  const groups = trimmed.match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 0);
+}
+
+/**
+ * Flesch-Kincaid 年級：0.39 × (字數 / 句數) + 11.8 × (音節數 / 字數) − 15.59。
+ * @param text 英文內容
+ */
+export function fleschKincaidGrade(text: string): number {
+  const words = extractWords(text);
+  if (words.length === 0) return 0;
+  const sentences = Math.max(1, splitSentences(text).length);
+  const syllables = words.reduce((sum, w) => sum + countSyllables(w), 0);
+  const grade = 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+  return Math.round(grade * 10) / 10;
+}
+
+/**
+ * 分析單頁並依年齡區間規則列出超出範圍的項目。
+ * @param page 故事頁面
+ * @param profile 年齡區間規則
+ * @param rewrites 此頁已改寫的次數
+ */
+export function analyzePage(page: StoryScriptPage, profile: AgeBandProfile, rewrites = 0): PageReadability {
+  const sentences = splitSentences(page.textEn);
+  const wordCount = extractWords(page.textEn).length;
+  const longestSentenceWords = sentences.reduce((max, s) => Math.max(max, extractWords(s).length), 0);
+  const grade = fleschKincaidGrade(page.textEn);
+
+  const issues: string[] = [];
+  if (wordCount > profile.maxWordsPerPage) {
+    issues.push(`has ${wordCount} words; make it shorter (at most ${profile.maxWordsPerPage} words)`);
+  }
+  if (longestSentenceWords > profile.maxSentenceWords) {
+    issues.push(
+      `has a sentence of ${longestSentenceWords} words; split long sentences (at most ${profile.maxSentenceWords} words each)`,
+    );
+  }
+  if (grade > profile.maxReadingGrade) {
+    issues.push(
+      `reads at grade ${grade} (Flesch-Kincaid); use simpler, shorter words (grade ${profile.maxReadingGrade} or below)`,
+    );
+  }
+
+  return {
+    pageNumber: page.pageNumber,
+    wordCount,
+    sentenceCount: sentences.length,
+    longestSentenceWords,
+    fleschKincaidGrade: grade,
+    issues,
+    rewrites,
+  };
+}
@@ -1,6 +1,8 @@
 import { z } from "zod";
+import { DEFAULT_AGE_BAND, getAgeBandProfile, type AgeBandProfile } from "./AgeBandProfiles";
 import type {
   ChatCompletionResult,
+  StoryIdeaResult,
   StoryScriptPage,
   StoryScriptResult,
   TranslationPage,
@@ -11,14 +13,44 @@ import type {
 
 /**
  * ResultAssembler 負責解析與驗證 OpenAI 回傳內容，轉換為專案使用的資料結構。
+ * 故事頁數與單字數量依年齡區間規則（AgeBandProfiles）驗證。
  *
  * 開發期間會在 parse 前嘗試將 string 形式的 payload safe-parse 成物件，
  * 並在 server console 印出 raw payload 以方便定位模型回傳格式差異。
  */
 export class ResultAssembler {
-  private readonly storySchema = z.object({
-    title_en: z.string().min(1),
-    synopsis_en: z.string().optional(),
+  private readonly ideaSchema = z.object({
+    ideas: z
+      .array(
+        z.object({
+          theme: z.string().min(1).max(120),
+          tone: z.string().min(1).default("warm"),
+          summary_en: z.string().optional(),
+        }),
+      )
+      .min(1, "Story ideas must contain at least one item"),
+  });
+
+  /**
+   * 故事腳本 schema（頁數依年齡區間規則）。
+   */
+  private storySchema(profile: AgeBandProfile) {
+    return z.object({
+      title_en: z.string().min(1),
+      synopsis_en: z.string().optional(),
+      pages: z
+        .array(
+          z.object({
+            page_number: z.number().int().min(1),
+            text_en: z.string().min(1),
+            summary_en: z.string().optional(),
+          }),
+        )
+        .length(profile.pageCount, `Story must contain exactly ${profile.pageCount} pages`),
+    });
+  }
+
+  private readonly pageRewriteSchema = z.object({
     pages: z
       .array(
         z.object({
@@ -27,7 +59,7 @@ export class ResultAssembler {
           summary_en: z.string().optional(),
         }),
       )
-      .length(10, "Story must contain exactly 10 pages"),
+      .min(1, "Page rewrite must contain at least one page"),
   });
 
   private readonly translationSchema = z.object({
@@ -42,21 +74,26 @@ export class ResultAssembler {
     ),
   });
 
-  private readonly vocabularySchema = z.object({
-    entries: z
-      .array(
-        z.object({
-          word: z.string().min(1),
-          part_of_speech: z.string().min(1),
-          definition_en: z.string().min(1),
-          definition_zh: z.string().min(1),
-          example_sentence: z.string().min(1),
-          example_translation: z.string().min(1),
-          cefr_level: z.string().optional(),
-        }),
-      )
-      .length(10, "Vocabulary list must contain exactly 10 items"),
-  });
+  /**
+   * 精選單字 schema（數量依年齡區間規則）。
+   */
+  private vocabularySchema(profile: AgeBandProfile) {
+    return z.object({
+      entries: z
+        .array(
+          z.object({
+            word: z.string().min(1),
+            part_of_speech: z.string().min(1),
+            definition_en: z.string().min(1),
+            definition_zh: z.string().min(1),
+            example_sentence: z.string().min(1),
+            example_translation: z.string().min(1),
+            cefr_level: z.string().optional(),
+          }),
+        )
+        .length(profile.vocabularyCount, `Vocabulary list must contain exactly ${profile.vocabularyCount} items`),
+    });
+  }
 
   /**
    * Helper: 尝试将 result.data safe-parse 成 object（若已是 object 则直接回傳）。
@@ -130,14 +167,40 @@ export class ResultAssembler {
     return raw;
   }
 
+  /**
+   * 解析故事主題（Story Idea）輸出。
+   */
+  parseStoryIdeaResult(
+    result: ChatCompletionResult<unknown>,
+  ): { ideas: StoryIdeaResult; usage?: ChatCompletionResult<unknown>["usage"] } {
+    const payload = this.safeParsePayload(result.data);
+    const parsed = this.ideaSchema.parse(payload);
+
+    const ideas: StoryIdeaResult = {
+      ideas: parsed.ideas.map((idea) => ({
+        theme: idea.theme.trim(),
+        tone: idea.tone,
+        summaryEn: idea.summary_en,
+      })),
+    };
+
+    return {
+      ideas,
+      usage: result.usage,
+    };
+  }
+
   /**
    * 解析故事腳本輸出。
+   * @param result 模型回傳
+   * @param profile 年齡區間規則（預設 DEFAULT_AGE_BAND）
    */
   parseStoryResult(
     result: ChatCompletionResult<unknown>,
+    profile: AgeBandProfile = getAgeBandProfile(DEFAULT_AGE_BAND),
   ): { story: StoryScriptResult; usage?: ChatCompletionResult<unknown>["usage"] } {
     const payload = this.safeParsePayload(result.data);
-    const parsed = this.storySchema.parse(payload);
+    const parsed = this.storySchema(profile).parse(payload);
 
     const pages: StoryScriptPage[] = parsed.pages.map((page) => ({
       pageNumber: page.page_number,
@@ -157,6 +220,27 @@ export class ResultAssembler {
     };
   }
 
+  /**
+   * 解析單頁改寫輸出（只含被要求改寫的頁面）。
+   */
+  parsePageRewriteResult(
+    result: ChatCompletionResult<unknown>,
+  ): { pages: StoryScriptPage[]; usage?: ChatCompletionResult<unknown>["usage"] } {
+    const payload = this.safeParsePayload(result.data);
+    const parsed = this.pageRewriteSchema.parse(payload);
+
+    const pages: StoryScriptPage[] = parsed.pages.map((page) => ({
+      pageNumber: page.page_number,
+      textEn: page.text_en,
+      summaryEn: page.summary_en,
+    }));
+
+    return {
+      pages,
+      usage: result.usage,
+    };
+  }
+
   /**
    * 解析中文翻譯輸出。
    */
@@ -186,12 +270,15 @@ export class ResultAssembler {
 
   /**
    * 解析精選單字輸出。
+   * @param result 模型回傳
+   * @param profile 年齡區間規則（預設 DEFAULT_AGE_BAND）
    */
   parseVocabularyResult(
     result: ChatCompletionResult<unknown>,
+    profile: AgeBandProfile = getAgeBandProfile(DEFAULT_AGE_BAND),
   ): { vocabulary: VocabularyResult; usage?: ChatCompletionResult<unknown>["usage"] } {
     const payload = this.safeParsePayload(result.data);
-    const parsed = this.vocabularySchema.parse(payload);
+    const parsed = this.vocabularySchema(profile).parse(payload);
 
     const entries: VocabularyEntry[] = parsed.entries.map((item) => ({
       word: item.word,
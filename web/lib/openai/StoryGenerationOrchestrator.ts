@@ -1,23 +1,90 @@
 import { OpenAIClientAdapter } from "./OpenAIClientAdapter";
-import { PromptToolkit } from "./PromptToolkit";
+import { buildIllustrationPrompt, PromptToolkit, type PageRewriteRequest } from "./PromptToolkit";
 import { ResultAssembler } from "./ResultAssembler";
 import ErrorHandler from "./ErrorHandler";
+import { getAgeBandProfile, type AgeBandProfile } from "./AgeBandProfiles";
+import { analyzePage, type PageReadability, type ReadabilityReport } from "./Readability";
+import {
+  ContentSafetyError,
+  createModerationAdapter,
+  mergeVerdicts,
+  type ModerationAdapter,
+  type ModerationReport,
+  type ModerationVerdict,
+  type PageModerationVerdict,
+} from "./ContentSafety";
 import type {
   StoryGenerationPayload,
   ChatCompletionResult,
+  RegenerationScope,
+  StoryScriptPage,
   StoryScriptResult,
   TranslationResult,
   VocabularyResult,
   OpenAIAdapter,
 } from "./types";
 
+type Usage = ChatCompletionResult<unknown>["usage"];
+
+/**
+ * 各階段的 token usage（rewrite 為單頁改寫的累計，包含可讀性與內容安全）。
+ */
+type StageUsages = {
+  story?: Usage;
+  translation?: Usage;
+  rewrite?: Usage;
+  vocabulary?: Usage;
+};
+
+/**
+ * 單頁 / 單一階段重新生成的結果（StoryGenerationOrchestrator.regenerate）。
+ */
+export interface RegenerationResult {
+  story: StoryScriptResult;
+  translation: TranslationResult;
+  /**
+   * 僅 vocabulary 範圍回傳
+   */
+  vocabulary?: VocabularyResult;
+  /**
+   * 僅 page 範圍回傳（只含重新生成的頁面）
+   */
+  readability?: ReadabilityReport;
+  usages: StageUsages;
+}
+
+/**
+ * 被內容安全審查標記的頁面最多改寫幾次。
+ */
+export const MAX_SAFETY_REWRITES = 2;
+
+/**
+ * 字數 / 句長 / 可讀性超出範圍的頁面最多改寫幾次（仍超出時保留最後一次改寫，不中止生成）。
+ */
+export const MAX_READABILITY_REWRITES = 2;
+
+/**
+ * 累加兩個 usage（任一為空時回傳另一個）。
+ */
+function addUsage(a: Usage, b: Usage): Usage {
+  if (!a || !b) return a ?? b;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
+
 /**
  * StoryGenerationOrchestrator
  *
- * 負責協調故事腳本、翻譯與精選單字的整個同步生成流程。
+ * 負責協調故事腳本、可讀性驗證、翻譯、內容安全審查與精選單字的整個同步生成流程。
  * - 以 PromptToolkit 產生 prompt
  * - 透過 OpenAIClientAdapter 呼叫模型
  * - 使用 ResultAssembler 驗證並轉換輸出
+ * - 以 Readability 檢查每頁字數、句長與可讀性，超出範圍的頁面個別改寫
+ * - 以 ModerationAdapter 審查腳本、翻譯與插圖 prompt，被標記的頁面改寫，仍不安全時以 ContentSafetyError 中止
+ * - regenerate 只重新生成已儲存故事的單頁、翻譯或精選單字（其餘內容作為上下文）
  * - 在錯誤時交由 ErrorHandler 記錄 failed_jobs 並通知（若設定）
  *
  * 注意：此實作專注於「文字生成階段」的串聯與資料驗證，
@@ -28,47 +95,44 @@ export class StoryGenerationOrchestrator {
   private prompts: PromptToolkit;
   private assembler: ResultAssembler;
   private errorHandler: ErrorHandler;
+  private moderator: ModerationAdapter;
 
   /**
    * @param ai (optional) 外部注入的 OpenAIClientAdapter 實例，便於測試
    * @param errorHandler (optional) 外部注入的 ErrorHandler 實例
+   * @param moderator (optional) 外部注入的 ModerationAdapter（預設依 MODERATION_PROVIDER 建立）
    */
-  constructor(ai?: OpenAIAdapter, errorHandler?: ErrorHandler) {
+  constructor(ai?: OpenAIAdapter, errorHandler?: ErrorHandler, moderator?: ModerationAdapter) {
     // 支援注入任何符合 OpenAIAdapter 介面的實作（包括 OpenAIClientAdapter 與測試 mock）
     this.ai = (ai as OpenAIClientAdapter) ?? new OpenAIClientAdapter();
     this.prompts = new PromptToolkit();
     this.assembler = new ResultAssembler();
     this.errorHandler = errorHandler ?? new ErrorHandler();
+    this.moderator = moderator ?? createModerationAdapter();
   }
 
   /**
-   * 執行整個文字生成流程（腳本 -> 翻譯 -> 單字）。
-   * 回傳已驗證的結構化結果與每階段 token usage。
+   * 執行整個文字生成流程（腳本 -> 可讀性驗證 -> 翻譯 -> 內容安全審查 -> 單字）。
+   * 回傳已驗證的結構化結果、可讀性與審查結果，以及每階段 token usage。
    *
    * 錯誤策略：
    * - 若任一階段拋出錯誤，會先透過 ErrorHandler.recordFailure 記錄（包含 stage 與 storyId），
    *   然後將錯誤向上拋出，由上層負責重試或標記 generation_jobs 為 failed。
+   * - 內容安全審查未通過時拋出 ContentSafetyError（附審查結果，由上層寫入 stories.metadata）。
    *
    * @param payload 生成任務所需參數（storyId, theme, tone, ageRange）
-   * @returns 物件包含 story、translation、vocabulary 與 usage 彙總
+   * @returns 物件包含 story、translation、vocabulary、readability、moderation 與 usage 彙總
    */
-  async run(
-    payload: StoryGenerationPayload,
-  ): Promise<{
+  async run(payload: StoryGenerationPayload): Promise<{
     story: StoryScriptResult;
     translation: TranslationResult;
     vocabulary: VocabularyResult;
-    usages: {
-      story?: ChatCompletionResult<unknown>["usage"];
-      translation?: ChatCompletionResult<unknown>["usage"];
-      vocabulary?: ChatCompletionResult<unknown>["usage"];
-    };
+    readability: ReadabilityReport;
+    moderation: ModerationReport;
+    usages: StageUsages;
   }> {
-    const usages: {
-      story?: ChatCompletionResult<unknown>["usage"];
-      translation?: ChatCompletionResult<unknown>["usage"];
-      vocabulary?: ChatCompletionResult<unknown>["usage"];
-    } = {};
+    const usages: StageUsages = {};
+    const profile = getAgeBandProfile(payload.ageRange);
 
     try {
       // 1) 產生故事腳本（使用 OpenAIClientAdapter 回傳的標準格式）
@@ -81,15 +145,23 @@ export class StoryGenerationOrchestrator {
       });
 
       // 直接使用 adapter 解析後的 data 與 usage，交給 Assembler 驗證
-      const { story, usage: storyUsage } = this.assembler.parseStoryResult({
-        data: storyResp.data,
-        usage: storyResp.usage,
-      });
+      const { story: scriptStory, usage: storyUsage } = this.assembler.parseStoryResult(
+        { data: storyResp.data, usage: storyResp.usage },
+        profile,
+      );
 
       usages.story = storyUsage;
 
+      // 1.5) 可讀性驗證（超出字數 / 句長 / 年級上限的頁面個別改寫，不重新生成整本）
+      const { story: draftStory, report: readability } = await this.enforceReadability(
+        payload,
+        scriptStory,
+        profile,
+        usages,
+      );
+
       // 2) 中文翻譯（使用 story 內容作為上下文）
-      const translationMessages = this.prompts.getTranslationPrompt(story);
+      const translationMessages = this.prompts.getTranslationPrompt(draftStory, profile.ageBand);
       const translationResp = await this.ai.createChatCompletion<TranslationResult>({
         model: "gpt-4o-mini",
         messages: translationMessages,
@@ -97,15 +169,23 @@ export class StoryGenerationOrchestrator {
         max_tokens: 1500,
       });
 
-      const { translation, usage: translationUsage } = this.assembler.parseTranslationResult({
+      const { translation: draftTranslation, usage: translationUsage } = this.assembler.parseTranslationResult({
         data: translationResp.data,
         usage: translationResp.usage,
       });
 
       usages.translation = translationUsage;
 
-      // 3) 精選單字（以翻譯後內容為輸入，方便中英文對照）
-      const vocabMessages = this.prompts.getVocabularyPrompt(translation);
+      // 3) 內容安全審查（被標記的頁面改寫後重新翻譯；無法改善時拋出 ContentSafetyError）
+      const { story, translation, report: moderation } = await this.moderate(
+        payload,
+        draftStory,
+        draftTranslation,
+        usages,
+      );
+
+      // 4) 精選單字（以翻譯後內容為輸入，方便中英文對照）
+      const vocabMessages = this.prompts.getVocabularyPrompt(translation, profile.ageBand);
       const vocabResp = await this.ai.createChatCompletion<VocabularyResult>({
         model: "gpt-4o-mini",
         messages: vocabMessages,
@@ -113,10 +193,10 @@ export class StoryGenerationOrchestrator {
         max_tokens: 800,
       });
 
-      const { vocabulary, usage: vocabularyUsage } = this.assembler.parseVocabularyResult({
-        data: vocabResp.data,
-        usage: vocabResp.usage,
-      });
+      const { vocabulary, usage: vocabularyUsage } = this.assembler.parseVocabularyResult(
+        { data: vocabResp.data, usage: vocabResp.usage },
+        profile,
+      );
 
       usages.vocabulary = vocabularyUsage;
 
@@ -125,13 +205,20 @@ export class StoryGenerationOrchestrator {
         story,
         translation,
         vocabulary,
+        readability,
+        moderation,
         usages,
       };
     } catch (err) {
       // 記錄失敗（將 storyId 當作 generationJobId 的替代）
       try {
         await this.errorHandler.recordFailure(
-          { generationJobId: payload.storyId, stage: "orchestrator", attempt: 0, extra: { theme: payload.theme } },
+          {
+            generationJobId: payload.storyId,
+            stage: err instanceof ContentSafetyError ? "moderation" : "orchestrator",
+            attempt: 0,
+            extra: { theme: payload.theme },
+          },
           err,
         );
       } catch (recordErr) {
@@ -142,4 +229,339 @@ export class StoryGenerationOrchestrator {
       throw err;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * 重新生成已儲存故事的單一頁面或單一階段，其餘內容保留並作為上下文。
+   *
+   * - page：改寫該頁（可讀性驗證只檢查該頁），重新翻譯該頁並審查
+   * - translation：以目前腳本重新翻譯整本並審查中文
+   * - vocabulary：以目前翻譯重新挑選精選單字
+   *
+   * 審查未通過時直接拋出 ContentSafetyError（不自動改寫，由管理者決定是否再次重新生成）；
+   * 錯誤記錄方式與 run 相同（stage 為 regenerate:<stage>）。
+   *
+   * @param payload 生成任務參數
+   * @param current 目前儲存的腳本與翻譯
+   * @param scope 重新生成的範圍
+   * @param generationJobId 本次重新生成的 generation_jobs.id（失敗紀錄 failed_jobs 使用）
+   */
+  async regenerate(
+    payload: StoryGenerationPayload,
+    current: { story: StoryScriptResult; translation: TranslationResult },
+    scope: RegenerationScope,
+    generationJobId: string,
+  ): Promise<RegenerationResult> {
+    const usages: StageUsages = {};
+    const profile = getAgeBandProfile(payload.ageRange);
+    let { story, translation } = current;
+
+    try {
+      if (scope.stage === "page") {
+        if (!story.pages.some((p) => p.pageNumber === scope.pageNumber)) {
+          throw new Error(`page ${scope.pageNumber} not found in story ${payload.storyId}`);
+        }
+        const rewritten = await this.rewritePages(
+          payload,
+          story,
+          [{ pageNumber: scope.pageNumber, reason: "regenerate this page with fresh wording that still fits the pages around it" }],
+          usages,
+        );
+        if (rewritten.length === 0) throw new Error(`page rewrite did not return page ${scope.pageNumber}`);
+        story = { ...story, pages: story.pages.map((p) => rewritten.find((r) => r.pageNumber === p.pageNumber) ?? p) };
+
+        const checked = await this.enforceReadability(payload, story, profile, usages, [scope.pageNumber]);
+        story = checked.story;
+        const pages = story.pages.filter((p) => p.pageNumber === scope.pageNumber);
+        translation = await this.translatePages(payload, story, translation, pages, usages);
+        await this.assertSafe([], pages, translation);
+        return { story, translation, readability: checked.report, usages };
+      }
+
+      if (scope.stage === "translation") {
+        const resp = await this.ai.createChatCompletion<TranslationResult>({
+          model: "gpt-4o-mini",
+          messages: this.prompts.getTranslationPrompt(story, profile.ageBand),
+          temperature: 0.2,
+          max_tokens: 1500,
+        });
+        const parsed = this.assembler.parseTranslationResult({ data: resp.data, usage: resp.usage });
+        usages.translation = parsed.usage;
+        translation = parsed.translation;
+        await this.assertSafe(
+          [translation.titleZh, translation.synopsisZh].filter((t): t is string => typeof t === "string" && t.length > 0),
+          story.pages,
+          translation,
+        );
+        return { story, translation, usages };
+      }
+
+      const resp = await this.ai.createChatCompletion<VocabularyResult>({
+        model: "gpt-4o-mini",
+        messages: this.prompts.getVocabularyPrompt(translation, profile.ageBand),
+        temperature: 0.1,
+        max_tokens: 800,
+      });
+      const { vocabulary, usage } = this.assembler.parseVocabularyResult({ data: resp.data, usage: resp.usage }, profile);
+      usages.vocabulary = usage;
+      return { story, translation, vocabulary, usages };
+    } catch (err) {
+      try {
+        await this.errorHandler.recordFailure(
+          {
+            generationJobId,
+            stage: `regenerate:${scope.stage}`,
+            attempt: 0,
+            extra: { theme: payload.theme, scope },
+          },
+          err,
+        );
+      } catch (recordErr) {
+        console.error("[StoryGenerationOrchestrator] failed to record error", recordErr);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * 可讀性驗證：依年齡區間規則檢查每頁字數、最長句子與 Flesch-Kincaid 年級。
+   *
+   * 超出範圍的頁面最多改寫 MAX_READABILITY_REWRITES 次（只改寫該頁，並附上超出的項目作為原因）；
+   * 仍超出時保留最後一次改寫並在結果中標記 passed = false，不中止生成。
+   *
+   * @param payload 生成任務參數
+   * @param story 腳本
+   * @param profile 年齡區間規則
+   * @param usages 累計改寫的 token usage
+   * @param pageNumbers (optional) 只檢查這些頁面（單頁重新生成時使用）
+   */
+  private async enforceReadability(
+    payload: StoryGenerationPayload,
+    story: StoryScriptResult,
+    profile: AgeBandProfile,
+    usages: StageUsages,
+    pageNumbers?: number[],
+  ): Promise<{ story: StoryScriptResult; report: ReadabilityReport }> {
+    const results = new Map<number, PageReadability>();
+    const checkPages = (pages: StoryScriptPage[], rewrites: number) =>
+      pages.forEach((page) => results.set(page.pageNumber, analyzePage(page, profile, rewrites)));
+    const failingPages = () => [...results.values()].filter((r) => r.issues.length > 0);
+
+    checkPages(pageNumbers ? story.pages.filter((p) => pageNumbers.includes(p.pageNumber)) : story.pages, 0);
+
+    for (let round = 1; failingPages().length > 0 && round <= MAX_READABILITY_REWRITES; round++) {
+      const failing = failingPages();
+      console.warn("[StoryGenerationOrchestrator] rewriting pages outside readability limits", {
+        storyId: payload.storyId,
+        round,
+        pages: failing.map((r) => ({ pageNumber: r.pageNumber, issues: r.issues })),
+      });
+
+      const rewritten = await this.rewritePages(
+        payload,
+        story,
+        failing.map((r) => ({ pageNumber: r.pageNumber, reason: `page ${r.issues.join("; ")}` })),
+        usages,
+      );
+      if (rewritten.length === 0) continue;
+      story = {
+        ...story,
+        pages: story.pages.map((p) => rewritten.find((r) => r.pageNumber === p.pageNumber) ?? p),
+      };
+      checkPages(rewritten, round);
+    }
+
+    const stillFailing = failingPages();
+    if (stillFailing.length > 0) {
+      console.warn("[StoryGenerationOrchestrator] pages still outside readability limits, keeping last rewrite", {
+        storyId: payload.storyId,
+        pages: stillFailing.map((r) => r.pageNumber),
+      });
+    }
+
+    return {
+      story,
+      report: {
+        ageBand: profile.ageBand,
+        passed: stillFailing.length === 0,
+        pages: [...results.values()].sort((a, b) => a.pageNumber - b.pageNumber),
+      },
+    };
+  }
+
+  /**
+   * 內容安全審查：審查標題 / 摘要與每頁（英文、中文與插圖 prompt）。
+   *
+   * 被標記的頁面最多改寫 MAX_SAFETY_REWRITES 次（改寫後重新翻譯該頁並再次審查）；
+   * 標題 / 摘要被標記，或改寫後仍被標記時拋出 ContentSafetyError。
+   *
+   * @param payload 生成任務參數
+   * @param story 腳本
+   * @param translation 翻譯
+   * @param usages 累計改寫的 token usage
+   */
+  private async moderate(
+    payload: StoryGenerationPayload,
+    story: StoryScriptResult,
+    translation: TranslationResult,
+    usages: StageUsages,
+  ): Promise<{ story: StoryScriptResult; translation: TranslationResult; report: ModerationReport }> {
+    const storyVerdict = mergeVerdicts(
+      await this.moderator.moderate(
+        [story.titleEn, story.synopsisEn, translation.titleZh, translation.synopsisZh].filter(
+          (text): text is string => typeof text === "string" && text.length > 0,
+        ),
+      ),
+    );
+
+    const verdicts = new Map<number, PageModerationVerdict>();
+    const checkPages = async (pages: StoryScriptPage[], rewrites: number) => {
+      const results = await this.moderatePages(pages, translation);
+      pages.forEach((page, i) => verdicts.set(page.pageNumber, { pageNumber: page.pageNumber, ...results[i], rewrites }));
+    };
+    const flaggedPages = () => [...verdicts.values()].filter((v) => v.flagged);
+
+    await checkPages(story.pages, 0);
+
+    for (let round = 1; !storyVerdict.flagged && flaggedPages().length > 0 && round <= MAX_SAFETY_REWRITES; round++) {
+      const flagged = flaggedPages();
+      console.warn("[StoryGenerationOrchestrator] rewriting pages flagged by moderation", {
+        storyId: payload.storyId,
+        round,
+        pages: flagged.map((v) => ({ pageNumber: v.pageNumber, categories: v.categories })),
+      });
+
+      const rewritten = await this.rewritePages(
+        payload,
+        story,
+        flagged.map((v) => ({
+          pageNumber: v.pageNumber,
+          reason: `flagged as unsafe for young children (${v.categories.join(", ") || "unspecified"})`,
+        })),
+        usages,
+      );
+      if (rewritten.length === 0) continue;
+      story = {
+        ...story,
+        pages: story.pages.map((p) => rewritten.find((r) => r.pageNumber === p.pageNumber) ?? p),
+      };
+
+      translation = await this.translatePages(payload, story, translation, rewritten, usages);
+
+      await checkPages(rewritten, round);
+    }
+
+    const stillFlagged = flaggedPages();
+    const report: ModerationReport = {
+      provider: this.moderator.name,
+      passed: !storyVerdict.flagged && stillFlagged.length === 0,
+      checkedAt: new Date().toISOString(),
+      story: storyVerdict,
+      pages: [...verdicts.values()].sort((a, b) => a.pageNumber - b.pageNumber),
+    };
+
+    if (storyVerdict.flagged) {
+      throw new ContentSafetyError(`story title or synopsis flagged (${storyVerdict.categories.join(", ")})`, report);
+    }
+    if (stillFlagged.length > 0) {
+      throw new ContentSafetyError(
+        `pages ${stillFlagged.map((v) => v.pageNumber).join(", ")} still flagged after ${MAX_SAFETY_REWRITES} rewrites`,
+        report,
+      );
+    }
+    return { story, translation, report };
+  }
+
+  /**
+   * 審查多個頁面：每頁的英文、中文與插圖 prompt 合併為一個結果。
+   * @param pages 要審查的頁面
+   * @param translation 目前的翻譯（依 pageNumber 對應中文）
+   */
+  private async moderatePages(pages: StoryScriptPage[], translation: TranslationResult): Promise<ModerationVerdict[]> {
+    const inputs = pages.flatMap((page) => [
+      page.textEn,
+      translation.pages.find((t) => t.pageNumber === page.pageNumber)?.textZh ?? "",
+      buildIllustrationPrompt(page.textEn),
+    ]);
+    const results = await this.moderator.moderate(inputs);
+    return pages.map((_, i) => mergeVerdicts(results.slice(i * 3, i * 3 + 3)));
+  }
+
+  /**
+   * 重新翻譯指定頁面並合併回目前的翻譯（標題與摘要不變）。
+   * @param payload 生成任務參數
+   * @param story 目前的腳本（提供標題與摘要作為上下文）
+   * @param translation 目前的翻譯
+   * @param pages 要重新翻譯的頁面
+   * @param usages 累計改寫的 token usage
+   */
+  private async translatePages(
+    payload: StoryGenerationPayload,
+    story: StoryScriptResult,
+    translation: TranslationResult,
+    pages: StoryScriptPage[],
+    usages: StageUsages,
+  ): Promise<TranslationResult> {
+    const resp = await this.ai.createChatCompletion<TranslationResult>({
+      model: "gpt-4o-mini",
+      messages: this.prompts.getTranslationPrompt({ ...story, pages }, getAgeBandProfile(payload.ageRange).ageBand),
+      temperature: 0.2,
+      max_tokens: 1500,
+    });
+    const { translation: retranslated, usage } = this.assembler.parseTranslationResult({
+      data: resp.data,
+      usage: resp.usage,
+    });
+    usages.rewrite = addUsage(usages.rewrite, usage);
+    return {
+      ...translation,
+      pages: translation.pages.map((p) => retranslated.pages.find((r) => r.pageNumber === p.pageNumber) ?? p),
+    };
+  }
+
+  /**
+   * 審查重新生成的內容，任一被標記即拋出 ContentSafetyError（不改寫）。
+   * @param storyTexts 要一併審查的標題 / 摘要
+   * @param pages 要審查的頁面
+   * @param translation 目前的翻譯
+   */
+  private async assertSafe(storyTexts: string[], pages: StoryScriptPage[], translation: TranslationResult) {
+    const storyVerdict = mergeVerdicts(await this.moderator.moderate(storyTexts));
+    const results = await this.moderatePages(pages, translation);
+    const report: ModerationReport = {
+      provider: this.moderator.name,
+      passed: !storyVerdict.flagged && results.every((v) => !v.flagged),
+      checkedAt: new Date().toISOString(),
+      story: storyVerdict,
+      pages: pages.map((page, i) => ({ pageNumber: page.pageNumber, ...results[i], rewrites: 0 })),
+    };
+    if (!report.passed) {
+      const flagged = mergeVerdicts([storyVerdict, ...results]);
+      throw new ContentSafetyError(`regenerated content flagged (${flagged.categories.join(", ")})`, report);
+    }
+  }
+
+  /**
+   * 請模型改寫指定頁面，只回傳被要求改寫且頁碼存在的頁面。
+   * @param payload 生成任務參數
+   * @param story 目前的腳本
+   * @param requests 要改寫的頁面與原因
+   * @param usages 累計改寫的 token usage
+   */
+  private async rewritePages(
+    payload: StoryGenerationPayload,
+    story: StoryScriptResult,
+    requests: PageRewriteRequest[],
+    usages: StageUsages,
+  ): Promise<StoryScriptPage[]> {
+    const resp = await this.ai.createChatCompletion<unknown>({
+      model: "gpt-4.1",
+      messages: this.prompts.getPageRewritePrompt(payload, story, requests),
+      temperature: 0.7,
+      max_tokens: 1200,
+    });
+    const { pages, usage } = this.assembler.parsePageRewriteResult({ data: resp.data, usage: resp.usage });
+    usages.rewrite = addUsage(usages.rewrite, usage);
+    const requested = new Set(requests.map((r) => r.pageNumber));
+    return pages.filter((p) => requested.has(p.pageNumber));
+  }
+}
@@ -0,0 +1,136 @@
+import { OpenAIClientAdapter } from "./OpenAIClientAdapter";
+import { PromptToolkit } from "./PromptToolkit";
+import { ResultAssembler } from "./ResultAssembler";
+import type { OpenAIAdapter, StoryIdea, StoryIdeaResult } from "./types";
+
+/**
+ * StoryIdeaGenerator
+ *
+ * spec.md §5.4 第 1 步「Story Idea 生成」：依年齡區間請模型提出候選主題與語氣，
+ * 並過濾與過往 stories.theme（以及彼此之間）過於相近的候選。
+ */
+
+/**
+ * 判斷主題相近時忽略的常見字。
+ */
+const STOP_WORDS = new Set([
+  "a", "an", "the", "and", "or", "to", "of", "in", "on", "at", "for", "with", "who", "is", "are",
+  "his", "her", "their", "its", "my", "our", "your", "little", "new", "first", "day",
+]);
+
+/**
+ * 兩個主題的關鍵字 Jaccard 相似度達此門檻即視為重複。
+ */
+export const THEME_SIMILARITY_THRESHOLD = 0.6;
+
+/**
+ * 將主題轉為關鍵字集合（小寫、去標點、去常見字、簡單去除複數 s）。
+ * @param theme 主題字串
+ */
+export function themeKeywords(theme: string): Set<string> {
+  const words = theme
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((w) => w.length > 0 && !STOP_WORDS.has(w))
+    .map((w) => (w.length > 3 && w.endsWith("s") && !w.endsWith("ss") ? w.slice(0, -1) : w));
+  return new Set(words);
+}
+
+/**
+ * 計算兩個主題的關鍵字 Jaccard 相似度（0~1）。
+ * @param a 主題 A
+ * @param b 主題 B
+ */
+export function themeSimilarity(a: string, b: string): number {
+  const ka = themeKeywords(a);
+  const kb = themeKeywords(b);
+  if (ka.size === 0 || kb.size === 0) return 0;
+  let shared = 0;
+  for (const w of ka) {
+    if (kb.has(w)) shared++;
+  }
+  return shared / (ka.size + kb.size - shared);
+}
+
+/**
+ * 判斷主題是否與任一既有主題過於相近。
+ * @param theme 候選主題
+ * @param existing 既有主題
+ */
+export function isNearDuplicateTheme(theme: string, existing: Iterable<string>): boolean {
+  for (const other of existing) {
+    if (themeSimilarity(theme, other) >= THEME_SIMILARITY_THRESHOLD) return true;
+  }
+  return false;
+}
+
+/**
+ * 依序保留與既有主題及先前已保留候選都不相近的 idea。
+ * @param ideas 模型產生的候選
+ * @param pastThemes 過往 stories.theme
+ */
+export function dedupeIdeas(ideas: StoryIdea[], pastThemes: string[]): StoryIdea[] {
+  const accepted: StoryIdea[] = [];
+  for (const idea of ideas) {
+    if (isNearDuplicateTheme(idea.theme, [...pastThemes, ...accepted.map((i) => i.theme)])) {
+      console.info("[StoryIdeaGenerator] dropping near-duplicate theme", { theme: idea.theme });
+      continue;
+    }
+    accepted.push(idea);
+  }
+  return accepted;
+}
+
+/**
+ * 產生候選主題的參數。
+ */
+export interface GenerateIdeasOptions {
+  ageRange: string;
+  count: number;
+  /**
+   * 過往 stories.theme，用於提示模型避開與生成後去重
+   */
+  pastThemes: string[];
+}
+
+export class StoryIdeaGenerator {
+  private ai: OpenAIClientAdapter;
+  private prompts: PromptToolkit;
+  private assembler: ResultAssembler;
+
+  /**
+   * @param ai (optional) 外部注入的 OpenAIAdapter 實例，便於測試
+   */
+  constructor(ai?: OpenAIAdapter) {
+    this.ai = (ai as OpenAIClientAdapter) ?? new OpenAIClientAdapter();
+    this.prompts = new PromptToolkit();
+    this.assembler = new ResultAssembler();
+  }
+
+  /**
+   * 產生最多 count 個與過往主題不重複的候選 idea。
+   *
+   * 會向模型多要一些候選（去重後可能不足），回傳數量仍可能少於 count，由呼叫端決定如何補足。
+   *
+   * @param opts 年齡區間、數量與過往主題
+   */
+  async generate(opts: GenerateIdeasOptions): Promise<StoryIdea[]> {
+    // 提示中只帶最近的主題，避免 prompt 過長
+    const avoidThemes = opts.pastThemes.slice(0, 50);
+    const messages = this.prompts.getStoryIdeaPrompt({
+      ageRange: opts.ageRange,
+      count: Math.max(opts.count * 2, 10),
+      avoidThemes,
+    });
+    const resp = await this.ai.createChatCompletion<StoryIdeaResult>({
+      model: "gpt-4o",
+      messages,
+      temperature: 1,
+      max_tokens: 1200,
+    });
+
+    const { ideas } = this.assembler.parseStoryIdeaResult({ data: resp.data, usage: resp.usage });
+    return dedupeIdeas(ideas.ideas, opts.pastThemes).slice(0, opts.count);
+  }
+}
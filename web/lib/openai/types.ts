@@ -54,6 +54,34 @@ export interface VocabularyResult {
   entries: VocabularyEntry[];
 }
 
+/**
+ * Candidate story idea produced by the Story Idea stage.
+ */
+export interface StoryIdea {
+  theme: string;
+  tone: string;
+  summaryEn?: string;
+}
+
+/**
+ * Result structure for the Story Idea stage.
+ */
+export interface StoryIdeaResult {
+  ideas: StoryIdea[];
+}
+
+/**
+ * Payload for the Story Idea stage.
+ */
+export interface StoryIdeaPayload {
+  ageRange: string;
+  count: number;
+  /**
+   * Past themes the model should steer away from (also enforced after generation).
+   */
+  avoidThemes?: string[];
+}
+
 /**
  * Payload passed into the story generation orchestrator.
  */
@@ -62,9 +90,20 @@ export interface StoryGenerationPayload {
   theme: string;
   tone: string;
   ageRange: string;
+  /**
+   * Regenerating an existing story: the previous synopsis is passed to the script prompt as context.
+   */
   regenerate?: boolean;
 }
 
+/**
+ * Which part of a stored story to regenerate (the rest is kept and used as context).
+ */
+export type RegenerationScope =
+  | { stage: "page"; pageNumber: number }
+  | { stage: "translation" }
+  | { stage: "vocabulary" };
+
 /**
  * Token usage for a chat completion call.
  */
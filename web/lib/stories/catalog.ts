@@ -0,0 +1,194 @@
+import { z } from "zod";
+import { getPgPool } from "../utils/pgPool";
+import type { Queryable } from "../generation/storyScriptJobs";
+
+/**
+ * 公開故事目錄查詢（GET /api/stories）
+ *
+ * - 只回傳 status = published 或已有發布版本（published_version_id）的故事；
+ *   有發布版本時標題、摘要與封面取自該版本（重新生成 / 回復後待審的內容不會出現在目錄）
+ * - 篩選：theme（部分比對、不分大小寫）、ageRange、發布日期區間
+ * - 排序：recent（published_at DESC）或 title（title_en ASC）
+ * - 以 keyset cursor 分頁（cursor 為排序鍵與 id 的 base64url 編碼，對呼叫端不透明）
+ * - 每筆附上第 1 頁的插圖（media_assets）作為封面
+ */
+
+/**
+ * 查詢參數 schema（由 URLSearchParams 轉成的物件）。
+ */
+export const storyListQuerySchema = z
+  .object({
+    theme: z.string().trim().min(1).max(120).optional(),
+    ageRange: z.string().trim().min(1).max(20).optional(),
+    publishedFrom: z.coerce.date().optional(),
+    publishedTo: z.coerce.date().optional(),
+    sort: z.enum(["recent", "title"]).default("recent"),
+    limit: z.coerce.number().int().min(1).max(50).default(20),
+    cursor: z.string().min(1).optional(),
+  })
+  .refine((q) => !q.publishedFrom || !q.publishedTo || q.publishedFrom <= q.publishedTo, {
+    message: "publishedFrom must not be after publishedTo",
+    path: ["publishedFrom"],
+  });
+
+export type StoryListQuery = z.infer<typeof storyListQuerySchema>;
+
+/**
+ * 目錄中的單筆故事摘要。
+ */
+export interface StorySummary {
+  id: string;
+  titleEn: string;
+  titleZh: string;
+  theme: string;
+  ageRange: string;
+  publishedAt: string;
+  synopsisEn: string | null;
+  synopsisZh: string | null;
+  coverImage: { uri: string; format: string } | null;
+}
+
+/**
+ * 目錄分頁結果。
+ */
+export interface StoryListPage {
+  items: StorySummary[];
+  nextCursor: string | null;
+}
+
+/**
+ * cursor 內容：排序鍵（published_at ISO 或 title_en）與 id。
+ */
+interface StoryCursor {
+  k: string;
+  id: string;
+}
+
+/**
+ * cursor 格式錯誤（呼叫端應回傳 400）。
+ */
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("invalid cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+/**
+ * 讀者看到的標題 / 摘要：有發布版本時取版本內容，否則取 stories 目前的欄位。
+ */
+const TITLE_EN = `coalesce(pv.snapshot->>'titleEn', s.title_en)`;
+const TITLE_ZH = `coalesce(pv.snapshot->>'titleZh', s.title_zh)`;
+
+/**
+ * 編碼 cursor。
+ * @param cursor 排序鍵與 id
+ */
+export function encodeCursor(cursor: StoryCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * 解碼 cursor；格式錯誤時回傳 null。
+ * @param raw 呼叫端傳入的 cursor
+ */
+export function decodeCursor(raw: string): StoryCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8")) as Partial<StoryCursor>;
+    if (typeof parsed.k === "string" && typeof parsed.id === "string") return { k: parsed.k, id: parsed.id };
+  } catch {
+    // fallthrough
+  }
+  return null;
+}
+
+/**
+ * 查詢已發布故事的一頁。
+ *
+ * @param query 已驗證的查詢參數
+ * @param client pg client（預設使用全域 Pool）
+ * @throws InvalidCursorError 當 cursor 格式錯誤
+ */
+export async function listPublishedStories(query: StoryListQuery, client: Queryable = getPgPool()): Promise<StoryListPage> {
+  const where: string[] = [`(s.status = 'published' OR s.published_version_id IS NOT NULL)`];
+  const values: unknown[] = [];
+  const param = (value: unknown) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+
+  if (query.theme) where.push(`s.theme ILIKE ${param(`%${query.theme.replace(/[\\%_]/g, "\\$&")}%`)}`);
+  if (query.ageRange) where.push(`s.age_range = ${param(query.ageRange)}`);
+  if (query.publishedFrom) where.push(`s.published_at >= ${param(query.publishedFrom.toISOString())}`);
+  if (query.publishedTo) where.push(`s.published_at <= ${param(query.publishedTo.toISOString())}`);
+
+  const byTitle = query.sort === "title";
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor);
+    if (!cursor) throw new InvalidCursorError();
+    where.push(
+      byTitle
+        ? `(${TITLE_EN}, s.id) > (${param(cursor.k)}, ${param(cursor.id)}::uuid)`
+        : `(s.published_at, s.id) < (${param(cursor.k)}::timestamptz, ${param(cursor.id)}::uuid)`,
+    );
+  }
+  const orderBy = byTitle ? `${TITLE_EN} ASC, s.id ASC` : "s.published_at DESC, s.id DESC";
+
+  // 多取一筆判斷是否還有下一頁
+  const res = await client.query(
+    `SELECT s.id, ${TITLE_EN} AS title_en, ${TITLE_ZH} AS title_zh, s.theme, s.age_range, s.published_at,
+            s.published_at::text AS published_key,
+            CASE WHEN pv.id IS NULL THEN s.metadata->>'synopsisEn' ELSE pv.snapshot->>'synopsisEn' END AS synopsis_en,
+            CASE WHEN pv.id IS NULL THEN s.metadata->>'synopsisZh' ELSE pv.snapshot->>'synopsisZh' END AS synopsis_zh,
+            cover.uri AS cover_uri, cover.format AS cover_format
+     FROM stories s
+     LEFT JOIN story_versions pv ON pv.id = s.published_version_id
+     LEFT JOIN LATERAL (
+       SELECT ma.uri, ma.format
+       FROM media_assets ma
+       WHERE ma.type = 'image'
+         AND CASE
+           WHEN pv.id IS NULL THEN ma.page_id = (SELECT sp.id FROM story_pages sp WHERE sp.story_id = s.id AND sp.page_number = 1)
+           ELSE ma.id = (
+             SELECT (vp->>'imageAssetId')::uuid FROM jsonb_array_elements(pv.snapshot->'pages') vp
+             WHERE (vp->>'pageNumber')::int = 1
+           )
+         END
+       ORDER BY ma.created_at DESC
+       LIMIT 1
+     ) cover ON true
+     WHERE ${where.join(" AND ")}
+     ORDER BY ${orderBy}
+     LIMIT ${param(query.limit + 1)}`,
+    values,
+  );
+
+  const rows = res.rows.slice(0, query.limit);
+  const items = rows.map(toStorySummary);
+  const last = rows[rows.length - 1];
+  // recent 排序以資料庫原始精度（微秒）的 published_at 作為 cursor，避免同毫秒的故事被跳過
+  const nextCursor =
+    res.rows.length > query.limit && last
+      ? encodeCursor({ k: String(byTitle ? last.title_en : last.published_key), id: String(last.id) })
+      : null;
+
+  return { items, nextCursor };
+}
+
+/**
+ * 將查詢列轉為 StorySummary。
+ * @param row stories 與封面欄位
+ */
+function toStorySummary(row: Record<string, unknown>): StorySummary {
+  return {
+    id: String(row.id),
+    titleEn: String(row.title_en),
+    titleZh: String(row.title_zh),
+    theme: String(row.theme),
+    ageRange: String(row.age_range),
+    publishedAt: new Date(String(row.published_at)).toISOString(),
+    synopsisEn: row.synopsis_en == null ? null : String(row.synopsis_en),
+    synopsisZh: row.synopsis_zh == null ? null : String(row.synopsis_zh),
+    coverImage: row.cover_uri ? { uri: String(row.cover_uri), format: String(row.cover_format) } : null,
+  };
+}
@@ -0,0 +1,219 @@
+import { db } from "../../db/client";
+import type { StorySnapshot } from "./versions";
+
+/**
+ * 故事全文查詢（GET /api/stories/{id}、reader 頁面共用）
+ *
+ * 透過 db/schema 宣告的 relations 一次取回：
+ *  - story_pages（依 page_number 排序）與每頁的插圖 / 旁白（mediaAsset / audioAsset）
+ *  - 故事層級的影片（media_assets.type = video、page_id 為 null）
+ *  - vocab_entries（目前內容不含已退役的單字，見 replaceVocabEntries）
+ *
+ * 讀者（publishedOnly）在故事有發布版本（stories.published_version_id）時看到該版本的內容，
+ * 即使故事正在重新生成或待審；管理者預覽（publishedOnly = false）看到目前的內容。
+ */
+
+/**
+ * 媒體連結。
+ */
+export interface StoryMedia {
+  id: string;
+  uri: string;
+  format: string;
+  duration: string | null;
+}
+
+/**
+ * 單頁內容。
+ */
+export interface StoryDetailPage {
+  pageNumber: number;
+  textEn: string;
+  textZh: string;
+  wordCount: number;
+  image: StoryMedia | null;
+  audio: StoryMedia | null;
+}
+
+/**
+ * 精選單字。
+ */
+export interface StoryVocabEntry {
+  id: string;
+  word: string;
+  partOfSpeech: string | null;
+  definitionEn: string;
+  definitionZh: string;
+  exampleSentence: string | null;
+  exampleTranslation: string | null;
+  cefrLevel: string | null;
+}
+
+/**
+ * 故事全文文件。
+ */
+export interface StoryDetail {
+  id: string;
+  titleEn: string;
+  titleZh: string;
+  theme: string;
+  ageRange: string;
+  status: string;
+  publishedAt: string | null;
+  synopsisEn: string | null;
+  synopsisZh: string | null;
+  pages: StoryDetailPage[];
+  video: StoryMedia | null;
+  vocabulary: StoryVocabEntry[];
+}
+
+/**
+ * 查詢選項。
+ */
+export interface StoryDetailOptions {
+  /**
+   * 只回傳已發布的故事（公開 API 預設為 true）；有發布版本時回傳該版本的內容
+   */
+  publishedOnly?: boolean;
+}
+
+type MediaRow = { id: string; uri: string; format: string; duration: string | null; type?: string; pageId?: string | null };
+
+/**
+ * 取得單一故事的完整內容；不存在（或 publishedOnly 時未發布且無發布版本）回傳 null。
+ *
+ * @param storyId stories.id
+ * @param opts 查詢選項
+ */
+export async function getStoryDetail(storyId: string, opts: StoryDetailOptions = {}): Promise<StoryDetail | null> {
+  const publishedOnly = opts.publishedOnly ?? true;
+
+  const story = await db.query.stories.findFirst({
+    where: (s, { eq }) => eq(s.id, storyId),
+    with: {
+      pages: {
+        with: { mediaAsset: true, audioAsset: true },
+      },
+      mediaAssets: {
+        where: (m, { eq }) => eq(m.type, "video"),
+      },
+      vocabEntries: {
+        orderBy: (v, { asc }) => [asc(v.word)],
+      },
+      publishedVersion: true,
+    },
+  });
+
+  if (!story) return null;
+  if (publishedOnly && story.publishedVersion) {
+    return fromSnapshot(story, story.publishedVersion.snapshot as unknown as StorySnapshot);
+  }
+  if (publishedOnly && story.status !== "published") return null;
+
+  const pages = (story.pages as Array<Record<string, unknown>>)
+    .map((p) => ({
+      pageNumber: Number(p.pageNumber),
+      textEn: String(p.textEn),
+      textZh: String(p.textZh),
+      wordCount: Number(p.wordCount ?? 0),
+      image: toMedia(p.mediaAsset as MediaRow | null | undefined),
+      audio: toMedia(p.audioAsset as MediaRow | null | undefined),
+    }))
+    .sort((a, b) => a.pageNumber - b.pageNumber);
+
+  // 故事層級影片：page_id 為 null，若有多筆取最新
+  const video = (story.mediaAssets as Array<MediaRow & { createdAt: Date }>)
+    .filter((m) => !m.pageId)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+
+  const metadata = story.metadata ?? {};
+  return {
+    id: story.id,
+    titleEn: story.titleEn,
+    titleZh: story.titleZh,
+    theme: story.theme,
+    ageRange: story.ageRange,
+    status: story.status,
+    publishedAt: story.publishedAt ? story.publishedAt.toISOString() : null,
+    synopsisEn: typeof metadata.synopsisEn === "string" ? metadata.synopsisEn : null,
+    synopsisZh: typeof metadata.synopsisZh === "string" ? metadata.synopsisZh : null,
+    pages,
+    video: toMedia(video),
+    vocabulary: story.vocabEntries
+      .filter((v) => !v.retiredAt)
+      .map((v) => ({
+        id: v.id,
+        word: v.word,
+        partOfSpeech: v.partOfSpeech,
+        definitionEn: v.definitionEn,
+        definitionZh: v.definitionZh,
+        exampleSentence: v.exampleSentence,
+        exampleTranslation: v.exampleTranslation,
+        cefrLevel: v.cefrLevel,
+      })),
+  };
+}
+
+/**
+ * 由發布版本組成故事全文；媒體依版本記錄的 media_assets.id 取回。
+ * 精選單字的 id 對應到故事目前的 vocab_entries 列（含已退役的列）：版本記錄的 id 已不存在時
+ * （例如舊版本建立後單字列被刪除）依單字不分大小寫比對，讓收藏仍指向有效的列。
+ * @param story stories 列（含所有 vocab_entries）
+ * @param snapshot 發布版本內容
+ */
+async function fromSnapshot(
+  story: {
+    id: string;
+    theme: string;
+    ageRange: string;
+    publishedAt: Date | null;
+    vocabEntries: Array<{ id: string; word: string }>;
+  },
+  snapshot: StorySnapshot,
+): Promise<StoryDetail> {
+  const ids = [
+    ...snapshot.pages.flatMap((p) => [p.imageAssetId, p.audioAssetId]),
+    snapshot.videoAssetId,
+  ].filter((id): id is string => Boolean(id));
+  const assets =
+    ids.length > 0 ? await db.query.mediaAssets.findMany({ where: (m, { inArray }) => inArray(m.id, ids) }) : [];
+  const byId = new Map<string, MediaRow>(assets.map((m) => [m.id, m]));
+  const media = (id: string | null) => toMedia(id ? byId.get(id) : null);
+  const vocabIds = new Set(story.vocabEntries.map((v) => v.id));
+  const vocabIdByWord = new Map(story.vocabEntries.map((v) => [v.word.toLowerCase(), v.id]));
+  const vocabIdOf = (v: StorySnapshot["vocabulary"][number]) =>
+    vocabIds.has(v.id) ? v.id : (vocabIdByWord.get(v.word.toLowerCase()) ?? v.id);
+
+  return {
+    id: story.id,
+    titleEn: snapshot.titleEn,
+    titleZh: snapshot.titleZh,
+    theme: story.theme,
+    ageRange: story.ageRange,
+    status: "published",
+    publishedAt: story.publishedAt ? story.publishedAt.toISOString() : null,
+    synopsisEn: snapshot.synopsisEn,
+    synopsisZh: snapshot.synopsisZh,
+    pages: [...snapshot.pages]
+      .sort((a, b) => a.pageNumber - b.pageNumber)
+      .map((p) => ({
+        pageNumber: p.pageNumber,
+        textEn: p.textEn,
+        textZh: p.textZh,
+        wordCount: p.wordCount,
+        image: media(p.imageAssetId),
+        audio: media(p.audioAssetId),
+      })),
+    video: media(snapshot.videoAssetId),
+    vocabulary: snapshot.vocabulary.map((v) => ({ ...v, id: vocabIdOf(v) })),
+  };
+}
+
+/**
+ * 將 media_assets 列轉為對外的媒體連結。
+ * @param row media_assets 列（可為空）
+ */
+function toMedia(row: MediaRow | null | undefined): StoryMedia | null {
+  if (!row) return null;
+  return { id: row.id, uri: row.uri, format: row.format, duration: row.duration ?? null };
+}
@@ -0,0 +1,288 @@
+import { getPgPool } from "../utils/pgPool";
+import type { Queryable } from "../generation/storyScriptJobs";
+
+/**
+ * 故事版本（story_versions）
+ *
+ * 每個版本保存故事當時的標題、摘要、各頁中英文、媒體連結（media_assets.id）與精選單字：
+ * - published：管理者核准發布時建立，stories.published_version_id 指向它，讀者只看這個版本
+ * - regeneration：單頁 / 單一階段重新生成寫入前建立（保存被覆寫的內容）
+ * - rollback：回復到舊版本前建立（保存回復前的內容）
+ * 媒體檔案本身不複製；media_assets 列不會因重新生成而刪除，版本只記錄 id。
+ */
+
+/**
+ * 版本中的單頁內容。
+ */
+export interface StorySnapshotPage {
+  pageNumber: number;
+  textEn: string;
+  textZh: string;
+  wordCount: number;
+  imageAssetId: string | null;
+  audioAssetId: string | null;
+}
+
+/**
+ * 版本中的精選單字（id 為當時的 vocab_entries.id）。
+ */
+export interface StorySnapshotVocabEntry {
+  id: string;
+  word: string;
+  partOfSpeech: string | null;
+  definitionEn: string;
+  definitionZh: string;
+  exampleSentence: string | null;
+  exampleTranslation: string | null;
+  cefrLevel: string | null;
+}
+
+/**
+ * 故事版本內容（story_versions.snapshot）。
+ */
+export interface StorySnapshot {
+  titleEn: string;
+  titleZh: string;
+  synopsisEn: string | null;
+  synopsisZh: string | null;
+  /**
+   * 當時最新的故事影片
+   */
+  videoAssetId: string | null;
+  pages: StorySnapshotPage[];
+  vocabulary: StorySnapshotVocabEntry[];
+}
+
+export type StoryVersionReason = "published" | "regeneration" | "rollback";
+
+/**
+ * 版本列表中的一筆。
+ */
+export interface StoryVersionSummary {
+  id: string;
+  versionNumber: number;
+  reason: string;
+  createdBy: string | null;
+  createdAt: string;
+  /**
+   * 是否為讀者目前看到的版本
+   */
+  published: boolean;
+}
+
+/**
+ * 含內容的版本。
+ */
+export interface StoryVersion extends StoryVersionSummary {
+  snapshot: StorySnapshot;
+}
+
+/**
+ * 兩個版本之間單頁的差異。
+ */
+export interface StoryPageDiff {
+  pageNumber: number;
+  change: "added" | "removed" | "changed" | "unchanged";
+  from: StorySnapshotPage | null;
+  to: StorySnapshotPage | null;
+  textChanged: boolean;
+  mediaChanged: boolean;
+}
+
+/**
+ * 兩個版本之間的差異。
+ */
+export interface StoryVersionDiff {
+  fields: Array<{ field: "titleEn" | "titleZh" | "synopsisEn" | "synopsisZh"; from: string | null; to: string | null }>;
+  videoChanged: boolean;
+  pages: StoryPageDiff[];
+  vocabulary: { added: string[]; removed: string[]; changed: string[] };
+}
+
+const optionalText = (value: unknown) => (value == null ? null : String(value));
+
+/**
+ * 讀取故事目前（live）的內容；故事不存在時回傳 null。
+ * @param client pg client
+ * @param storyId stories.id
+ */
+export async function captureStorySnapshot(client: Queryable, storyId: string): Promise<StorySnapshot | null> {
+  const storyRes = await client.query(
+    `SELECT s.title_en, s.title_zh, s.metadata->>'synopsisEn' AS synopsis_en, s.metadata->>'synopsisZh' AS synopsis_zh,
+            (SELECT ma.id FROM media_assets ma
+             WHERE ma.story_id = s.id AND ma.type = 'video' AND ma.page_id IS NULL
+             ORDER BY ma.created_at DESC LIMIT 1) AS video_asset_id
+     FROM stories s
+     WHERE s.id = $1`,
+    [storyId],
+  );
+  const row = storyRes.rows[0];
+  if (!row) return null;
+
+  const [pages, vocabulary] = await Promise.all([
+    client.query(
+      `SELECT page_number, text_en, text_zh, word_count, media_asset_id, audio_asset_id
+       FROM story_pages WHERE story_id = $1 ORDER BY page_number`,
+      [storyId],
+    ),
+    client.query(
+      `SELECT id, word, part_of_speech, definition_en, definition_zh, example_sentence, example_translation, cefr_level
+       FROM vocab_entries WHERE story_id = $1 AND retired_at IS NULL ORDER BY lower(word)`,
+      [storyId],
+    ),
+  ]);
+
+  return {
+    titleEn: String(row.title_en),
+    titleZh: String(row.title_zh),
+    synopsisEn: optionalText(row.synopsis_en),
+    synopsisZh: optionalText(row.synopsis_zh),
+    videoAssetId: optionalText(row.video_asset_id),
+    pages: pages.rows.map((p) => ({
+      pageNumber: Number(p.page_number),
+      textEn: String(p.text_en),
+      textZh: String(p.text_zh),
+      wordCount: Number(p.word_count ?? 0),
+      imageAssetId: optionalText(p.media_asset_id),
+      audioAssetId: optionalText(p.audio_asset_id),
+    })),
+    vocabulary: vocabulary.rows.map((v) => ({
+      id: String(v.id),
+      word: String(v.word),
+      partOfSpeech: optionalText(v.part_of_speech),
+      definitionEn: String(v.definition_en),
+      definitionZh: String(v.definition_zh),
+      exampleSentence: optionalText(v.example_sentence),
+      exampleTranslation: optionalText(v.example_translation),
+      cefrLevel: optionalText(v.cefr_level),
+    })),
+  };
+}
+
+/**
+ * 以故事目前的內容建立新版本（在呼叫端的交易中執行）；故事不存在時回傳 null。
+ * @param client 交易中的 pg client
+ * @param storyId stories.id
+ * @param reason 建立原因
+ * @param userId 操作者 users.id（worker 建立時為 null）
+ * @returns 新版本的 id 與序號
+ */
+export async function createStoryVersion(
+  client: Queryable,
+  storyId: string,
+  reason: StoryVersionReason,
+  userId: string | null,
+): Promise<{ id: string; versionNumber: number } | null> {
+  const snapshot = await captureStorySnapshot(client, storyId);
+  if (!snapshot) return null;
+  const res = await client.query(
+    `INSERT INTO story_versions (story_id, version_number, reason, snapshot, created_by)
+     SELECT $1, coalesce(max(version_number), 0) + 1, $2, $3::jsonb, $4
+     FROM story_versions WHERE story_id = $1
+     RETURNING id, version_number`,
+    [storyId, reason, JSON.stringify(snapshot), userId],
+  );
+  return { id: String(res.rows[0].id), versionNumber: Number(res.rows[0].version_number) };
+}
+
+function toVersionSummary(row: Record<string, unknown>): StoryVersionSummary {
+  return {
+    id: String(row.id),
+    versionNumber: Number(row.version_number),
+    reason: String(row.reason),
+    createdBy: optionalText(row.created_by_email),
+    createdAt: new Date(String(row.created_at)).toISOString(),
+    published: Boolean(row.published),
+  };
+}
+
+/**
+ * 列出故事的所有版本（新到舊）。
+ * @param storyId stories.id
+ * @param client pg client（預設使用全域 Pool）
+ */
+export async function listStoryVersions(storyId: string, client: Queryable = getPgPool()): Promise<StoryVersionSummary[]> {
+  const res = await client.query(
+    `SELECT v.id, v.version_number, v.reason, v.created_at, u.email AS created_by_email,
+            (s.published_version_id = v.id) AS published
+     FROM story_versions v
+     JOIN stories s ON s.id = v.story_id
+     LEFT JOIN users u ON u.id = v.created_by
+     WHERE v.story_id = $1
+     ORDER BY v.version_number DESC`,
+    [storyId],
+  );
+  return res.rows.map(toVersionSummary);
+}
+
+/**
+ * 取得單一版本（含內容）；不存在時回傳 null。
+ * @param storyId stories.id
+ * @param versionNumber 版本序號
+ * @param client pg client（預設使用全域 Pool）
+ */
+export async function getStoryVersion(
+  storyId: string,
+  versionNumber: number,
+  client: Queryable = getPgPool(),
+): Promise<StoryVersion | null> {
+  const res = await client.query(
+    `SELECT v.id, v.version_number, v.reason, v.snapshot, v.created_at, u.email AS created_by_email,
+            (s.published_version_id = v.id) AS published
+     FROM story_versions v
+     JOIN stories s ON s.id = v.story_id
+     LEFT JOIN users u ON u.id = v.created_by
+     WHERE v.story_id = $1 AND v.version_number = $2`,
+    [storyId, versionNumber],
+  );
+  const row = res.rows[0];
+  return row ? { ...toVersionSummary(row), snapshot: row.snapshot as StorySnapshot } : null;
+}
+
+/**
+ * 比較兩個版本（或版本與目前內容）的差異。
+ * @param from 較舊的內容
+ * @param to 較新的內容
+ */
+export function diffStorySnapshots(from: StorySnapshot, to: StorySnapshot): StoryVersionDiff {
+  const fields: StoryVersionDiff["fields"] = [];
+  for (const field of ["titleEn", "titleZh", "synopsisEn", "synopsisZh"] as const) {
+    if ((from[field] ?? null) !== (to[field] ?? null)) fields.push({ field, from: from[field] ?? null, to: to[field] ?? null });
+  }
+
+  const pageNumbers = [...new Set([...from.pages, ...to.pages].map((p) => p.pageNumber))].sort((a, b) => a - b);
+  const pages = pageNumbers.map((pageNumber): StoryPageDiff => {
+    const a = from.pages.find((p) => p.pageNumber === pageNumber) ?? null;
+    const b = to.pages.find((p) => p.pageNumber === pageNumber) ?? null;
+    if (!a || !b) {
+      return { pageNumber, change: a ? "removed" : "added", from: a, to: b, textChanged: true, mediaChanged: true };
+    }
+    const textChanged = a.textEn !== b.textEn || a.textZh !== b.textZh;
+    const mediaChanged = a.imageAssetId !== b.imageAssetId || a.audioAssetId !== b.audioAssetId;
+    return { pageNumber, change: textChanged || mediaChanged ? "changed" : "unchanged", from: a, to: b, textChanged, mediaChanged };
+  });
+
+  const byWord = (entries: StorySnapshotVocabEntry[]) => new Map(entries.map((e) => [e.word.toLowerCase(), e]));
+  const fromWords = byWord(from.vocabulary);
+  const toWords = byWord(to.vocabulary);
+  const sameEntry = (a: StorySnapshotVocabEntry, b: StorySnapshotVocabEntry) =>
+    a.partOfSpeech === b.partOfSpeech &&
+    a.definitionEn === b.definitionEn &&
+    a.definitionZh === b.definitionZh &&
+    a.exampleSentence === b.exampleSentence &&
+    a.exampleTranslation === b.exampleTranslation &&
+    a.cefrLevel === b.cefrLevel;
+
+  return {
+    fields,
+    videoChanged: from.videoAssetId !== to.videoAssetId,
+    pages,
+    vocabulary: {
+      added: [...toWords.keys()].filter((w) => !fromWords.has(w)).map((w) => toWords.get(w)!.word),
+      removed: [...fromWords.keys()].filter((w) => !toWords.has(w)).map((w) => fromWords.get(w)!.word),
+      changed: [...toWords.keys()]
+        .filter((w) => fromWords.has(w) && !sameEntry(fromWords.get(w)!, toWords.get(w)!))
+        .map((w) => toWords.get(w)!.word),
+    },
+  };
+}
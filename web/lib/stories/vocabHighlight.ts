@@ -0,0 +1,73 @@
+/**
+ * 精選單字標示（reader 頁面於 textEn 中標出 vocab_entries 的單字）
+ *
+ * - 不分大小寫、以整個單字比對（片語亦可）
+ * - 接受常見字尾變化：-s / -es / -ed / -ing（例如 share → shares、shared、sharing）
+ * - 較長的單字優先比對，避免片語被其中的單字拆開
+ */
+
+/**
+ * 文字片段；word 有值時代表命中的精選單字（vocab_entries.word 原始寫法）。
+ */
+export interface VocabSegment {
+  text: string;
+  word?: string;
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * 單字的比對 pattern：結尾 e 的單字允許省略 e 再接 -ed / -ing。
+ * @param word 精選單字
+ */
+function wordPattern(word: string): string {
+  const base = escapeRegExp(word.trim());
+  if (/e$/i.test(word.trim())) {
+    return `${base}(?:s|d)?|${base.slice(0, -1)}(?:ing)`;
+  }
+  return `${base}(?:s|es|ed|ing)?`;
+}
+
+/**
+ * 將頁面文字切成一般片段與精選單字片段。
+ *
+ * @param text 頁面英文文字
+ * @param words vocab_entries.word 列表
+ */
+export function highlightVocab(text: string, words: string[]): VocabSegment[] {
+  const unique = [...new Set(words.map((w) => w.trim()).filter((w) => w.length > 0))];
+  if (unique.length === 0 || text.length === 0) return [{ text }];
+
+  const sorted = [...unique].sort((a, b) => b.length - a.length);
+  const lookup = new Map<string, string>();
+  const alternatives = sorted.map((word, i) => {
+    lookup.set(`w${i}`, word);
+    return `(?<w${i}>${wordPattern(word)})`;
+  });
+  const re = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}])`, "giu");
+
+  const segments: VocabSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(re)) {
+    const index = match.index ?? 0;
+    const group = Object.entries(match.groups ?? {}).find(([, v]) => v !== undefined)?.[0];
+    const word = group ? lookup.get(group) : undefined;
+    if (!word) continue;
+    if (index > last) segments.push({ text: text.slice(last, index) });
+    segments.push({ text: match[0], word });
+    last = index + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+}
+
+/**
+ * 單字頁（/stories/[id]/vocab/[word]）的網址。
+ * @param storyId stories.id
+ * @param word vocab_entries.word
+ */
+export function vocabHref(storyId: string, word: string): string {
+  return `/stories/${storyId}/vocab/${encodeURIComponent(word)}`;
+}
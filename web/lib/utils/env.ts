@@ -1,20 +1,53 @@
 import { z } from "zod";
+import { generationJobTypeEnum } from "../../db/schema/generation-jobs";
 
 /**
  * 環境變數 schema，於啟動時即刻驗證必要設定。
  *
- * 增加可選的 SLACK_WEBHOOK、UPSTASH、IMAGE、TTS 與 UPLOAD_DIR 相關設定，以供 Worker / ErrorHandler 使用（皆為 optional）。
+ * 增加可選的 SLACK_WEBHOOK、CRON_SECRET、QUEUE_DRIVER、UPSTASH、IMAGE、TTS、UPLOAD_DIR、JOB_LEASE_MS 與 JOB_RETRY_LIMITS 相關設定，以供 Worker / ErrorHandler 使用（皆為 optional）。
  */
 const envSchema = z.object({
   OPENAI_API_KEY: z.string().min(1, "OPENAI_API_KEY is required"),
   SLACK_WEBHOOK: z.string().url().optional(),
+  CRON_SECRET: z.string().optional(),
+  QUEUE_DRIVER: z.enum(["upstash", "postgres"]).optional(),
   UPSTASH_REDIS_URL: z.string().optional(),
   UPSTASH_REST_URL: z.string().optional(),
   UPSTASH_REST_TOKEN: z.string().optional(),
   UPSTASH_QUEUE_NAME: z.string().optional(),
+  UPSTASH_CONSUMER_GROUP: z.string().optional(),
+  UPSTASH_MAX_DELIVERIES: z.coerce.number().int().positive().optional(),
+  UPSTASH_CLAIM_IDLE_MS: z.coerce.number().int().positive().optional(),
+  /**
+   * processing job 的 lease（毫秒）：worker 執行期間定期 heartbeat，超過未更新即視為 worker 已中斷，job 可被重新 claim
+   */
+  JOB_LEASE_MS: z.coerce.number().int().positive().optional(),
   IMAGE_API_KEY: z.string().optional(),
   ELEVENLABS_API_KEY: z.string().optional(),
   UPLOAD_DIR: z.string().optional(),
+  APP_BASE_URL: z.string().url().optional(),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().int().positive().optional(),
+  MAIL_FROM: z.string().optional(),
+  ADMIN_EMAILS: z.string().optional(),
+  MODERATION_PROVIDER: z.enum(["openai", "keyword"]).optional(),
+  /**
+   * 各 job type 重試上限，格式 `<job_type>=<次數>` 以逗號分隔（例如 image=5,video=1）；
+   * job type 須為 generation_job_type 列舉值，拼錯時啟動即失敗而非靜默套用預設值
+   */
+  JOB_RETRY_LIMITS: z
+    .string()
+    .trim()
+    .regex(/^[a-z_]+\s*=\s*[1-9]\d*(\s*,\s*[a-z_]+\s*=\s*[1-9]\d*)*$/, "JOB_RETRY_LIMITS must look like image=5,video=1")
+    .refine(
+      (value) =>
+        value
+          .split(",")
+          .map((part) => part.split("=")[0].trim())
+          .every((type) => (generationJobTypeEnum.enumValues as readonly string[]).includes(type)),
+      `JOB_RETRY_LIMITS job types must be one of: ${generationJobTypeEnum.enumValues.join(", ")}`,
+    )
+    .optional(),
 });
 
 /**
@@ -32,13 +65,26 @@ const rawEnv = {
     (process.env.NODE_ENV === "test" ? "test-key" : undefined) ??
     (process.env.SKIP_ENV_VALIDATION === "true" ? "test-key" : undefined),
   SLACK_WEBHOOK: process.env.SLACK_WEBHOOK,
+  CRON_SECRET: process.env.CRON_SECRET,
+  QUEUE_DRIVER: process.env.QUEUE_DRIVER,
   UPSTASH_REDIS_URL: process.env.UPSTASH_REDIS_URL,
   UPSTASH_REST_URL: process.env.UPSTASH_REST_URL,
   UPSTASH_REST_TOKEN: process.env.UPSTASH_REST_TOKEN,
   UPSTASH_QUEUE_NAME: process.env.UPSTASH_QUEUE_NAME ?? "generation_jobs",
+  UPSTASH_CONSUMER_GROUP: process.env.UPSTASH_CONSUMER_GROUP,
+  UPSTASH_MAX_DELIVERIES: process.env.UPSTASH_MAX_DELIVERIES,
+  UPSTASH_CLAIM_IDLE_MS: process.env.UPSTASH_CLAIM_IDLE_MS,
+  JOB_LEASE_MS: process.env.JOB_LEASE_MS,
   IMAGE_API_KEY: process.env.IMAGE_API_KEY,
   ELEVENLABS_API_KEY: process.env.ELEVENLABS_API_KEY,
   UPLOAD_DIR: process.env.UPLOAD_DIR,
+  APP_BASE_URL: process.env.APP_BASE_URL,
+  SMTP_HOST: process.env.SMTP_HOST,
+  SMTP_PORT: process.env.SMTP_PORT,
+  MAIL_FROM: process.env.MAIL_FROM,
+  ADMIN_EMAILS: process.env.ADMIN_EMAILS,
+  MODERATION_PROVIDER: process.env.MODERATION_PROVIDER,
+  JOB_RETRY_LIMITS: process.env.JOB_RETRY_LIMITS || undefined,
 };
 
 /**
@@ -0,0 +1,40 @@
+import { Pool, type PoolClient } from "pg";
+
+/**
+ * Helper: 全域單例 pg Pool
+ *
+ * 在 serverless 或 hot-reload 的開發環境中，避免每次請求建立新的 TCP 連線導致連線爆滿。
+ * 將 pool 快取到 globalThis.__pgPool 上以確保單例行為（route、persistence 與 worker 共用）。
+ */
+export function getPgPool(): Pool {
+  const g = globalThis as unknown as Record<string, unknown>;
+  if (g.__pgPool && (g.__pgPool as Pool).connect) {
+    return g.__pgPool as Pool;
+  }
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  g.__pgPool = pool;
+  return pool;
+}
+
+/**
+ * 以 pool 中的單一連線執行交易：成功時 COMMIT，fn 拋錯時 ROLLBACK 並重新拋出。
+ * @param fn 交易內容
+ */
+export async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await getPgPool().connect();
+  try {
+    await client.query("BEGIN");
+    const result = await fn(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (err) {
+    try {
+      await client.query("ROLLBACK");
+    } catch {
+      // ignore rollback error
+    }
+    throw err;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,124 @@
+import { getPgPool } from "../utils/pgPool";
+import type { Queryable } from "../generation/storyScriptJobs";
+
+/**
+ * 個人單字本（user_vocab_favorites）
+ *
+ * - 收藏 / 取消收藏皆為冪等操作
+ * - 單字本列表依故事分組，並附上單字首次出現的頁碼，方便連回閱讀頁
+ */
+
+/**
+ * 單字本中的一個單字。
+ */
+export interface FavoriteWord {
+  vocabEntryId: string;
+  word: string;
+  partOfSpeech: string | null;
+  definitionEn: string;
+  definitionZh: string;
+  /**
+   * 單字首次出現的頁碼（找不到時為 null）
+   */
+  pageNumber: number | null;
+  savedAt: string;
+}
+
+/**
+ * 依故事分組的單字本。
+ */
+export interface FavoriteStoryGroup {
+  storyId: string;
+  titleEn: string;
+  titleZh: string;
+  words: FavoriteWord[];
+}
+
+/**
+ * 收藏單字；單字不存在時回傳 false。
+ * @param userId users.id
+ * @param vocabEntryId vocab_entries.id
+ * @param client pg client（預設使用全域 Pool）
+ */
+export async function addFavorite(userId: string, vocabEntryId: string, client: Queryable = getPgPool()): Promise<boolean> {
+  const res = await client.query(
+    `INSERT INTO user_vocab_favorites (user_id, vocab_entry_id)
+     SELECT $1, v.id FROM vocab_entries v WHERE v.id = $2
+     ON CONFLICT (user_id, vocab_entry_id) DO NOTHING
+     RETURNING vocab_entry_id`,
+    [userId, vocabEntryId],
+  );
+  if (res.rows.length > 0) return true;
+  // 已收藏過（ON CONFLICT）或單字不存在
+  const exists = await client.query(`SELECT 1 FROM vocab_entries WHERE id = $1`, [vocabEntryId]);
+  return exists.rows.length > 0;
+}
+
+/**
+ * 取消收藏單字（未收藏時不做任何事）。
+ * @param userId users.id
+ * @param vocabEntryId vocab_entries.id
+ * @param client pg client（預設使用全域 Pool）
+ */
+export async function removeFavorite(userId: string, vocabEntryId: string, client: Queryable = getPgPool()): Promise<void> {
+  await client.query(`DELETE FROM user_vocab_favorites WHERE user_id = $1 AND vocab_entry_id = $2`, [userId, vocabEntryId]);
+}
+
+/**
+ * 取得使用者在指定故事中已收藏的 vocab_entries.id。
+ * @param userId users.id
+ * @param storyId stories.id
+ * @param client pg client（預設使用全域 Pool）
+ */
+export async function listFavoriteIdsForStory(userId: string, storyId: string, client: Queryable = getPgPool()): Promise<string[]> {
+  const res = await client.query(
+    `SELECT f.vocab_entry_id
+     FROM user_vocab_favorites f
+     JOIN vocab_entries v ON v.id = f.vocab_entry_id
+     WHERE f.user_id = $1 AND v.story_id = $2`,
+    [userId, storyId],
+  );
+  return res.rows.map((r) => String(r.vocab_entry_id));
+}
+
+/**
+ * 取得使用者的單字本，依故事分組（最近收藏的故事在前，組內依單字排序）。
+ * @param userId users.id
+ * @param client pg client（預設使用全域 Pool）
+ */
+export async function listFavoritesByStory(userId: string, client: Queryable = getPgPool()): Promise<FavoriteStoryGroup[]> {
+  const res = await client.query(
+    `SELECT s.id AS story_id, s.title_en, s.title_zh,
+            v.id AS vocab_entry_id, v.word, v.part_of_speech, v.definition_en, v.definition_zh,
+            f.created_at AS saved_at,
+            (SELECT min(sp.page_number) FROM story_pages sp
+             WHERE sp.story_id = s.id AND sp.text_en ILIKE '%' || v.word || '%') AS page_number,
+            max(f.created_at) OVER (PARTITION BY s.id) AS story_saved_at
+     FROM user_vocab_favorites f
+     JOIN vocab_entries v ON v.id = f.vocab_entry_id
+     JOIN stories s ON s.id = v.story_id
+     WHERE f.user_id = $1
+     ORDER BY story_saved_at DESC, s.id, lower(v.word)`,
+    [userId],
+  );
+
+  const groups = new Map<string, FavoriteStoryGroup>();
+  for (const row of res.rows) {
+    const storyId = String(row.story_id);
+    let group = groups.get(storyId);
+    if (!group) {
+      group = { storyId, titleEn: String(row.title_en), titleZh: String(row.title_zh), words: [] };
+      groups.set(storyId, group);
+    }
+    group.words.push({
+      vocabEntryId: String(row.vocab_entry_id),
+      word: String(row.word),
+      partOfSpeech: row.part_of_speech == null ? null : String(row.part_of_speech),
+      definitionEn: String(row.definition_en),
+      definitionZh: String(row.definition_zh),
+      pageNumber: row.page_number == null ? null : Number(row.page_number),
+      savedAt: new Date(String(row.saved_at)).toISOString(),
+    });
+  }
+  return [...groups.values()];
+}
@@ -0,0 +1,149 @@
+import { getPgPool } from "../utils/pgPool";
+import type { Queryable } from "../generation/storyScriptJobs";
+import { cefrRank, scheduleReview, type ReviewOutcome } from "./sm2";
+
+/**
+ * 個人單字本複習（SM-2 排程存於 user_vocab_favorites）
+ *
+ * - 取出 due_at 已到的收藏單字；已複習過的依到期時間排序，新卡片依 CEFR 由易到難
+ * - 每張卡片附上單字首次出現頁面的插圖與旁白，作為提示
+ */
+
+/**
+ * 複習卡片。
+ */
+export interface ReviewCard {
+  vocabEntryId: string;
+  storyId: string;
+  storyTitleEn: string;
+  word: string;
+  partOfSpeech: string | null;
+  definitionEn: string;
+  definitionZh: string;
+  exampleSentence: string | null;
+  exampleTranslation: string | null;
+  cefrLevel: string | null;
+  imageUri: string | null;
+  audioUri: string | null;
+  dueAt: string;
+  isNew: boolean;
+}
+
+/**
+ * 取得到期的複習卡片。
+ * @param userId users.id
+ * @param opts limit：最多張數（預設 20）；now：目前時間
+ * @param client pg client（預設使用全域 Pool）
+ */
+export async function listDueCards(
+  userId: string,
+  opts: { limit?: number; now?: Date } = {},
+  client: Queryable = getPgPool(),
+): Promise<ReviewCard[]> {
+  const limit = opts.limit ?? 20;
+  const now = opts.now ?? new Date();
+  const res = await client.query(
+    `SELECT f.vocab_entry_id, f.due_at, f.last_reviewed_at,
+            v.story_id, v.word, v.part_of_speech, v.definition_en, v.definition_zh,
+            v.example_sentence, v.example_translation, v.cefr_level,
+            s.title_en AS story_title_en,
+            page.image_uri, page.audio_uri
+     FROM user_vocab_favorites f
+     JOIN vocab_entries v ON v.id = f.vocab_entry_id
+     JOIN stories s ON s.id = v.story_id
+     LEFT JOIN LATERAL (
+       SELECT img.uri AS image_uri, aud.uri AS audio_uri
+       FROM story_pages sp
+       LEFT JOIN media_assets img ON img.id = sp.media_asset_id
+       LEFT JOIN media_assets aud ON aud.id = sp.audio_asset_id
+       WHERE sp.story_id = v.story_id AND sp.text_en ILIKE '%' || v.word || '%'
+       ORDER BY sp.page_number
+       LIMIT 1
+     ) page ON true
+     WHERE f.user_id = $1 AND f.due_at <= $2
+     ORDER BY f.due_at
+     LIMIT $3`,
+    [userId, now.toISOString(), limit],
+  );
+
+  const cards = res.rows.map(
+    (row): ReviewCard => ({
+      vocabEntryId: String(row.vocab_entry_id),
+      storyId: String(row.story_id),
+      storyTitleEn: String(row.story_title_en),
+      word: String(row.word),
+      partOfSpeech: row.part_of_speech ? String(row.part_of_speech) : null,
+      definitionEn: String(row.definition_en),
+      definitionZh: String(row.definition_zh),
+      exampleSentence: row.example_sentence ? String(row.example_sentence) : null,
+      exampleTranslation: row.example_translation ? String(row.example_translation) : null,
+      cefrLevel: row.cefr_level ? String(row.cefr_level) : null,
+      imageUri: row.image_uri ? String(row.image_uri) : null,
+      audioUri: row.audio_uri ? String(row.audio_uri) : null,
+      dueAt: new Date(String(row.due_at)).toISOString(),
+      isNew: row.last_reviewed_at == null,
+    }),
+  );
+
+  // 已複習過的卡片先（依到期時間），新卡片再依 CEFR 由易到難
+  return cards.sort((a, b) => {
+    if (a.isNew !== b.isNew) return a.isNew ? 1 : -1;
+    if (a.isNew) return cefrRank(a.cefrLevel) - cefrRank(b.cefrLevel);
+    return a.dueAt.localeCompare(b.dueAt);
+  });
+}
+
+/**
+ * 記錄一次複習結果並寫回新排程；單字不在使用者的單字本中時回傳 null。
+ *
+ * @param userId users.id
+ * @param vocabEntryId vocab_entries.id
+ * @param knew 是否記得
+ * @param now 複習時間
+ * @param client pg client（預設使用全域 Pool）
+ */
+export async function recordReview(
+  userId: string,
+  vocabEntryId: string,
+  knew: boolean,
+  now: Date = new Date(),
+  client: Queryable = getPgPool(),
+): Promise<ReviewOutcome | null> {
+  const current = await client.query(
+    `SELECT f.ease_factor, f.interval_days, f.repetitions, f.last_reviewed_at, v.cefr_level
+     FROM user_vocab_favorites f
+     JOIN vocab_entries v ON v.id = f.vocab_entry_id
+     WHERE f.user_id = $1 AND f.vocab_entry_id = $2`,
+    [userId, vocabEntryId],
+  );
+  const row = current.rows[0];
+  if (!row) return null;
+
+  const outcome = scheduleReview(
+    {
+      easeFactor: Number(row.ease_factor),
+      intervalDays: Number(row.interval_days),
+      repetitions: Number(row.repetitions),
+      lastReviewedAt: row.last_reviewed_at == null ? null : new Date(String(row.last_reviewed_at)),
+    },
+    knew,
+    now,
+    row.cefr_level == null ? null : String(row.cefr_level),
+  );
+
+  await client.query(
+    `UPDATE user_vocab_favorites
+     SET ease_factor = $3, interval_days = $4, repetitions = $5, due_at = $6, last_reviewed_at = $7
+     WHERE user_id = $1 AND vocab_entry_id = $2`,
+    [
+      userId,
+      vocabEntryId,
+      outcome.easeFactor,
+      outcome.intervalDays,
+      outcome.repetitions,
+      outcome.dueAt.toISOString(),
+      now.toISOString(),
+    ],
+  );
+  return outcome;
+}
@@ -0,0 +1,105 @@
+/**
+ * SM-2 間隔重複排程（個人單字本複習）
+ *
+ * 家長只回答「記得 / 不記得」，分別對應 SM-2 的回憶品質 4 與 2：
+ *  - 記得：repetitions + 1，間隔依序為 1 天、6 天，之後為 上次間隔 × ease
+ *  - 不記得：repetitions 歸零，隔天再複習
+ *  - ease 依 SM-2 公式調整，下限 1.3
+ *
+ * 第一次複習前的 ease 依單字的 CEFR 等級決定（等級越高越難，起始 ease 越低）。
+ */
+
+/**
+ * 單字的複習狀態（對應 user_vocab_favorites 的排程欄位）。
+ */
+export interface ReviewState {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lastReviewedAt: Date | null;
+}
+
+/**
+ * 一次複習後的新狀態。
+ */
+export interface ReviewOutcome extends ReviewState {
+  dueAt: Date;
+}
+
+export const MIN_EASE_FACTOR = 1.3;
+export const DEFAULT_EASE_FACTOR = 2.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 「記得」與「不記得」對應的 SM-2 回憶品質（0~5）。
+ */
+const QUALITY_KNEW = 4;
+const QUALITY_FORGOT = 2;
+
+/**
+ * CEFR 等級的起始 ease。
+ */
+const CEFR_INITIAL_EASE: Record<string, number> = {
+  A1: 2.5,
+  A2: 2.5,
+  B1: 2.3,
+  B2: 2.2,
+  C1: 2.0,
+  C2: 2.0,
+};
+
+/**
+ * CEFR 等級排序（新卡片由易到難出現）；未知等級排在最後。
+ * @param cefrLevel vocab_entries.cefr_level
+ */
+export function cefrRank(cefrLevel: string | null | undefined): number {
+  const levels = ["A1", "A2", "B1", "B2", "C1", "C2"];
+  const index = cefrLevel ? levels.indexOf(cefrLevel.toUpperCase()) : -1;
+  return index === -1 ? levels.length : index;
+}
+
+/**
+ * 依 CEFR 等級取得起始 ease。
+ * @param cefrLevel vocab_entries.cefr_level
+ */
+export function initialEaseFactor(cefrLevel: string | null | undefined): number {
+  return (cefrLevel && CEFR_INITIAL_EASE[cefrLevel.toUpperCase()]) || DEFAULT_EASE_FACTOR;
+}
+
+/**
+ * 依複習結果計算新的排程。
+ *
+ * @param state 目前狀態
+ * @param knew 是否記得
+ * @param now 複習時間
+ * @param cefrLevel 單字的 CEFR 等級（僅在第一次複習時用於起始 ease）
+ */
+export function scheduleReview(state: ReviewState, knew: boolean, now: Date, cefrLevel?: string | null): ReviewOutcome {
+  const quality = knew ? QUALITY_KNEW : QUALITY_FORGOT;
+  const baseEase = state.lastReviewedAt === null ? initialEaseFactor(cefrLevel) : state.easeFactor;
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    Math.round((baseEase + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))) * 100) / 100,
+  );
+
+  let repetitions: number;
+  let intervalDays: number;
+  if (!knew) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = state.repetitions + 1;
+    if (repetitions === 1) intervalDays = 1;
+    else if (repetitions === 2) intervalDays = 6;
+    else intervalDays = Math.max(1, Math.round(state.intervalDays * easeFactor));
+  }
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions,
+    lastReviewedAt: now,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+  };
+}
@@ -0,0 +1,43 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { checkAccess, requiredAccess } from "./lib/auth/access";
+import { SESSION_COOKIE, findSessionUser } from "./lib/auth/session";
+
+/**
+ * 路由保護（Next.js proxy，原 middleware）
+ *
+ * 依 lib/auth/access.ts 的規則檢查 session 與 users.role：
+ *  - 未登入：頁面導向 /login?next=...，API 回 401
+ *  - 角色不足：頁面與 API 皆回 403
+ */
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const requirement = requiredAccess(pathname);
+  if (requirement === null) return NextResponse.next();
+
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  let role = null;
+  if (token) {
+    try {
+      role = (await findSessionUser(token))?.role ?? null;
+    } catch (err) {
+      console.error("[proxy] session lookup failed", { pathname, error: err });
+    }
+  }
+
+  const result = checkAccess(role, requirement);
+  if (result === "ok") return NextResponse.next();
+
+  const isApi = pathname.startsWith("/api/");
+  if (result === "unauthenticated") {
+    if (isApi) return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+    const login = new URL("/login", request.url);
+    login.searchParams.set("next", `${pathname}${search}`);
+    return NextResponse.redirect(login);
+  }
+  if (isApi) return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+  return new NextResponse("Forbidden", { status: 403 });
+}
+
+export const config = {
+  matcher: ["/api/generation/:path*", "/api/admin/:path*", "/admin/:path*", "/me/:path*"],
+};
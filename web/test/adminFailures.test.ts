@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from "vitest";
+
+vi.mock("../lib/utils/pgPool", () => ({ getPgPool: vi.fn() }));
+
+import { retryFailureGroups, updateFailureStatus } from "../lib/admin/failures";
+import { computeErrorFingerprint } from "../lib/openai/ErrorHandler";
+import {
+  createTestDatabase,
+  fakeClient,
+  seedJob,
+  seedStory,
+  seedUser,
+  TEST_DATABASE_TIMEOUT_MS,
+  type TestDatabase,
+} from "./helpers/pg";
+
+/**
+ * 失敗分類處理單元測試
+ *
+ * - 錯誤指紋對 id、數字與程式碼行號不敏感，但會區分不同 stage 與錯誤類型
+ * - 批次狀態變更的 SQL 條件與 audit_logs 紀錄
+ * - 批次重試在記憶體 Postgres 上驗證：可執行的 job 轉為 pending，前置工作未完成者回到 blocked
+ */
+
+function errorWithStack(message: string, line: number): Error {
+  const err = new Error(message);
+  err.stack = [
+    `Error: ${message}`,
+    `    at ImageGenerator.generate (/srv/app/lib/openai/ImageGenerator.ts:${line}:13)`,
+    `    at async runJob (/srv/app/worker/jobHandler.ts:${line + 40}:5)`,
+  ].join("\n");
+  return err;
+}
+
+describe("computeErrorFingerprint", () => {
+  it("groups errors that differ only in ids, numbers and line numbers", () => {
+    const a = errorWithStack("story 3f1c2a9e-1111-4222-8333-444455556666 page 3 has no image", 120);
+    const b = errorWithStack("story 9b8a7c6d-aaaa-4bbb-8ccc-ddddeeeeffff page 7 has no image", 131);
+
+    expect(computeErrorFingerprint("image_generation", a)).toBe(computeErrorFingerprint("image_generation", b));
+    expect(computeErrorFingerprint("image_generation", a)).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("separates different stages and error types", () => {
+    const err = errorWithStack("page 3 has no image", 120);
+    const typeErr = new TypeError("page 3 has no image");
+    typeErr.stack = err.stack;
+
+    expect(computeErrorFingerprint("image_generation", err)).not.toBe(computeErrorFingerprint("tts", err));
+    expect(computeErrorFingerprint("image_generation", err)).not.toBe(computeErrorFingerprint("image_generation", typeErr));
+  });
+});
+
+describe("updateFailureStatus", () => {
+  it("records the resolver when closing a group and audits the change", async () => {
+    const client = fakeClient((text) => (text.includes("UPDATE failed_jobs") ? [{ id: "f1" }, { id: "f2" }] : []));
+
+    await expect(updateFailureStatus(client, ["abc123"], "resolved", "admin-1")).resolves.toBe(2);
+
+    expect(client.queries[0].values).toEqual([["abc123"], "resolved", true, "admin-1"]);
+    const audit = client.queries.find((q) => q.text.includes("INSERT INTO audit_logs"));
+    expect(audit?.values?.slice(0, 2)).toEqual(["admin-1", "admin.failures.update_status"]);
+  });
+
+  it("clears the resolver when reopening", async () => {
+    const client = fakeClient();
+    await updateFailureStatus(client, ["abc123"], "open", "admin-1");
+    expect(client.queries[0].values?.[2]).toBe(false);
+  });
+
+  it("does nothing without a selection", async () => {
+    const client = fakeClient();
+    await expect(updateFailureStatus(client, [], "ignored", "admin-1")).resolves.toBe(0);
+    expect(client.queries).toHaveLength(0);
+  });
+});
+
+describe("retryFailureGroups", () => {
+  let db: TestDatabase;
+  let adminId: string;
+  let storyId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  }, TEST_DATABASE_TIMEOUT_MS);
+  afterAll(() => db.close());
+
+  beforeEach(async () => {
+    await db.reset();
+    adminId = await seedUser(db);
+    storyId = await seedStory(db);
+  });
+
+  async function fail(jobId: string, fingerprint = "abc123") {
+    await db.query(
+      `INSERT INTO failed_jobs (generation_job_id, error_message, stage, fingerprint) VALUES ($1, 'boom', 'image', $2)`,
+      [jobId, fingerprint],
+    );
+  }
+
+  it("re-queues runnable failed jobs, keeps jobs with unmet prerequisites blocked and acknowledges the failures", async () => {
+    const script = await seedJob(db, storyId, "story_script", "completed");
+    const image = await seedJob(db, storyId, "image", "failed", [script]);
+    const audio = await seedJob(db, storyId, "audio", "failed", [script]);
+    const video = await seedJob(db, storyId, "video", "failed", [image, audio]);
+    for (const id of [image, audio, video]) await fail(id);
+
+    const result = await retryFailureGroups(db, ["abc123"], adminId);
+
+    expect(new Set(result.resetJobIds)).toEqual(new Set([image, audio, video]));
+    expect(new Set(result.runnableJobIds)).toEqual(new Set([image, audio]));
+    expect(await db.jobStatus(image)).toBe("pending");
+    expect(await db.jobStatus(video)).toBe("blocked");
+    const failures = await db.query(`SELECT DISTINCT status FROM failed_jobs`);
+    expect(failures.rows).toEqual([{ status: "acknowledged" }]);
+    const audit = await db.query(`SELECT action, context FROM audit_logs`);
+    expect(audit.rows[0]).toMatchObject({ action: "admin.failures.retry", context: { fingerprints: ["abc123"] } });
+  });
+
+  it("leaves failures untouched when no job was retryable", async () => {
+    const image = await seedJob(db, storyId, "image", "completed");
+    await fail(image);
+
+    await expect(retryFailureGroups(db, ["abc123"], adminId)).resolves.toEqual({ resetJobIds: [], runnableJobIds: [], restoredJobIds: [] });
+    expect(await db.jobStatus(image)).toBe("completed");
+    expect((await db.query(`SELECT status FROM failed_jobs`)).rows).toEqual([{ status: "open" }]);
+  });
+});
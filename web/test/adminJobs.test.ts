@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from "vitest";
+
+vi.mock("../lib/utils/pgPool", () => ({ getPgPool: vi.fn() }));
+
+import { cancelJob, jobListQuerySchema, listJobs, retryJob } from "../lib/admin/jobs";
+import { createTestDatabase, fakeClient, seedJob, seedStory, seedUser, TEST_DATABASE_TIMEOUT_MS, type TestDatabase } from "./helpers/pg";
+
+/**
+ * 管理後台 job 操作單元測試
+ *
+ * - 重試 / 取消在套用 migrations 的記憶體 Postgres 上驗證狀態轉換：
+ *   前置工作未完成的 job 重試後回到 blocked、連帶取消的後續工作在重試時恢復、audit_logs 紀錄
+ * - 列表查詢以假 pg client 驗證參數
+ */
+
+describe("retryJob / cancelJob", () => {
+  let db: TestDatabase;
+  let adminId: string;
+  let storyId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  }, TEST_DATABASE_TIMEOUT_MS);
+  afterAll(() => db.close());
+
+  beforeEach(async () => {
+    await db.reset();
+    adminId = await seedUser(db);
+    storyId = await seedStory(db);
+  });
+
+  it("resets a failed job without prerequisites to pending and audits the retry", async () => {
+    const script = await seedJob(db, storyId, "story_script", "failed");
+    await db.query(`UPDATE generation_jobs SET retry_count = 3 WHERE id = $1`, [script]);
+
+    const result = await retryJob(db, script, adminId);
+
+    expect(result).toEqual({ changed: true, jobIds: [script], runnableJobIds: [script] });
+    expect(await db.jobStatus(script)).toBe("pending");
+    const audit = await db.query(`SELECT user_id, action FROM audit_logs`);
+    expect(audit.rows).toEqual([{ user_id: adminId, action: "admin.job.retry" }]);
+  });
+
+  it("keeps a retried job blocked while its prerequisites are unfinished", async () => {
+    const image = await seedJob(db, storyId, "image", "processing");
+    const audio = await seedJob(db, storyId, "audio", "completed");
+    const video = await seedJob(db, storyId, "video", "blocked", [image, audio]);
+    await cancelJob(db, video, adminId);
+
+    const result = await retryJob(db, video, adminId);
+
+    expect(result.changed).toBe(true);
+    expect(result.runnableJobIds).toEqual([]);
+    expect(await db.jobStatus(video)).toBe("blocked");
+  });
+
+  it("restores the dependents cancelled with a job when it is retried", async () => {
+    const image = await seedJob(db, storyId, "image", "failed");
+    const video = await seedJob(db, storyId, "video", "blocked", [image]);
+    const superseded = await seedJob(db, storyId, "video", "cancelled", [image]);
+
+    const cancelled = await cancelJob(db, image, adminId);
+    expect(cancelled.jobIds).toEqual([image, video]);
+    expect(await db.jobStatus(video)).toBe("cancelled");
+
+    const result = await retryJob(db, image, adminId);
+
+    expect(result).toEqual({ changed: true, jobIds: [image, video], runnableJobIds: [image] });
+    expect(await db.jobStatus(image)).toBe("pending");
+    expect(await db.jobStatus(video)).toBe("blocked");
+    // 非連帶取消（例如被重新生成取代）的 job 不恢復
+    expect(await db.jobStatus(superseded)).toBe("cancelled");
+  });
+
+  it("reports no change for a job that is not retryable but still audits the attempt", async () => {
+    const script = await seedJob(db, storyId, "story_script", "processing");
+
+    await expect(retryJob(db, script, adminId)).resolves.toEqual({ changed: false, jobIds: [], runnableJobIds: [] });
+    expect(await db.jobStatus(script)).toBe("processing");
+    expect((await db.query(`SELECT action FROM audit_logs`)).rows).toHaveLength(1);
+  });
+
+  it("does not touch dependents when the job cannot be cancelled", async () => {
+    const image = await seedJob(db, storyId, "image", "completed");
+    const video = await seedJob(db, storyId, "video", "blocked", [image]);
+
+    await expect(cancelJob(db, image, adminId)).resolves.toEqual({ changed: false, jobIds: [], runnableJobIds: [] });
+    expect(await db.jobStatus(video)).toBe("blocked");
+  });
+});
+
+describe("listJobs", () => {
+  it("applies filters as parameters and pages by offset", async () => {
+    const client = fakeClient();
+    const query = jobListQuerySchema.parse({ status: "failed", jobType: "", storyId: "11111111-1111-4111-8111-111111111111", page: "2" });
+
+    await listJobs(query, client);
+
+    expect(client.queries[0].text).toContain("j.status = $1 AND j.story_id = $2");
+    expect(client.queries[0].values).toEqual(["failed", "11111111-1111-4111-8111-111111111111", 51, 50]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { AGE_BAND_PROFILES, DEFAULT_AGE_BAND, getAgeBandProfile, requestedAgeBandSchema } from "../lib/openai/AgeBandProfiles";
+import { PromptToolkit } from "../lib/openai/PromptToolkit";
+import { ResultAssembler } from "../lib/openai/ResultAssembler";
+
+/**
+ * 年齡區間規則單元測試
+ *
+ * - 未知區間回退為預設值；API 請求的舊值 0-6 視為預設區間
+ * - PromptToolkit 帶入頁數、字數、句型與 CEFR 目標
+ * - ResultAssembler 依區間驗證頁數與單字數量
+ */
+
+function storyWithPages(count: number) {
+  return {
+    title_en: "Tiny Duck",
+    pages: Array.from({ length: count }, (_, i) => ({ page_number: i + 1, text_en: "Quack, quack!" })),
+  };
+}
+
+describe("getAgeBandProfile", () => {
+  it("returns the matching profile and falls back to the default band", () => {
+    expect(getAgeBandProfile("0-2").pageCount).toBe(6);
+    expect(getAgeBandProfile("0-6")).toBe(AGE_BAND_PROFILES[DEFAULT_AGE_BAND]);
+    expect(getAgeBandProfile(undefined)).toBe(AGE_BAND_PROFILES[DEFAULT_AGE_BAND]);
+  });
+});
+
+describe("requestedAgeBandSchema", () => {
+  it("maps an omitted or legacy 0-6 age range to the default band and rejects unknown ones", () => {
+    expect(requestedAgeBandSchema.parse(undefined)).toBe(DEFAULT_AGE_BAND);
+    expect(requestedAgeBandSchema.parse("0-6")).toBe(DEFAULT_AGE_BAND);
+    expect(requestedAgeBandSchema.parse("3-4")).toBe("3-4");
+    expect(requestedAgeBandSchema.safeParse("7-9").success).toBe(false);
+  });
+});
+
+describe("PromptToolkit with age bands", () => {
+  const prompts = new PromptToolkit();
+
+  it("writes the band's page count, word limit and sentence guidance into the script prompt", () => {
+    const [system] = prompts.getStoryScriptPrompt({ storyId: "s1", theme: "duck", tone: "warm", ageRange: "3-4" });
+    const profile = AGE_BAND_PROFILES["3-4"];
+    expect(system.content).toContain(`exactly ${profile.pageCount} pages`);
+    expect(system.content).toContain(`at most ${profile.maxWordsPerPage} words`);
+    expect(system.content).toContain(profile.sentenceComplexity);
+  });
+
+  it("targets the band's vocabulary count and CEFR level", () => {
+    const [system] = prompts.getVocabularyPrompt({ titleZh: "小鴨", pages: [] }, "0-2");
+    expect(system.content).toContain("EXACTLY 6 child-friendly words");
+    expect(system.content).toContain("CEFR level Pre-A1");
+  });
+});
+
+describe("ResultAssembler with age bands", () => {
+  const assembler = new ResultAssembler();
+
+  it("validates the page count against the band", () => {
+    expect(assembler.parseStoryResult({ data: storyWithPages(6) }, AGE_BAND_PROFILES["0-2"]).story.pages).toHaveLength(6);
+    expect(() => assembler.parseStoryResult({ data: storyWithPages(10) }, AGE_BAND_PROFILES["0-2"])).toThrow(
+      "Story must contain exactly 6 pages",
+    );
+    expect(assembler.parseStoryResult({ data: storyWithPages(10) }).story.pages).toHaveLength(10);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, afterAll, afterEach, beforeAll } from "vitest";
+
+vi.mock("../lib/utils/pgPool", () => ({ getPgPool: vi.fn() }));
+
+import { checkAccess, requiredAccess } from "../lib/auth/access";
+import { consumeMagicLink, isAdminEmail, requestMagicLink, safeRedirectPath } from "../lib/auth/magicLink";
+import { hashToken } from "../lib/auth/session";
+import { env } from "../lib/utils/env";
+import { createTestDatabase, fakeClient, seedUser, TEST_DATABASE_TIMEOUT_MS, type TestDatabase } from "./helpers/pg";
+
+/**
+ * 登入與權限單元測試
+ *
+ * - 路由權限規則與角色判斷
+ * - 登入連結：資料庫只保存 token 雜湊、一次性使用、建立使用者與 session 並寫入 audit_logs
+ * - 既有使用者被加入 ADMIN_EMAILS 後於登入時升級為 admin（於記憶體 Postgres 上驗證）
+ */
+
+describe("route access", () => {
+  it("maps paths to the role they require", () => {
+    expect(requiredAccess("/api/generation/story-script")).toBe("admin");
+    expect(requiredAccess("/admin/jobs")).toBe("admin");
+    expect(requiredAccess("/me/words")).toBe("user");
+    expect(requiredAccess("/stories/abc")).toBeNull();
+    expect(requiredAccess("/api/cron/weekly")).toBeNull();
+    expect(requiredAccess("/measure")).toBeNull();
+  });
+
+  it("distinguishes unauthenticated from forbidden", () => {
+    expect(checkAccess(null, "user")).toBe("unauthenticated");
+    expect(checkAccess("parent", "user")).toBe("ok");
+    expect(checkAccess("parent", "admin")).toBe("forbidden");
+    expect(checkAccess("admin", "admin")).toBe("ok");
+    expect(checkAccess(null, null)).toBe("ok");
+  });
+});
+
+describe("magic links", () => {
+  it("stores only the token hash and emails a callback link", async () => {
+    const client = fakeClient();
+    const sendMail = vi.fn(async () => undefined);
+
+    await requestMagicLink(" Parent@Example.com ", "/me/words", { client, sendMail, baseUrl: "https://app.test" });
+
+    const mail = (sendMail.mock.calls[0] as unknown as [{ to: string; text: string }])[0];
+    expect(mail.to).toBe("parent@example.com");
+    const link = new URL(mail.text.match(/https:\/\/\S+/)![0]);
+    expect(link.pathname).toBe("/api/auth/callback");
+    expect(link.searchParams.get("next")).toBe("/me/words");
+    const token = link.searchParams.get("token")!;
+    expect(client.queries[0].values?.[1]).toBe(hashToken(token));
+    expect(JSON.stringify(client.queries[0].values)).not.toContain(token);
+  });
+
+  it("rejects a used or expired token", async () => {
+    const client = fakeClient();
+    await expect(consumeMagicLink("used-token", client)).resolves.toBeNull();
+    expect(client.queries).toHaveLength(1);
+    expect(client.queries[0].text).toContain("consumed_at IS NULL AND expires_at > now()");
+  });
+
+  it("signs the user in, creating a session and an audit log entry", async () => {
+    const client = fakeClient((text) => {
+      if (text.includes("UPDATE magic_link_tokens")) return [{ email: "parent@example.com" }];
+      if (text.includes("INSERT INTO users")) return [{ id: "user-1", email: "parent@example.com", role: "parent" }];
+      return [];
+    });
+
+    const result = await consumeMagicLink("good-token", client);
+
+    expect(result?.user).toEqual({ id: "user-1", email: "parent@example.com", role: "parent" });
+    const session = client.queries.find((q) => q.text.includes("INSERT INTO user_sessions"));
+    expect(session?.values?.[1]).toBe(hashToken(result!.sessionToken));
+    const audit = client.queries.find((q) => q.text.includes("INSERT INTO audit_logs"));
+    expect(audit?.values?.slice(0, 2)).toEqual(["user-1", "auth.sign_in"]);
+  });
+
+  it("only redirects to same-site paths and recognises admin emails", () => {
+    expect(safeRedirectPath("/admin/jobs")).toBe("/admin/jobs");
+    expect(safeRedirectPath("https://evil.test")).toBe("/");
+    expect(safeRedirectPath("//evil.test")).toBe("/");
+    expect(safeRedirectPath(null)).toBe("/");
+    expect(isAdminEmail("ops@example.com", "Ops@Example.com, other@example.com")).toBe(true);
+    expect(isAdminEmail("parent@example.com", undefined)).toBe(false);
+  });
+});
+
+describe("admin promotion at sign-in", () => {
+  let db: TestDatabase;
+  const adminEmails = env.ADMIN_EMAILS;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  }, TEST_DATABASE_TIMEOUT_MS);
+  afterAll(() => db.close());
+  afterEach(() => {
+    env.ADMIN_EMAILS = adminEmails;
+  });
+
+  async function signInWithToken(email: string, token: string) {
+    await db.query(`INSERT INTO magic_link_tokens (email, token_hash, expires_at) VALUES ($1, $2, now() + interval '1 hour')`, [
+      email,
+      hashToken(token),
+    ]);
+    return consumeMagicLink(token, db);
+  }
+
+  it("promotes an existing parent listed in ADMIN_EMAILS and never demotes an admin", async () => {
+    await db.reset();
+    const parentId = await seedUser(db, "parent@example.com", "parent");
+    await seedUser(db, "ops@example.com", "admin");
+
+    env.ADMIN_EMAILS = "parent@example.com";
+    const promoted = await signInWithToken("parent@example.com", "token-1");
+    expect(promoted?.user).toEqual({ id: parentId, email: "parent@example.com", role: "admin" });
+
+    const kept = await signInWithToken("ops@example.com", "token-2");
+    expect(kept?.user.role).toBe("admin");
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from "vitest";
+import { StoryGenerationOrchestrator } from "../lib/openai/StoryGenerationOrchestrator";
+import { ContentSafetyError, KeywordModerationAdapter, type ModerationAdapter } from "../lib/openai/ContentSafety";
+import type ErrorHandler from "../lib/openai/ErrorHandler";
+import type { OpenAIAdapter } from "../lib/openai/types";
+
+/**
+ * 內容安全審查單元測試
+ *
+ * - 本機關鍵字規則（中英文）與誤判邊界
+ * - Orchestrator 的 moderation 階段：被標記的頁面改寫並重新翻譯，標題被標記時以 ContentSafetyError 中止
+ */
+
+const story = {
+  title_en: "Pip's Garden",
+  synopsis_en: "Pip grows a garden.",
+  pages: Array.from({ length: 10 }, (_, i) => ({ page_number: i + 1, text_en: `Pip waters plant ${i + 1}.` })),
+};
+const translation = {
+  title_zh: "皮皮的花園",
+  synopsis_zh: "皮皮種花園。",
+  pages: Array.from({ length: 10 }, (_, i) => ({ page_number: i + 1, text_zh: `皮皮替第${i + 1}株植物澆水。` })),
+};
+const vocabulary = {
+  entries: Array.from({ length: 10 }, (_, i) => ({
+    word: `word${i + 1}`,
+    part_of_speech: "noun",
+    definition_en: "d",
+    definition_zh: "定義",
+    example_sentence: "e",
+    example_translation: "例",
+  })),
+};
+
+/**
+ * Helper: 依 prompt 內容回應的 fake AI adapter
+ * @param overrides 依階段覆寫回應
+ */
+function fakeAi(overrides: { story?: unknown; rewrite?: unknown } = {}) {
+  return {
+    createChatCompletion: vi.fn(async (params: { messages: Array<{ role: string; content: string }> }) => {
+      const system = params.messages[0].content;
+      if (system.includes("revising a picture book")) return { data: overrides.rewrite };
+      if (system.includes("bilingual translator")) {
+        const pages = JSON.parse(params.messages[1].content).pages as Array<{ page_number: number }>;
+        if (pages.length === translation.pages.length) return { data: translation };
+        return { data: { ...translation, pages: pages.map((p) => ({ page_number: p.page_number, text_zh: `改寫第${p.page_number}頁` })) } };
+      }
+      if (system.includes("English teacher")) return { data: vocabulary };
+      return { data: overrides.story ?? story };
+    }),
+  };
+}
+
+const quietErrorHandler = { recordFailure: vi.fn(async () => undefined) } as unknown as ErrorHandler;
+const payload = { storyId: "story-1", theme: "garden", tone: "warm", ageRange: "3-5" };
+
+describe("KeywordModerationAdapter", () => {
+  it("flags unsafe English and Chinese text by category and leaves gentle text alone", async () => {
+    const verdicts = await new KeywordModerationAdapter().moderate([
+      "The knight drew his knife.",
+      "他喝醉了。",
+      "A friendly ghost shares a cookie.",
+    ]);
+    expect(verdicts).toEqual([
+      { flagged: true, categories: ["violence"] },
+      { flagged: true, categories: ["adult"] },
+      { flagged: false, categories: [] },
+    ]);
+  });
+});
+
+describe("StoryGenerationOrchestrator moderation stage", () => {
+  it("rewrites and re-translates flagged pages, then records the verdicts", async () => {
+    const unsafe = { ...story, pages: story.pages.map((p) => (p.page_number === 3 ? { ...p, text_en: "Pip finds a bloody knife." } : p)) };
+    const ai = fakeAi({ story: unsafe, rewrite: { pages: [{ page_number: 3, text_en: "Pip finds a shiny spoon." }] } });
+    const orchestrator = new StoryGenerationOrchestrator(ai as unknown as OpenAIAdapter, quietErrorHandler, new KeywordModerationAdapter());
+
+    const result = await orchestrator.run(payload);
+
+    expect(result.story.pages[2].textEn).toBe("Pip finds a shiny spoon.");
+    expect(result.translation.pages[2].textZh).toBe("改寫第3頁");
+    expect(result.translation.pages[3].textZh).toBe("皮皮替第4株植物澆水。");
+    expect(result.moderation.passed).toBe(true);
+    expect(result.moderation.pages[2]).toEqual({ pageNumber: 3, flagged: false, categories: [], rewrites: 1 });
+    expect(result.moderation.pages[0].rewrites).toBe(0);
+  });
+
+  it("stops with ContentSafetyError when pages stay flagged after the rewrite limit", async () => {
+    const unsafe = { ...story, pages: story.pages.map((p) => (p.page_number === 5 ? { ...p, text_en: "A gun on the table." } : p)) };
+    const ai = fakeAi({ story: unsafe, rewrite: { pages: [{ page_number: 5, text_en: "Another gun appears." }] } });
+    const orchestrator = new StoryGenerationOrchestrator(ai as unknown as OpenAIAdapter, quietErrorHandler, new KeywordModerationAdapter());
+
+    const err = await orchestrator.run(payload).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(ContentSafetyError);
+    const report = (err as ContentSafetyError).report;
+    expect(report.passed).toBe(false);
+    expect(report.pages[4]).toMatchObject({ pageNumber: 5, flagged: true, categories: ["violence"], rewrites: 2 });
+    expect(quietErrorHandler.recordFailure).toHaveBeenCalledWith(expect.objectContaining({ stage: "moderation" }), err);
+  });
+
+  it("does not try to rewrite when the title or synopsis is flagged", async () => {
+    const moderator: ModerationAdapter = {
+      name: "fake",
+      moderate: vi.fn(async (inputs: string[]) => inputs.map((text) => ({ flagged: text === "Pip's Garden", categories: text === "Pip's Garden" ? ["harassment"] : [] }))),
+    };
+    const ai = fakeAi();
+    const orchestrator = new StoryGenerationOrchestrator(ai as unknown as OpenAIAdapter, quietErrorHandler, moderator);
+
+    await expect(orchestrator.run(payload)).rejects.toThrow("story title or synopsis flagged (harassment)");
+    expect(ai.createChatCompletion).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,201 @@
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { vi } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+
+/**
+ * 測試共用的 pg 替身
+ *
+ * - fakeClient：記錄 SQL 並依內容回應的假 client，用於只需驗證查詢參數的單元測試
+ * - createTestDatabase：套用 db/migrations 的記憶體 Postgres（PGlite），用於驗證狀態轉換等實際行為
+ */
+
+export type RecordedQuery = { text: string; values?: unknown[] };
+
+/**
+ * 建立記錄查詢的假 pg client。
+ * @param respond 依 SQL（與參數）回傳 rows
+ */
+export function fakeClient(respond: (text: string, values?: unknown[]) => Record<string, unknown>[] = () => []) {
+  const queries: RecordedQuery[] = [];
+  return {
+    queries,
+    query: vi.fn(async (text: string, values?: unknown[]) => {
+      queries.push({ text, values });
+      return { rows: respond(text, values) };
+    }),
+  };
+}
+
+export type FakeClient = ReturnType<typeof fakeClient>;
+
+/**
+ * 取出假 client 寫入的第一筆 audit_logs。
+ * @param client fakeClient
+ */
+export function auditOf(client: FakeClient) {
+  const audit = client.queries.find((q) => q.text.includes("INSERT INTO audit_logs"));
+  return { userId: audit?.values?.[0], action: audit?.values?.[1], context: JSON.parse(String(audit?.values?.[2] ?? "null")) };
+}
+
+const MIGRATIONS_DIR = join(__dirname, "../../db/migrations");
+
+/**
+ * 已套用 migrations 的測試資料庫。
+ */
+export interface TestDatabase {
+  query(text: string, values?: unknown[]): Promise<{ rows: Record<string, unknown>[] }>;
+  /**
+   * 取得單一 job 的狀態
+   */
+  jobStatus(jobId: string): Promise<string>;
+  /**
+   * 清空所有資料表（每個測試前呼叫；建立資料庫較慢，同一檔案共用一個）
+   */
+  reset(): Promise<void>;
+  /**
+   * 套用尚未套用的 migrations（以 stopBefore 建立時使用，可先寫入舊結構的資料再驗證 migration）
+   */
+  migrate(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * 建立測試資料庫的逾時（套用 migrations 需數秒，超過 vitest hook 預設值）
+ */
+export const TEST_DATABASE_TIMEOUT_MS = 60_000;
+
+/**
+ * 建立記憶體 Postgres 並依序套用 db/migrations。
+ * @param options.stopBefore 只套用檔名排序在此之前的 migrations（例如 "0011"），其餘由 migrate() 套用
+ */
+export async function createTestDatabase(options: { stopBefore?: string } = {}): Promise<TestDatabase> {
+  const pg = new PGlite();
+  const pending = readdirSync(MIGRATIONS_DIR)
+    .filter((f) => f.endsWith(".sql"))
+    .sort();
+  const migrate = async (stopBefore?: string) => {
+    while (pending.length > 0 && !(stopBefore && pending[0] >= stopBefore)) {
+      const file = pending.shift()!;
+      for (const statement of readFileSync(join(MIGRATIONS_DIR, file), "utf8").split("--> statement-breakpoint")) {
+        if (statement.trim()) await pg.exec(statement);
+      }
+    }
+  };
+  await migrate(options.stopBefore);
+  const query = async (text: string, values?: unknown[]) => ({
+    rows: (await pg.query<Record<string, unknown>>(text, values)).rows,
+  });
+  return {
+    query,
+    async jobStatus(jobId) {
+      const res = await query(`SELECT status FROM generation_jobs WHERE id = $1`, [jobId]);
+      return String(res.rows[0]?.status);
+    },
+    async reset() {
+      const tables = await query(`SELECT tablename FROM pg_tables WHERE schemaname = 'public'`);
+      await pg.exec(`TRUNCATE ${tables.rows.map((t) => `"${String(t.tablename)}"`).join(", ")} CASCADE`);
+    },
+    migrate: () => migrate(),
+    close: () => pg.close(),
+  };
+}
+
+/**
+ * 建立測試用的使用者。
+ * @param db 測試資料庫
+ * @param email 電子郵件
+ * @param role 角色
+ */
+export async function seedUser(db: TestDatabase, email = "admin@example.com", role = "admin"): Promise<string> {
+  const res = await db.query(`INSERT INTO users (email, role) VALUES ($1, $2) RETURNING id`, [email, role]);
+  return String(res.rows[0].id);
+}
+
+/**
+ * 建立測試用的故事。
+ * @param db 測試資料庫
+ * @param fields 欄位覆寫
+ */
+export async function seedStory(
+  db: TestDatabase,
+  fields: { status?: string; titleEn?: string; titleZh?: string; metadata?: Record<string, unknown> } = {},
+): Promise<string> {
+  const res = await db.query(
+    `INSERT INTO stories (title_en, title_zh, theme, age_range, status, metadata)
+     VALUES ($1, $2, 'garden', '5-6', $3, $4) RETURNING id`,
+    [fields.titleEn ?? "Pip's Garden", fields.titleZh ?? "皮皮的花園", fields.status ?? "processing", JSON.stringify(fields.metadata ?? {})],
+  );
+  return String(res.rows[0].id);
+}
+
+/**
+ * 建立測試用的 generation job，並可指定前置工作。
+ * @param db 測試資料庫
+ * @param storyId stories.id
+ * @param jobType job type
+ * @param status 狀態
+ * @param dependsOn 前置工作 id
+ */
+export async function seedJob(
+  db: TestDatabase,
+  storyId: string,
+  jobType: string,
+  status: string,
+  dependsOn: string[] = [],
+): Promise<string> {
+  const res = await db.query(
+    `INSERT INTO generation_jobs (story_id, job_type, status, retry_count, payload)
+     VALUES ($1, $2, $3, 0, $4) RETURNING id`,
+    [storyId, jobType, status, JSON.stringify({ type: jobType, storyId })],
+  );
+  const id = String(res.rows[0].id);
+  for (const prereq of dependsOn) {
+    await db.query(`INSERT INTO generation_job_dependencies (job_id, depends_on_job_id) VALUES ($1, $2)`, [id, prereq]);
+  }
+  return id;
+}
+
+/**
+ * 建立測試用的故事頁面；withAudio 時一併建立配音 media_assets 並連結。
+ * @param db 測試資料庫
+ * @param storyId stories.id
+ * @param pageNumber 頁碼
+ * @param fields 欄位覆寫
+ */
+export async function seedPage(
+  db: TestDatabase,
+  storyId: string,
+  pageNumber: number,
+  fields: { textEn?: string; textZh?: string; withAudio?: boolean } = {},
+): Promise<{ pageId: string; audioAssetId: string | null }> {
+  let audioAssetId: string | null = null;
+  if (fields.withAudio) {
+    const asset = await db.query(
+      `INSERT INTO media_assets (story_id, type, uri, format) VALUES ($1, 'audio', $2, 'mp3') RETURNING id`,
+      [storyId, `https://cdn.example.com/${storyId}/page-${pageNumber}.mp3`],
+    );
+    audioAssetId = String(asset.rows[0].id);
+  }
+  const res = await db.query(
+    `INSERT INTO story_pages (story_id, page_number, text_en, text_zh, word_count, audio_asset_id)
+     VALUES ($1, $2, $3, $4, 3, $5) RETURNING id`,
+    [storyId, pageNumber, fields.textEn ?? "Pip plants seeds.", fields.textZh ?? "皮皮種下種子。", audioAssetId],
+  );
+  return { pageId: String(res.rows[0].id), audioAssetId };
+}
+
+/**
+ * 建立測試用的精選單字。
+ * @param db 測試資料庫
+ * @param storyId stories.id
+ * @param word 單字
+ */
+export async function seedVocab(db: TestDatabase, storyId: string, word: string): Promise<string> {
+  const res = await db.query(
+    `INSERT INTO vocab_entries (story_id, word, part_of_speech, definition_en, definition_zh)
+     VALUES ($1, $2, 'noun', $3, $4) RETURNING id`,
+    [storyId, word, `a ${word}`, `${word}（定義）`],
+  );
+  return String(res.rows[0].id);
+}
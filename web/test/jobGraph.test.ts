@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { summarizeProgress } from "../worker/jobGraph";
+
+/**
+ * jobGraph.summarizeProgress 單元測試：驗證故事管線進度的統計與摘要字串。
+ */
+describe("summarizeProgress", () => {
+  it("counts jobs per status and reports failures in the summary", () => {
+    const progress = summarizeProgress("story-1", { completed: 14, failed: 1, processing: 2, pending: 3, blocked: 1 });
+
+    expect(progress.total).toBe(21);
+    expect(progress.completed).toBe(14);
+    expect(progress.blocked).toBe(1);
+    expect(progress.summary).toBe("14/21 done, 1 failed");
+  });
+
+  it("omits the failure note when nothing failed", () => {
+    expect(summarizeProgress("story-1", { completed: 21 }).summary).toBe("21/21 done");
+    expect(summarizeProgress("story-1", {}).summary).toBe("0/0 done");
+  });
+});
@@ -0,0 +1,400 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+/**
+ * JobHandler 單元測試
+ *
+ * - mock worker/db 的 claimJob / markJobCompleted / markJobFailed / incrementRetry，避免連線資料庫
+ * - 注入 fake orchestrator 與 persist，驗證 story_script job 的完整流程與分派表行為
+ * - 驗證重新生成 job（translation / vocabulary / 帶 scope 的 story_script）轉交 orchestrator.regenerate，
+ *   已有頁面的故事不接受沒有 scope 的整本重新生成；非重新生成的重跑直接視為完成
+ * - 驗證 job 完成後會釋放並推送相依圖中已解除阻塞的 job
+ * - 驗證可重試的失敗會以 scheduleJobRetry 排定延遲重試，而非寫入 failed_jobs
+ * - 驗證執行期間以 touchJob heartbeat 延長 lease；lease 過期重新 claim 且已達上限的 job 直接標記 failed
+ * - 驗證重新投遞的訊息可接手 lease 過期的 job，以及略過訊息時判斷 job 是否已結束（可 ack）
+ */
+
+vi.mock("../worker/db", () => ({
+  claimJob: vi.fn(),
+  getJob: vi.fn(),
+  markJobCompleted: vi.fn(async () => undefined),
+  markJobFailed: vi.fn(async () => undefined),
+  incrementRetry: vi.fn(async () => undefined),
+  scheduleJobRetry: vi.fn(async () => undefined),
+  markStoryContentUnsafe: vi.fn(async () => undefined),
+  touchJob: vi.fn(async () => undefined),
+}));
+
+vi.mock("../worker/jobGraph", () => ({
+  releaseDependentJobs: vi.fn(async () => []),
+  submitStoryForReviewIfPipelineComplete: vi.fn(async () => false),
+}));
+
+vi.mock("../db/client", () => ({ db: {} }));
+
+vi.mock("../lib/generation/storyRegeneration", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/generation/storyRegeneration")>()),
+  loadStoredStory: vi.fn(),
+}));
+
+import { JobHandler } from "../worker/jobHandler";
+import { ContentSafetyError, type ModerationReport } from "../lib/openai/ContentSafety";
+import * as workerDb from "../worker/db";
+import * as jobGraph from "../worker/jobGraph";
+import * as storyRegeneration from "../lib/generation/storyRegeneration";
+import type { JobHandlerDeps } from "../worker/jobHandler";
+
+/**
+ * Helper: 建立 claimJob 回傳的 generation_jobs row
+ * @param overrides 覆寫欄位
+ */
+function makeJobRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "job-1",
+    story_id: "story-1",
+    job_type: "story_script",
+    retry_count: 0,
+    payload: { type: "story_script", storyId: "story-1", theme: "A brave bunny", tone: "warm", ageRange: "5-6" },
+    ...overrides,
+  };
+}
+
+/**
+ * Helper: 建立 fake 相依（orchestrator / persist / errorHandler）
+ */
+function makeDeps() {
+  const result = {
+    story: { titleEn: "Brave Bunny", pages: [{ pageNumber: 1, textEn: "Hop." }] },
+    translation: { titleZh: "勇敢的兔子", pages: [{ pageNumber: 1, textZh: "跳。" }] },
+    vocabulary: { entries: [] },
+    moderation: { provider: "keyword", passed: true, checkedAt: "2026-10-19T00:00:00.000Z", story: { flagged: false, categories: [] }, pages: [] },
+    readability: { ageBand: "5-6", passed: true, pages: [] },
+    usages: {},
+  };
+  const deps = {
+    orchestrator: {
+      run: vi.fn(async () => result),
+      regenerate: vi.fn(async () => ({ story: result.story, translation: result.translation, usages: {} })),
+    },
+    persist: vi.fn(async () => ["image-job", "audio-job"]),
+    persistRegeneration: vi.fn(async () => ["audio-job"]),
+    errorHandler: { recordFailure: vi.fn(async () => undefined), shouldRetry: vi.fn(() => false) },
+  };
+  return { deps, result };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("JobHandler.handle", () => {
+  it("runs the orchestrator, persists the result and completes a story_script job", async () => {
+    vi.mocked(workerDb.claimJob).mockResolvedValueOnce(makeJobRow());
+    const { deps, result } = makeDeps();
+    const handler = new JobHandler(undefined, undefined, deps as unknown as JobHandlerDeps);
+
+    const handled = await handler.handle("job-1");
+
+    expect(handled).toBe(true);
+    expect(deps.orchestrator.run).toHaveBeenCalledWith(
+      expect.objectContaining({ storyId: "story-1", theme: "A brave bunny", tone: "warm", ageRange: "5-6" }),
+    );
+    expect(deps.persist).toHaveBeenCalledWith("story-1", "A brave bunny", result.story, result.translation, result.vocabulary, {
+      parentJobId: "job-1",
+      moderation: result.moderation,
+      readability: result.readability,
+      ageRange: "5-6",
+    });
+    expect(workerDb.markJobCompleted).toHaveBeenCalledWith("job-1", "story://story-1");
+    expect(workerDb.markJobFailed).not.toHaveBeenCalled();
+  });
+
+  it("heartbeats the job while the handler runs and stops once it finishes", async () => {
+    vi.useFakeTimers();
+    try {
+      vi.mocked(workerDb.claimJob).mockResolvedValueOnce(makeJobRow());
+      const { deps, result } = makeDeps();
+      let finish: (value: typeof result) => void = () => undefined;
+      deps.orchestrator.run.mockReturnValueOnce(new Promise((resolve) => (finish = resolve)));
+      const handler = new JobHandler(undefined, undefined, { ...deps, leaseMs: 30_000 } as unknown as JobHandlerDeps);
+
+      const handled = handler.handle("job-1");
+      await vi.advanceTimersByTimeAsync(25_000);
+      expect(workerDb.touchJob).toHaveBeenCalledTimes(2);
+      expect(workerDb.touchJob).toHaveBeenCalledWith("job-1");
+
+      finish(result);
+      await handled;
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(workerDb.touchJob).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("skips jobs that cannot be claimed", async () => {
+    vi.mocked(workerDb.claimJob).mockResolvedValueOnce(null);
+    const { deps } = makeDeps();
+    const handler = new JobHandler(undefined, undefined, deps as unknown as JobHandlerDeps);
+
+    expect(await handler.handle("job-1")).toBe(false);
+    expect(deps.orchestrator.run).not.toHaveBeenCalled();
+    expect(workerDb.markJobCompleted).not.toHaveBeenCalled();
+  });
+
+  it("loads jobs already claimed by the queue instead of claiming them again", async () => {
+    vi.mocked(workerDb.getJob).mockResolvedValueOnce(makeJobRow({ status: "processing" }));
+    const { deps } = makeDeps();
+    const handler = new JobHandler(undefined, undefined, deps as unknown as JobHandlerDeps);
+
+    expect(await handler.handle("job-1", { claimed: true })).toBe(true);
+    expect(workerDb.claimJob).not.toHaveBeenCalled();
+    expect(workerDb.markJobCompleted).toHaveBeenCalledWith("job-1", "story://story-1");
+  });
+
+  it("dispatches other job types through the handler table", async () => {
+    vi.mocked(workerDb.claimJob).mockResolvedValueOnce(makeJobRow({ job_type: "image", payload: { pageNumber: 1 } }));
+    const { deps } = makeDeps();
+    const imageHandler = vi.fn(async () => "file:///tmp/page-1.png");
+    const handler = new JobHandler(undefined, undefined, {
+      ...(deps as unknown as JobHandlerDeps),
+      handlers: { image: imageHandler },
+    });
+
+    await handler.handle("job-1");
+
+    expect(imageHandler).toHaveBeenCalledWith(expect.objectContaining({ jobType: "image", payload: { pageNumber: 1 } }), expect.anything());
+    expect(workerDb.markJobCompleted).toHaveBeenCalledWith("job-1", "file:///tmp/page-1.png");
+  });
+
+  it("pushes dependent jobs released by the job graph once a job completes", async () => {
+    vi.mocked(workerDb.claimJob).mockResolvedValueOnce(makeJobRow({ job_type: "audio", payload: { pageNumber: 10 } }));
+    vi.mocked(jobGraph.releaseDependentJobs).mockResolvedValueOnce(["video-job-1"]);
+    const { deps } = makeDeps();
+    const queue = { push: vi.fn(async () => undefined), pop: vi.fn(), ack: vi.fn(), nack: vi.fn(), close: vi.fn() };
+    const handler = new JobHandler(undefined, undefined, {
+      ...(deps as unknown as JobHandlerDeps),
+      queue,
+      handlers: { audio: vi.fn(async () => "file:///tmp/page-10.mp3") },
+    });
+
+    await handler.handle("job-1");
+
+    expect(jobGraph.releaseDependentJobs).toHaveBeenCalledWith("job-1");
+    expect(queue.push).toHaveBeenCalledWith(expect.objectContaining({ jobId: "video-job-1" }));
+    expect(jobGraph.submitStoryForReviewIfPipelineComplete).toHaveBeenCalledWith("story-1");
+  });
+
+  it("fails a reclaimed job whose lease expired on its last allowed attempt instead of running it again", async () => {
+    vi.mocked(workerDb.getJob).mockResolvedValueOnce(makeJobRow({ status: "processing", job_type: "video", retry_count: 2 }));
+    const { deps } = makeDeps();
+    const video = vi.fn(async () => "video://story-1");
+    const handler = new JobHandler(undefined, undefined, { ...deps, handlers: { video } } as unknown as JobHandlerDeps);
+
+    expect(await handler.handle("job-1", { claimed: true, reclaimed: true })).toBe(true);
+
+    expect(video).not.toHaveBeenCalled();
+    expect(workerDb.markJobFailed).toHaveBeenCalledWith("job-1", "lease expired on attempt 2 of 2; giving up");
+    expect(deps.errorHandler.recordFailure).toHaveBeenCalledWith(
+      { generationJobId: "job-1", stage: "video", attempt: 2 },
+      expect.objectContaining({ message: "lease expired on attempt 2 of 2; giving up" }),
+    );
+    expect(workerDb.markJobCompleted).not.toHaveBeenCalled();
+  });
+
+  it("runs a reclaimed job again while it still has attempts left", async () => {
+    vi.mocked(workerDb.getJob).mockResolvedValueOnce(makeJobRow({ status: "processing", job_type: "video", retry_count: 1 }));
+    const { deps } = makeDeps();
+    const video = vi.fn(async () => "video://story-1");
+    const handler = new JobHandler(undefined, undefined, { ...deps, handlers: { video } } as unknown as JobHandlerDeps);
+
+    await handler.handle("job-1", { claimed: true, reclaimed: true });
+
+    expect(video).toHaveBeenCalled();
+    expect(workerDb.markJobCompleted).toHaveBeenCalledWith("job-1", "video://story-1");
+  });
+
+  it("lets a redelivered message take back a job whose lease expired and checks its attempts", async () => {
+    vi.mocked(workerDb.claimJob).mockResolvedValueOnce(makeJobRow({ job_type: "video", retry_count: 2, reclaimed: true }));
+    const { deps } = makeDeps();
+    const video = vi.fn(async () => "video://story-1");
+    const handler = new JobHandler(undefined, undefined, { ...deps, handlers: { video }, leaseMs: 60_000 } as unknown as JobHandlerDeps);
+
+    await handler.handle("job-1", { redelivered: true });
+
+    expect(workerDb.claimJob).toHaveBeenCalledWith("job-1", { reclaimAfterMs: 60_000 });
+    expect(video).not.toHaveBeenCalled();
+    expect(workerDb.markJobFailed).toHaveBeenCalledWith("job-1", "lease expired on attempt 2 of 2; giving up");
+  });
+
+  it("reports a job as settled only when it is missing or in a terminal state", async () => {
+    const { deps } = makeDeps();
+    const handler = new JobHandler(undefined, undefined, deps as unknown as JobHandlerDeps);
+
+    for (const [status, settled] of [
+      ["completed", true],
+      ["failed", true],
+      ["cancelled", true],
+      ["processing", false],
+      ["pending", false],
+    ] as const) {
+      vi.mocked(workerDb.getJob).mockResolvedValueOnce(makeJobRow({ status }));
+      expect(await handler.isSettled("job-1")).toBe(settled);
+    }
+    vi.mocked(workerDb.getJob).mockResolvedValueOnce(null);
+    expect(await handler.isSettled("job-1")).toBe(true);
+  });
+
+  it("marks unsupported job types as failed and records the failure", async () => {
+    vi.mocked(workerDb.claimJob).mockResolvedValueOnce(makeJobRow({ job_type: "legacy_cleanup" }));
+    const { deps } = makeDeps();
+    const handler = new JobHandler(undefined, undefined, deps as unknown as JobHandlerDeps);
+
+    await handler.handle("job-1");
+
+    expect(workerDb.markJobFailed).toHaveBeenCalledWith("job-1", "unsupported job type: legacy_cleanup");
+    expect(deps.errorHandler.recordFailure).toHaveBeenCalledWith(
+      { generationJobId: "job-1", stage: "legacy_cleanup", attempt: 1 },
+      expect.objectContaining({ message: "unsupported job type: legacy_cleanup" }),
+    );
+  });
+
+  it("regenerates only the requested stage of a stored story", async () => {
+    const { deps, result } = makeDeps();
+    const stored = { storyId: "story-1", theme: "A brave bunny", tone: "gentle", ageRange: "3-4", story: result.story, translation: result.translation };
+    vi.mocked(storyRegeneration.loadStoredStory).mockResolvedValueOnce(stored);
+    vi.mocked(workerDb.claimJob).mockResolvedValueOnce(
+      makeJobRow({ job_type: "translation", payload: { type: "translation", regenerate: true, scope: { stage: "translation" } } }),
+    );
+    const handler = new JobHandler(undefined, undefined, deps as unknown as JobHandlerDeps);
+
+    await handler.handle("job-1");
+
+    expect(deps.orchestrator.regenerate).toHaveBeenCalledWith(
+      { storyId: "story-1", theme: "A brave bunny", tone: "gentle", ageRange: "3-4", regenerate: true },
+      stored,
+      { stage: "translation" },
+      "job-1",
+    );
+    expect(deps.orchestrator.run).not.toHaveBeenCalled();
+    expect(deps.persistRegeneration).toHaveBeenCalledWith("story-1", { stage: "translation" }, expect.anything(), {
+      parentJobId: "job-1",
+      ageRange: "3-4",
+    });
+    expect(workerDb.markJobCompleted).toHaveBeenCalledWith("job-1", "story://story-1");
+  });
+
+  it("hands story_script jobs with a page scope to the regeneration flow", async () => {
+    const { deps, result } = makeDeps();
+    vi.mocked(storyRegeneration.loadStoredStory).mockResolvedValueOnce({
+      storyId: "story-1",
+      theme: "A brave bunny",
+      tone: "warm",
+      ageRange: "5-6",
+      story: result.story,
+      translation: result.translation,
+    });
+    vi.mocked(workerDb.claimJob).mockResolvedValueOnce(
+      makeJobRow({ payload: { type: "story_script", regenerate: true, scope: { stage: "page", pageNumber: 1 } } }),
+    );
+    const handler = new JobHandler(undefined, undefined, deps as unknown as JobHandlerDeps);
+
+    await handler.handle("job-1");
+
+    expect(deps.orchestrator.regenerate).toHaveBeenCalledWith(expect.anything(), expect.anything(), { stage: "page", pageNumber: 1 }, "job-1");
+    expect(deps.persist).not.toHaveBeenCalled();
+  });
+
+  it("rejects an unscoped regenerate of a story that already has pages", async () => {
+    const { deps, result } = makeDeps();
+    vi.mocked(storyRegeneration.loadStoredStory).mockResolvedValueOnce({
+      storyId: "story-1",
+      theme: "A brave bunny",
+      tone: "warm",
+      ageRange: "5-6",
+      story: result.story,
+      translation: result.translation,
+    });
+    vi.mocked(workerDb.claimJob).mockResolvedValueOnce(makeJobRow({ payload: { type: "story_script", theme: "A brave bunny", regenerate: true } }));
+    const handler = new JobHandler(undefined, undefined, deps as unknown as JobHandlerDeps);
+
+    await expect(handler.handle("job-1")).rejects.toThrow("regenerate it with a page, translation or vocabulary scope");
+
+    expect(deps.orchestrator.run).not.toHaveBeenCalled();
+    expect(deps.persist).not.toHaveBeenCalled();
+    expect(workerDb.markJobFailed).toHaveBeenCalledWith("job-1", expect.stringContaining("already has pages"));
+  });
+
+  it("completes a rerun of a story_script job whose story was already persisted without generating again", async () => {
+    const { deps, result } = makeDeps();
+    vi.mocked(storyRegeneration.loadStoredStory).mockResolvedValueOnce({
+      storyId: "story-1",
+      theme: "A brave bunny",
+      tone: "warm",
+      ageRange: "5-6",
+      story: result.story,
+      translation: result.translation,
+    });
+    vi.mocked(workerDb.claimJob).mockResolvedValueOnce(makeJobRow());
+    const handler = new JobHandler(undefined, undefined, deps as unknown as JobHandlerDeps);
+
+    expect(await handler.handle("job-1")).toBe(true);
+
+    expect(deps.orchestrator.run).not.toHaveBeenCalled();
+    expect(deps.persist).not.toHaveBeenCalled();
+    expect(workerDb.markJobCompleted).toHaveBeenCalledWith("job-1", "story://story-1");
+    expect(jobGraph.releaseDependentJobs).toHaveBeenCalledWith("job-1");
+  });
+
+  it("marks the job failed, bumps retry_count and records the failure when the handler throws", async () => {
+    vi.mocked(workerDb.claimJob).mockResolvedValueOnce(makeJobRow());
+    const { deps } = makeDeps();
+    deps.orchestrator.run.mockRejectedValueOnce(new Error("model exploded"));
+    const handler = new JobHandler(undefined, undefined, deps as unknown as JobHandlerDeps);
+
+    await expect(handler.handle("job-1")).rejects.toThrow("model exploded");
+
+    expect(workerDb.incrementRetry).toHaveBeenCalledWith("job-1");
+    expect(workerDb.markJobFailed).toHaveBeenCalledWith("job-1", "model exploded");
+    expect(deps.errorHandler.recordFailure).toHaveBeenCalledWith(
+      expect.objectContaining({ generationJobId: "job-1", stage: "story_script", attempt: 1 }),
+      expect.any(Error),
+    );
+    expect(workerDb.markJobCompleted).not.toHaveBeenCalled();
+  });
+
+  it("stops the story and keeps the moderation verdicts when content safety fails", async () => {
+    vi.mocked(workerDb.claimJob).mockResolvedValueOnce(makeJobRow());
+    const { deps, result } = makeDeps();
+    const report: ModerationReport = { ...result.moderation, passed: false };
+    deps.orchestrator.run.mockRejectedValueOnce(new ContentSafetyError("pages 3 still flagged after 2 rewrites", report));
+    const handler = new JobHandler(undefined, undefined, deps as unknown as JobHandlerDeps);
+
+    await expect(handler.handle("job-1")).rejects.toThrow(ContentSafetyError);
+
+    expect(workerDb.markStoryContentUnsafe).toHaveBeenCalledWith("story-1", report);
+    expect(workerDb.markJobFailed).toHaveBeenCalledWith("job-1", "pages 3 still flagged after 2 rewrites");
+    expect(deps.persist).not.toHaveBeenCalled();
+  });
+
+  it("schedules a delayed retry instead of failing when the error is retryable", async () => {
+    vi.mocked(workerDb.claimJob).mockResolvedValueOnce(makeJobRow({ job_type: "image", retry_count: 1, payload: { pageNumber: 1 } }));
+    const { deps } = makeDeps();
+    deps.errorHandler.shouldRetry.mockReturnValueOnce(true);
+    const handler = new JobHandler(undefined, undefined, {
+      ...(deps as unknown as JobHandlerDeps),
+      retryPolicy: { baseDelayMs: 1000, maxAttempts: { image: 4 } },
+      handlers: { image: vi.fn(async () => Promise.reject(Object.assign(new Error("rate limited"), { status: 429 }))) },
+    });
+
+    await expect(handler.handle("job-1")).resolves.toBe(true);
+
+    expect(deps.errorHandler.shouldRetry).toHaveBeenCalledWith(expect.any(Error), 2, 4);
+    // 第 2 次失敗：1000 * 2^1 = 2000ms，jitter 後落在 1000~2000ms
+    const [, reason, delayMs] = vi.mocked(workerDb.scheduleJobRetry).mock.calls[0];
+    expect(reason).toBe("rate limited");
+    expect(delayMs).toBeGreaterThanOrEqual(1000);
+    expect(delayMs).toBeLessThanOrEqual(2000);
+    expect(workerDb.markJobFailed).not.toHaveBeenCalled();
+    expect(deps.errorHandler.recordFailure).not.toHaveBeenCalled();
+  });
+});
@@ -114,7 +114,7 @@ it("returns parsed story, translation and vocabulary with usage when AI adapter
     storyId: "test-story-001",
     theme: "friendly meadow",
     tone: "warm",
-    ageRange: "0-6",
+    ageRange: "5-6",
     regenerate: false,
   };
 
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from "vitest";
+
+vi.mock("../db/client", () => ({ db: {} }));
+vi.mock("../lib/utils/pgPool", () => ({ getPgPool: vi.fn() }));
+vi.mock("../lib/openai/ErrorHandler", () => ({
+  default: class {
+    recordFailure = vi.fn(async () => undefined);
+  },
+}));
+
+import { persistGenerationResult } from "../lib/openai/OrchestrationPersistence";
+import { getPgPool } from "../lib/utils/pgPool";
+import type { StoryScriptResult, TranslationResult, VocabularyResult } from "../lib/openai/types";
+import { createTestDatabase, seedJob, seedPage, seedStory, TEST_DATABASE_TIMEOUT_MS, type TestDatabase } from "./helpers/pg";
+
+/**
+ * story_script 寫入的冪等性（於套用 migrations 的記憶體 Postgres 上驗證）
+ *
+ * - 上游 story_script job 與頁面、單字、媒體 jobs 在同一交易中完成
+ * - (story_id, page_number) 唯一：同一故事重複寫入時整筆交易回滾
+ * - 0013 migration 合併既有的重複頁面並保留媒體連結
+ */
+
+const story: StoryScriptResult = {
+  titleEn: "Pip's Garden",
+  pages: [
+    { pageNumber: 1, textEn: "Pip plants seeds." },
+    { pageNumber: 2, textEn: "Pip waters them." },
+  ],
+};
+const translation: TranslationResult = {
+  titleZh: "皮皮的花園",
+  pages: [
+    { pageNumber: 1, textZh: "皮皮種下種子。" },
+    { pageNumber: 2, textZh: "皮皮幫種子澆水。" },
+  ],
+};
+const vocabulary: VocabularyResult = {
+  entries: [
+    {
+      word: "seed",
+      partOfSpeech: "noun",
+      definitionEn: "a small plant part",
+      definitionZh: "種子",
+      exampleSentence: "Pip plants a seed.",
+      exampleTranslation: "皮皮種下一顆種子。",
+    },
+  ],
+};
+
+describe("persistGenerationResult", () => {
+  let db: TestDatabase;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    vi.mocked(getPgPool).mockReturnValue({
+      connect: async () => ({ query: db.query, release: () => undefined }),
+    } as unknown as ReturnType<typeof getPgPool>);
+  }, TEST_DATABASE_TIMEOUT_MS);
+  afterAll(() => db.close());
+
+  beforeEach(() => db.reset());
+
+  it("completes the story_script job in the same transaction as the story content", async () => {
+    const storyId = await seedStory(db);
+    const scriptJob = await seedJob(db, storyId, "story_script", "processing");
+
+    const created = await persistGenerationResult(storyId, "garden", story, translation, vocabulary, { parentJobId: scriptJob });
+
+    expect(created).toHaveLength(4);
+    const job = await db.query(`SELECT status, result_uri FROM generation_jobs WHERE id = $1`, [scriptJob]);
+    expect(job.rows[0]).toEqual({ status: "completed", result_uri: `story://${storyId}` });
+  });
+
+  it("rolls back a second write of the same story instead of duplicating pages, vocabulary and media jobs", async () => {
+    const storyId = await seedStory(db);
+    const scriptJob = await seedJob(db, storyId, "story_script", "processing");
+    await persistGenerationResult(storyId, "garden", story, translation, vocabulary, { parentJobId: scriptJob });
+
+    await expect(
+      persistGenerationResult(storyId, "garden", story, translation, vocabulary, { parentJobId: scriptJob }),
+    ).rejects.toThrow(/story_pages_story_page_idx/);
+
+    const counts = await db.query(
+      `SELECT (SELECT count(*)::int FROM story_pages) AS pages,
+              (SELECT count(*)::int FROM vocab_entries) AS vocab,
+              (SELECT count(*)::int FROM generation_jobs WHERE job_type <> 'story_script') AS media_jobs`,
+    );
+    expect(counts.rows[0]).toEqual({ pages: 2, vocab: 1, media_jobs: 5 });
+  });
+});
+
+describe("0013_story_pages_unique_page migration", () => {
+  let db: TestDatabase;
+
+  beforeAll(async () => {
+    db = await createTestDatabase({ stopBefore: "0013" });
+  }, TEST_DATABASE_TIMEOUT_MS);
+  afterAll(() => db.close());
+
+  it("keeps the earliest copy of a duplicated page and moves the later copy's media onto it", async () => {
+    const storyId = await seedStory(db);
+    const { pageId: kept } = await seedPage(db, storyId, 1);
+    const { pageId: duplicate, audioAssetId } = await seedPage(db, storyId, 1, { withAudio: true });
+    await db.query(`UPDATE story_pages SET created_at = now() + interval '1 minute' WHERE id = $1`, [duplicate]);
+    await db.query(`UPDATE media_assets SET page_id = $1 WHERE id = $2`, [duplicate, audioAssetId]);
+
+    await db.migrate();
+
+    const pages = await db.query(`SELECT id, audio_asset_id FROM story_pages`);
+    expect(pages.rows).toEqual([{ id: kept, audio_asset_id: audioAssetId }]);
+    const asset = await db.query(`SELECT page_id FROM media_assets WHERE id = $1`, [audioAssetId]);
+    expect(asset.rows[0].page_id).toBe(kept);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from "vitest";
+import { PgQueueClient, type PgListener, type PgQueryable } from "../worker/pgQueueClient";
+import { createTestDatabase, seedJob, seedStory, TEST_DATABASE_TIMEOUT_MS, type TestDatabase } from "./helpers/pg";
+
+/**
+ * PgQueueClient 單元測試
+ *
+ * 測試項目：
+ *  - pop 以 SKIP LOCKED 直接 claim pending job，回傳 claimed 訊息
+ *  - lease 過期的 processing job（worker 當機）會被重新 claim（於記憶體 Postgres 上驗證 retry_count 與 reclaimed 標記）
+ *  - 無 job 時等待 LISTEN 通知，收到 NOTIFY 後再次嘗試 claim
+ *  - push 以 pg_notify 喚醒其他 worker
+ */
+
+function makeListener() {
+  const handlers: Record<string, (arg: never) => void> = {};
+  const listener = {
+    connect: vi.fn(async () => undefined),
+    end: vi.fn(async () => undefined),
+    query: vi.fn(async () => ({ rows: [] })),
+    on: vi.fn((event: string, cb: (arg: never) => void) => {
+      handlers[event] = cb;
+    }),
+  };
+  const notify = () => handlers.notification?.({ channel: "generation_jobs", payload: "job-2" } as never);
+  return { listener: listener as unknown as PgListener & typeof listener, notify };
+}
+
+describe("PgQueueClient", () => {
+  it("claims the next pending job with SKIP LOCKED", async () => {
+    const pool = { query: vi.fn<PgQueryable["query"]>(async () => ({ rows: [{ id: "job-1" }] })) };
+    const { listener } = makeListener();
+    const client = new PgQueueClient(pool, { createListener: () => listener, blockMs: 1000 });
+
+    const msg = await client.pop();
+
+    expect(msg).toMatchObject({ jobId: "job-1", claimed: true });
+    expect(pool.query.mock.calls[0][0]).toContain("FOR UPDATE SKIP LOCKED");
+    expect(listener.query).toHaveBeenCalledWith('LISTEN "generation_jobs"');
+  });
+
+  it("waits for a notification when the queue is empty", async () => {
+    const pool = {
+      query: vi.fn<PgQueryable["query"]>().mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [{ id: "job-2" }] }),
+    };
+    const { listener, notify } = makeListener();
+    const client = new PgQueueClient(pool, { createListener: () => listener, blockMs: 60_000 });
+
+    const popped = client.pop();
+    await vi.waitFor(() => expect(pool.query).toHaveBeenCalledTimes(1));
+    notify();
+
+    await expect(popped).resolves.toMatchObject({ jobId: "job-2" });
+    await client.close();
+    expect(listener.end).toHaveBeenCalled();
+  });
+
+  it("returns null after the wait times out", async () => {
+    const pool = { query: vi.fn(async () => ({ rows: [] })) };
+    const { listener } = makeListener();
+    const client = new PgQueueClient(pool, { createListener: () => listener, blockMs: 5 });
+
+    await expect(client.pop()).resolves.toBeNull();
+    expect(pool.query).toHaveBeenCalledTimes(2);
+  });
+
+  it("notifies listeners on push", async () => {
+    const pool = { query: vi.fn(async () => ({ rows: [] })) };
+    const { listener } = makeListener();
+    const client = new PgQueueClient(pool, { createListener: () => listener, blockMs: 5 });
+
+    await client.push({ jobId: "job-3" });
+
+    expect(pool.query).toHaveBeenCalledWith("SELECT pg_notify($1, $2)", ["generation_jobs", "job-3"]);
+  });
+});
+
+describe("PgQueueClient lease reclaim", () => {
+  let db: TestDatabase;
+  let storyId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  }, TEST_DATABASE_TIMEOUT_MS);
+  afterAll(() => db.close());
+
+  beforeEach(async () => {
+    await db.reset();
+    storyId = await seedStory(db);
+  });
+
+  it("reclaims processing jobs whose lease has expired and flags them as reclaimed", async () => {
+    const stuck = await seedJob(db, storyId, "image", "processing");
+    await db.query(`UPDATE generation_jobs SET updated_at = now() - interval '2 minutes' WHERE id = $1`, [stuck]);
+    const running = await seedJob(db, storyId, "audio", "processing");
+    const { listener } = makeListener();
+    const client = new PgQueueClient(db, { createListener: () => listener, blockMs: 5, leaseMs: 60_000 });
+
+    await expect(client.pop()).resolves.toMatchObject({ jobId: stuck, claimed: true, reclaimed: true });
+    await expect(client.pop()).resolves.toBeNull();
+
+    const jobs = await db.query(`SELECT id, status, retry_count FROM generation_jobs ORDER BY retry_count`);
+    expect(jobs.rows).toEqual([
+      { id: running, status: "processing", retry_count: 0 },
+      { id: stuck, status: "processing", retry_count: 1 },
+    ]);
+  });
+
+  it("does not count a first claim of a pending job as a retry", async () => {
+    const pending = await seedJob(db, storyId, "image", "pending");
+    const { listener } = makeListener();
+    const client = new PgQueueClient(db, { createListener: () => listener, blockMs: 5 });
+
+    await expect(client.pop()).resolves.toMatchObject({ jobId: pending, claimed: true, reclaimed: false });
+    expect(await db.jobStatus(pending)).toBe("processing");
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from "vitest";
+import { RedisStreamQueueClient, type RedisLike } from "../worker/queueClient";
+
+/**
+ * RedisStreamQueueClient 單元測試
+ *
+ * 測試項目：
+ *  - pop 會建立 consumer group，並以 XREADGROUP 讀取新訊息
+ *  - ack 會對 stream entry 呼叫 XACK
+ *  - XAUTOCLAIM 接手的訊息投遞次數超過上限時移入 `<queue>:dlq`
+ *  - nack 在投遞次數達上限時移入 dead-letter stream，否則保留於 pending entries
+ */
+
+const opts = {
+  queueName: "jobs",
+  group: "workers",
+  consumer: "worker-1",
+  maxDeliveries: 3,
+  claimIdleMs: 1000,
+  blockMs: 10,
+};
+
+const entry = (id: string, jobId: string) => [id, ["message", JSON.stringify({ jobId, timestamp: 1 })]];
+
+function makeRedis(overrides: Partial<Record<keyof RedisLike, unknown>> = {}) {
+  return {
+    xadd: vi.fn(async () => "9-0"),
+    xreadgroup: vi.fn(async () => null),
+    xack: vi.fn(async () => 1),
+    xautoclaim: vi.fn(async () => ["0-0", []]),
+    xpending: vi.fn(async () => []),
+    xgroup: vi.fn(async () => "OK"),
+    quit: vi.fn(async () => "OK"),
+    ...overrides,
+  } as unknown as RedisLike & Record<string, ReturnType<typeof vi.fn>>;
+}
+
+describe("RedisStreamQueueClient", () => {
+  it("reads new messages through the consumer group and acks them", async () => {
+    const redis = makeRedis({
+      xgroup: vi.fn(async () => {
+        throw new Error("BUSYGROUP Consumer Group name already exists");
+      }),
+      xreadgroup: vi.fn(async () => [["jobs", [entry("1-0", "job-1")]]]),
+    });
+    const client = new RedisStreamQueueClient(redis, opts);
+
+    const msg = await client.pop();
+
+    expect(msg).toEqual({ jobId: "job-1", timestamp: 1, streamId: "1-0", deliveries: 1 });
+    expect(redis.xreadgroup).toHaveBeenCalledWith("GROUP", "workers", "worker-1", "COUNT", 1, "BLOCK", 10, "STREAMS", "jobs", ">");
+
+    await client.ack(msg!);
+    expect(redis.xack).toHaveBeenCalledWith("jobs", "workers", "1-0");
+  });
+
+  it("dead-letters reclaimed messages that exceeded the delivery limit", async () => {
+    const redis = makeRedis({
+      xautoclaim: vi.fn(async () => ["0-0", [entry("2-0", "job-2")]]),
+      xpending: vi.fn(async () => [["2-0", "worker-0", 5000, 4]]),
+    });
+    const client = new RedisStreamQueueClient(redis, opts);
+
+    const msg = await client.pop();
+
+    expect(msg).toBeNull();
+    expect(redis.xadd).toHaveBeenCalledWith(
+      "jobs:dlq",
+      "*",
+      "message",
+      JSON.stringify({ jobId: "job-2", timestamp: 1 }),
+      "sourceId",
+      "2-0",
+      "deliveries",
+      4,
+      "reason",
+      "exceeded 3 deliveries",
+    );
+    expect(redis.xack).toHaveBeenCalledWith("jobs", "workers", "2-0");
+  });
+
+  it("returns reclaimed messages still within the delivery limit", async () => {
+    const redis = makeRedis({
+      xautoclaim: vi.fn(async () => ["0-0", [entry("3-0", "job-3")]]),
+      xpending: vi.fn(async () => [["3-0", "worker-0", 5000, 2]]),
+    });
+    const client = new RedisStreamQueueClient(redis, opts);
+
+    await expect(client.pop()).resolves.toMatchObject({ jobId: "job-3", deliveries: 2 });
+    expect(redis.xreadgroup).not.toHaveBeenCalled();
+  });
+
+  it("only dead-letters on nack once the delivery limit is reached", async () => {
+    const redis = makeRedis();
+    const client = new RedisStreamQueueClient(redis, opts);
+
+    await client.nack({ jobId: "job-4", streamId: "4-0", deliveries: 1 }, "boom");
+    expect(redis.xadd).not.toHaveBeenCalled();
+    expect(redis.xack).not.toHaveBeenCalled();
+
+    await client.nack({ jobId: "job-4", streamId: "4-0", deliveries: 3 }, "boom");
+    expect(redis.xadd).toHaveBeenCalledWith("jobs:dlq", "*", "message", expect.any(String), "sourceId", "4-0", "deliveries", 3, "reason", "boom");
+    expect(redis.xack).toHaveBeenCalledWith("jobs", "workers", "4-0");
+  });
+});
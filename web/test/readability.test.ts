@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from "vitest";
+import { AGE_BAND_PROFILES } from "../lib/openai/AgeBandProfiles";
+import { analyzePage, countSyllables, fleschKincaidGrade, splitSentences } from "../lib/openai/Readability";
+import { StoryGenerationOrchestrator, MAX_READABILITY_REWRITES } from "../lib/openai/StoryGenerationOrchestrator";
+import { KeywordModerationAdapter } from "../lib/openai/ContentSafety";
+import type ErrorHandler from "../lib/openai/ErrorHandler";
+import type { OpenAIAdapter } from "../lib/openai/types";
+
+/**
+ * 可讀性驗證單元測試
+ *
+ * - 字數、句子切分、音節估算與 Flesch-Kincaid 年級
+ * - 依年齡區間規則列出超出範圍的項目
+ * - Orchestrator 只改寫超出範圍的頁面，改寫次數用盡時保留最後一次改寫而不中止
+ */
+
+const longPage =
+  "Once upon a time, in a faraway kingdom surrounded by enormous mountains, a curious little rabbit named Pip decided to explore the mysterious forest beyond the river, carrying a basket of carrots, a blanket and a lantern that his grandmother had given him many years ago.";
+
+const story = {
+  title_en: "Pip's Garden",
+  synopsis_en: "Pip grows a garden.",
+  pages: Array.from({ length: 10 }, (_, i) => ({ page_number: i + 1, text_en: `Pip waters plant ${i + 1}.` })),
+};
+const translation = {
+  title_zh: "皮皮的花園",
+  pages: Array.from({ length: 10 }, (_, i) => ({ page_number: i + 1, text_zh: `皮皮替第${i + 1}株植物澆水。` })),
+};
+const vocabulary = {
+  entries: Array.from({ length: 10 }, (_, i) => ({
+    word: `word${i + 1}`,
+    part_of_speech: "noun",
+    definition_en: "d",
+    definition_zh: "定義",
+    example_sentence: "e",
+    example_translation: "例",
+  })),
+};
+
+/**
+ * Helper: 依 prompt 內容回應的 fake AI adapter
+ * @param draft 腳本回應
+ * @param rewrite 改寫回應
+ */
+function fakeAi(draft: unknown, rewrite: unknown) {
+  return {
+    createChatCompletion: vi.fn(async (params: { messages: Array<{ role: string; content: string }> }) => {
+      const system = params.messages[0].content;
+      if (system.includes("revising a picture book")) return { data: rewrite };
+      if (system.includes("bilingual translator")) return { data: translation };
+      if (system.includes("English teacher")) return { data: vocabulary };
+      return { data: draft };
+    }),
+  };
+}
+
+const quietErrorHandler = { recordFailure: vi.fn(async () => undefined) } as unknown as ErrorHandler;
+const payload = { storyId: "story-1", theme: "garden", tone: "warm", ageRange: "5-6" };
+
+describe("readability metrics", () => {
+  it("splits sentences, estimates syllables and computes the Flesch-Kincaid grade", () => {
+    expect(splitSentences("Hop, hop! Where is Bunny? Here.")).toEqual(["Hop, hop", "Where is Bunny", "Here"]);
+    expect([countSyllables("cat"), countSyllables("bunny"), countSyllables("little"), countSyllables("hopped")]).toEqual([1, 2, 2, 1]);
+    expect(fleschKincaidGrade("The cat sat on the mat.")).toBe(-1.4);
+    expect(fleschKincaidGrade(longPage)).toBeGreaterThan(AGE_BAND_PROFILES["5-6"].maxReadingGrade);
+  });
+
+  it("lists the limits a page exceeds for its age band", () => {
+    const short = analyzePage({ pageNumber: 1, textEn: "Pip hops to the pond." }, AGE_BAND_PROFILES["0-2"]);
+    expect(short).toMatchObject({ wordCount: 5, sentenceCount: 1, longestSentenceWords: 5, issues: [] });
+
+    const long = analyzePage({ pageNumber: 2, textEn: longPage }, AGE_BAND_PROFILES["5-6"]);
+    expect(long.wordCount).toBe(46);
+    expect(long.issues).toHaveLength(2);
+    expect(long.issues[0]).toContain("at most 15 words each");
+    expect(long.issues[1]).toContain("Flesch-Kincaid");
+  });
+});
+
+describe("StoryGenerationOrchestrator readability stage", () => {
+  it("rewrites only the pages outside the limits before translating", async () => {
+    const draft = { ...story, pages: story.pages.map((p) => (p.page_number === 4 ? { ...p, text_en: longPage } : p)) };
+    const ai = fakeAi(draft, { pages: [{ page_number: 4, text_en: "Pip takes a basket. Pip walks to the woods." }] });
+    const orchestrator = new StoryGenerationOrchestrator(ai as unknown as OpenAIAdapter, quietErrorHandler, new KeywordModerationAdapter());
+
+    const result = await orchestrator.run(payload);
+
+    expect(result.story.pages[3].textEn).toBe("Pip takes a basket. Pip walks to the woods.");
+    expect(result.readability.passed).toBe(true);
+    expect(result.readability.pages[3]).toMatchObject({ pageNumber: 4, issues: [], rewrites: 1 });
+    const rewriteCall = ai.createChatCompletion.mock.calls.find(([p]) => p.messages[0].content.includes("revising a picture book"));
+    const request = JSON.parse(rewriteCall![0].messages[1].content);
+    expect(request.rewrite_pages).toEqual([{ page_number: 4, reason: expect.stringContaining("split long sentences") }]);
+    // 翻譯使用改寫後的腳本
+    const translationCall = ai.createChatCompletion.mock.calls.find(([p]) => p.messages[0].content.includes("bilingual translator"));
+    expect(translationCall![0].messages[1].content).toContain("Pip takes a basket.");
+  });
+
+  it("keeps the last rewrite and reports the page when it stays outside the limits", async () => {
+    const draft = { ...story, pages: story.pages.map((p) => (p.page_number === 2 ? { ...p, text_en: longPage } : p)) };
+    const ai = fakeAi(draft, { pages: [{ page_number: 2, text_en: longPage }] });
+    const orchestrator = new StoryGenerationOrchestrator(ai as unknown as OpenAIAdapter, quietErrorHandler, new KeywordModerationAdapter());
+
+    const result = await orchestrator.run(payload);
+
+    expect(result.readability.passed).toBe(false);
+    expect(result.readability.pages[1]).toMatchObject({ pageNumber: 2, rewrites: MAX_READABILITY_REWRITES });
+    expect(result.readability.pages[1].issues.length).toBeGreaterThan(0);
+    expect(result.vocabulary.entries).toHaveLength(10);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { computeBackoffMs, maxAttemptsFor, parseRetryLimits, resolveRetryPolicy } from "../worker/retryPolicy";
+import ErrorHandler from "../lib/openai/ErrorHandler";
+
+/**
+ * 重試策略單元測試：指數退避與 jitter、各 job type 上限設定，以及 ErrorHandler.shouldRetry 的上限判斷。
+ */
+describe("computeBackoffMs", () => {
+  const policy = resolveRetryPolicy({ baseDelayMs: 1000, maxDelayMs: 10_000 }, undefined);
+
+  it("doubles the delay per attempt and applies jitter within 50%~100%", () => {
+    expect(computeBackoffMs(1, policy, () => 1)).toBe(1000);
+    expect(computeBackoffMs(3, policy, () => 1)).toBe(4000);
+    expect(computeBackoffMs(3, policy, () => 0)).toBe(2000);
+  });
+
+  it("caps the delay at maxDelayMs", () => {
+    expect(computeBackoffMs(10, policy, () => 1)).toBe(10_000);
+  });
+});
+
+describe("retry limits", () => {
+  it("parses JOB_RETRY_LIMITS and ignores malformed entries", () => {
+    expect(parseRetryLimits("image=7, video=1,audio=x,=3")).toEqual({ image: 7, video: 1 });
+  });
+
+  it("layers env limits and overrides over the defaults", () => {
+    const policy = resolveRetryPolicy({ maxAttempts: { video: 4 } }, "image=7,video=1");
+    expect(maxAttemptsFor(policy, "image")).toBe(7);
+    expect(maxAttemptsFor(policy, "video")).toBe(4);
+    expect(maxAttemptsFor(policy, "story_script")).toBe(3);
+    expect(maxAttemptsFor(policy, "translation")).toBe(policy.defaultMaxAttempts);
+  });
+});
+
+describe("JOB_RETRY_LIMITS env validation", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it("is read from the validated env and rejects malformed values at startup", async () => {
+    vi.resetModules();
+    vi.stubEnv("JOB_RETRY_LIMITS", "image=7");
+    const { resolveRetryPolicy: resolve } = await import("../worker/retryPolicy");
+    expect(maxAttemptsFor(resolve(), "image")).toBe(7);
+
+    vi.resetModules();
+    vi.stubEnv("JOB_RETRY_LIMITS", "image=seven");
+    await expect(import("../lib/utils/env")).rejects.toThrow(/JOB_RETRY_LIMITS/);
+  });
+
+  it("rejects job types that do not exist", async () => {
+    vi.resetModules();
+    vi.stubEnv("JOB_RETRY_LIMITS", "image=7,imgae=3");
+    await expect(import("../lib/utils/env")).rejects.toThrow(/JOB_RETRY_LIMITS job types must be one of/);
+  });
+});
+
+describe("ErrorHandler.shouldRetry", () => {
+  const handler = new ErrorHandler();
+
+  it("retries transient errors until the attempt limit is reached", () => {
+    const err = Object.assign(new Error("unavailable"), { status: 503 });
+    expect(handler.shouldRetry(err, 2, 3)).toBe(true);
+    expect(handler.shouldRetry(err, 3, 3)).toBe(false);
+    expect(handler.shouldRetry(Object.assign(new Error("reset"), { code: "ECONNRESET" }), 1, 5)).toBe(true);
+  });
+
+  it("does not retry client errors", () => {
+    expect(handler.shouldRetry(Object.assign(new Error("bad"), { status: 400 }), 1, 5)).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { MIN_EASE_FACTOR, cefrRank, initialEaseFactor, scheduleReview, type ReviewState } from "../lib/vocab/sm2";
+
+/**
+ * SM-2 排程單元測試
+ */
+
+const now = new Date("2026-10-01T00:00:00Z");
+const fresh: ReviewState = { easeFactor: 2.5, intervalDays: 0, repetitions: 0, lastReviewedAt: null };
+
+function days(outcome: { dueAt: Date }) {
+  return (outcome.dueAt.getTime() - now.getTime()) / (24 * 60 * 60 * 1000);
+}
+
+describe("scheduleReview", () => {
+  it("grows the interval 1 → 6 → interval × ease while the word is remembered", () => {
+    const first = scheduleReview(fresh, true, now, "A1");
+    expect([first.repetitions, first.intervalDays, days(first)]).toEqual([1, 1, 1]);
+
+    const second = scheduleReview(first, true, now);
+    expect(second.intervalDays).toBe(6);
+
+    const third = scheduleReview(second, true, now);
+    expect(third.intervalDays).toBe(Math.round(6 * third.easeFactor));
+    expect(third.easeFactor).toBe(2.5);
+  });
+
+  it("resets repetitions and lowers ease when the word is forgotten", () => {
+    const learned: ReviewState = { easeFactor: 2.5, intervalDays: 15, repetitions: 3, lastReviewedAt: now };
+    const outcome = scheduleReview(learned, false, now);
+    expect(outcome.repetitions).toBe(0);
+    expect(outcome.intervalDays).toBe(1);
+    expect(outcome.easeFactor).toBeCloseTo(2.18);
+  });
+
+  it("never drops ease below the SM-2 minimum", () => {
+    let state: ReviewState = { easeFactor: 1.4, intervalDays: 1, repetitions: 0, lastReviewedAt: now };
+    for (let i = 0; i < 3; i++) state = scheduleReview(state, false, now);
+    expect(state.easeFactor).toBe(MIN_EASE_FACTOR);
+  });
+
+  it("starts harder CEFR levels with a lower ease", () => {
+    expect(initialEaseFactor("c1")).toBeLessThan(initialEaseFactor("A1"));
+    expect(initialEaseFactor(undefined)).toBe(2.5);
+    expect(scheduleReview(fresh, true, now, "B2").easeFactor).toBe(2.2);
+    expect(cefrRank("A2")).toBeLessThan(cefrRank("B1"));
+    expect(cefrRank(null)).toBe(6);
+  });
+});
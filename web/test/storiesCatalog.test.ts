@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../lib/utils/pgPool", () => ({ getPgPool: vi.fn() }));
+
+import {
+  InvalidCursorError,
+  decodeCursor,
+  encodeCursor,
+  listPublishedStories,
+  storyListQuerySchema,
+} from "../lib/stories/catalog";
+
+/**
+ * 公開故事目錄查詢單元測試
+ *
+ * - 以假 pg client 擷取 SQL 與參數，驗證只查 published、篩選條件與 keyset cursor
+ * - 驗證多取一筆時回傳 nextCursor，並附上第 1 頁封面
+ */
+
+function makeRow(i: number) {
+  return {
+    id: `00000000-0000-0000-0000-00000000000${i}`,
+    title_en: `Story ${i}`,
+    title_zh: `故事 ${i}`,
+    theme: "friendship",
+    age_range: "0-6",
+    published_at: new Date(Date.UTC(2026, 9, 10 - i)).toISOString(),
+    published_key: `2026-10-0${10 - i} 00:00:00.123456+00`,
+    synopsis_en: null,
+    synopsis_zh: null,
+    cover_uri: i === 1 ? "https://blob.test/cover-1.png" : null,
+    cover_format: i === 1 ? "png" : null,
+  };
+}
+
+describe("listPublishedStories", () => {
+  it("filters published stories and returns a cursor when more rows exist", async () => {
+    const client = { query: vi.fn(async () => ({ rows: [makeRow(1), makeRow(2), makeRow(3)] })) };
+    const query = storyListQuerySchema.parse({ theme: "friend", ageRange: "0-6", publishedFrom: "2026-01-01", limit: "2" });
+
+    const page = await listPublishedStories(query, client);
+
+    const [sql, values] = client.query.mock.calls[0] as unknown as [string, unknown[]];
+    expect(sql).toContain("(s.status = 'published' OR s.published_version_id IS NOT NULL)");
+    expect(sql).toContain("LEFT JOIN story_versions pv ON pv.id = s.published_version_id");
+    expect(sql).toContain("sp.page_number = 1");
+    expect(sql).toContain("ORDER BY s.published_at DESC, s.id DESC");
+    expect(values).toEqual(["%friend%", "0-6", "2026-01-01T00:00:00.000Z", 3]);
+
+    expect(page.items).toHaveLength(2);
+    expect(page.items[0].coverImage).toEqual({ uri: "https://blob.test/cover-1.png", format: "png" });
+    expect(page.items[1].coverImage).toBeNull();
+    expect(decodeCursor(page.nextCursor!)).toEqual({ k: makeRow(2).published_key, id: makeRow(2).id });
+  });
+
+  it("continues after the cursor when sorting by title", async () => {
+    const client = { query: vi.fn(async () => ({ rows: [makeRow(4)] })) };
+    const cursor = encodeCursor({ k: "Story 3", id: makeRow(3).id });
+
+    const page = await listPublishedStories(storyListQuerySchema.parse({ sort: "title", cursor }), client);
+
+    const [sql, values] = client.query.mock.calls[0] as unknown as [string, unknown[]];
+    expect(sql).toContain("(coalesce(pv.snapshot->>'titleEn', s.title_en), s.id) > ($1, $2::uuid)");
+    expect(sql).toContain("ORDER BY coalesce(pv.snapshot->>'titleEn', s.title_en) ASC, s.id ASC");
+    expect(values).toEqual(["Story 3", makeRow(3).id, 21]);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it("rejects malformed cursors and inverted date ranges", async () => {
+    const client = { query: vi.fn() };
+    await expect(listPublishedStories(storyListQuerySchema.parse({ cursor: "not-a-cursor" }), client)).rejects.toBeInstanceOf(
+      InvalidCursorError,
+    );
+    expect(storyListQuerySchema.safeParse({ publishedFrom: "2026-02-01", publishedTo: "2026-01-01" }).success).toBe(false);
+  });
+});
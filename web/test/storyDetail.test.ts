@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+/**
+ * 故事全文查詢單元測試
+ *
+ * - mock `db.query.stories.findFirst` 回傳 relations 結構
+ * - 驗證頁面依 pageNumber 排序、每頁媒體與故事影片的對應，以及未發布故事的處理
+ * - 有發布版本時讀者看到版本內容，管理者預覽看到目前內容；已退役的單字不出現在目前內容
+ * - 版本中的單字 id 對應到目前的列（記錄的 id 已不存在時依單字比對）
+ */
+
+const { findFirst, findMany } = vi.hoisted(() => ({ findFirst: vi.fn(), findMany: vi.fn() }));
+vi.mock("../db/client", () => ({ db: { query: { stories: { findFirst }, mediaAssets: { findMany } } } }));
+
+import { getStoryDetail } from "../lib/stories/detail";
+
+function media(id: string, extra: Record<string, unknown> = {}) {
+  return { id, uri: `https://blob.test/${id}`, format: "png", duration: null, pageId: null, createdAt: new Date("2026-10-01"), ...extra };
+}
+
+function storyRow(status = "published") {
+  return {
+    id: "11111111-1111-4111-8111-111111111111",
+    titleEn: "The Friendly Dragon",
+    titleZh: "友善的龍",
+    theme: "friendship",
+    ageRange: "0-6",
+    status,
+    publishedAt: new Date("2026-10-10T00:00:00Z"),
+    metadata: { synopsisEn: "A dragon shares.", synopsisZh: "龍分享。" },
+    pages: [
+      { pageNumber: 2, textEn: "Two", textZh: "二", wordCount: 1, mediaAsset: null, audioAsset: null },
+      {
+        pageNumber: 1,
+        textEn: "One",
+        textZh: "一",
+        wordCount: 1,
+        mediaAsset: media("img-1", { pageId: "p1" }),
+        audioAsset: media("aud-1", { pageId: "p1", format: "mp3", duration: "4.2" }),
+      },
+    ],
+    mediaAssets: [media("video-old", { format: "mp4" }), media("video-new", { format: "mp4", createdAt: new Date("2026-10-02") })],
+    vocabEntries: [
+      {
+        id: "v1",
+        word: "dragon",
+        partOfSpeech: "noun",
+        definitionEn: "A magical creature.",
+        definitionZh: "有魔法的生物。",
+        exampleSentence: null,
+        exampleTranslation: null,
+        cefrLevel: "A1",
+        retiredAt: null,
+      },
+      {
+        id: "v0",
+        word: "Castle",
+        partOfSpeech: "noun",
+        definitionEn: "A big stone house.",
+        definitionZh: "城堡。",
+        exampleSentence: null,
+        exampleTranslation: null,
+        cefrLevel: "A2",
+        retiredAt: new Date("2026-10-05"),
+      },
+    ],
+  };
+}
+
+describe("getStoryDetail", () => {
+  beforeEach(() => findFirst.mockReset());
+
+  it("assembles pages ordered by pageNumber with per-page media, video and vocabulary", async () => {
+    findFirst.mockResolvedValue(storyRow());
+
+    const detail = await getStoryDetail("11111111-1111-4111-8111-111111111111");
+
+    expect(detail?.pages.map((p) => p.pageNumber)).toEqual([1, 2]);
+    expect(detail?.pages[0].image?.uri).toBe("https://blob.test/img-1");
+    expect(detail?.pages[0].audio).toMatchObject({ format: "mp3", duration: "4.2" });
+    expect(detail?.pages[1].image).toBeNull();
+    expect(detail?.video?.id).toBe("video-new");
+    expect(detail?.synopsisZh).toBe("龍分享。");
+    expect(detail?.vocabulary.map((v) => v.id)).toEqual(["v1"]);
+    expect(detail?.publishedAt).toBe("2026-10-10T00:00:00.000Z");
+  });
+
+  it("hides unpublished stories unless publishedOnly is false", async () => {
+    findFirst.mockResolvedValue(storyRow("processing"));
+    expect(await getStoryDetail("11111111-1111-4111-8111-111111111111")).toBeNull();
+
+    const detail = await getStoryDetail("11111111-1111-4111-8111-111111111111", { publishedOnly: false });
+    expect(detail?.status).toBe("processing");
+  });
+
+  it("serves the published version to readers while the story is back in review", async () => {
+    const snapshot = {
+      titleEn: "The Kind Dragon",
+      titleZh: "善良的龍",
+      synopsisEn: null,
+      synopsisZh: null,
+      videoAssetId: "video-old",
+      pages: [
+        { pageNumber: 2, textEn: "Old two", textZh: "舊二", wordCount: 2, imageAssetId: null, audioAssetId: null },
+        { pageNumber: 1, textEn: "Old one", textZh: "舊一", wordCount: 2, imageAssetId: "img-old", audioAssetId: null },
+      ],
+      vocabulary: [],
+    };
+    findFirst.mockResolvedValue({ ...storyRow("pending_review"), publishedVersion: { id: "ver-1", snapshot } });
+    findMany.mockResolvedValue([media("img-old"), media("video-old", { format: "mp4" })]);
+
+    const detail = await getStoryDetail("11111111-1111-4111-8111-111111111111");
+    expect(detail).toMatchObject({ titleEn: "The Kind Dragon", status: "published", synopsisEn: null, vocabulary: [] });
+    expect(detail?.pages.map((p) => p.textEn)).toEqual(["Old one", "Old two"]);
+    expect(detail?.pages[0].image?.id).toBe("img-old");
+    expect(detail?.video?.id).toBe("video-old");
+
+    const preview = await getStoryDetail("11111111-1111-4111-8111-111111111111", { publishedOnly: false });
+    expect(preview?.titleEn).toBe("The Friendly Dragon");
+    expect(preview?.status).toBe("pending_review");
+  });
+
+  it("points published vocabulary at the story's current rows, matching by word when the recorded id is gone", async () => {
+    const entry = (id: string, word: string) => ({
+      id,
+      word,
+      partOfSpeech: "noun",
+      definitionEn: "d",
+      definitionZh: "定義",
+      exampleSentence: null,
+      exampleTranslation: null,
+      cefrLevel: null,
+    });
+    const snapshot = {
+      titleEn: "The Kind Dragon",
+      titleZh: "善良的龍",
+      synopsisEn: null,
+      synopsisZh: null,
+      videoAssetId: null,
+      pages: [],
+      vocabulary: [entry("v0", "castle"), entry("v-deleted", "Dragon"), entry("v-gone", "moat")],
+    };
+    findFirst.mockResolvedValue({ ...storyRow("pending_review"), publishedVersion: { id: "ver-1", snapshot } });
+    findMany.mockResolvedValue([]);
+
+    const detail = await getStoryDetail("11111111-1111-4111-8111-111111111111");
+    expect(detail?.vocabulary.map((v) => [v.word, v.id])).toEqual([
+      ["castle", "v0"],
+      ["Dragon", "v1"],
+      ["moat", "v-gone"],
+    ]);
+  });
+
+  it("returns null when the story does not exist", async () => {
+    findFirst.mockResolvedValue(undefined);
+    expect(await getStoryDetail("11111111-1111-4111-8111-111111111111")).toBeNull();
+  });
+});
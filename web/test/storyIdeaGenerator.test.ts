@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from "vitest";
+import { StoryIdeaGenerator, isNearDuplicateTheme, themeSimilarity } from "../lib/openai/StoryIdeaGenerator";
+import type { OpenAIAdapter } from "../lib/openai/types";
+
+/**
+ * StoryIdeaGenerator 單元測試
+ *
+ * - 注入 mock OpenAI adapter 回傳候選主題
+ * - 驗證與過往主題或彼此相近的候選會被過濾，並依 count 截斷
+ */
+describe("theme similarity", () => {
+  it("treats reworded themes as near-duplicates", () => {
+    expect(themeSimilarity("A brave bunny learns to share", "The brave bunnies learn sharing")).toBeGreaterThan(0);
+    expect(isNearDuplicateTheme("The Brave Bunny Learns to Share!", ["A brave bunny learns to share"])).toBe(true);
+    expect(isNearDuplicateTheme("A penguin visits the beach", ["A brave bunny learns to share"])).toBe(false);
+  });
+});
+
+describe("StoryIdeaGenerator.generate", () => {
+  it("drops candidates that duplicate past themes or each other", async () => {
+    const ai: OpenAIAdapter = {
+      createChatCompletion: vi.fn(async () => ({
+        data: {
+          ideas: [
+            { theme: "A brave bunny learns to share", tone: "warm", summary_en: "dup of past" },
+            { theme: "A sleepy bear counts stars", tone: "calm" },
+            { theme: "The sleepy bear counting stars", tone: "calm" },
+            { theme: "A kite that wants to dance", tone: "playful" },
+            { theme: "Grandpa's garden of giant pumpkins", tone: "warm" },
+          ],
+        },
+      })) as OpenAIAdapter["createChatCompletion"],
+    };
+    const generator = new StoryIdeaGenerator(ai);
+
+    const ideas = await generator.generate({ ageRange: "3-5", count: 2, pastThemes: ["A brave bunny learns to share"] });
+
+    expect(ideas).toEqual([
+      { theme: "A sleepy bear counts stars", tone: "calm", summaryEn: undefined },
+      { theme: "A kite that wants to dance", tone: "playful", summaryEn: undefined },
+    ]);
+    const [params] = vi.mocked(ai.createChatCompletion).mock.calls[0] as [{ messages: Array<{ content: string }> }];
+    expect(JSON.parse(params.messages[1].content)).toMatchObject({ age_range: "3-5", avoid_themes: ["A brave bunny learns to share"] });
+  });
+});
@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from "vitest";
+
+vi.mock("../lib/utils/pgPool", () => ({ getPgPool: vi.fn(), withTransaction: vi.fn() }));
+
+import { applyRegenerationResult, replaceVocabEntries, requestStoryRegeneration } from "../lib/generation/storyRegeneration";
+import { StoryGenerationOrchestrator } from "../lib/openai/StoryGenerationOrchestrator";
+import { KeywordModerationAdapter } from "../lib/openai/ContentSafety";
+import type ErrorHandler from "../lib/openai/ErrorHandler";
+import type { OpenAIAdapter } from "../lib/openai/types";
+import type { StorySnapshot } from "../lib/stories/versions";
+import {
+  createTestDatabase,
+  fakeClient,
+  seedPage,
+  seedStory,
+  seedUser,
+  seedVocab,
+  TEST_DATABASE_TIMEOUT_MS,
+  type TestDatabase,
+} from "./helpers/pg";
+
+/**
+ * 單頁 / 單一階段重新生成單元測試
+ *
+ * - 請求：故事有進行中的 job 時拒絕，否則依範圍建立 job 並寫入 audit_logs
+ * - 寫入：先保存目前內容為版本，只更新受影響的頁面 / 單字，過期媒體 job 轉為 cancelled，新媒體 job 相依於本次 job
+ * - 精選單字（記憶體 Postgres）：不再選用的單字標記 retired_at 而不刪除，收藏與複習進度保留；再次選用時恢復同一列
+ * - Orchestrator.regenerate：單頁只改寫並翻譯該頁，其餘頁面不變；失敗記錄於本次重新生成 job
+ */
+
+const story = {
+  titleEn: "Pip's Garden",
+  synopsisEn: "Pip grows a garden.",
+  pages: Array.from({ length: 10 }, (_, i) => ({ pageNumber: i + 1, textEn: `Pip waters plant ${i + 1}.` })),
+};
+const translation = {
+  titleZh: "皮皮的花園",
+  pages: Array.from({ length: 10 }, (_, i) => ({ pageNumber: i + 1, textZh: `皮皮替第${i + 1}株植物澆水。` })),
+};
+
+describe("requestStoryRegeneration", () => {
+  it("creates a job for the scope and audits the request", async () => {
+    let jobCount = 0;
+    const client = fakeClient((text) => {
+      if (text.includes("FROM stories s")) return [{ id: "story-1", theme: "garden", age_range: "3-4", has_pages: true, busy: false }];
+      if (text.includes("INSERT INTO generation_jobs")) return [{ id: `job-${++jobCount}` }];
+      return [];
+    });
+
+    const result = await requestStoryRegeneration(client, "story-1", { stage: "page", pageNumber: 4 }, "admin-1");
+
+    expect(result).toEqual({ ok: true, jobId: "job-1" });
+    expect(client.queries[0].values).toEqual(["story-1", 4]);
+    const insert = client.queries.find((q) => q.text.includes("INSERT INTO generation_jobs"))!;
+    expect(insert.values?.[1]).toBe("story_script");
+    expect(JSON.parse(String(insert.values?.[2]))).toMatchObject({ regenerate: true, scope: { stage: "page", pageNumber: 4 }, ageRange: "3-4" });
+    const audit = client.queries.find((q) => q.text.includes("INSERT INTO audit_logs"))!;
+    expect(audit.values?.slice(0, 2)).toEqual(["admin-1", "admin.story.regenerate"]);
+  });
+
+  it("refuses while the story still has jobs in progress", async () => {
+    const client = fakeClient((text) =>
+      text.includes("FROM stories s") ? [{ id: "story-1", theme: "garden", age_range: "5-6", has_pages: true, busy: true }] : [],
+    );
+
+    await expect(requestStoryRegeneration(client, "story-1", { stage: "vocabulary" }, "admin-1")).resolves.toEqual({
+      ok: false,
+      error: "story has generation jobs in progress",
+    });
+    expect(client.queries.some((q) => q.text.includes("INSERT INTO generation_jobs"))).toBe(false);
+  });
+});
+
+describe("applyRegenerationResult", () => {
+  it("updates only the regenerated page and replaces its media jobs", async () => {
+    let jobCount = 0;
+    const client = fakeClient((text) => (text.includes("INSERT INTO generation_jobs") ? [{ id: `new-${++jobCount}` }] : []));
+    const regenerated = {
+      story: { ...story, pages: story.pages.map((p) => (p.pageNumber === 4 ? { ...p, textEn: "Pip hugs a big sunflower." } : p)) },
+      translation: { ...translation, pages: translation.pages.map((p) => (p.pageNumber === 4 ? { ...p, textZh: "皮皮抱住大向日葵。" } : p)) },
+      usages: {},
+    };
+
+    const ids = await applyRegenerationResult(client, "story-1", { stage: "page", pageNumber: 4 }, regenerated, {
+      parentJobId: "regen-job",
+      ageRange: "3-4",
+    });
+
+    expect(ids).toEqual(["new-1", "new-2"]);
+    // 寫入前先保存目前內容為版本
+    expect(client.queries[0].text).toContain("FROM stories s");
+    const pageUpdates = client.queries.filter((q) => q.text.includes("UPDATE story_pages"));
+    expect(pageUpdates).toHaveLength(1);
+    expect(pageUpdates[0].text).toContain("media_asset_id = NULL, audio_asset_id = NULL");
+    expect(pageUpdates[0].values).toEqual(["story-1", 4, "Pip hugs a big sunflower.", "皮皮抱住大向日葵。", 5]);
+    const cancel = client.queries.find((q) => q.text.includes("SET status = 'cancelled'"))!;
+    expect(cancel.values).toEqual(["story-1", ["image", "audio"], [4]]);
+    const audioJob = client.queries.find((q) => q.values?.[1] === "audio")!;
+    expect(JSON.parse(String(audioJob.values?.[3]))).toEqual({
+      pageNumber: 4,
+      textEn: "Pip hugs a big sunflower.",
+      textZh: "皮皮抱住大向日葵。",
+      narrationSpeed: 0.9,
+    });
+    expect(client.queries.find((q) => q.text.includes("generation_job_dependencies"))?.values).toEqual([["new-1", "new-2"], "regen-job"]);
+    expect(client.queries.some((q) => q.text.includes("vocab_entries"))).toBe(false);
+    expect(client.queries.at(-1)?.text).toContain("SET status = 'processing'");
+  });
+});
+
+describe("replaceVocabEntries", () => {
+  let db: TestDatabase;
+  let storyId: string;
+  let userId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  }, TEST_DATABASE_TIMEOUT_MS);
+  afterAll(() => db.close());
+
+  beforeEach(async () => {
+    await db.reset();
+    userId = await seedUser(db, "parent@example.com", "parent");
+    storyId = await seedStory(db);
+  });
+
+  const entry = (word: string) => ({
+    word,
+    partOfSpeech: "noun",
+    definitionEn: `new ${word}`,
+    definitionZh: "新定義",
+    exampleSentence: "e",
+    exampleTranslation: "例",
+  });
+
+  it("retires dropped words instead of deleting them so favourites and review progress survive", async () => {
+    await seedPage(db, storyId, 1);
+    const garden = await seedVocab(db, storyId, "garden");
+    const tree = await seedVocab(db, storyId, "tree");
+    await db.query(
+      `INSERT INTO user_vocab_favorites (user_id, vocab_entry_id, repetitions, interval_days) VALUES ($1, $2, 3, 6), ($1, $3, 1, 1)`,
+      [userId, garden, tree],
+    );
+
+    await applyRegenerationResult(
+      db,
+      storyId,
+      { stage: "vocabulary" },
+      { story, translation, vocabulary: { entries: [entry("Garden"), entry("seed")] }, usages: {} },
+      { parentJobId: "regen-job" },
+    );
+
+    const rows = await db.query(`SELECT id, word, definition_en, retired_at FROM vocab_entries WHERE story_id = $1 ORDER BY lower(word)`, [
+      storyId,
+    ]);
+    expect(rows.rows.map((r) => [r.word, r.retired_at === null])).toEqual([
+      ["Garden", true],
+      ["seed", true],
+      ["tree", false],
+    ]);
+    expect(rows.rows[0]).toMatchObject({ id: garden, definition_en: "new Garden" });
+    const favorites = await db.query(
+      `SELECT vocab_entry_id, repetitions, interval_days FROM user_vocab_favorites WHERE user_id = $1 ORDER BY repetitions DESC`,
+      [userId],
+    );
+    expect(favorites.rows).toEqual([
+      { vocab_entry_id: garden, repetitions: 3, interval_days: 6 },
+      { vocab_entry_id: tree, repetitions: 1, interval_days: 1 },
+    ]);
+    const backup = await db.query(`SELECT snapshot FROM story_versions WHERE story_id = $1`, [storyId]);
+    expect((backup.rows[0].snapshot as StorySnapshot).vocabulary.map((v) => v.id)).toEqual([garden, tree]);
+    const jobs = await db.query(`SELECT count(*)::int AS count FROM generation_jobs`);
+    expect(jobs.rows[0].count).toBe(0);
+  });
+
+  it("brings a retired word back on the same row when it is selected again", async () => {
+    const tree = await seedVocab(db, storyId, "tree");
+    await replaceVocabEntries(db, storyId, [entry("garden")]);
+    await replaceVocabEntries(db, storyId, [entry("Tree")]);
+
+    const rows = await db.query(`SELECT id, word FROM vocab_entries WHERE story_id = $1 AND retired_at IS NULL`, [storyId]);
+    expect(rows.rows).toEqual([{ id: tree, word: "Tree" }]);
+  });
+});
+
+describe("StoryGenerationOrchestrator.regenerate", () => {
+  it("rewrites and translates only the requested page", async () => {
+    const ai = {
+      createChatCompletion: vi.fn(async (params: { messages: Array<{ role: string; content: string }> }) => {
+        const system = params.messages[0].content;
+        if (system.includes("revising a picture book")) return { data: { pages: [{ page_number: 4, text_en: "Pip hugs a big sunflower." }] } };
+        if (system.includes("bilingual translator")) {
+          return { data: { title_zh: "皮皮的花園", pages: [{ page_number: 4, text_zh: "皮皮抱住大向日葵。" }] } };
+        }
+        throw new Error("unexpected prompt");
+      }),
+    };
+    const errorHandler = { recordFailure: vi.fn(async () => undefined) } as unknown as ErrorHandler;
+    const orchestrator = new StoryGenerationOrchestrator(ai as unknown as OpenAIAdapter, errorHandler, new KeywordModerationAdapter());
+
+    const result = await orchestrator.regenerate(
+      { storyId: "story-1", theme: "garden", tone: "warm", ageRange: "5-6", regenerate: true },
+      { story, translation },
+      { stage: "page", pageNumber: 4 },
+      "regen-job",
+    );
+
+    expect(result.story.pages[3].textEn).toBe("Pip hugs a big sunflower.");
+    expect(result.translation.pages[3].textZh).toBe("皮皮抱住大向日葵。");
+    expect(result.story.pages[4]).toEqual(story.pages[4]);
+    expect(result.translation.pages[4]).toEqual(translation.pages[4]);
+    expect(result.readability?.pages.map((p) => p.pageNumber)).toEqual([4]);
+    expect(result.vocabulary).toBeUndefined();
+    const translated = JSON.parse(ai.createChatCompletion.mock.calls[1][0].messages[1].content);
+    expect(translated.pages).toEqual([{ page_number: 4, text_en: "Pip hugs a big sunflower." }]);
+  });
+
+  it("records a failure against the regeneration job", async () => {
+    const ai = { createChatCompletion: vi.fn(async () => Promise.reject(new Error("model exploded"))) };
+    const errorHandler = { recordFailure: vi.fn(async () => undefined) };
+    const orchestrator = new StoryGenerationOrchestrator(
+      ai as unknown as OpenAIAdapter,
+      errorHandler as unknown as ErrorHandler,
+      new KeywordModerationAdapter(),
+    );
+
+    await expect(
+      orchestrator.regenerate(
+        { storyId: "story-1", theme: "garden", tone: "warm", ageRange: "5-6", regenerate: true },
+        { story, translation },
+        { stage: "translation" },
+        "regen-job",
+      ),
+    ).rejects.toThrow("model exploded");
+
+    expect(errorHandler.recordFailure).toHaveBeenCalledWith(
+      expect.objectContaining({ generationJobId: "regen-job", stage: "regenerate:translation" }),
+      expect.any(Error),
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from "vitest";
+
+vi.mock("../lib/utils/pgPool", () => ({ getPgPool: vi.fn() }));
+
+import { approveStory, rejectReasonSchema, rejectStory, updateStoryPage } from "../lib/admin/storyReview";
+import {
+  auditOf,
+  createTestDatabase,
+  fakeClient,
+  seedJob,
+  seedPage,
+  seedStory,
+  seedUser,
+  TEST_DATABASE_TIMEOUT_MS,
+  type TestDatabase,
+} from "./helpers/pg";
+
+/**
+ * 故事審核單元測試
+ *
+ * - 核准 / 退回只作用於 pending_review 的故事，並寫入 audit_logs；核准時建立發布版本
+ * - 單頁修改（記憶體 Postgres）重新計算 word_count、清除該頁配音並建立配音與影片 job，audit_logs 保留修改前後內容
+ */
+
+describe("approveStory", () => {
+  it("publishes a story awaiting review and audits the decision", async () => {
+    const client = fakeClient((text) => (text.includes("UPDATE stories") ? [{ id: "story-1" }] : []));
+
+    await expect(approveStory(client, "story-1", "admin-1")).resolves.toBe(true);
+
+    expect(client.queries[0].text).toContain("SET status = 'published', published_at = coalesce(published_at, now())");
+    expect(client.queries[0].text).toContain("status = 'pending_review'");
+    expect(auditOf(client)).toEqual({ userId: "admin-1", action: "admin.story.approve", context: { storyId: "story-1", changed: true } });
+  });
+
+  it("saves the approved content as the published version", async () => {
+    const client = fakeClient((text) => {
+      if (text.includes("UPDATE stories")) return [{ id: "story-1" }];
+      if (text.includes("AS video_asset_id")) return [{ title_en: "Pip's Garden", title_zh: "皮皮的花園", video_asset_id: null }];
+      if (text.includes("INSERT INTO story_versions")) return [{ id: "ver-1", version_number: 1 }];
+      return [];
+    });
+
+    await expect(approveStory(client, "story-1", "admin-1")).resolves.toBe(true);
+
+    expect(client.queries.find((q) => q.text.includes("INSERT INTO story_versions"))?.values?.slice(0, 2)).toEqual(["story-1", "published"]);
+    expect(client.queries.find((q) => q.text.includes("published_version_id"))?.values).toEqual(["story-1", "ver-1"]);
+    expect(auditOf(client).context).toEqual({ storyId: "story-1", changed: true, versionNumber: 1 });
+  });
+
+  it("reports no change for a story that is not awaiting review", async () => {
+    const client = fakeClient();
+    await expect(approveStory(client, "story-1", "admin-1")).resolves.toBe(false);
+    expect(auditOf(client).context.changed).toBe(false);
+  });
+});
+
+describe("rejectStory", () => {
+  it("moves the story back to draft with the reason", async () => {
+    const client = fakeClient((text) => (text.includes("UPDATE stories") ? [{ id: "story-1" }] : []));
+
+    await expect(rejectStory(client, "story-1", "admin-1", "Page 3 is too scary")).resolves.toBe(true);
+
+    expect(client.queries[0].text).toContain("SET status = 'draft'");
+    expect(client.queries[0].values).toEqual(["story-1", "admin-1", "Page 3 is too scary"]);
+    expect(auditOf(client).context).toEqual({ storyId: "story-1", changed: true, reason: "Page 3 is too scary" });
+  });
+
+  it("requires a non-blank reason", () => {
+    expect(rejectReasonSchema.safeParse("   ").success).toBe(false);
+    expect(rejectReasonSchema.parse("  off-topic ")).toBe("off-topic");
+  });
+});
+
+describe("updateStoryPage", () => {
+  let db: TestDatabase;
+  let adminId: string;
+  let storyId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  }, TEST_DATABASE_TIMEOUT_MS);
+  afterAll(() => db.close());
+
+  beforeEach(async () => {
+    await db.reset();
+    adminId = await seedUser(db);
+    storyId = await seedStory(db, { status: "pending_review" });
+  });
+
+  it("updates the text, re-narrates the page and re-renders the video", async () => {
+    await seedPage(db, storyId, 3, { textEn: "The cat sat.", textZh: "貓坐著。", withAudio: true });
+    const oldVideo = await seedJob(db, storyId, "video", "failed");
+
+    const edit = { textEn: "The little cat sat down.", textZh: "小貓坐了下來。" };
+    const result = await updateStoryPage(db, storyId, 3, edit, adminId);
+
+    expect(result.changed).toBe(true);
+    expect(result.jobIds).toHaveLength(1);
+    const page = await db.query(`SELECT text_en, text_zh, word_count, audio_asset_id FROM story_pages WHERE story_id = $1`, [storyId]);
+    expect(page.rows[0]).toEqual({ text_en: edit.textEn, text_zh: edit.textZh, word_count: 5, audio_asset_id: null });
+    const audio = await db.query(`SELECT job_type, status, payload FROM generation_jobs WHERE id = $1`, [result.jobIds[0]]);
+    expect(audio.rows[0]).toMatchObject({ job_type: "audio", status: "pending", payload: { pageNumber: 3, textEn: edit.textEn, textZh: edit.textZh } });
+    const video = await db.query(
+      `SELECT j.status, d.depends_on_job_id FROM generation_jobs j
+       JOIN generation_job_dependencies d ON d.job_id = j.id
+       WHERE j.story_id = $1 AND j.job_type = 'video'`,
+      [storyId],
+    );
+    expect(video.rows).toEqual([{ status: "blocked", depends_on_job_id: result.jobIds[0] }]);
+    expect(await db.jobStatus(oldVideo)).toBe("cancelled");
+    expect((await db.query(`SELECT status FROM stories WHERE id = $1`, [storyId])).rows[0].status).toBe("processing");
+    const audit = await db.query(`SELECT action, context FROM audit_logs`);
+    expect(audit.rows[0]).toMatchObject({
+      action: "admin.story.edit_page",
+      context: { storyId, pageNumber: 3, before: { textEn: "The cat sat.", textZh: "貓坐著。" }, after: edit },
+    });
+  });
+
+  it("does not change or audit a story that is not awaiting review", async () => {
+    await db.query(`UPDATE stories SET status = 'published' WHERE id = $1`, [storyId]);
+    await seedPage(db, storyId, 3, { withAudio: true });
+
+    await expect(updateStoryPage(db, storyId, 3, { textEn: "a", textZh: "b" }, adminId)).resolves.toEqual({ changed: false, jobIds: [] });
+    expect((await db.query(`SELECT count(*)::int AS count FROM generation_jobs`)).rows[0].count).toBe(0);
+    expect((await db.query(`SELECT count(*)::int AS count FROM audit_logs`)).rows[0].count).toBe(0);
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+
+vi.mock("../lib/utils/pgPool", () => ({ getPgPool: vi.fn(), withTransaction: vi.fn() }));
+
+import { rollbackStoryToVersion } from "../lib/admin/storyReview";
+import { createStoryVersion, diffStorySnapshots, type StorySnapshot } from "../lib/stories/versions";
+import {
+  createTestDatabase,
+  fakeClient,
+  seedPage,
+  seedStory,
+  seedVocab,
+  TEST_DATABASE_TIMEOUT_MS,
+  type TestDatabase,
+} from "./helpers/pg";
+
+/**
+ * 故事版本單元測試
+ *
+ * - 建立版本：保存目前的頁面 / 單字 / 影片，序號為該故事的下一號
+ * - 差異：標題、頁面文字與媒體、單字的新增 / 刪除 / 修改
+ * - 回復：先保存目前內容，回復頁面與單字並回到審核；影片不同時建立 video job
+ * - migration 0011（記憶體 Postgres）：既有的已發布故事補上發布版本並設定 published_version_id
+ */
+
+function snapshot(overrides: Partial<StorySnapshot> = {}): StorySnapshot {
+  return {
+    titleEn: "Pip's Garden",
+    titleZh: "皮皮的花園",
+    synopsisEn: "Pip grows a garden.",
+    synopsisZh: null,
+    videoAssetId: "video-1",
+    pages: [1, 2, 3].map((n) => ({
+      pageNumber: n,
+      textEn: `Pip waters plant ${n}.`,
+      textZh: `皮皮替第${n}株植物澆水。`,
+      wordCount: 4,
+      imageAssetId: `img-${n}`,
+      audioAssetId: `aud-${n}`,
+    })),
+    vocabulary: ["garden", "seed"].map((word) => ({
+      id: `v-${word}`,
+      word,
+      partOfSpeech: "noun",
+      definitionEn: "d",
+      definitionZh: "定義",
+      exampleSentence: null,
+      exampleTranslation: null,
+      cefrLevel: "A1",
+    })),
+    ...overrides,
+  };
+}
+
+/**
+ * Helper: 回應 captureStorySnapshot 的查詢（目前內容）
+ * @param text SQL
+ * @param current 目前內容
+ */
+function liveRows(text: string, current: StorySnapshot): Record<string, unknown>[] | null {
+  if (text.includes("AS video_asset_id")) {
+    return [{ title_en: current.titleEn, title_zh: current.titleZh, synopsis_en: current.synopsisEn, video_asset_id: current.videoAssetId }];
+  }
+  if (text.includes("FROM story_pages WHERE story_id = $1 ORDER BY page_number")) {
+    return current.pages.map((p) => ({
+      page_number: p.pageNumber,
+      text_en: p.textEn,
+      text_zh: p.textZh,
+      word_count: p.wordCount,
+      media_asset_id: p.imageAssetId,
+      audio_asset_id: p.audioAssetId,
+    }));
+  }
+  if (text.includes("FROM vocab_entries WHERE story_id = $1")) return [];
+  return null;
+}
+
+describe("createStoryVersion", () => {
+  it("saves the live content under the next version number", async () => {
+    const client = fakeClient((text) => liveRows(text, snapshot()) ?? (text.includes("INSERT INTO story_versions") ? [{ id: "ver-3", version_number: 3 }] : []));
+
+    await expect(createStoryVersion(client, "story-1", "regeneration", null)).resolves.toEqual({ id: "ver-3", versionNumber: 3 });
+
+    const insert = client.queries.find((q) => q.text.includes("INSERT INTO story_versions"))!;
+    expect(insert.text).toContain("coalesce(max(version_number), 0) + 1");
+    expect(insert.values?.[1]).toBe("regeneration");
+    const saved = JSON.parse(String(insert.values?.[2])) as StorySnapshot;
+    expect(saved.videoAssetId).toBe("video-1");
+    expect(saved.pages[1]).toEqual(snapshot().pages[1]);
+  });
+
+  it("does nothing for a missing story", async () => {
+    const client = fakeClient();
+    await expect(createStoryVersion(client, "story-1", "published", "admin-1")).resolves.toBeNull();
+    expect(client.queries.some((q) => q.text.includes("INSERT INTO story_versions"))).toBe(false);
+  });
+});
+
+describe("diffStorySnapshots", () => {
+  it("reports changed fields, pages, media and vocabulary", () => {
+    const base = snapshot();
+    const next = snapshot({
+      titleZh: "皮皮的大花園",
+      videoAssetId: "video-2",
+      pages: [
+        base.pages[0],
+        { ...base.pages[1], textEn: "Pip hugs a big sunflower." },
+        { ...base.pages[2], imageAssetId: "img-3b" },
+        { ...base.pages[2], pageNumber: 4 },
+      ],
+      vocabulary: [{ ...base.vocabulary[0], definitionZh: "花園" }, { ...base.vocabulary[0], id: "v-pot", word: "pot" }],
+    });
+
+    const diff = diffStorySnapshots(base, next);
+
+    expect(diff.fields).toEqual([{ field: "titleZh", from: "皮皮的花園", to: "皮皮的大花園" }]);
+    expect(diff.videoChanged).toBe(true);
+    expect(diff.pages.map((p) => [p.pageNumber, p.change, p.textChanged, p.mediaChanged])).toEqual([
+      [1, "unchanged", false, false],
+      [2, "changed", true, false],
+      [3, "changed", false, true],
+      [4, "added", true, true],
+    ]);
+    expect(diff.vocabulary).toEqual({ added: ["pot"], removed: ["seed"], changed: ["garden"] });
+  });
+});
+
+describe("rollbackStoryToVersion", () => {
+  const target = snapshot({ titleEn: "Pip's First Garden" });
+
+  function rollbackClient(current: StorySnapshot, busy = false) {
+    return fakeClient((text, values) => {
+      if (text.includes("FOR UPDATE OF s")) return [{ id: "story-1", busy }];
+      if (text.includes("v.snapshot")) {
+        return [{ id: "ver-2", version_number: 2, reason: "published", snapshot: target, created_at: "2026-10-01T00:00:00Z", published: true }];
+      }
+      const live = liveRows(text, current);
+      if (live) return live;
+      if (text.includes("INSERT INTO story_versions")) return [{ id: "ver-5", version_number: 5 }];
+      if (text.includes("UPDATE story_pages")) return values?.[1] === 3 ? [] : [{ id: `page-${values?.[1]}` }];
+      if (text.trimStart().startsWith("SELECT id FROM media_assets")) return current.videoAssetId ? [{ id: current.videoAssetId }] : [];
+      if (text.includes("INSERT INTO generation_jobs")) return [{ id: "video-job" }];
+      return [];
+    });
+  }
+
+  it("saves the current content, restores the version and sends the story back to review", async () => {
+    const current = snapshot({ titleEn: "Pip's Garden (regenerated)", pages: snapshot().pages.slice(0, 2) });
+    const client = rollbackClient(current);
+
+    await expect(rollbackStoryToVersion(client, "story-1", 2, "admin-1")).resolves.toEqual({ ok: true, videoJobId: null });
+
+    const backupIndex = client.queries.findIndex((q) => q.text.includes("INSERT INTO story_versions"));
+    const firstWrite = client.queries.findIndex((q) => q.text.includes("UPDATE story_pages"));
+    expect(backupIndex).toBeGreaterThan(-1);
+    expect(backupIndex).toBeLessThan(firstWrite);
+    expect(client.queries[backupIndex].values?.[1]).toBe("rollback");
+
+    const pageUpdates = client.queries.filter((q) => q.text.includes("UPDATE story_pages"));
+    expect(pageUpdates.map((q) => q.values?.slice(1, 3))).toEqual([
+      [1, "Pip waters plant 1."],
+      [2, "Pip waters plant 2."],
+      [3, "Pip waters plant 3."],
+    ]);
+    const pageInsert = client.queries.find((q) => q.text.includes("INSERT INTO story_pages"))!;
+    expect(pageInsert.values).toEqual(["story-1", 3, "Pip waters plant 3.", "皮皮替第3株植物澆水。", 4, "img-3", "aud-3"]);
+    const vocabRetire = client.queries.find((q) => q.text.includes("UPDATE vocab_entries SET retired_at = now()"))!;
+    expect(vocabRetire.values).toEqual(["story-1", ["garden", "seed"]]);
+
+    const storyUpdate = client.queries.find((q) => q.text.includes("SET title_en = $2"))!;
+    expect(storyUpdate.values?.slice(0, 4)).toEqual(["story-1", "Pip's First Garden", "皮皮的花園", "pending_review"]);
+    expect(JSON.parse(String(storyUpdate.values?.[4]))).toMatchObject({
+      synopsisEn: "Pip grows a garden.",
+      lastRollback: { versionNumber: 2, backupVersionNumber: 5 },
+    });
+    expect(client.queries.some((q) => q.text.includes("INSERT INTO generation_jobs"))).toBe(false);
+    const audit = client.queries.find((q) => q.text.includes("INSERT INTO audit_logs"))!;
+    expect(audit.values?.slice(0, 2)).toEqual(["admin-1", "admin.story.rollback"]);
+  });
+
+  it("queues a video job when the version's video is not the latest one", async () => {
+    const client = rollbackClient(snapshot({ videoAssetId: "video-2" }));
+
+    await expect(rollbackStoryToVersion(client, "story-1", 2, "admin-1")).resolves.toEqual({ ok: true, videoJobId: "video-job" });
+
+    const storyUpdate = client.queries.find((q) => q.text.includes("SET title_en = $2"))!;
+    expect(storyUpdate.values?.[3]).toBe("processing");
+  });
+
+  it("refuses while the story still has jobs in progress", async () => {
+    const client = rollbackClient(snapshot(), true);
+
+    await expect(rollbackStoryToVersion(client, "story-1", 2, "admin-1")).resolves.toEqual({
+      ok: false,
+      error: "story has generation jobs in progress",
+    });
+    expect(client.queries).toHaveLength(1);
+  });
+});
+
+describe("0011_story_versions migration", () => {
+  let db: TestDatabase;
+
+  beforeAll(async () => {
+    db = await createTestDatabase({ stopBefore: "0011" });
+  }, TEST_DATABASE_TIMEOUT_MS);
+  afterAll(() => db.close());
+
+  it("backfills a published version for stories that were already published", async () => {
+    const published = await seedStory(db, { status: "published", metadata: { synopsisEn: "Pip grows a garden." } });
+    await seedPage(db, published, 2, { textEn: "Pip waters it." });
+    const { audioAssetId } = await seedPage(db, published, 1, { withAudio: true });
+    const garden = await seedVocab(db, published, "garden");
+    const draft = await seedStory(db, { status: "processing" });
+
+    await db.migrate();
+
+    const stories = await db.query(`SELECT id, published_version_id FROM stories`);
+    const versionOf = (id: string) => stories.rows.find((r) => r.id === id)?.published_version_id;
+    expect(versionOf(draft)).toBeNull();
+    const version = await db.query(`SELECT version_number, reason, snapshot FROM story_versions WHERE id = $1`, [versionOf(published)]);
+    expect(version.rows[0]).toMatchObject({ version_number: 1, reason: "published" });
+    const snapshot = version.rows[0].snapshot as StorySnapshot;
+    expect(snapshot).toMatchObject({ titleEn: "Pip's Garden", synopsisEn: "Pip grows a garden.", synopsisZh: null, videoAssetId: null });
+    expect(snapshot.pages.map((p) => [p.pageNumber, p.audioAssetId])).toEqual([
+      [1, audioAssetId],
+      [2, null],
+    ]);
+    expect(snapshot.vocabulary).toEqual([
+      {
+        id: garden,
+        word: "garden",
+        partOfSpeech: "noun",
+        definitionEn: "a garden",
+        definitionZh: "garden（定義）",
+        exampleSentence: null,
+        exampleTranslation: null,
+        cefrLevel: null,
+      },
+    ]);
+  });
+});
@@ -5,13 +5,13 @@ import { it, expect, vi, beforeEach } from "vitest";
  * Upstash 推送路徑單元測試
  *
  * 測試項目：
- *  - 當設定 UPSTASH_REDIS_URL 時，程式會動態 import("ioredis") 並使用 client.rpush 推送每個 message。
+ *  - 當設定 UPSTASH_REDIS_URL 時，程式會動態 import("ioredis") 並使用 client.xadd 將每個 message 寫入 stream。
  *  - 當未設定 UPSTASH_REST_URL 但有 UPSTASH_REST_TOKEN 時，會使用 fetch 推送 REST 請求。
  *
  * 設計要點：
  *  - 每個測試都會呼叫 vi.resetModules() 並在動態 import 之前設定 process.env，以確保 env 模組重新解析。
  *  - 使用 vi.mock() 模擬 ../db/client 的 transaction 與 insert/...returning() 行為，使 persistGenerationResult 可以順利運作。
- *  - 以全域變數收集 ioredis.rpush 呼叫或 fetch 呼叫以便斷言（避免 vi.mock factory 與測試作用域 closure 問題）。
+ *  - 以全域變數收集 ioredis.xadd 呼叫或 fetch 呼叫以便斷言（避免 vi.mock factory 與測試作用域 closure 問題）。
  */
 
 /**
@@ -45,8 +45,8 @@ function makeDbClientMock(fakeJobId = "fake-job-id") {
 beforeEach(() => {
   // 在每個測試開始時清除 module cache 以利重新解析 env
   vi.resetAllMocks();
-  // 清空全域暫存（供 mock 收集 rpush / fetch 呼叫用）
-  (globalThis as any).__rpushCalls = [];
+  // 清空全域暫存（供 mock 收集 xadd / fetch 呼叫用）
+  (globalThis as any).__xaddCalls = [];
   (globalThis as any).__fetchCalls = [];
 });
 
@@ -70,10 +70,10 @@ it("pushes jobs to Upstash via ioredis client when UPSTASH_REDIS_URL is set", as
       constructor(_url: string, _opts: any) {
         // noop
       }
-      async rpush(queue: string, msg: string) {
+      async xadd(stream: string, id: string, field: string, msg: string) {
         // push 到全域陣列，避免 closure splice 問題
-        (globalThis as any).__rpushCalls.push({ queue, msg });
-        return 1;
+        (globalThis as any).__xaddCalls.push({ stream, id, field, msg });
+        return "1-0";
       }
       async quit() {
         return "OK";
@@ -116,13 +116,15 @@ it("pushes jobs to Upstash via ioredis client when UPSTASH_REDIS_URL is set", as
   expect(Array.isArray(created)).toBe(true);
   expect(created.length).toBe(4);
 
-  // rpush 應被呼叫 created.length 次
-  const rpushCalls = (globalThis as any).__rpushCalls as Array<{ queue: string; msg: string }>;
-  expect(rpushCalls.length).toBe(created.length);
+  // xadd 應被呼叫 created.length 次
+  const xaddCalls = (globalThis as any).__xaddCalls as Array<{ stream: string; id: string; field: string; msg: string }>;
+  expect(xaddCalls.length).toBe(created.length);
 
-  // 檢查每次 rpush 的 queue 名稱與訊息 JSON 形狀
-  for (const call of rpushCalls) {
-    expect(call.queue).toBe((process.env as any).UPSTASH_QUEUE_NAME);
+  // 檢查每次 xadd 的 stream 名稱、自動 id 與訊息 JSON 形狀
+  for (const call of xaddCalls) {
+    expect(call.stream).toBe((process.env as any).UPSTASH_QUEUE_NAME);
+    expect(call.id).toBe("*");
+    expect(call.field).toBe("message");
     const parsed = JSON.parse(call.msg);
     expect(parsed).toHaveProperty("jobId");
     expect(parsed).toHaveProperty("timestamp");
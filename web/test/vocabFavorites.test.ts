@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../lib/utils/pgPool", () => ({ getPgPool: vi.fn() }));
+
+import { addFavorite, listFavoritesByStory } from "../lib/vocab/favorites";
+
+/**
+ * 個人單字本單元測試
+ *
+ * - 以假 pg client 驗證收藏的冪等行為與不存在單字的處理
+ * - 驗證單字本依故事分組
+ */
+
+type Rows = { rows: Record<string, unknown>[] };
+
+describe("addFavorite", () => {
+  it("returns true for a new or already-saved word and false for an unknown word", async () => {
+    const inserted = { query: vi.fn(async (): Promise<Rows> => ({ rows: [{ vocab_entry_id: "v1" }] })) };
+    expect(await addFavorite("u1", "v1", inserted)).toBe(true);
+    expect(inserted.query).toHaveBeenCalledTimes(1);
+
+    const alreadySaved = { query: vi.fn<(sql: string) => Promise<Rows>>().mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [{}] }) };
+    expect(await addFavorite("u1", "v1", alreadySaved)).toBe(true);
+
+    const missing = { query: vi.fn(async (): Promise<Rows> => ({ rows: [] })) };
+    expect(await addFavorite("u1", "nope", missing)).toBe(false);
+  });
+});
+
+describe("listFavoritesByStory", () => {
+  it("groups saved words by story in query order", async () => {
+    const row = (storyId: string, word: string, pageNumber: number | null) => ({
+      story_id: storyId,
+      title_en: `Story ${storyId}`,
+      title_zh: `故事 ${storyId}`,
+      vocab_entry_id: `${storyId}-${word}`,
+      word,
+      part_of_speech: "noun",
+      definition_en: `${word} en`,
+      definition_zh: `${word} zh`,
+      saved_at: "2026-10-01T00:00:00Z",
+      page_number: pageNumber,
+    });
+    const client = { query: vi.fn(async () => ({ rows: [row("b", "apple", 2), row("b", "tree", null), row("a", "dragon", 1)] })) };
+
+    const groups = await listFavoritesByStory("u1", client);
+
+    expect(groups.map((g) => g.storyId)).toEqual(["b", "a"]);
+    expect(groups[0].words.map((w) => [w.word, w.pageNumber])).toEqual([
+      ["apple", 2],
+      ["tree", null],
+    ]);
+    expect(groups[1].titleZh).toBe("故事 a");
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { highlightVocab } from "../lib/stories/vocabHighlight";
+
+/**
+ * 精選單字標示單元測試
+ */
+describe("highlightVocab", () => {
+  it("marks whole-word matches case-insensitively and keeps surrounding text", () => {
+    expect(highlightVocab("Dragons fly. The dragon sleeps.", ["dragon"])).toEqual([
+      { text: "Dragons", word: "dragon" },
+      { text: " fly. The " },
+      { text: "dragon", word: "dragon" },
+      { text: " sleeps." },
+    ]);
+  });
+
+  it("accepts common inflections but not words that merely contain the entry", () => {
+    const words = highlightVocab("She shared and is sharing, but not in the sharehouse. She jumped.", ["share", "jump"])
+      .filter((s) => s.word)
+      .map((s) => s.text);
+    expect(words).toEqual(["shared", "sharing", "jumped"]);
+  });
+
+  it("prefers the longer phrase over a contained word", () => {
+    const segments = highlightVocab("We ate ice cream on ice.", ["ice", "ice cream"]);
+    expect(segments.filter((s) => s.word)).toEqual([
+      { text: "ice cream", word: "ice cream" },
+      { text: "ice", word: "ice" },
+    ]);
+  });
+
+  it("returns the text unchanged without vocabulary", () => {
+    expect(highlightVocab("Hello.", [])).toEqual([{ text: "Hello." }]);
+  });
+});
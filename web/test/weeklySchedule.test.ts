@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+/**
+ * dispatchDueSchedules 單元測試
+ *
+ * - mock lib/utils/pgPool，以假 client 依 SQL 內容回應，避免連線資料庫
+ * - 驗證到期排程會依 story_count 建立 stories 與 story_script jobs，並標記 dispatched
+ * - 驗證排程列先以單一 UPDATE claim，主題在交易外挑選，建立故事與標記 dispatched 在同一交易
+ * - 驗證排程列被其他派發接手時不建立故事，派發失敗時回到 pending
+ * - 驗證優先使用 Story Idea 階段的主題，數量不足時以主題池補足
+ */
+
+const queries: Array<{ text: string; values?: unknown[] }> = [];
+let dueRows: Record<string, unknown>[] = [];
+let lostClaim = false;
+let inTransaction = false;
+
+const client = {
+  query: vi.fn(async (text: string, values?: unknown[]) => {
+    queries.push({ text, values });
+    if (text.includes("SET status = 'dispatching'")) return { rows: dueRows };
+    if (text.includes("SET status = 'dispatched'")) return { rows: lostClaim ? [] : [{ id: "schedule" }] };
+    if (text.includes("FROM stories GROUP BY theme")) return { rows: [] };
+    if (text.includes("INSERT INTO generation_jobs")) return { rows: [{ id: `job-${queries.length}` }] };
+    return { rows: [] };
+  }),
+};
+
+vi.mock("../lib/utils/pgPool", () => ({
+  getPgPool: () => ({ query: client.query }),
+  withTransaction: async <T>(fn: (c: typeof client) => Promise<T>) => {
+    inTransaction = true;
+    await client.query("BEGIN");
+    try {
+      const result = await fn(client);
+      await client.query("COMMIT");
+      return result;
+    } catch (err) {
+      await client.query("ROLLBACK");
+      throw err;
+    } finally {
+      inTransaction = false;
+    }
+  },
+}));
+
+vi.mock("../lib/openai/OrchestrationPersistence", () => ({
+  pushJobsToUpstash: vi.fn(async () => undefined),
+}));
+
+import { dispatchDueSchedules } from "../lib/generation/weeklySchedule";
+import { THEME_POOL } from "../lib/generation/themes";
+
+beforeEach(() => {
+  queries.length = 0;
+  lostClaim = false;
+  vi.clearAllMocks();
+});
+
+describe("dispatchDueSchedules", () => {
+  it("creates story_count stories with jobs and marks the schedule dispatched", async () => {
+    dueRows = [{ id: "schedule-1", scheduled_date: "2026-10-14T01:00:00.000Z", story_count: 2, claim_key: "2026-10-14 02:00:00.123456+00" }];
+
+    const dispatched = await dispatchDueSchedules(new Date("2026-10-14T02:00:00.000Z"), { ideas: null });
+
+    expect(dispatched).toHaveLength(1);
+    expect(dispatched[0].stories).toHaveLength(2);
+
+    const storyInserts = queries.filter((q) => q.text.includes("INSERT INTO stories"));
+    expect(storyInserts.map((q) => q.values?.[3])).toEqual([THEME_POOL[0], THEME_POOL[1]]);
+    expect(storyInserts[0].values?.[6]).toContain('"weeklyScheduleId":"schedule-1"');
+    expect(queries.filter((q) => q.text.includes("INSERT INTO generation_jobs"))).toHaveLength(2);
+    expect(queries[0].text).toContain("FOR UPDATE SKIP LOCKED");
+    expect(queries.find((q) => q.text.includes("SET status = 'dispatched'"))?.values).toEqual(["schedule-1", "2026-10-14 02:00:00.123456+00"]);
+    const texts = queries.map((q) => q.text);
+    expect(texts.indexOf("BEGIN")).toBeGreaterThan(texts.findIndex((t) => t.includes("FROM stories GROUP BY theme")));
+    expect(texts).toContain("COMMIT");
+  });
+
+  it("uses generated story ideas first and tops up from the theme pool", async () => {
+    dueRows = [{ id: "schedule-2", scheduled_date: "2026-10-16T01:00:00.000Z", story_count: 2 }];
+    const ideas = {
+      generate: vi.fn(async () => {
+        // Story Idea 的 LLM 呼叫不得在交易中進行
+        expect(inTransaction).toBe(false);
+        return [{ theme: "A snail races the rain", tone: "playful" }];
+      }),
+    };
+
+    await dispatchDueSchedules(new Date("2026-10-16T02:00:00.000Z"), { ideas });
+
+    expect(ideas.generate).toHaveBeenCalledWith({ ageRange: "5-6", count: 2, pastThemes: [] });
+    const storyInserts = queries.filter((q) => q.text.includes("INSERT INTO stories"));
+    expect(storyInserts.map((q) => q.values?.[3])).toEqual(["A snail races the rain", THEME_POOL[0]]);
+    const jobPayload = JSON.parse(String(queries.find((q) => q.text.includes("INSERT INTO generation_jobs"))?.values?.[1]));
+    expect(jobPayload).toMatchObject({ theme: "A snail races the rain", tone: "playful" });
+  });
+
+  it("creates nothing when no pending schedule is due", async () => {
+    dueRows = [];
+
+    await expect(dispatchDueSchedules(new Date(), { ideas: null })).resolves.toEqual([]);
+    expect(queries.some((q) => q.text.includes("INSERT INTO stories"))).toBe(false);
+    expect(queries.map((q) => q.text)).not.toContain("BEGIN");
+  });
+
+  it("skips a schedule another dispatcher took over", async () => {
+    dueRows = [{ id: "schedule-3", scheduled_date: "2026-10-14T01:00:00.000Z", story_count: 2, claim_key: "k" }];
+    lostClaim = true;
+
+    await expect(dispatchDueSchedules(new Date("2026-10-14T02:00:00.000Z"), { ideas: null })).resolves.toEqual([]);
+    expect(queries.some((q) => q.text.includes("INSERT INTO stories"))).toBe(false);
+  });
+
+  it("returns the schedule to pending when dispatching fails", async () => {
+    dueRows = [{ id: "schedule-4", scheduled_date: "2026-10-14T01:00:00.000Z", story_count: 1, claim_key: "k" }];
+    client.query.mockImplementationOnce(async (text: string, values?: unknown[]) => {
+      queries.push({ text, values });
+      return { rows: dueRows };
+    });
+    client.query.mockImplementationOnce(async () => {
+      throw new Error("db down");
+    });
+
+    await expect(dispatchDueSchedules(new Date("2026-10-14T02:00:00.000Z"), { ideas: null })).rejects.toThrow("db down");
+    expect(queries.find((q) => q.text.includes("SET status = 'pending'"))?.values).toEqual(["schedule-4", "k"]);
+  });
+});
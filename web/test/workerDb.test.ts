@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from "vitest";
+import { createTestDatabase, seedJob, seedStory, TEST_DATABASE_TIMEOUT_MS, type TestDatabase } from "./helpers/pg";
+
+let db: TestDatabase;
+
+vi.mock("../worker/sql", () => ({
+  sql: (strings: TemplateStringsArray, ...values: unknown[]) =>
+    db.query(
+      strings.reduce((acc, part, i) => `${acc}$${i}${part}`),
+      values,
+    ),
+}));
+
+import { claimJob, touchJob } from "../worker/db";
+
+/**
+ * worker/db 的 claim 與 heartbeat（於套用 migrations 的記憶體 Postgres 上驗證）
+ *
+ * - 一般投遞只 claim 到期的 pending job
+ * - 重新投遞時可接手 lease 已過期的 processing job（retry_count + 1、帶 reclaimed），仍在 heartbeat 的 job 不受影響
+ */
+describe("claimJob", () => {
+  let storyId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  }, TEST_DATABASE_TIMEOUT_MS);
+  afterAll(() => db.close());
+
+  beforeEach(async () => {
+    await db.reset();
+    storyId = await seedStory(db);
+  });
+
+  async function expireLease(jobId: string) {
+    await db.query(`UPDATE generation_jobs SET updated_at = now() - interval '2 minutes' WHERE id = $1`, [jobId]);
+  }
+
+  it("claims a due pending job without counting a retry", async () => {
+    const job = await seedJob(db, storyId, "image", "pending");
+
+    const row = await claimJob(job);
+
+    expect(row).toMatchObject({ id: job, status: "processing", retry_count: 0, reclaimed: false });
+  });
+
+  it("leaves processing jobs alone unless the message is a redelivery past the lease", async () => {
+    const job = await seedJob(db, storyId, "image", "processing");
+    await expireLease(job);
+
+    expect(await claimJob(job)).toBeNull();
+
+    const row = await claimJob(job, { reclaimAfterMs: 60_000 });
+    expect(row).toMatchObject({ id: job, status: "processing", retry_count: 1, reclaimed: true });
+  });
+
+  it("does not reclaim a job whose worker is still heartbeating", async () => {
+    const job = await seedJob(db, storyId, "image", "processing");
+    await expireLease(job);
+    await touchJob(job);
+
+    expect(await claimJob(job, { reclaimAfterMs: 60_000 })).toBeNull();
+  });
+});
@@ -10,6 +10,7 @@ import { env } from "../lib/utils/env";
  *
  * 使用情境：
  *  - videoComposer 產生檔案後呼叫 uploadLocalFile -> 取得公開可存取 URI（file:// or uploaded URL）
+ *  - image / audio handler 以 uploadFromUri 保存 provider 回傳的資源
  *
  * 函式級 JSDoc（符合專案規範）
  */
@@ -71,6 +72,42 @@ export async function uploadBuffer(
   return { uri: `file://${destPath}`, path: destPath };
 }
 
+/**
+ * 將 provider 回傳的資源 URI 存入 uploadDir（供 image / audio provider 結果使用）
+ *
+ * 支援的 URI：
+ *  - http(s)://：下載後以 uploadBuffer 寫入
+ *  - data:<mime>;base64,...：解碼後以 uploadBuffer 寫入
+ *  - file:// 或本地路徑：以 uploadLocalFile 複製
+ *
+ * @param uri provider 回傳的資源位置
+ * @param filename 儲存用檔名
+ * @param opts UploadOptions
+ * @returns {Promise<{ uri: string; path: string }>}
+ */
+export async function uploadFromUri(
+  uri: string,
+  filename: string,
+  opts: UploadOptions = {}
+): Promise<{ uri: string; path: string }> {
+  if (uri.startsWith("http://") || uri.startsWith("https://")) {
+    const resp = await fetch(uri);
+    if (!resp.ok) throw new Error(`failed to download asset ${uri}: ${resp.status}`);
+    const buf = Buffer.from(await resp.arrayBuffer());
+    return uploadBuffer(buf, filename, opts);
+  }
+
+  if (uri.startsWith("data:")) {
+    const commaIdx = uri.indexOf(",");
+    if (commaIdx === -1) throw new Error("invalid data URI");
+    const buf = Buffer.from(uri.slice(commaIdx + 1), "base64");
+    return uploadBuffer(buf, filename, opts);
+  }
+
+  const localPath = uri.startsWith("file://") ? uri.slice("file://".length) : uri;
+  return uploadLocalFile(localPath, { ...opts, filename });
+}
+
 /**
  * Ensure directory exists
  * @param dir
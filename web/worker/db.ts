@@ -1,31 +1,62 @@
-import { sql } from '@vercel/postgres';
+import { sql } from './sql';
 
 /**
  * DB helpers for worker
  *
- * 使用原生 tagged sql (from @vercel/postgres) 以減少對 Drizzle query API 的相依與型別摩擦。
+ * 使用原生 tagged sql（./sql：@vercel/postgres 或 QUEUE_DRIVER=postgres 時的 pg Pool）以減少對 Drizzle query API 的相依與型別摩擦。
  * 每個函式以最小回傳結構為主，足以讓 JobHandler 做後續處理。
  */
 
 /**
- * Claim a generation job atomically: set status -> 'processing' only if current status is 'pending'.
+ * Claim a generation job atomically: set status -> 'processing' only if current status is 'pending'
+ * and its scheduled retry time (next_attempt_at) has passed.
+ *
+ * With opts.reclaimAfterMs (a redelivered queue message) a 'processing' job whose lease has expired
+ * (no heartbeat for that long, i.e. its worker died) is taken back as well and its retry_count bumped,
+ * the way the Postgres queue driver reclaims jobs. The returned row carries `reclaimed` = true in that case.
+ *
  * @param jobId generation_jobs.id
- * @returns the claimed job row or null if not claimed (already taken or missing)
+ * @param opts.reclaimAfterMs lease in milliseconds after which a processing job may be reclaimed
+ * @returns the claimed job row or null if not claimed (already taken, not yet due or missing)
  */
 export async function claimJob(
-	jobId: string
+	jobId: string,
+	opts: { reclaimAfterMs?: number } = {}
 ): Promise<Record<string, unknown> | null> {
+	const reclaimAfterMs = opts.reclaimAfterMs ?? null;
 	const res = await sql`
- 	   UPDATE generation_jobs
- 	   SET status = 'processing', updated_at = now()
- 	   WHERE id = ${jobId} AND status = 'pending'
- 	   RETURNING *
+ 	   WITH candidate AS (
+ 	     SELECT id, status FROM generation_jobs
+ 	     WHERE id = ${jobId}
+ 	       AND ((status = 'pending' AND (next_attempt_at IS NULL OR next_attempt_at <= now()))
+ 	         OR (${reclaimAfterMs}::double precision IS NOT NULL AND status = 'processing'
+ 	             AND updated_at < now() - make_interval(secs => ${reclaimAfterMs}::double precision / 1000)))
+ 	     FOR UPDATE
+ 	   )
+ 	   UPDATE generation_jobs j
+ 	   SET status = 'processing', next_attempt_at = NULL, updated_at = now(),
+ 	       retry_count = j.retry_count + CASE WHEN candidate.status = 'processing' THEN 1 ELSE 0 END
+ 	   FROM candidate
+ 	   WHERE j.id = candidate.id
+ 	   RETURNING j.*, candidate.status = 'processing' AS reclaimed
  	 `;
 	const maybe = res as unknown as { rows?: unknown[] } | undefined;
 	const rows = Array.isArray(maybe?.rows) ? (maybe!.rows as Record<string, unknown>[]) : [];
 	return rows.length > 0 ? (rows[0] as Record<string, unknown>) : null;
 }
 
+/**
+ * Heartbeat for a running job: refresh updated_at so its lease does not expire while the handler is still working.
+ * @param jobId generation_jobs.id
+ */
+export async function touchJob(jobId: string) {
+	await sql`
+    UPDATE generation_jobs
+    SET updated_at = now()
+    WHERE id = ${jobId} AND status = 'processing'
+  `;
+}
+
 /**
  * Fetch job by id (read-only)
  * @param jobId
@@ -66,6 +97,22 @@ export async function markJobFailed(jobId: string, reason: string) {
   `;
 }
 
+/**
+ * Stop a story that failed content-safety moderation: status -> 'failed' and the verdicts are
+ * kept in stories.metadata.moderation for the admin review.
+ * @param storyId stories.id
+ * @param moderation moderation report (ContentSafetyError.report)
+ */
+export async function markStoryContentUnsafe(storyId: string, moderation: unknown) {
+	await sql`
+    UPDATE stories
+    SET status = 'failed',
+        metadata = metadata || jsonb_build_object('moderation', ${JSON.stringify(moderation)}::jsonb),
+        updated_at = now()
+    WHERE id = ${storyId}
+  `;
+}
+
 /**
  * Increment retry count
  * @param jobId
@@ -78,6 +125,49 @@ export async function incrementRetry(jobId: string) {
   `;
 }
 
+/**
+ * Put a failed job back to 'pending' with a delayed retry: bumps retry_count, keeps the failure
+ * reason and sets next_attempt_at. The job is re-queued by the RetryScheduler once due.
+ * @param jobId
+ * @param reason
+ * @param delayMs
+ */
+export async function scheduleJobRetry(jobId: string, reason: string, delayMs: number) {
+	await sql`
+    UPDATE generation_jobs
+    SET status = 'pending',
+        retry_count = retry_count + 1,
+        failure_reason = ${reason},
+        next_attempt_at = now() + (${Math.max(0, Math.round(delayMs))}::int * interval '1 millisecond'),
+        updated_at = now()
+    WHERE id = ${jobId}
+  `;
+}
+
+/**
+ * Atomically take retries whose next_attempt_at has passed (clears next_attempt_at so each
+ * job is returned to exactly one scheduler).
+ * @param limit max jobs per call
+ * @returns ids of jobs to push back to the queue
+ */
+export async function takeDueRetries(limit = 50): Promise<string[]> {
+	const res = await sql`
+ 	   UPDATE generation_jobs
+ 	   SET next_attempt_at = NULL, updated_at = now()
+ 	   WHERE id IN (
+ 	     SELECT id FROM generation_jobs
+ 	     WHERE status = 'pending' AND next_attempt_at IS NOT NULL AND next_attempt_at <= now()
+ 	     ORDER BY next_attempt_at
+ 	     LIMIT ${limit}
+ 	     FOR UPDATE SKIP LOCKED
+ 	   )
+ 	   RETURNING id
+ 	 `;
+	const maybe = res as unknown as { rows?: unknown[] } | undefined;
+	const rows = Array.isArray(maybe?.rows) ? (maybe!.rows as Record<string, unknown>[]) : [];
+	return rows.map((r) => String(r.id));
+}
+
 /**
  * Insert a media_assets record linking to the generation job.
  * If a media asset for the same generation_job_id already exists, return that (idempotency).
@@ -90,20 +180,28 @@ export async function insertMediaAssetIfNotExists(data: {
 	type: 'image' | 'audio' | 'video';
 	uri: string;
 	format: string;
+	duration?: string | null;
 	metadata?: Record<string, unknown>;
 	generation_job_id?: string | null;
 }): Promise<Record<string, unknown> | null> {
 	if (data.generation_job_id) {
-		const find =
-			await sql`SELECT * FROM media_assets WHERE generation_job_id = ${data.generation_job_id} LIMIT 1`;
+		// A job may produce several assets (e.g. en + zh-TW narration); metadata.language distinguishes them.
+		const language =
+			typeof data.metadata?.language === 'string' ? data.metadata.language : null;
+		const find = await sql`
+	   SELECT * FROM media_assets
+	   WHERE generation_job_id = ${data.generation_job_id}
+	     AND (${language}::text IS NULL OR metadata->>'language' = ${language})
+	   LIMIT 1
+	 `;
 		const maybeFind = find as unknown as { rows?: unknown[] } | undefined;
 		const exists = Array.isArray(maybeFind?.rows) ? (maybeFind!.rows as Record<string, unknown>[]) : [];
 		if (exists.length) return exists[0];
 	}
 
 	const res = await sql`
-	   INSERT INTO media_assets (id, story_id, page_id, type, uri, format, metadata, generation_job_id, created_at, updated_at)
-	   VALUES (gen_random_uuid(), ${data.story_id}, ${data.page_id ?? null}, ${data.type}, ${data.uri}, ${data.format}, ${JSON.stringify(
+	   INSERT INTO media_assets (id, story_id, page_id, type, uri, format, duration, metadata, generation_job_id, created_at, updated_at)
+	   VALUES (gen_random_uuid(), ${data.story_id}, ${data.page_id ?? null}, ${data.type}, ${data.uri}, ${data.format}, ${data.duration ?? null}, ${JSON.stringify(
 		data.metadata ?? {}
 	)}::jsonb, ${data.generation_job_id ?? null}, now(), now())
 	   RETURNING *
@@ -112,3 +210,79 @@ export async function insertMediaAssetIfNotExists(data: {
 	const rows = Array.isArray(maybeInsert?.rows) ? (maybeInsert!.rows as Record<string, unknown>[]) : [];
 	return rows.length > 0 ? rows[0] : null;
 }
+
+/**
+ * Find a story page by story id and page number.
+ * @param storyId stories.id
+ * @param pageNumber story_pages.page_number
+ * @returns the story_pages row or null
+ */
+export async function findStoryPage(
+	storyId: string,
+	pageNumber: number
+): Promise<Record<string, unknown> | null> {
+	const res = await sql`
+	   SELECT * FROM story_pages
+	   WHERE story_id = ${storyId} AND page_number = ${pageNumber}
+	   LIMIT 1
+	 `;
+	const maybe = res as unknown as { rows?: unknown[] } | undefined;
+	const rows = Array.isArray(maybe?.rows) ? (maybe!.rows as Record<string, unknown>[]) : [];
+	return rows.length > 0 ? rows[0] : null;
+}
+
+/**
+ * Link an image media asset to a story page (story_pages.media_asset_id).
+ * @param pageId story_pages.id
+ * @param mediaAssetId media_assets.id
+ */
+export async function setPageImageAsset(pageId: string, mediaAssetId: string) {
+	await sql`
+    UPDATE story_pages
+    SET media_asset_id = ${mediaAssetId}, updated_at = now()
+    WHERE id = ${pageId}
+  `;
+}
+
+/**
+ * Link a narration media asset to a story page (story_pages.audio_asset_id).
+ * @param pageId story_pages.id
+ * @param mediaAssetId media_assets.id
+ */
+export async function setPageAudioAsset(pageId: string, mediaAssetId: string) {
+	await sql`
+    UPDATE story_pages
+    SET audio_asset_id = ${mediaAssetId}, updated_at = now()
+    WHERE id = ${pageId}
+  `;
+}
+
+/**
+ * List story pages with their linked image and English narration assets, ordered by page number.
+ * @param storyId stories.id
+ */
+export async function listPageMedia(storyId: string): Promise<
+	{
+		pageNumber: number;
+		imageUri: string | null;
+		audioUri: string | null;
+		audioDuration: string | null;
+	}[]
+> {
+	const res = await sql`
+	   SELECT sp.page_number, img.uri AS image_uri, aud.uri AS audio_uri, aud.duration AS audio_duration
+	   FROM story_pages sp
+	   LEFT JOIN media_assets img ON img.id = sp.media_asset_id
+	   LEFT JOIN media_assets aud ON aud.id = sp.audio_asset_id
+	   WHERE sp.story_id = ${storyId}
+	   ORDER BY sp.page_number ASC
+	 `;
+	const maybe = res as unknown as { rows?: unknown[] } | undefined;
+	const rows = Array.isArray(maybe?.rows) ? (maybe!.rows as Record<string, unknown>[]) : [];
+	return rows.map((r) => ({
+		pageNumber: Number(r.page_number),
+		imageUri: r.image_uri ? String(r.image_uri) : null,
+		audioUri: r.audio_uri ? String(r.audio_uri) : null,
+		audioDuration: r.audio_duration ? String(r.audio_duration) : null,
+	}));
+}
@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { callTTSProvider } from "../providers/ttsProvider";
+import { uploadFromUri } from "../blobUploader";
+import { findStoryPage, insertMediaAssetIfNotExists, setPageAudioAsset } from "../db";
+import type { JobTypeHandler } from "./types";
+
+/**
+ * audio job payload 契約（由 OrchestrationPersistence 建立）。
+ */
+const audioPayloadSchema = z.object({
+  pageNumber: z.number().int().min(1),
+  textEn: z.string().min(1),
+  textZh: z.string().default(""),
+  /**
+   * 依年齡區間規則的旁白語速（AgeBandProfiles.narrationSpeed）
+   */
+  narrationSpeed: z.number().positive().default(1),
+});
+
+/**
+ * 每頁要產生的旁白音軌設定（英文為主音軌，連結到 story_pages.audio_asset_id）。
+ */
+const NARRATION_TRACKS = [
+  { language: "en-US", voice: "narrator-en", field: "textEn" },
+  { language: "zh-TW", voice: "narrator-zh-tw", field: "textZh" },
+] as const;
+
+/**
+ * 處理 audio job：
+ * 1) 分別為英文與繁體中文文字呼叫 TTS provider（中文為空時略過），語速依 payload.narrationSpeed
+ * 2) 將音檔存入 blob，寫入 media_assets（type = audio，含 duration 與 metadata.language）
+ * 3) 以英文音軌回寫 story_pages.audio_asset_id
+ *
+ * @param job 已 claim 的 audio job
+ * @returns 英文旁白的 URI
+ */
+export const handleAudioJob: JobTypeHandler = async (job) => {
+  const payload = audioPayloadSchema.parse(job.payload);
+
+  const page = await findStoryPage(job.storyId, payload.pageNumber);
+  if (!page) {
+    throw new Error(`story page not found: story=${job.storyId} page=${payload.pageNumber}`);
+  }
+  const pageId = String(page.id);
+
+  let englishAssetId: string | undefined;
+  let englishUri: string | undefined;
+
+  for (const track of NARRATION_TRACKS) {
+    const text = payload[track.field].trim();
+    if (!text) {
+      console.info("[worker] audio track skipped (empty text)", { jobId: job.id, language: track.language });
+      continue;
+    }
+
+    const tts = await callTTSProvider({
+      text,
+      language: track.language,
+      voice: track.voice,
+      format: "mp3",
+      speed: payload.narrationSpeed,
+    });
+    const stored = await uploadFromUri(
+      tts.uri,
+      `story_${job.storyId}_page_${payload.pageNumber}_${track.language}.${tts.format}`,
+    );
+
+    const asset = await insertMediaAssetIfNotExists({
+      story_id: job.storyId,
+      page_id: pageId,
+      type: "audio",
+      uri: stored.uri,
+      format: tts.format,
+      duration: String(tts.durationSeconds),
+      metadata: {
+        ...tts.metadata,
+        language: track.language,
+        sourceUri: tts.uri,
+        pageNumber: payload.pageNumber,
+      },
+      generation_job_id: job.id,
+    });
+    if (!asset) {
+      throw new Error(`failed to insert ${track.language} audio asset for job ${job.id}`);
+    }
+
+    if (track.language === "en-US") {
+      englishAssetId = String(asset.id);
+      englishUri = String(asset.uri);
+    }
+  }
+
+  if (!englishAssetId || !englishUri) {
+    throw new Error(`english narration missing for job ${job.id}`);
+  }
+
+  await setPageAudioAsset(pageId, englishAssetId);
+
+  return englishUri;
+};
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { buildIllustrationPrompt } from "../../lib/openai/PromptToolkit";
+import { callImageProvider } from "../providers/imageProvider";
+import { uploadFromUri } from "../blobUploader";
+import { findStoryPage, insertMediaAssetIfNotExists, setPageImageAsset } from "../db";
+import type { JobTypeHandler } from "./types";
+
+/**
+ * image job payload 契約（由 OrchestrationPersistence 建立）。
+ */
+const imagePayloadSchema = z.object({
+  pageNumber: z.number().int().min(1),
+  textEn: z.string().min(1),
+});
+
+/**
+ * 處理 image job：
+ * 1) 依頁面內容產生插圖 prompt 並呼叫 image provider
+ * 2) 將結果存入 blob（uploadFromUri）
+ * 3) 寫入 media_assets（以 generation_job_id 保持冪等）並回寫 story_pages.media_asset_id
+ *
+ * @param job 已 claim 的 image job
+ * @returns 儲存後的圖片 URI
+ */
+export const handleImageJob: JobTypeHandler = async (job) => {
+  const payload = imagePayloadSchema.parse(job.payload);
+
+  const page = await findStoryPage(job.storyId, payload.pageNumber);
+  if (!page) {
+    throw new Error(`story page not found: story=${job.storyId} page=${payload.pageNumber}`);
+  }
+
+  const prompt = buildIllustrationPrompt(payload.textEn);
+  const generated = await callImageProvider({ prompt, size: "1024x1024" });
+
+  const stored = await uploadFromUri(
+    generated.uri,
+    `story_${job.storyId}_page_${payload.pageNumber}.${generated.format}`,
+  );
+
+  const asset = await insertMediaAssetIfNotExists({
+    story_id: job.storyId,
+    page_id: String(page.id),
+    type: "image",
+    uri: stored.uri,
+    format: generated.format,
+    metadata: { ...generated.metadata, sourceUri: generated.uri, pageNumber: payload.pageNumber },
+    generation_job_id: job.id,
+  });
+  if (!asset) {
+    throw new Error(`failed to insert media asset for job ${job.id}`);
+  }
+
+  await setPageImageAsset(String(page.id), String(asset.id));
+
+  return String(asset.uri);
+};
@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { loadStoredStory, regenerationScopeSchema } from "../../lib/generation/storyRegeneration";
+import type { JobTypeHandler } from "./types";
+
+/**
+ * 重新生成 job payload 契約（由 requestStoryRegeneration 建立）。
+ */
+const regenerationPayloadSchema = z.object({
+  storyId: z.string().min(1),
+  regenerate: z.literal(true),
+  scope: regenerationScopeSchema,
+});
+
+/**
+ * 處理已儲存故事的單頁 / 單一階段重新生成（page 範圍由 story_script job 轉交，translation / vocabulary 為獨立 job type）：
+ * 1) 讀取故事目前的腳本與翻譯
+ * 2) 以 StoryGenerationOrchestrator.regenerate 只重新生成該範圍
+ * 3) 呼叫 persistRegenerationResult 更新受影響的列、讓過期媒體失效並建立新的媒體 jobs
+ *    （新媒體 jobs 相依於本 job，待本 job 完成後由 JobHandler 釋放推送）
+ *
+ * @param job 已 claim 的 generation job
+ * @param ctx JobContext（orchestrator、persistRegeneration 可注入）
+ * @returns result_uri，格式為 story://<storyId>
+ */
+export const handleRegenerationJob: JobTypeHandler = async (job, ctx) => {
+  const payload = regenerationPayloadSchema.parse({ storyId: job.storyId, ...job.payload });
+
+  const stored = await loadStoredStory(payload.storyId);
+  if (!stored) {
+    throw new Error(`story not found or has no pages: ${payload.storyId}`);
+  }
+
+  const result = await ctx.orchestrator.regenerate(
+    {
+      storyId: stored.storyId,
+      theme: stored.theme,
+      tone: stored.tone,
+      ageRange: stored.ageRange,
+      regenerate: true,
+    },
+    stored,
+    payload.scope,
+    job.id,
+  );
+
+  const createdJobIds = await ctx.persistRegeneration(payload.storyId, payload.scope, result, {
+    parentJobId: job.id,
+    ageRange: stored.ageRange,
+  });
+
+  console.info("[worker] story regeneration persisted", {
+    jobId: job.id,
+    storyId: payload.storyId,
+    scope: payload.scope,
+    mediaJobCount: createdJobIds.length,
+  });
+
+  return `story://${payload.storyId}`;
+};
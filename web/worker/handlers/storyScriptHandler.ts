@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { DEFAULT_AGE_BAND } from "../../lib/openai/AgeBandProfiles";
+import { ContentSafetyError } from "../../lib/openai/ContentSafety";
+import { loadStoredStory } from "../../lib/generation/storyRegeneration";
+import { markStoryContentUnsafe } from "../db";
+import { handleRegenerationJob } from "./regenerationHandler";
+import type { JobTypeHandler } from "./types";
+
+/**
+ * story_script job payload 契約（參考 spec.md §8.1 與 POST /api/generation/story-script）。
+ */
+const storyScriptPayloadSchema = z.object({
+  storyId: z.string().min(1),
+  theme: z.string().min(1),
+  tone: z.string().default("warm"),
+  ageRange: z.string().default(DEFAULT_AGE_BAND),
+  regenerate: z.boolean().optional(),
+});
+
+/**
+ * 處理 story_script job：
+ * 1) 以 StoryGenerationOrchestrator 依序產生腳本、翻譯與精選單字
+ * 2) 呼叫 persistGenerationResult 寫入 stories / story_pages / vocab_entries 並建立 image/audio/video jobs
+ *    （媒體 jobs 相依於本 job，待本 job 完成後由 JobHandler 釋放推送）
+ *
+ * 任一步驟失敗時直接拋出錯誤，由 JobHandler 負責標記 failed；
+ * 內容安全審查未通過（ContentSafetyError）時先將故事標記為 failed 並保存審查結果。
+ *
+ * payload 帶有 scope（單頁重新生成）時轉交 handleRegenerationJob；
+ * 只帶 regenerate = true 而故事已有頁面時拒絕（整本重跑會重複建立頁面、單字與媒體 jobs），
+ * 已儲存的故事需以 page / translation / vocabulary 範圍重新生成。
+ * 非重新生成的 job 遇到已有頁面的故事（前次執行已寫入）時直接視為完成，不再呼叫 orchestrator。
+ *
+ * @param job 已 claim 的 generation job
+ * @param ctx JobContext（orchestrator、persist 可注入）
+ * @returns result_uri，格式為 story://<storyId>
+ */
+export const handleStoryScriptJob: JobTypeHandler = async (job, ctx) => {
+  if (job.payload.scope) return handleRegenerationJob(job, ctx);
+
+  // payload 內的 storyId 優先，否則使用 generation_jobs.story_id
+  const payload = storyScriptPayloadSchema.parse({ storyId: job.storyId, ...job.payload });
+  if (await loadStoredStory(payload.storyId)) {
+    if (payload.regenerate) {
+      throw new Error(`story ${payload.storyId} already has pages; regenerate it with a page, translation or vocabulary scope`);
+    }
+    // 前次執行已寫入故事（例如 worker 在回報完成前中斷後 job 被重新 claim），不再重複產生
+    console.info("[worker] story already persisted, skipping generation", { jobId: job.id, storyId: payload.storyId });
+    return `story://${payload.storyId}`;
+  }
+
+  let result: Awaited<ReturnType<typeof ctx.orchestrator.run>>;
+  try {
+    result = await ctx.orchestrator.run({
+      storyId: payload.storyId,
+      theme: payload.theme,
+      tone: payload.tone,
+      ageRange: payload.ageRange,
+      regenerate: payload.regenerate,
+    });
+  } catch (err) {
+    if (err instanceof ContentSafetyError) {
+      console.warn("[worker] story stopped by content moderation", { jobId: job.id, storyId: payload.storyId, error: err.message });
+      await markStoryContentUnsafe(payload.storyId, err.report);
+    }
+    throw err;
+  }
+
+  const createdJobIds = await ctx.persist(
+    payload.storyId,
+    payload.theme,
+    result.story,
+    result.translation,
+    result.vocabulary,
+    {
+      parentJobId: job.id,
+      moderation: result.moderation,
+      readability: result.readability,
+      ageRange: payload.ageRange,
+    },
+  );
+
+  console.info("[worker] story_script persisted", {
+    jobId: job.id,
+    storyId: payload.storyId,
+    mediaJobCount: createdJobIds.length,
+  });
+
+  return `story://${payload.storyId}`;
+};
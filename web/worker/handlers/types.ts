@@ -0,0 +1,52 @@
+import type { db } from "../../db/client";
+import type { Env } from "../../lib/utils/env";
+import type { StoryGenerationOrchestrator } from "../../lib/openai/StoryGenerationOrchestrator";
+import type { persistGenerationResult } from "../../lib/openai/OrchestrationPersistence";
+import type { persistRegenerationResult } from "../../lib/generation/storyRegeneration";
+
+/**
+ * generation_jobs.job_type 可能的值（與 db/schema/generation-jobs.ts 的 generationJobTypeEnum 對應）。
+ */
+export type GenerationJobType =
+  | "story_script"
+  | "translation"
+  | "vocabulary"
+  | "image"
+  | "audio"
+  | "video";
+
+/**
+ * 已被 worker claim（status = processing）的 generation job，欄位已由 snake_case 轉為 camelCase。
+ */
+export interface ClaimedJob {
+  id: string;
+  storyId: string;
+  jobType: GenerationJobType;
+  retryCount: number;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * 提供給各 job type handler 的執行上下文（可注入，便於測試）。
+ */
+export interface JobContext {
+  db: typeof db;
+  env: Env;
+  orchestrator: Pick<StoryGenerationOrchestrator, "run" | "regenerate">;
+  persist: typeof persistGenerationResult;
+  persistRegeneration: typeof persistRegenerationResult;
+  /**
+   * 將新建立的 generation job 推入佇列（未設定佇列時僅記錄 log）。
+   */
+  enqueue: (jobId: string) => Promise<void>;
+}
+
+/**
+ * 單一 job type 的處理函式；成功時回傳寫入 generation_jobs.result_uri 的字串。
+ */
+export type JobTypeHandler = (job: ClaimedJob, ctx: JobContext) => Promise<string>;
+
+/**
+ * job type -> handler 的分派表。
+ */
+export type JobHandlerTable = Partial<Record<GenerationJobType, JobTypeHandler>>;
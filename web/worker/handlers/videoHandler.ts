@@ -0,0 +1,75 @@
+import { composeVideo } from "../videoComposer";
+import { uploadLocalFile } from "../blobUploader";
+import { insertMediaAssetIfNotExists, listPageMedia } from "../db";
+import type { JobTypeHandler } from "./types";
+
+/**
+ * 旁白長度缺失時每頁的預設秒數（與 composeVideo 的預設一致）。
+ */
+const DEFAULT_PAGE_SECONDS = 3;
+
+/**
+ * 每頁旁白結束後保留的停頓秒數，讓翻頁不會緊接著下一段旁白。
+ */
+const PAGE_PADDING_SECONDS = 0.5;
+
+/**
+ * 處理 video job：
+ * 1) 讀取每頁的插圖與英文旁白（story_pages.media_asset_id / audio_asset_id）
+ * 2) 以旁白長度決定每頁秒數，呼叫 composeVideo 合成影片（每頁各自帶入旁白）
+ * 3) 上傳結果並寫入故事層級的 media_assets（page_id = null）
+ *
+ * video job 於建立時即相依於故事所有 image/audio job（generation_job_dependencies），
+ * 完成後由 JobHandler 依相依圖發布故事。
+ *
+ * @param job 已 claim 的 video job
+ * @returns 影片 URI
+ */
+export const handleVideoJob: JobTypeHandler = async (job) => {
+  const pages = await listPageMedia(job.storyId);
+  if (pages.length === 0) {
+    throw new Error(`story has no pages: ${job.storyId}`);
+  }
+
+  const missingImages = pages.filter((p) => !p.imageUri).map((p) => p.pageNumber);
+  if (missingImages.length > 0) {
+    throw new Error(`pages missing illustrations: ${missingImages.join(",")}`);
+  }
+
+  const perPageDurations = pages.map((p) => {
+    const narration = Number(p.audioDuration);
+    return Number.isFinite(narration) && narration > 0 ? narration + PAGE_PADDING_SECONDS : DEFAULT_PAGE_SECONDS;
+  });
+
+  // 所有頁面都有旁白時才逐頁帶入音訊，避免音軌與頁面錯位
+  const audioUris = pages.every((p) => p.audioUri) ? pages.map((p) => p.audioUri as string) : undefined;
+
+  const composed = await composeVideo({
+    imageUris: pages.map((p) => p.imageUri as string),
+    audioUris,
+    perPageDurations,
+    outputFilename: `story_${job.storyId}.mp4`,
+    format: "mp4",
+  });
+
+  const stored = await uploadLocalFile(composed.uri, { filename: `story_${job.storyId}.${composed.format}` });
+  const totalSeconds = perPageDurations.reduce((a, b) => a + b, 0);
+
+  const asset = await insertMediaAssetIfNotExists({
+    story_id: job.storyId,
+    page_id: null,
+    type: "video",
+    uri: stored.uri,
+    format: composed.format,
+    duration: String(Math.round(totalSeconds * 10) / 10),
+    metadata: { ...composed.metadata, perPageDurations },
+    generation_job_id: job.id,
+  });
+  if (!asset) {
+    throw new Error(`failed to insert video asset for job ${job.id}`);
+  }
+
+  console.info("[worker] story video composed", { jobId: job.id, storyId: job.storyId });
+
+  return String(asset.uri);
+};
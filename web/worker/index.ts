@@ -2,6 +2,7 @@ import { db } from '../db/client';
 import { env } from '../lib/utils/env';
 import { createQueueClient, UpstashMessage } from './queueClient';
 import { JobHandler } from './jobHandler';
+import { RetryScheduler } from './retryScheduler';
 
 /**
  * Worker entrypoint: 從 Upstash 佇列拉取 generation job，交由 jobHandler 處理。
@@ -10,12 +11,18 @@ import { JobHandler } from './jobHandler';
  *   NODE_ENV=production node ./dist/worker/index.js
  *
  * env vars:
+ *  - QUEUE_DRIVER=postgres（以 generation_jobs 作為佇列，需 DATABASE_URL）
  *  - UPSTASH_REDIS_URL | UPSTASH_REST_URL + UPSTASH_REST_TOKEN
  *  - UPSTASH_QUEUE_NAME
+ *  - UPSTASH_CONSUMER_GROUP / UPSTASH_MAX_DELIVERIES / UPSTASH_CLAIM_IDLE_MS（應不小於 JOB_LEASE_MS）
+ *  - JOB_LEASE_MS（processing job 的 lease；執行中每 1/3 lease heartbeat 一次，逾時未更新的 job 可被重新 claim）
  *  - WORKER_CONCURRENCY
+ *  - WORKER_RETRY_POLL_INTERVAL_MS（RetryScheduler 掃描到期重試的間隔）
+ *  - JOB_RETRY_LIMITS（各 job type 重試上限，例如 image=5,video=1）
  */
 const CONCURRENCY = Number(process.env.WORKER_CONCURRENCY ?? '3');
 const POLL_INTERVAL_MS = Number(process.env.WORKER_POLL_INTERVAL_MS ?? '1000');
+const RETRY_POLL_INTERVAL_MS = Number(process.env.WORKER_RETRY_POLL_INTERVAL_MS ?? '5000');
 const SHORT_WAIT_MS = 500;
 let stopped = false;
 
@@ -36,7 +43,9 @@ async function main() {
 	console.info('[worker] starting worker', { concurrency: CONCURRENCY });
 
 	const queueClient = await createQueueClient();
-	const handler = new JobHandler(db, env);
+	const handler = new JobHandler(db, env, { queue: queueClient });
+	const retryScheduler = new RetryScheduler(queueClient, RETRY_POLL_INTERVAL_MS);
+	retryScheduler.start();
 
 	async function loop() {
 		while (!stopped) {
@@ -57,12 +66,14 @@ async function main() {
 					console.warn('[worker] received invalid message without jobId', {
 						msg,
 					});
+					await queueClient.nack(msg, 'invalid message without jobId');
 					continue;
 				}
 
-				// idempotency: avoid processing same job concurrently
+				// idempotency: avoid processing same job concurrently; 訊息保持未 ack，重新投遞時再依 job 狀態處理
 				if (running.has(jobId)) {
 					console.info('[worker] job already processing, skipping', { jobId });
+					await queueClient.nack(msg, 'job already processing on this worker');
 					continue;
 				}
 
@@ -73,13 +84,27 @@ async function main() {
 					const startedAt = Date.now();
 					try {
 						console.info('[worker] processing job', { jobId });
-						await handler.handle(jobId);
+						const handled = await handler.handle(jobId, {
+							claimed: msg.claimed,
+							reclaimed: msg.reclaimed,
+							redelivered: (msg.deliveries ?? 1) > 1,
+						});
+						if (!handled && !(await handler.isSettled(jobId))) {
+							// 其他 worker 仍在執行或 job 尚未到期：保留訊息，待重新投遞時若 lease 已過期即接手
+							await queueClient.nack(msg, 'job not claimable yet');
+							return;
+						}
+						await queueClient.ack(msg);
 						console.info('[worker] job completed', {
 							jobId,
 							durationMs: Date.now() - startedAt,
 						});
 					} catch (err) {
 						console.error('[worker] job failed', { jobId, err });
+						// 未 ack 的訊息留在 pending entries，達投遞上限後移入 dead-letter stream
+						await queueClient
+							.nack(msg, err instanceof Error ? err.message : String(err))
+							.catch((e) => console.warn('[worker] nack failed', { jobId, e }));
 					} finally {
 						running.delete(jobId);
 					}
@@ -99,6 +124,7 @@ async function main() {
 	async function shutdown() {
 		if (stopped) return;
 		stopped = true;
+		retryScheduler.stop();
 		console.info('[worker] shutdown requested, waiting for running jobs', {
 			runningCount: running.size,
 		});
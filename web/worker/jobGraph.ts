@@ -0,0 +1,124 @@
+import { sql } from './sql';
+
+/**
+ * Job dependency graph helpers (generation_job_dependencies)
+ *
+ * 每篇故事的 generation_jobs 組成一個 DAG：
+ *   story_script -> image/audio（每頁） -> video
+ * 有前置工作的 job 以 status = 'blocked' 建立；前置工作全部完成後才轉為 'pending' 並推入佇列。
+ * 故事的所有 job 都完成時，故事由 processing 轉為 pending_review，等待管理者審核後發布。
+ */
+
+/**
+ * 故事生成管線進度。
+ */
+export interface StoryPipelineProgress {
+	storyId: string;
+	total: number;
+	completed: number;
+	failed: number;
+	processing: number;
+	pending: number;
+	blocked: number;
+	/**
+	 * 人類可讀摘要，例如 "14/21 done, 1 failed"
+	 */
+	summary: string;
+}
+
+/**
+ * Helper: 取出 sql`` 回傳的 rows。
+ * @param res sql`` 回傳值
+ */
+function rowsOf(res: unknown): Record<string, unknown>[] {
+	const maybe = res as { rows?: unknown[] } | undefined;
+	return Array.isArray(maybe?.rows) ? (maybe!.rows as Record<string, unknown>[]) : [];
+}
+
+/**
+ * Release dependents of a completed job: every blocked job whose prerequisites are now all
+ * completed is moved to 'pending'.
+ *
+ * Safe under concurrency: the UPDATE only matches rows still 'blocked', so when two
+ * prerequisites finish at the same time the dependent is released exactly once.
+ *
+ * @param jobId the job that just completed
+ * @returns ids of jobs that became runnable (caller pushes them to the queue)
+ */
+export async function releaseDependentJobs(jobId: string): Promise<string[]> {
+	const res = await sql`
+	   UPDATE generation_jobs gj
+	   SET status = 'pending', updated_at = now()
+	   WHERE gj.status = 'blocked'
+	     AND gj.id IN (
+	       SELECT job_id FROM generation_job_dependencies WHERE depends_on_job_id = ${jobId}
+	     )
+	     AND NOT EXISTS (
+	       SELECT 1
+	       FROM generation_job_dependencies d
+	       JOIN generation_jobs prereq ON prereq.id = d.depends_on_job_id
+	       WHERE d.job_id = gj.id AND prereq.status <> 'completed'
+	     )
+	   RETURNING gj.id
+	 `;
+	return rowsOf(res).map((r) => String(r.id));
+}
+
+/**
+ * Submit the story for review once every job in its graph has completed.
+ * Cancelled jobs (cancelled by an admin or superseded by a regeneration) do not hold the story back.
+ * Publishing happens only after an admin approves it (/admin/stories).
+ * @param storyId stories.id
+ * @returns true if the story moved to pending_review by this call
+ */
+export async function submitStoryForReviewIfPipelineComplete(storyId: string): Promise<boolean> {
+	const res = await sql`
+	   UPDATE stories
+	   SET status = 'pending_review', updated_at = now()
+	   WHERE id = ${storyId}
+	     AND status = 'processing'
+	     AND EXISTS (SELECT 1 FROM generation_jobs WHERE story_id = ${storyId})
+	     AND NOT EXISTS (
+	       SELECT 1 FROM generation_jobs WHERE story_id = ${storyId} AND status NOT IN ('completed', 'cancelled')
+	     )
+	   RETURNING id
+	 `;
+	return rowsOf(res).length > 0;
+}
+
+/**
+ * Report a story's pipeline progress (counts of jobs per status).
+ * @param storyId stories.id
+ */
+export async function getStoryPipelineProgress(storyId: string): Promise<StoryPipelineProgress> {
+	const res = await sql`
+	   SELECT status, count(*)::int AS count
+	   FROM generation_jobs
+	   WHERE story_id = ${storyId}
+	   GROUP BY status
+	 `;
+	const counts: Record<string, number> = {};
+	for (const row of rowsOf(res)) {
+		counts[String(row.status)] = Number(row.count);
+	}
+	return summarizeProgress(storyId, counts);
+}
+
+/**
+ * Build a StoryPipelineProgress from per-status counts.
+ * @param storyId stories.id
+ * @param counts status -> job count
+ */
+export function summarizeProgress(
+	storyId: string,
+	counts: Record<string, number>
+): StoryPipelineProgress {
+	const completed = counts.completed ?? 0;
+	const failed = counts.failed ?? 0;
+	const processing = counts.processing ?? 0;
+	const pending = counts.pending ?? 0;
+	const blocked = counts.blocked ?? 0;
+	const total = Object.values(counts).reduce((a, b) => a + b, 0);
+	const summary = `${completed}/${total} done${failed > 0 ? `, ${failed} failed` : ''}`;
+	return { storyId, total, completed, failed, processing, pending, blocked, summary };
+}
@@ -1,242 +1,305 @@
 /**
  * jobHandler.ts
  *
- * Worker skeleton for consuming generation_jobs from Upstash and dispatching
- * them to the text generation pipeline (StoryGenerationOrchestrator) and
- * persistence (OrchestrationPersistence).
+ * Worker 端的 generation job 分派器：由 worker/index.ts 的拉取迴圈取得 jobId 後呼叫 JobHandler.handle。
  *
- * - 使用範例（本檔為範例 skeleton，包含可注入點與日誌/錯誤處理）：
- *   NODE_ENV=production UPSTASH_REDIS_URL="redis://..." node ./web/worker/jobHandler.ts
+ * 流程：
+ * - 以 claimJob 原子性地將 job 由 pending 轉為 processing（已被其他 worker 取走則略過）；
+ *   重新投遞的訊息（Redis driver 的 XAUTOCLAIM）另可接手 lease 已過期的 processing job（原 worker 已中斷）；
+ *   Postgres queue driver 於 pop 時已完成 claim，此時只讀取 job
+ * - lease 過期而被重新 claim 的 job（前一個 worker 中斷）若已用完該 job type 的嘗試次數，直接標記 failed 並寫入 failed_jobs，
+ *   避免每次都讓 worker 中斷的 job 無限重跑
+ * - 依 job_type 從分派表（JobHandlerTable）取得對應 handler 執行；執行期間每 1/3 lease 以 touchJob 更新 updated_at，
+ *   避免執行較久的 job 被當成 worker 中斷而重新 claim
+ * - 成功時 markJobCompleted 並寫入 result_uri
+ * - 失敗時以 ErrorHandler.shouldRetry 判斷：可重試且未達該 job type 上限時，以指數退避排定
+ *   next_attempt_at 並回到 pending（由 RetryScheduler 到期後推回佇列）；否則標記 failed 並寫入 failed_jobs
+ * - job 完成後釋放相依圖（generation_job_dependencies）中已解除阻塞的後續 job 並推入佇列，
+ *   故事所有 job 完成時將故事發布
  *
- * 實作重點（需根據專案實際需求補足）：
- * - 在 worker 中注入可測試的 StoryGenerationOrchestrator 與 OrchestrationPersistence
- * - 以 transaction 更新 generation_jobs 的狀態（pending -> processing -> completed/failed）
- * - 當需要時呼叫 pushJobsToUpstash（已在 OrchestrationPersistence 實作）
- *
- * 函式級註解（JSDoc）已提供供後續擴充使用。
+ * 新增 job type 時只需在 defaultJobHandlers 註冊 handler，worker 迴圈不需變更。
  */
+import { db } from "../db/client";
 import { env } from "../lib/utils/env";
-import type { Pool } from "pg";
+import type { Env } from "../lib/utils/env";
+import { StoryGenerationOrchestrator } from "../lib/openai/StoryGenerationOrchestrator";
+import { persistGenerationResult } from "../lib/openai/OrchestrationPersistence";
+import { persistRegenerationResult } from "../lib/generation/storyRegeneration";
+import ErrorHandler from "../lib/openai/ErrorHandler";
+import { claimJob, getJob, incrementRetry, markJobCompleted, markJobFailed, scheduleJobRetry, touchJob } from "./db";
+import { DEFAULT_JOB_LEASE_MS } from "./pgQueueClient";
+import { releaseDependentJobs, submitStoryForReviewIfPipelineComplete } from "./jobGraph";
+import type { QueueClient } from "./queueClient";
+import { computeBackoffMs, maxAttemptsFor, resolveRetryPolicy, type RetryPolicy } from "./retryPolicy";
+import { handleStoryScriptJob } from "./handlers/storyScriptHandler";
+import { handleImageJob } from "./handlers/imageHandler";
+import { handleAudioJob } from "./handlers/audioHandler";
+import { handleVideoJob } from "./handlers/videoHandler";
+import { handleRegenerationJob } from "./handlers/regenerationHandler";
+import type { ClaimedJob, GenerationJobType, JobContext, JobHandlerTable } from "./handlers/types";
 
-const DEFAULT_POLL_INTERVAL_MS = 2000;
+/**
+ * 預設的 job type 分派表。
+ */
+export const defaultJobHandlers: JobHandlerTable = {
+  story_script: handleStoryScriptJob,
+  translation: handleRegenerationJob,
+  vocabulary: handleRegenerationJob,
+  image: handleImageJob,
+  audio: handleAudioJob,
+  video: handleVideoJob,
+};
 
 /**
- * Connect to Upstash using ioredis (if UPSTASH_REDIS_URL 設定) or fail-over to REST (not implemented here).
- * 使用動態 import 以避免在未安裝 ioredis 時造成啟動錯誤（同 OrchestrationPersistence 的策略）。
- *
- * @returns Promise<{ client?: any, queueName: string }>
+ * 不會再被執行的 job 狀態（對應訊息可安全 ack）。
  */
-async function connectUpstash() {
-  const queueName = env.UPSTASH_QUEUE_NAME ?? "generation_jobs";
-  if (env.UPSTASH_REDIS_URL) {
-    try {
-      const IORedisModule = await import("ioredis").then((m) => (m && (m as any).default ? (m as any).default : m));
-      const Redis = IORedisModule as any;
-      const client = new Redis(env.UPSTASH_REDIS_URL as string, { lazyConnect: false });
-      console.info("[worker] connected to Upstash Redis via ioredis");
-      return { client, queueName };
-    } catch (err) {
-      console.warn("[worker] failed to import/connect ioredis, will not start redis consumer", err);
-      return { client: undefined, queueName };
-    }
-  } else {
-    console.warn("[worker] UPSTASH_REDIS_URL not set — worker will not poll Redis. Configure UPSTASH_REDIS_URL to enable consumption.");
-    return { client: undefined, queueName };
-  }
-}
+const SETTLED_JOB_STATUSES = ["completed", "failed", "cancelled"];
 
 /**
- * Minimal pg pool helper — uses dynamic import of pg and reads DATABASE_URL from env.
- * This mirrors the fallback pattern used elsewhere in the codebase.
- *
- * @returns Promise<Pool | undefined>
+ * JobHandler 可注入的相依（皆為 optional，未提供時使用預設實作）。
  */
-async function getPgPool(): Promise<Pool | undefined> {
-  const connectionString = process.env.DATABASE_URL ?? process.env.POSTGRES_URL;
-  if (!connectionString) {
-    console.warn("[worker] no DATABASE_URL / POSTGRES_URL found — DB operations will be skipped");
-    return undefined;
-  }
-  try {
-    const { Pool: PgPool } = await import("pg");
-    const pool = new PgPool({ connectionString });
-    return pool as unknown as Pool;
-  } catch (err) {
-    console.error("[worker] failed to import pg Pool", err);
-    return undefined;
-  }
+export interface JobHandlerDeps {
+  orchestrator?: JobContext["orchestrator"];
+  persist?: JobContext["persist"];
+  persistRegeneration?: JobContext["persistRegeneration"];
+  errorHandler?: ErrorHandler;
+  /**
+   * 推送後續 job（例如 video）使用的佇列；未提供時後續 job 只會寫入 DB 等待補推。
+   */
+  queue?: QueueClient;
+  /**
+   * 覆寫預設重試策略（各 job type 上限、退避基準）。
+   */
+  retryPolicy?: Partial<RetryPolicy>;
+  /**
+   * 覆寫或擴充預設分派表。
+   */
+  handlers?: JobHandlerTable;
+  /**
+   * processing job 的 lease 毫秒數（預設 JOB_LEASE_MS），heartbeat 間隔為其 1/3。
+   */
+  leaseMs?: number;
 }
 
 /**
- * Process a single jobId message retrieved from Upstash.
- *
- * NOTE:
- * - 本範例僅示範流程與錯誤處理框架；實際執行需實作：
- *   - 查詢 generation_jobs 欄位與 payload
- *   - 根據 payload.type 決定呼叫 Orchestrator 或其他 handler
- *   - 在 DB transaction 中更新 job 狀態與寫入 results（或呼叫 OrchestrationPersistence）
- *
- * @param jobId string job id 從 Upstash message 取得
- * @param pool pg Pool or undefined
+ * 將 claimJob 回傳的 raw row（snake_case）轉為 ClaimedJob。
+ * @param row generation_jobs row
  */
-async function processJob(jobId: string, pool?: Pool) {
-  console.info("[worker] processing job", { jobId });
-
-  if (!pool) {
-    console.warn("[worker] no pg pool available — skipping job processing (demo mode)");
-    return;
-  }
-
-  const client = await pool.connect();
-  try {
-    // 1) 將 job 狀態設為 processing
-    await client.query("BEGIN");
-    await client.query("UPDATE generation_jobs SET status = $1, updated_at = now() WHERE id = $2", ["processing", jobId]);
-
-    // 2) 讀取 job payload（簡化示範）
-    const res = await client.query("SELECT payload, job_type FROM generation_jobs WHERE id = $1 FOR UPDATE", [jobId]);
-    if (!res.rows || res.rows.length === 0) {
-      throw new Error(`job not found: ${jobId}`);
-    }
-    const row = res.rows[0];
-    const payload = row.payload as Record<string, unknown>;
-    const jobType = row.job_type as string;
-
-    console.info("[worker] job payload", { jobId, jobType, payload });
-
-    // 3) 根據 jobType 決定處理器（此處僅示範 story_script）
-    if (jobType === "story_script" || (payload && (payload as any).type === "story_script")) {
-      // TODO: 注入與呼叫 StoryGenerationOrchestrator 與 OrchestrationPersistence
-      // e.g. const orchestrator = new StoryGenerationOrchestrator();
-      // const result = await orchestrator.run({ storyId: payload.storyId, theme: payload.theme, ... });
-      // await persistGenerationResult(...)
-
-      // Demo 行為：在 DB 中寫入一個簡短的 note 並標記為 completed
-      await client.query(
-        "UPDATE generation_jobs SET status = $1, result_uri = $2, updated_at = now() WHERE id = $3",
-        ["completed", "demo://no-op", jobId],
-      );
-
-      console.info("[worker] demo processed job (marked completed)", { jobId });
-    } else {
-      // 未支援的 job type
-      console.warn("[worker] unsupported job type — marking failed", { jobId, jobType });
-      await client.query(
-        "UPDATE generation_jobs SET status = $1, failure_reason = $2, updated_at = now() WHERE id = $3",
-        ["failed", `unsupported job type: ${jobType}`, jobId],
-      );
-    }
-
-    await client.query("COMMIT");
-  } catch (err) {
+function toClaimedJob(row: Record<string, unknown>): ClaimedJob {
+  const rawPayload = row.payload;
+  let payload: Record<string, unknown> = {};
+  if (typeof rawPayload === "string") {
     try {
-      await client.query("ROLLBACK");
-    } catch (rollbackErr) {
-      console.error("[worker] rollback failed", rollbackErr);
-    }
-    console.error("[worker] error processing job", { jobId, error: err });
-    // 增加 retry_count 並決定是否重新推入佇列（此處僅示意）
-    try {
-      await client.query("UPDATE generation_jobs SET retry_count = retry_count + 1, status = $1, updated_at = now() WHERE id = $2", ["failed", jobId]);
-    } catch (e) {
-      console.error("[worker] failed to update retry_count", e);
-    }
-  } finally {
-    try {
-      client.release();
+      payload = JSON.parse(rawPayload) as Record<string, unknown>;
     } catch {
-      // ignore
+      payload = {};
     }
+  } else if (rawPayload && typeof rawPayload === "object") {
+    payload = rawPayload as Record<string, unknown>;
   }
+
+  return {
+    id: String(row.id),
+    storyId: String(row.story_id),
+    jobType: String(row.job_type) as GenerationJobType,
+    retryCount: Number(row.retry_count ?? 0),
+    payload,
+  };
 }
 
 /**
- * Poll loop: 從 Upstash queue lpop 取得 message，解析後呼叫 processJob。
- *
- * message format expected: JSON.stringify({ jobId: "<uuid>", timestamp: <ms> })
+ * JobHandler：claim job 並依 job_type 分派執行。
  */
-async function pollLoop() {
-  const { client, queueName } = await connectUpstash();
-  const pool = await getPgPool();
+export class JobHandler {
+  private readonly ctx: JobContext;
+  private readonly handlers: JobHandlerTable;
+  private readonly errorHandler: ErrorHandler;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly leaseMs: number;
 
-  if (!client) {
-    console.warn("[worker] no redis client — exiting poll loop");
-    return;
+  /**
+   * @param dbClient Drizzle db 實例
+   * @param envVars 已驗證的環境變數
+   * @param deps 可注入的 orchestrator / persist / handlers（便於測試）
+   */
+  constructor(dbClient: typeof db = db, envVars: Env = env, deps: JobHandlerDeps = {}) {
+    this.ctx = {
+      db: dbClient,
+      env: envVars,
+      orchestrator: deps.orchestrator ?? new StoryGenerationOrchestrator(),
+      persist: deps.persist ?? persistGenerationResult,
+      persistRegeneration: deps.persistRegeneration ?? persistRegenerationResult,
+      enqueue: async (jobId: string) => {
+        if (!deps.queue) {
+          console.warn("[worker] no queue client configured; job left pending in DB", { jobId });
+          return;
+        }
+        await deps.queue.push({ jobId, timestamp: Date.now() });
+      },
+    };
+    this.handlers = { ...defaultJobHandlers, ...deps.handlers };
+    this.errorHandler = deps.errorHandler ?? new ErrorHandler();
+    this.retryPolicy = resolveRetryPolicy(deps.retryPolicy);
+    this.leaseMs = deps.leaseMs ?? envVars.JOB_LEASE_MS ?? DEFAULT_JOB_LEASE_MS;
   }
 
-  const redis = client as any;
+  /**
+   * 處理單一 job。
+   *
+   * - job 不存在或已被 claim 時直接略過（回傳 false）
+   * - 不支援的 job type，或 lease 過期重新 claim 且已達重試上限的 job，會被標記為 failed 並寫入 failed_jobs（不拋錯）
+   * - handler 拋錯且可重試時排定延遲重試（不拋錯）
+   * - 不可重試或已達重試上限時標記 failed、寫入 failed_jobs 後向上拋出，讓呼叫端記錄 log
+   *
+   * @param jobId generation_jobs.id
+   * @param opts.claimed queue 已將 job 轉為 processing（Postgres driver）
+   * @param opts.reclaimed job 是 lease 過期後重新 claim 的（retry_count 已加 1）
+   * @param opts.redelivered 訊息為重新投遞（可接手 lease 已過期的 processing job）
+   * @returns 是否實際執行了該 job
+   */
+  async handle(
+    jobId: string,
+    opts: { claimed?: boolean; reclaimed?: boolean; redelivered?: boolean } = {},
+  ): Promise<boolean> {
+    const row = opts.claimed
+      ? await this.loadClaimedJob(jobId)
+      : await claimJob(jobId, opts.redelivered ? { reclaimAfterMs: this.leaseMs } : {});
+    if (!row) {
+      console.info("[worker] job not claimable (missing or already taken), skipping", { jobId });
+      return false;
+    }
 
-  console.info("[worker] starting poll loop for queue", queueName);
+    const job = toClaimedJob(row);
+    const maxAttempts = maxAttemptsFor(this.retryPolicy, job.jobType);
+    if ((opts.reclaimed || row.reclaimed === true) && job.retryCount >= maxAttempts) {
+      console.warn("[worker] reclaimed job exhausted its attempts — marking failed", { jobId, jobType: job.jobType, maxAttempts });
+      await this.failWithoutRunning(job, `lease expired on attempt ${job.retryCount} of ${maxAttempts}; giving up`, job.retryCount);
+      return true;
+    }
 
-  let running = true;
-  process.on("SIGINT", () => {
-    console.info("[worker] SIGINT received — shutting down");
-    running = false;
-  });
-  process.on("SIGTERM", () => {
-    console.info("[worker] SIGTERM received — shutting down");
-    running = false;
-  });
+    const handler = this.handlers[job.jobType];
+    if (!handler) {
+      console.warn("[worker] unsupported job type — marking failed", { jobId, jobType: job.jobType });
+      await this.failWithoutRunning(job, `unsupported job type: ${job.jobType}`, job.retryCount + 1);
+      return true;
+    }
 
-  while (running) {
     try {
-      // 使用 LPOP 取出 single message（Upstash 支援 list ops）
-      // 若需要 blocking pop 可改為 BRPOP 等待
-      const raw = await redis.lpop(queueName);
-      if (!raw) {
-        // no message
-        await new Promise((r) => setTimeout(r, DEFAULT_POLL_INTERVAL_MS));
-        continue;
+      const resultUri = await this.withHeartbeat(jobId, () => handler(job, this.ctx));
+      await markJobCompleted(jobId, resultUri);
+    } catch (err) {
+      // failure_reason 欄位長度上限為 512
+      const reason = (err instanceof Error ? err.message : String(err)).slice(0, 512);
+      const attempt = job.retryCount + 1;
+
+      if (this.errorHandler.shouldRetry(err, attempt, maxAttempts)) {
+        const delayMs = computeBackoffMs(attempt, this.retryPolicy);
+        try {
+          await scheduleJobRetry(jobId, reason, delayMs);
+          console.warn("[worker] job failed, retry scheduled", { jobId, jobType: job.jobType, attempt, maxAttempts, delayMs });
+          return true;
+        } catch (scheduleErr) {
+          console.error("[worker] failed to schedule retry, marking job failed", { jobId, error: scheduleErr });
+        }
       }
 
-      let parsed: { jobId?: string } | null = null;
       try {
-        parsed = JSON.parse(String(raw));
-      } catch {
-        console.warn("[worker] failed to parse message, skipping", raw);
-        continue;
+        await incrementRetry(jobId);
+        await markJobFailed(jobId, reason);
+      } catch (updateErr) {
+        console.error("[worker] failed to mark job failed", { jobId, error: updateErr });
       }
-
-      if (!parsed || !parsed.jobId) {
-        console.warn("[worker] invalid message shape, skipping", parsed);
-        continue;
+      try {
+        await this.errorHandler.recordFailure(
+          { generationJobId: jobId, stage: job.jobType, attempt },
+          err,
+        );
+      } catch (recordErr) {
+        console.error("[worker] failed to record job failure", recordErr);
       }
-
-      await processJob(parsed.jobId, pool);
-    } catch (err) {
-      console.error("[worker] poll error", err);
-      // backoff on error
-      await new Promise((r) => setTimeout(r, DEFAULT_POLL_INTERVAL_MS * 2));
+      throw err;
     }
+
+    await this.advanceGraph(job);
+    return true;
   }
 
-  // close redis client and pg pool
-  try {
-    await (client as any).quit();
-  } catch {
-    // ignore
+  /**
+   * job 是否已不需要再執行（不存在，或已是 completed / failed / cancelled），
+   * 供 worker 迴圈判斷略過的訊息能否 ack。
+   * @param jobId generation_jobs.id
+   */
+  async isSettled(jobId: string): Promise<boolean> {
+    const row = await getJob(jobId);
+    return !row || SETTLED_JOB_STATUSES.includes(String(row.status));
   }
-  if (pool) {
+
+  /**
+   * 不執行 handler 直接將 job 標記為 failed 並寫入 failed_jobs（寫入失敗只記錄 log）。
+   * @param job 已 claim 的 job
+   * @param reason 失敗原因
+   * @param attempt 寫入 failed_jobs 的嘗試次數
+   */
+  private async failWithoutRunning(job: ClaimedJob, reason: string, attempt: number) {
+    await markJobFailed(job.id, reason);
     try {
-      await pool.end();
-    } catch {
-      // ignore
+      await this.errorHandler.recordFailure({ generationJobId: job.id, stage: job.jobType, attempt }, new Error(reason));
+    } catch (recordErr) {
+      console.error("[worker] failed to record job failure", recordErr);
     }
   }
 
-  console.info("[worker] stopped");
-}
+  /**
+   * 執行期間定期 heartbeat（更新 updated_at）以延長 lease；heartbeat 失敗只記錄 log。
+   * @param jobId generation_jobs.id
+   * @param run 實際執行的 handler
+   */
+  private async withHeartbeat<T>(jobId: string, run: () => Promise<T>): Promise<T> {
+    const timer = setInterval(() => {
+      touchJob(jobId).catch((err) => console.warn("[worker] job heartbeat failed", { jobId, error: err }));
+    }, Math.max(1000, Math.floor(this.leaseMs / 3)));
+    try {
+      return await run();
+    } finally {
+      clearInterval(timer);
+    }
+  }
 
-/**
- * Entrypoint
- */
-if (require.main === module) {
-  (async () => {
+  /**
+   * 讀取 queue 已 claim 的 job；狀態不是 processing 時視為不可執行。
+   * @param jobId generation_jobs.id
+   */
+  private async loadClaimedJob(jobId: string) {
+    const row = await getJob(jobId);
+    return row && row.status === "processing" ? row : null;
+  }
+
+  /**
+   * 依相依圖推進故事管線：
+   * - 將前置工作皆已完成的 blocked job 轉為 pending 並推入佇列
+   * - 故事所有 job 完成時送交審核（pending_review）
+   *
+   * 推送失敗不影響已完成的 job（後續 job 仍留在 DB 為 pending）。
+   *
+   * @param job 剛完成的 job
+   */
+  private async advanceGraph(job: ClaimedJob) {
     try {
-      await pollLoop();
+      const released = await releaseDependentJobs(job.id);
+      for (const nextJobId of released) {
+        await this.ctx.enqueue(nextJobId);
+      }
+      if (released.length > 0) {
+        console.info("[worker] released dependent jobs", { jobId: job.id, released });
+      }
+
+      if (await submitStoryForReviewIfPipelineComplete(job.storyId)) {
+        console.info("[worker] story pipeline completed, story awaiting review", { storyId: job.storyId });
+      }
     } catch (err) {
-      console.error("[worker] fatal error", err);
-      process.exit(1);
+      console.error("[worker] failed to advance job graph", { jobId: job.id, storyId: job.storyId, error: err });
     }
-  })();
+  }
 }
+
+export default JobHandler;
@@ -0,0 +1,192 @@
+import type { QueueClient, UpstashMessage } from './queueClient';
+
+/**
+ * Postgres queue driver（QUEUE_DRIVER=postgres）
+ *
+ * 直接以 generation_jobs 作為佇列，不需 Upstash：
+ *  - pop: `FOR UPDATE SKIP LOCKED` 取出最早的 pending（且重試時間已到）job，並在同一個 UPDATE 中轉為 processing；
+ *    多個 worker 同時 pop 也不會取到同一筆
+ *  - lease：processing 超過 leaseMs 未更新（worker 當機）的 job 視為遺失，會被重新 claim（retry_count + 1，
+ *    訊息帶 reclaimed，由 JobHandler 檢查重試上限），相當於 Redis driver 的 XAUTOCLAIM；
+ *    執行中的 job 由 JobHandler 定期 heartbeat 更新 updated_at
+ *  - 無可取 job 時以 LISTEN 等待通知（generation_jobs 轉為 pending 時由 trigger 發出 NOTIFY），逾時則回傳 null
+ *  - push: pg_notify 喚醒等待中的 worker（job 本身已在資料表中）
+ *  - ack / nack: 不需處理，job 狀態由 JobHandler 寫回 generation_jobs
+ */
+
+/**
+ * 通知頻道名稱（需與 migration 中的 trigger 一致）
+ */
+export const PG_QUEUE_CHANNEL = 'generation_jobs';
+
+/**
+ * processing job 預設的 lease（毫秒，可由 JOB_LEASE_MS 覆寫）
+ */
+export const DEFAULT_JOB_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Minimal pg Pool shape used by this module.
+ */
+export type PgQueryable = {
+	query(text: string, values?: unknown[]): Promise<{ rows: Record<string, unknown>[] }>;
+};
+
+/**
+ * Minimal pg Client shape used for LISTEN.
+ */
+export type PgListener = PgQueryable & {
+	connect(): Promise<unknown>;
+	end(): Promise<unknown>;
+	on(event: 'notification', cb: (msg: { channel: string; payload?: string }) => void): unknown;
+	on(event: 'error', cb: (err: Error) => void): unknown;
+};
+
+/**
+ * Postgres queue 設定
+ */
+export interface PgQueueOptions {
+	/**
+	 * 建立專用 LISTEN 連線（pool 中的連線會被歸還，無法長時間 LISTEN）
+	 */
+	createListener: () => PgListener;
+	/**
+	 * 無 job 時等待通知的毫秒數
+	 */
+	blockMs: number;
+	/**
+	 * processing job 的 lease 毫秒數，超過未 heartbeat 後可被其他 worker 重新 claim（預設 10 分鐘）
+	 */
+	leaseMs?: number;
+	channel?: string;
+}
+
+export class PgQueueClient implements QueueClient {
+	private listener: PgListener | null = null;
+	private listening: Promise<void> | null = null;
+	private waiters: Array<() => void> = [];
+
+	constructor(
+		private readonly pool: PgQueryable,
+		private readonly opts: PgQueueOptions
+	) {}
+
+	private get channel(): string {
+		return this.opts.channel ?? PG_QUEUE_CHANNEL;
+	}
+
+	async pop(): Promise<UpstashMessage | null> {
+		try {
+			await this.ensureListening();
+		} catch (err) {
+			// LISTEN 失敗時仍可依 blockMs 輪詢
+			console.warn('[pgQueueClient] LISTEN failed, falling back to polling', err);
+		}
+
+		try {
+			const claimed = await this.claimNext();
+			if (claimed) return claimed;
+
+			await this.waitForNotification(this.opts.blockMs);
+
+			return await this.claimNext();
+		} catch (err) {
+			console.error('[pgQueueClient] claim error', err);
+			return null;
+		}
+	}
+
+	async push(msg: UpstashMessage): Promise<void> {
+		await this.pool.query('SELECT pg_notify($1, $2)', [this.channel, msg.jobId]);
+	}
+
+	async ack(): Promise<void> {
+		// job 狀態由 JobHandler 寫回 generation_jobs
+	}
+
+	async nack(): Promise<void> {
+		// 失敗狀態與重試排程由 JobHandler 寫回 generation_jobs
+	}
+
+	async close(): Promise<void> {
+		this.wakeAll();
+		if (!this.listener) return;
+		try {
+			await this.listener.end();
+		} catch (err) {
+			console.warn('[pgQueueClient] error closing listener', err);
+		}
+		this.listener = null;
+		this.listening = null;
+	}
+
+	/**
+	 * 以 SKIP LOCKED 原子性地 claim 下一筆可執行的 job（pending 且重試時間已到，或 lease 已過期的 processing）。
+	 * @returns 已 claim 的訊息（lease 過期而重新 claim 時帶 reclaimed）或 null
+	 */
+	private async claimNext(): Promise<UpstashMessage | null> {
+		const res = await this.pool.query(
+			`WITH candidate AS (
+			   SELECT id, status FROM generation_jobs
+			   WHERE (status = 'pending' AND (next_attempt_at IS NULL OR next_attempt_at <= now()))
+			      OR (status = 'processing' AND updated_at < now() - make_interval(secs => $1::double precision / 1000))
+			   ORDER BY created_at
+			   LIMIT 1
+			   FOR UPDATE SKIP LOCKED
+			 )
+			 UPDATE generation_jobs j
+			 SET status = 'processing', next_attempt_at = NULL, updated_at = now(),
+			     retry_count = j.retry_count + CASE WHEN candidate.status = 'processing' THEN 1 ELSE 0 END
+			 FROM candidate
+			 WHERE j.id = candidate.id
+			 RETURNING j.id, candidate.status = 'processing' AS reclaimed`,
+			[this.opts.leaseMs ?? DEFAULT_JOB_LEASE_MS]
+		);
+		const row = res.rows[0];
+		if (!row) return null;
+		return { jobId: String(row.id), timestamp: Date.now(), claimed: true, reclaimed: row.reclaimed === true };
+	}
+
+	/**
+	 * 建立 LISTEN 連線（僅一次；失敗後下次 pop 會重試）。
+	 */
+	private ensureListening(): Promise<void> {
+		if (!this.listening) {
+			this.listening = (async () => {
+				const listener = this.opts.createListener();
+				listener.on('notification', () => this.wakeAll());
+				listener.on('error', (err) => {
+					console.warn('[pgQueueClient] listener error, will reconnect', err);
+					this.listener = null;
+					this.listening = null;
+					this.wakeAll();
+				});
+				await listener.connect();
+				await listener.query(`LISTEN "${this.channel}"`);
+				this.listener = listener;
+			})().catch((err) => {
+				this.listening = null;
+				throw err;
+			});
+		}
+		return this.listening;
+	}
+
+	/**
+	 * 等待 NOTIFY 或逾時。
+	 */
+	private waitForNotification(timeoutMs: number): Promise<void> {
+		return new Promise((resolve) => {
+			const done = () => {
+				clearTimeout(timer);
+				this.waiters = this.waiters.filter((w) => w !== done);
+				resolve();
+			};
+			const timer = setTimeout(done, timeoutMs);
+			this.waiters.push(done);
+		});
+	}
+
+	private wakeAll() {
+		for (const waiter of [...this.waiters]) waiter();
+	}
+}
@@ -10,6 +10,7 @@ import { env } from "../../lib/utils/env";
  * {
  *   uri: string,
  *   format: string, // e.g. "mp3", "wav"
+ *   durationSeconds: number,
  *   metadata?: Record<string, unknown>
  * }
  */
@@ -19,6 +20,10 @@ import { env } from "../../lib/utils/env";
  */
 export interface TTSOptions {
   text: string;
+  /**
+   * 語言標記（BCP 47），例如 "en-US"、"zh-TW"；預設 "en-US"
+   */
+  language?: string;
   voice?: string;
   format?: "mp3" | "wav";
   speed?: number;
@@ -30,9 +35,37 @@ export interface TTSOptions {
 export interface TTSResult {
   uri: string;
   format: string;
+  /**
+   * 旁白長度（秒）；provider 未回報時使用 estimateNarrationSeconds 估算
+   */
+  durationSeconds: number;
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * 估算旁白長度（秒）。
+ * - 英文以字數計算（兒童繪本朗讀約每分鐘 120 字）
+ * - 中文以字元數計算（約每秒 4 字）
+ * 結果會依 speed 調整並保留一位小數，最短 1 秒。
+ *
+ * @param text 旁白文字
+ * @param language 語言標記
+ * @param speed 語速倍率（1 = 正常）
+ */
+export function estimateNarrationSeconds(text: string, language = "en-US", speed = 1): number {
+  const trimmed = text.trim();
+  let seconds: number;
+  if (language.toLowerCase().startsWith("zh")) {
+    const chars = trimmed.replace(/[\s.,!?;:'"，。！？、；：「」『』（）]/g, "").length;
+    seconds = chars / 4;
+  } else {
+    const words = trimmed.split(/\s+/).filter(Boolean).length;
+    seconds = (words / 120) * 60;
+  }
+  const adjusted = seconds / (speed > 0 ? speed : 1);
+  return Math.max(1, Math.round(adjusted * 10) / 10);
+}
+
 /**
  * 呼叫 TTS provider 產生語音（目前為 stub）
  * @param opts
@@ -60,10 +93,12 @@ export async function callTTSProvider(opts: TTSOptions, envVars: Partial<typeof
   return {
     uri: demoMp3,
     format: opts.format ?? "mp3",
+    durationSeconds: estimateNarrationSeconds(opts.text, opts.language, opts.speed),
     metadata: {
       provider: envVars.ELEVENLABS_API_KEY ? "configured-but-unimplemented" : "placeholder",
       textSnippet: opts.text.slice(0, 80),
       voice: opts.voice ?? "default",
+      language: opts.language ?? "en-US",
     },
   };
 }
\ No newline at end of file
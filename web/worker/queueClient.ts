@@ -1,6 +1,10 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import type { Env } from '../lib/utils/env';
 import { env } from '../lib/utils/env';
+import { hostname } from 'os';
+import { Client } from 'pg';
+import { PgQueueClient } from './pgQueueClient';
+import { getPgPool } from '../lib/utils/pgPool';
 
 /**
  * Upstash queue message shape（由 OrchestrationPersistence 推送）
@@ -8,6 +12,22 @@ import { env } from '../lib/utils/env';
 export interface UpstashMessage {
 	jobId: string;
 	timestamp?: number;
+	/**
+	 * Redis Stream entry id（由 pop() 填入，ack/nack 時使用）
+	 */
+	streamId?: string;
+	/**
+	 * 此訊息已被投遞的次數（由 pop() 填入）
+	 */
+	deliveries?: number;
+	/**
+	 * pop() 時已將 job 轉為 processing（Postgres driver），JobHandler 不需再 claim
+	 */
+	claimed?: boolean;
+	/**
+	 * claim 時 job 原本是 lease 已過期的 processing（前一個 worker 中斷），JobHandler 需先檢查重試上限
+	 */
+	reclaimed?: boolean;
 }
 
 /**
@@ -24,6 +44,18 @@ export interface QueueClient {
 	 */
 	push(msg: UpstashMessage): Promise<void>;
 
+	/**
+	 * 確認訊息已處理完成（自 pending entries 移除）
+	 */
+	ack(msg: UpstashMessage): Promise<void>;
+
+	/**
+	 * 標記訊息處理失敗：保留於 pending entries 待重新投遞，
+	 * 投遞次數達上限時移入 dead-letter stream。
+	 * @param reason 失敗原因（寫入 dead-letter entry）
+	 */
+	nack(msg: UpstashMessage, reason?: string): Promise<void>;
+
 	/**
 	 * 關閉 client（關閉 redis 連線等）
 	 */
@@ -34,14 +66,257 @@ export interface QueueClient {
  * Minimal Redis-like client shape used by this module.
  * We keep it intentionally small to avoid coupling to concrete types.
  */
-type RedisLike = {
-	brpop(queue: string, timeoutSec: number): Promise<unknown>;
-	rpush(queue: string, value: string): Promise<unknown>;
-	quit?(): Promise<void>;
+export type RedisLike = {
+	xadd(key: string, ...args: (string | number)[]): Promise<unknown>;
+	xreadgroup(...args: (string | number)[]): Promise<unknown>;
+	xack(key: string, group: string, ...ids: string[]): Promise<unknown>;
+	xautoclaim(
+		key: string,
+		group: string,
+		consumer: string,
+		minIdleTime: number,
+		start: string,
+		...args: (string | number)[]
+	): Promise<unknown>;
+	xpending(key: string, group: string, ...args: (string | number)[]): Promise<unknown>;
+	xgroup(...args: (string | number)[]): Promise<unknown>;
+	quit?(): Promise<unknown>;
 	disconnect?(): void;
 	connect?(): Promise<void>;
 };
 
+/**
+ * Redis Streams consumer 設定
+ */
+export interface StreamQueueOptions {
+	queueName: string;
+	/**
+	 * consumer group 名稱（所有 worker 共用）
+	 */
+	group: string;
+	/**
+	 * 本 worker 的 consumer 名稱（每個程序唯一）
+	 */
+	consumer: string;
+	/**
+	 * 投遞次數上限；超過即移入 `<queue>:dlq`
+	 */
+	maxDeliveries: number;
+	/**
+	 * pending entry 閒置超過此毫秒數視為 consumer 卡住，可由其他 consumer 以 XAUTOCLAIM 接手
+	 */
+	claimIdleMs: number;
+	/**
+	 * XREADGROUP BLOCK 毫秒數
+	 */
+	blockMs: number;
+}
+
+/**
+ * 訊息在 stream entry 中存放的欄位名稱（值為 JSON string）
+ */
+const STREAM_FIELD = 'message';
+
+/**
+ * Redis Streams queue client：
+ *  - push: XADD <queue> * message <json>
+ *  - pop: 先以 XAUTOCLAIM 接手閒置過久的 pending entry，否則 XREADGROUP 讀取新訊息
+ *  - ack: XACK
+ *  - nack: 不 ack，讓 entry 留在 pending entries 待 XAUTOCLAIM 重新投遞；
+ *    投遞次數達 maxDeliveries 時改寫入 `<queue>:dlq` 並 XACK 原訊息
+ *
+ * worker 在處理途中崩潰時，訊息仍在 pending entries，不會遺失。
+ */
+export class RedisStreamQueueClient implements QueueClient {
+	private groupReady = false;
+
+	constructor(
+		private readonly redis: RedisLike,
+		private readonly opts: StreamQueueOptions
+	) {}
+
+	/**
+	 * dead-letter stream 名稱
+	 */
+	get deadLetterStream(): string {
+		return `${this.opts.queueName}:dlq`;
+	}
+
+	async pop(): Promise<UpstashMessage | null> {
+		try {
+			await this.ensureGroup();
+
+			const reclaimed = await this.reclaimStale();
+			if (reclaimed) return reclaimed;
+
+			const resp = await this.redis.xreadgroup(
+				'GROUP',
+				this.opts.group,
+				this.opts.consumer,
+				'COUNT',
+				1,
+				'BLOCK',
+				this.opts.blockMs,
+				'STREAMS',
+				this.opts.queueName,
+				'>'
+			);
+			// 回傳形狀：[[stream, [[id, [field, value, ...]]]]]
+			if (!Array.isArray(resp) || resp.length === 0) return null;
+			const entries = (resp[0] as unknown[])[1];
+			if (!Array.isArray(entries) || entries.length === 0) return null;
+			const [id, fields] = entries[0] as [string, string[]];
+			return this.toMessage(id, fields, 1);
+		} catch (err) {
+			console.error('[queueClient] redis xreadgroup error', err);
+			return null;
+		}
+	}
+
+	async push(msg: UpstashMessage): Promise<void> {
+		try {
+			await this.redis.xadd(
+				this.opts.queueName,
+				'*',
+				STREAM_FIELD,
+				JSON.stringify({ jobId: msg.jobId, timestamp: msg.timestamp ?? Date.now() })
+			);
+		} catch (err) {
+			console.error('[queueClient] redis xadd error', err);
+			throw err;
+		}
+	}
+
+	async ack(msg: UpstashMessage): Promise<void> {
+		if (!msg.streamId) return;
+		await this.redis.xack(this.opts.queueName, this.opts.group, msg.streamId);
+	}
+
+	async nack(msg: UpstashMessage, reason?: string): Promise<void> {
+		if (!msg.streamId) return;
+		if ((msg.deliveries ?? 1) >= this.opts.maxDeliveries) {
+			await this.deadLetter(msg, reason ?? 'max deliveries reached');
+		}
+		// 否則保持 pending，待閒置逾時後由 XAUTOCLAIM 重新投遞
+	}
+
+	async close(): Promise<void> {
+		try {
+			if (typeof this.redis.quit === 'function') await this.redis.quit();
+			else if (typeof this.redis.disconnect === 'function') this.redis.disconnect();
+		} catch (err) {
+			console.warn('[queueClient] error closing redis client', err);
+		}
+	}
+
+	/**
+	 * 建立 consumer group（MKSTREAM；已存在時忽略 BUSYGROUP）。
+	 * 由 '0' 開始讀取，確保 group 建立前已推入的訊息也會被消費。
+	 */
+	private async ensureGroup(): Promise<void> {
+		if (this.groupReady) return;
+		try {
+			await this.redis.xgroup('CREATE', this.opts.queueName, this.opts.group, '0', 'MKSTREAM');
+		} catch (err) {
+			if (!String((err as Error)?.message ?? err).includes('BUSYGROUP')) throw err;
+		}
+		this.groupReady = true;
+	}
+
+	/**
+	 * 以 XAUTOCLAIM 接手一則閒置過久的 pending entry。
+	 * 投遞次數已超過上限者直接移入 dead-letter stream 並繼續找下一則。
+	 */
+	private async reclaimStale(): Promise<UpstashMessage | null> {
+		let cursor = '0-0';
+		do {
+			const resp = await this.redis.xautoclaim(
+				this.opts.queueName,
+				this.opts.group,
+				this.opts.consumer,
+				this.opts.claimIdleMs,
+				cursor,
+				'COUNT',
+				1
+			);
+			// 回傳形狀：[nextCursor, [[id, [field, value, ...]]], deletedIds?]
+			if (!Array.isArray(resp) || resp.length < 2) return null;
+			cursor = String(resp[0]);
+			const entries = resp[1] as unknown[];
+			if (!Array.isArray(entries) || entries.length === 0) return null;
+
+			const [id, fields] = entries[0] as [string, string[] | null];
+			const deliveries = await this.deliveryCount(id);
+			if (!fields) {
+				// entry 已被 XDEL / XTRIM 刪除，只需 ack 掉殘留的 pending 紀錄
+				await this.redis.xack(this.opts.queueName, this.opts.group, id);
+				continue;
+			}
+			const msg = this.toMessage(id, fields, deliveries);
+			if (deliveries > this.opts.maxDeliveries) {
+				await this.deadLetter(msg, `exceeded ${this.opts.maxDeliveries} deliveries`);
+				continue;
+			}
+			console.info('[queueClient] reclaimed stale message', { streamId: id, deliveries });
+			return msg;
+		} while (cursor !== '0-0');
+		return null;
+	}
+
+	/**
+	 * 查詢 pending entry 的投遞次數（XPENDING extended form）。
+	 */
+	private async deliveryCount(id: string): Promise<number> {
+		const resp = await this.redis.xpending(this.opts.queueName, this.opts.group, id, id, 1);
+		// 回傳形狀：[[id, consumer, idleMs, deliveries]]
+		if (!Array.isArray(resp) || resp.length === 0) return 1;
+		const entry = resp[0] as unknown[];
+		return Number(entry?.[3] ?? 1);
+	}
+
+	/**
+	 * 寫入 dead-letter stream 並 XACK 原訊息。
+	 */
+	private async deadLetter(msg: UpstashMessage, reason: string): Promise<void> {
+		await this.redis.xadd(
+			this.deadLetterStream,
+			'*',
+			STREAM_FIELD,
+			JSON.stringify({ jobId: msg.jobId, timestamp: msg.timestamp }),
+			'sourceId',
+			msg.streamId ?? '',
+			'deliveries',
+			msg.deliveries ?? 0,
+			'reason',
+			reason.slice(0, 512)
+		);
+		if (msg.streamId) {
+			await this.redis.xack(this.opts.queueName, this.opts.group, msg.streamId);
+		}
+		console.warn('[queueClient] message moved to dead-letter stream', {
+			jobId: msg.jobId,
+			streamId: msg.streamId,
+			stream: this.deadLetterStream,
+			reason,
+		});
+	}
+
+	/**
+	 * 將 stream entry 欄位轉為 UpstashMessage；無法解析時保留 jobId 為空字串交由呼叫端處理。
+	 */
+	private toMessage(id: string, fields: string[], deliveries: number): UpstashMessage {
+		const idx = fields.indexOf(STREAM_FIELD);
+		const raw = idx >= 0 ? fields[idx + 1] : undefined;
+		try {
+			const parsed = JSON.parse(String(raw)) as UpstashMessage;
+			return { jobId: parsed.jobId, timestamp: parsed.timestamp, streamId: id, deliveries };
+		} catch (e) {
+			console.warn('[queueClient] failed to parse message JSON', e, { raw });
+			return { jobId: '', streamId: id, deliveries };
+		}
+	}
+}
+
 /**
  * No-op client: 用於未設定 Upstash 時，避免 runtime crash
  */
@@ -52,6 +327,12 @@ class NoopQueueClient implements QueueClient {
 	async push(_msg: UpstashMessage): Promise<void> {
 		throw new Error('UPSTASH not configured; push not supported');
 	}
+	async ack(): Promise<void> {
+		// noop
+	}
+	async nack(): Promise<void> {
+		// noop
+	}
 	async close(): Promise<void> {
 		// noop
 	}
@@ -95,24 +376,47 @@ class RestQueueClient implements QueueClient {
 		}
 	}
 
+	async ack(): Promise<void> {
+		// push-only client: nothing to acknowledge
+	}
+
+	async nack(): Promise<void> {
+		// push-only client: nothing to acknowledge
+	}
+
 	async close(): Promise<void> {
 		// noop
 	}
 }
 
 /**
- * 建立一個支援 Upstash Redis 的 queue client（優先使用 ioredis），否則回退到 REST (push-only)，最後回傳 noop client。
+ * 建立 queue client：
+ *  - QUEUE_DRIVER=postgres：以 generation_jobs 作為佇列（PgQueueClient），不需 Upstash
+ *  - 否則使用 Upstash Redis Streams（優先使用 ioredis，consumer group 消費），再回退到 REST (push-only)，最後回傳 noop client。
  *
  * @param opts 可選參數，允許覆寫 env 與 queueName（方便測試）
  */
 export async function createQueueClient(opts?: {
 	envVars?: Env;
 	queueName?: string;
+	group?: string;
+	consumer?: string;
 }): Promise<QueueClient> {
 	const envVars = opts?.envVars ?? env;
 	const queueName =
 		opts?.queueName ?? envVars.UPSTASH_QUEUE_NAME ?? 'generation_jobs';
 
+	// 0) Postgres driver：generation_jobs 本身即為佇列
+	if (envVars.QUEUE_DRIVER === 'postgres') {
+		console.info('[createQueueClient] using postgres queue driver');
+		return new PgQueueClient(getPgPool(), {
+			createListener: () => new Client({ connectionString: process.env.DATABASE_URL }),
+			blockMs: 5000,
+			// processing 超過此時間未 heartbeat 的 job 會被重新 claim
+			leaseMs: envVars.JOB_LEASE_MS,
+		});
+	}
+
 	// 1) 優先使用 Redis client（UPSTASH_REDIS_URL）
 	if (envVars.UPSTASH_REDIS_URL) {
 		try {
@@ -135,54 +439,14 @@ export async function createQueueClient(opts?: {
 				}
 			}
 
-			const redisClient = clientInstance as RedisLike;
-
-			async function pop(): Promise<UpstashMessage | null> {
-				try {
-					const timeoutSec = 5;
-					const resp = await redisClient.brpop(queueName, timeoutSec);
-					if (!resp) return null;
-					if (Array.isArray(resp) && resp.length >= 2) {
-						const msgStr = resp[1];
-						try {
-							const parsed = JSON.parse(msgStr) as UpstashMessage;
-							return parsed;
-						} catch (e) {
-							console.warn('[queueClient] failed to parse message JSON', e, {
-								raw: msgStr,
-							});
-							return null;
-						}
-					}
-					// unknown shape
-					return null;
-				} catch (err) {
-					console.error('[queueClient] redis brpop error', err);
-					return null;
-				}
-			}
-
-			async function push(msg: UpstashMessage): Promise<void> {
-				try {
-					await redisClient.rpush(queueName, JSON.stringify(msg));
-				} catch (err) {
-					console.error('[queueClient] redis rpush error', err);
-					throw err;
-				}
-			}
-
-			async function close(): Promise<void> {
-				try {
-					if (typeof (redisClient as any).quit === 'function')
-						await (redisClient as any).quit();
-					else if (typeof (redisClient as any).disconnect === 'function')
-						(redisClient as any).disconnect();
-				} catch (err) {
-					console.warn('[queueClient] error closing redis client', err);
-				}
-			}
-
-			return { pop, push, close };
+			return new RedisStreamQueueClient(clientInstance, {
+				queueName,
+				group: opts?.group ?? envVars.UPSTASH_CONSUMER_GROUP ?? 'generation_workers',
+				consumer: opts?.consumer ?? `${hostname()}-${process.pid}`,
+				maxDeliveries: envVars.UPSTASH_MAX_DELIVERIES ?? 5,
+				claimIdleMs: envVars.UPSTASH_CLAIM_IDLE_MS ?? 10 * 60 * 1000,
+				blockMs: 2000,
+			});
 		} catch (err) {
 			console.warn(
 				'[createQueueClient] Redis client initialization failed, falling back to REST',
@@ -0,0 +1,108 @@
+/**
+ * retryPolicy.ts
+ *
+ * generation job 的重試策略：各 job type 的重試上限與指數退避（含 jitter）延遲計算。
+ *
+ * 重試上限可透過環境變數 JOB_RETRY_LIMITS 覆寫，格式為 `<job_type>=<次數>` 以逗號分隔，
+ * 例如 `image=5,video=1`（格式於 lib/utils/env 啟動時驗證）。
+ */
+import { env } from "../lib/utils/env";
+import type { GenerationJobType } from "./handlers/types";
+
+/**
+ * 重試策略設定。
+ */
+export interface RetryPolicy {
+  /**
+   * 各 job type 的最大嘗試次數（含第一次執行）
+   */
+  maxAttempts: Partial<Record<GenerationJobType, number>>;
+  /**
+   * 未列於 maxAttempts 的 job type 使用的預設值
+   */
+  defaultMaxAttempts: number;
+  /**
+   * 第一次重試的基準延遲（毫秒），之後每次加倍
+   */
+  baseDelayMs: number;
+  /**
+   * 延遲上限（毫秒）
+   */
+  maxDelayMs: number;
+}
+
+/**
+ * 預設重試策略：外部媒體服務（image/audio）較容易遇到暫時性錯誤，給予較多次數；
+ * video 合成成本高，僅重試一次。
+ */
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: {
+    story_script: 3,
+    image: 5,
+    audio: 5,
+    video: 2,
+  },
+  defaultMaxAttempts: 3,
+  baseDelayMs: 5_000,
+  maxDelayMs: 15 * 60 * 1000,
+};
+
+/**
+ * 解析 JOB_RETRY_LIMITS（`image=5,video=1`），忽略格式錯誤的項目。
+ * @param raw 環境變數值
+ */
+export function parseRetryLimits(raw: string | undefined): Partial<Record<GenerationJobType, number>> {
+  const limits: Partial<Record<GenerationJobType, number>> = {};
+  if (!raw) return limits;
+  for (const part of raw.split(",")) {
+    const [type, value] = part.split("=").map((s) => s.trim());
+    const n = Number(value);
+    if (type && Number.isInteger(n) && n > 0) {
+      limits[type as GenerationJobType] = n;
+    }
+  }
+  return limits;
+}
+
+/**
+ * 合併預設策略、環境變數與呼叫端覆寫。
+ * @param overrides 呼叫端覆寫（例如測試）
+ * @param rawLimits JOB_RETRY_LIMITS 原始字串
+ */
+export function resolveRetryPolicy(
+  overrides: Partial<RetryPolicy> = {},
+  rawLimits: string | undefined = env.JOB_RETRY_LIMITS,
+): RetryPolicy {
+  return {
+    ...defaultRetryPolicy,
+    ...overrides,
+    maxAttempts: {
+      ...defaultRetryPolicy.maxAttempts,
+      ...parseRetryLimits(rawLimits),
+      ...overrides.maxAttempts,
+    },
+  };
+}
+
+/**
+ * 取得 job type 的最大嘗試次數。
+ * @param policy 重試策略
+ * @param jobType job type
+ */
+export function maxAttemptsFor(policy: RetryPolicy, jobType: GenerationJobType): number {
+  return policy.maxAttempts[jobType] ?? policy.defaultMaxAttempts;
+}
+
+/**
+ * 計算第 attempt 次失敗後的重試延遲：指數退避（base * 2^(attempt-1)，不超過 maxDelayMs），
+ * 再套用 equal jitter（取延遲的 50%~100%），避免大量 job 同時重試。
+ *
+ * @param attempt 已失敗的次數（從 1 開始）
+ * @param policy 重試策略
+ * @param random 亂數來源（便於測試）
+ * @returns 延遲毫秒數
+ */
+export function computeBackoffMs(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(exp / 2 + random() * (exp / 2));
+}
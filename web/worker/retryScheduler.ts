@@ -0,0 +1,61 @@
+import { takeDueRetries } from './db';
+import type { QueueClient } from './queueClient';
+
+/**
+ * RetryScheduler
+ *
+ * 定期掃描 generation_jobs 中 next_attempt_at 已到期的待重試 job，推回佇列。
+ * takeDueRetries 以 SKIP LOCKED 原子性地取出到期 job，多個 worker 同時執行也不會重複推送。
+ */
+export class RetryScheduler {
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private ticking = false;
+
+	/**
+	 * @param queue 推回佇列使用的 queue client
+	 * @param intervalMs 掃描間隔（毫秒）
+	 */
+	constructor(
+		private readonly queue: QueueClient,
+		private readonly intervalMs = 5000
+	) {}
+
+	/**
+	 * 執行一次掃描並推送到期的 job。
+	 * @returns 推送的 job 數量
+	 */
+	async tick(): Promise<number> {
+		if (this.ticking) return 0;
+		this.ticking = true;
+		try {
+			const due = await takeDueRetries();
+			for (const jobId of due) {
+				await this.queue.push({ jobId, timestamp: Date.now() });
+			}
+			if (due.length > 0) {
+				console.info('[retryScheduler] re-queued due retries', { count: due.length });
+			}
+			return due.length;
+		} finally {
+			this.ticking = false;
+		}
+	}
+
+	/**
+	 * 開始定期掃描。
+	 */
+	start() {
+		if (this.timer) return;
+		this.timer = setInterval(() => {
+			this.tick().catch((err) => console.error('[retryScheduler] tick failed', err));
+		}, this.intervalMs);
+	}
+
+	/**
+	 * 停止定期掃描。
+	 */
+	stop() {
+		if (this.timer) clearInterval(this.timer);
+		this.timer = null;
+	}
+}
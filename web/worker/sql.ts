@@ -0,0 +1,34 @@
+import { sql as vercelSql } from '@vercel/postgres';
+import type { QueryResult, QueryResultRow } from 'pg';
+import { env } from '../lib/utils/env';
+import { getPgPool } from '../lib/utils/pgPool';
+
+/**
+ * Worker SQL tagged template
+ *
+ * 預設使用 @vercel/postgres；QUEUE_DRIVER=postgres 時改用原生 pg Pool（DATABASE_URL），
+ * 讓 worker 可直接連線一般的本機 Postgres（@vercel/postgres 需要 Neon 相容的 WebSocket 端點）。
+ */
+
+type Primitive = string | number | boolean | undefined | null;
+
+/**
+ * 是否使用 Postgres queue driver（同時決定 worker 的 SQL 連線方式）。
+ */
+export function isPostgresDriver(): boolean {
+	return env.QUEUE_DRIVER === 'postgres';
+}
+
+/**
+ * 與 @vercel/postgres `sql` 相同用法的 tagged template；插值一律轉為 $n 參數。
+ */
+export async function sql<O extends QueryResultRow = QueryResultRow>(
+	strings: TemplateStringsArray,
+	...values: Primitive[]
+): Promise<QueryResult<O>> {
+	if (!isPostgresDriver()) {
+		return vercelSql<O>(strings, ...values);
+	}
+	const text = strings.reduce((acc, part, i) => `${acc}$${i}${part}`);
+	return getPgPool().query<O>(text, values);
+}
@@ -21,6 +21,7 @@ import { env } from "../lib/utils/env";
 export interface ComposeOptions {
   imageUris: string[]; // array of image URLs (or local paths)
   audioUri?: string; // single audio track for whole video (optional)
+  audioUris?: string[]; // per-page narration (same order as imageUris); takes precedence over audioUri
   perPageDurations?: number[]; // seconds per image; if omitted: evenly split
   outputDir?: string; // where to store temporary outputs
   outputFilename?: string; // desired output filename (without dir)
@@ -46,13 +47,15 @@ function ensureDir(dir: string) {
 }
 
 /**
- * Download remote images to local temp files (naive implementation).
+ * Download remote files to local temp files (naive implementation).
  * In production, prefer streaming to disk with proper retries & timeouts.
- * @param uris
+ * @param uris remote URLs, file:// URIs or local paths
  * @param destDir
+ * @param prefix output filename prefix (e.g. "img", "audio")
+ * @param ext output file extension for downloaded files
  * @returns array of local file paths (same order)
  */
-async function downloadImagesToLocal(uris: string[], destDir: string): Promise<string[]> {
+async function downloadFilesToLocal(uris: string[], destDir: string, prefix: string, ext: string): Promise<string[]> {
   ensureDir(destDir);
   const results: string[] = [];
 
@@ -61,22 +64,33 @@ async function downloadImagesToLocal(uris: string[], destDir: string): Promise<s
     const uri = uris[i];
     if (uri.startsWith("http://") || uri.startsWith("https://")) {
       // fetch and save
-      const outPath = path.join(destDir, `img_${i}.png`);
+      const outPath = path.join(destDir, `${prefix}_${i}.${ext}`);
       const res = await fetch(uri);
-      if (!res.ok) throw new Error(`failed to download image ${uri}: ${res.status}`);
+      if (!res.ok) throw new Error(`failed to download ${prefix} ${uri}: ${res.status}`);
       const buffer = Buffer.from(await res.arrayBuffer());
       fs.writeFileSync(outPath, buffer);
       results.push(outPath);
     } else {
-      // assume local path
-      if (!fs.existsSync(uri)) throw new Error(`local image not found: ${uri}`);
-      results.push(uri);
+      // assume local path (blobUploader returns file:// URIs)
+      const localPath = uri.startsWith("file://") ? uri.slice("file://".length) : uri;
+      if (!fs.existsSync(localPath)) throw new Error(`local ${prefix} not found: ${localPath}`);
+      results.push(localPath);
     }
   }
 
   return results;
 }
 
+/**
+ * Download remote images to local temp files.
+ * @param uris
+ * @param destDir
+ * @returns array of local file paths (same order)
+ */
+async function downloadImagesToLocal(uris: string[], destDir: string): Promise<string[]> {
+  return downloadFilesToLocal(uris, destDir, "img", "png");
+}
+
 /**
  * Compose images + audio into a single video using ffmpeg.
  * This implementation:
@@ -104,12 +118,47 @@ export async function composeVideo(opts: ComposeOptions): Promise<ComposeResult>
       ? opts.perPageDurations
       : imagePaths.map(() => 3); // default 3s per image
 
+  // per-page narration: each segment carries its own audio (padded with silence up to the page duration)
+  const perPageAudio = !!opts.audioUris && opts.audioUris.length === imagePaths.length;
+  const audioPaths = perPageAudio
+    ? await downloadFilesToLocal(opts.audioUris as string[], path.join(tmpDir, "audio"), "audio", "mp3")
+    : [];
+
   // Step 1: create per-image video segments
   const segmentPaths: string[] = [];
   for (let i = 0; i < imagePaths.length; i++) {
     const img = imagePaths[i];
     const dur = durations[i];
     const segPath = path.join(tmpDir, `seg_${i}.mp4`);
+    if (perPageAudio) {
+      // ffmpeg -y -loop 1 -i img -i audio -c:v libx264 -t {dur} -pix_fmt yuv420p -vf scale=1280:720 -r {fps} -c:a aac -af apad segPath
+      await runFfmpeg([
+        "-y",
+        "-loop",
+        "1",
+        "-i",
+        img,
+        "-i",
+        audioPaths[i],
+        "-c:v",
+        "libx264",
+        "-t",
+        String(dur),
+        "-pix_fmt",
+        "yuv420p",
+        "-vf",
+        "scale=1280:720",
+        "-r",
+        String(fps),
+        "-c:a",
+        "aac",
+        "-af",
+        "apad",
+        segPath,
+      ]);
+      segmentPaths.push(segPath);
+      continue;
+    }
     // ffmpeg command:
     // ffmpeg -y -loop 1 -i img -c:v libx264 -t {dur} -pix_fmt yuv420p -vf scale=1280:720 -r {fps} segPath
     await runFfmpeg([
@@ -144,8 +193,8 @@ export async function composeVideo(opts: ComposeOptions): Promise<ComposeResult>
 
   let finalPath = outPath;
 
-  // Step 4: if audio provided, merge audio
-  if (opts.audioUri) {
+  // Step 4: if a single audio track is provided, merge audio (per-page audio is already in the segments)
+  if (!perPageAudio && opts.audioUri) {
     // download audio if needed
     let audioPath = opts.audioUri;
     if (audioPath.startsWith("http://") || audioPath.startsWith("https://")) {
@@ -172,6 +221,7 @@ export async function composeVideo(opts: ComposeOptions): Promise<ComposeResult>
     format,
     metadata: {
       segments: segmentPaths.length,
+      perPageAudio,
       durationSeconds: durations.reduce((a, b) => a + b, 0),
     },
   };